@@ -0,0 +1,74 @@
+-- Migration: 0001_tenancy_and_runs
+-- テナント・ユーザー・メンバーシップ・プロジェクト・Run
+
+CREATE TABLE tenants (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  plan TEXT NOT NULL DEFAULT 'free',
+  settings TEXT NOT NULL DEFAULT '{}', -- JSON
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE users (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  name TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- ロールは Role 型（owner/operator/reviewer/viewer）に対応
+CREATE TABLE memberships (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'operator', 'reviewer', 'viewer')),
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE (tenant_id, user_id)
+);
+
+CREATE INDEX idx_memberships_user ON memberships(user_id);
+
+-- 商材/オファー
+CREATE TABLE projects (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  settings TEXT NOT NULL DEFAULT '{}', -- JSON
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_projects_tenant ON projects(tenant_id);
+
+-- Run（src/domain/run.ts）
+CREATE TABLE runs (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL CHECK (status IN (
+    'draft', 'designing', 'generating', 'ready_for_review', 'approved',
+    'publishing', 'live', 'running', 'paused', 'completed', 'archived'
+  )),
+  stop_rules TEXT NOT NULL DEFAULT '[]', -- JSON: StopRule[]
+  created_by TEXT NOT NULL,
+  approved_by TEXT,
+  approved_at TEXT,
+  started_at TEXT,
+  completed_at TEXT,
+  archived_at TEXT,
+  history TEXT NOT NULL DEFAULT '[]', -- JSON: RunTransition[]
+  metadata TEXT NOT NULL DEFAULT '{}', -- JSON
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_runs_tenant ON runs(tenant_id, created_at);
+CREATE INDEX idx_runs_project ON runs(project_id);
+CREATE INDEX idx_runs_status ON runs(status);
@@ -0,0 +1,58 @@
+-- Migration: 0002_variants_and_deployments
+-- LP/クリエイティブのバリアントと公開デプロイメント
+
+CREATE TABLE variants_lp (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  content TEXT NOT NULL DEFAULT '{}', -- JSON: 構成
+  status TEXT NOT NULL DEFAULT 'draft',
+  approved_by TEXT,
+  approved_at TEXT,
+  published_url TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_variants_lp_run ON variants_lp(tenant_id, run_id);
+
+CREATE TABLE variants_creative (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  aspect_ratio TEXT NOT NULL,
+  asset_key TEXT, -- R2 オブジェクトキー
+  content TEXT NOT NULL DEFAULT '{}', -- JSON
+  status TEXT NOT NULL DEFAULT 'draft',
+  approved_by TEXT,
+  approved_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_variants_creative_run ON variants_creative(tenant_id, run_id);
+
+-- Deployment（src/domain/publishing.ts）
+CREATE TABLE deployments (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  environment TEXT NOT NULL CHECK (environment IN ('preview', 'staging', 'production')),
+  status TEXT NOT NULL CHECK (status IN ('pending', 'deploying', 'deployed', 'failed', 'rollback', 'cancelled')),
+  version INTEGER NOT NULL,
+  deployed_by TEXT NOT NULL,
+  deployed_at TEXT,
+  completed_at TEXT,
+  assets TEXT NOT NULL DEFAULT '[]', -- JSON: DeployedAsset[]
+  urls TEXT NOT NULL DEFAULT '{}', -- JSON: GeneratedUrls
+  error TEXT,
+  metadata TEXT NOT NULL DEFAULT '{}', -- JSON
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE (run_id, environment, version)
+);
+
+CREATE INDEX idx_deployments_run ON deployments(tenant_id, run_id, environment);
@@ -0,0 +1,75 @@
+-- Migration: 0003_meta_and_metrics
+-- Meta接続・Metaエンティティ・集計メトリクス
+
+-- MetaConnection（src/domain/meta-api.ts）
+CREATE TABLE meta_connections (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  ad_account_id TEXT NOT NULL,
+  business_id TEXT,
+  token TEXT NOT NULL, -- JSON: MetaToken（暗号化して保存）
+  status TEXT NOT NULL CHECK (status IN ('active', 'expired', 'revoked')),
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_meta_connections_tenant ON meta_connections(tenant_id, status);
+
+-- MetaCampaign / MetaAdSet / MetaAd（payload に型をそのまま保存）
+CREATE TABLE meta_entities (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('campaign', 'adset', 'ad')),
+  parent_id TEXT,
+  meta_id TEXT,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('ACTIVE', 'PAUSED', 'DELETED', 'ARCHIVED')),
+  payload TEXT NOT NULL, -- JSON
+  synced_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_meta_entities_run ON meta_entities(run_id, entity_type);
+CREATE INDEX idx_meta_entities_tenant ON meta_entities(tenant_id);
+CREATE UNIQUE INDEX idx_meta_entities_meta_id ON meta_entities(meta_id) WHERE meta_id IS NOT NULL;
+
+-- HourlyMetrics（src/domain/measurement.ts）
+CREATE TABLE metrics_hourly (
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  variant_id TEXT NOT NULL,
+  hour TEXT NOT NULL, -- YYYY-MM-DDTHH:00:00Z
+  impressions INTEGER NOT NULL DEFAULT 0,
+  clicks INTEGER NOT NULL DEFAULT 0,
+  spend REAL NOT NULL DEFAULT 0,
+  conversions INTEGER NOT NULL DEFAULT 0,
+  revenue REAL NOT NULL DEFAULT 0,
+  PRIMARY KEY (run_id, variant_id, hour)
+);
+
+CREATE INDEX idx_metrics_hourly_run_hour ON metrics_hourly(run_id, hour);
+
+-- DailyMetrics（src/domain/measurement.ts）
+CREATE TABLE metrics_daily (
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  variant_id TEXT NOT NULL,
+  date TEXT NOT NULL, -- YYYY-MM-DD
+  impressions INTEGER NOT NULL DEFAULT 0,
+  reach INTEGER NOT NULL DEFAULT 0,
+  clicks INTEGER NOT NULL DEFAULT 0,
+  spend REAL NOT NULL DEFAULT 0,
+  conversions INTEGER NOT NULL DEFAULT 0,
+  revenue REAL NOT NULL DEFAULT 0,
+  cpc REAL NOT NULL DEFAULT 0,
+  cpm REAL NOT NULL DEFAULT 0,
+  ctr REAL NOT NULL DEFAULT 0,
+  cvr REAL NOT NULL DEFAULT 0,
+  cpa REAL NOT NULL DEFAULT 0,
+  roas REAL NOT NULL DEFAULT 0,
+  PRIMARY KEY (run_id, variant_id, date)
+);
+
+CREATE INDEX idx_metrics_daily_run_date ON metrics_daily(run_id, date);
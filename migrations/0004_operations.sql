@@ -0,0 +1,99 @@
+-- Migration: 0004_operations
+-- 停止イベント・手動停止タスク・監査ログ・通知・テスト結果
+
+-- StopEvent（src/domain/stop-event.ts）
+CREATE TABLE stop_events (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('cron', 'api')),
+  reason TEXT NOT NULL,
+  rule_id TEXT,
+  rule_type TEXT,
+  threshold REAL,
+  observed_value REAL,
+  condition TEXT NOT NULL,
+  ambiguities TEXT NOT NULL DEFAULT '[]', -- JSON: string[]
+  affected_entities TEXT NOT NULL DEFAULT '[]', -- JSON: StopEventEntity[]
+  pause_result TEXT NOT NULL CHECK (pause_result IN ('api_paused', 'manual_fallback_required', 'no_active_entities')),
+  run_status_before TEXT NOT NULL,
+  run_status_after TEXT,
+  occurred_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_stop_events_run ON stop_events(tenant_id, run_id, occurred_at);
+
+-- ManualStopTask（src/domain/manual-stop.ts）
+CREATE TABLE manual_stop_tasks (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  stop_event_id TEXT NOT NULL REFERENCES stop_events(id) ON DELETE CASCADE,
+  entities TEXT NOT NULL, -- JSON: StopEventEntity[]
+  status TEXT NOT NULL CHECK (status IN ('pending', 'confirmed')),
+  escalation_level INTEGER NOT NULL DEFAULT 0,
+  last_notified_at TEXT,
+  next_escalation_at TEXT NOT NULL,
+  confirmed_by TEXT,
+  confirmed_at TEXT,
+  confirmation_note TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_manual_stop_tasks_tenant ON manual_stop_tasks(tenant_id, status, created_at);
+CREATE INDEX idx_manual_stop_tasks_due ON manual_stop_tasks(status, next_escalation_at);
+
+-- 操作履歴（追記のみ）
+CREATE TABLE audit_logs (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  actor_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  details TEXT NOT NULL DEFAULT '{}', -- JSON
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_audit_logs_tenant ON audit_logs(tenant_id, created_at);
+
+-- Notification（src/domain/notification.ts）
+CREATE TABLE notifications (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  priority TEXT NOT NULL CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+  channel TEXT NOT NULL CHECK (channel IN ('slack', 'email', 'webhook', 'in_app')),
+  recipients TEXT NOT NULL DEFAULT '[]', -- JSON: NotificationRecipient[]
+  subject TEXT NOT NULL,
+  message TEXT NOT NULL,
+  data TEXT NOT NULL DEFAULT '{}', -- JSON
+  status TEXT NOT NULL CHECK (status IN ('pending', 'sent', 'failed', 'read')),
+  sent_at TEXT,
+  read_at TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_notifications_tenant ON notifications(tenant_id, created_at);
+CREATE INDEX idx_notifications_status ON notifications(status);
+
+-- TestResult（src/domain/winner-learning.ts）
+CREATE TABLE test_results (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  test_type TEXT NOT NULL CHECK (test_type IN ('ab_test', 'multivariate', 'bandit')),
+  start_date TEXT NOT NULL,
+  end_date TEXT NOT NULL,
+  primary_metric TEXT NOT NULL,
+  variants TEXT NOT NULL DEFAULT '[]', -- JSON: VariantResult[]
+  winner TEXT NOT NULL, -- JSON: WinnerDecision
+  confidence REAL NOT NULL,
+  sample_size INTEGER NOT NULL,
+  learnings TEXT NOT NULL DEFAULT '[]', -- JSON: Learning[]
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_test_results_run ON test_results(tenant_id, run_id, created_at);
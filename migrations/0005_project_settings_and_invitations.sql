@@ -0,0 +1,26 @@
+-- Migration: 0005_project_settings_and_invitations
+-- プロジェクト設定（CV定義/注意文/禁則/ブランド）と招待
+
+ALTER TABLE projects ADD COLUMN conversion_definitions TEXT NOT NULL DEFAULT '[]'; -- JSON: ProjectConversionDefinition[]
+ALTER TABLE projects ADD COLUMN disclaimer_templates TEXT NOT NULL DEFAULT '[]'; -- JSON: DisclaimerTemplate[]
+ALTER TABLE projects ADD COLUMN banned_expressions TEXT NOT NULL DEFAULT '[]'; -- JSON: BannedExpression[]
+ALTER TABLE projects ADD COLUMN brand_settings TEXT NOT NULL DEFAULT '{}'; -- JSON: BrandSettings
+ALTER TABLE projects ADD COLUMN created_by TEXT NOT NULL DEFAULT '';
+ALTER TABLE projects ADD COLUMN archived_at TEXT;
+
+-- Invitation（src/domain/tenancy.ts）
+CREATE TABLE invitations (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'operator', 'reviewer', 'viewer')),
+  invited_by TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'accepted', 'revoked')),
+  expires_at TEXT NOT NULL,
+  accepted_by TEXT,
+  accepted_at TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_invitations_tenant ON invitations(tenant_id, status);
@@ -0,0 +1,5 @@
+-- Migration: 0006_user_mfa
+-- TOTP MFA（src/domain/auth.ts）。マジックリンクとセッションは KV（CACHE）に保存
+
+ALTER TABLE users ADD COLUMN mfa_secret TEXT; -- Base32。登録開始時に設定
+ALTER TABLE users ADD COLUMN mfa_enabled_at TEXT; -- 初回コード検証で有効化
@@ -0,0 +1,17 @@
+-- Migration: 0007_audit_log_hash_chain
+-- 監査ログのハッシュチェーン（src/domain/audit.ts）
+
+ALTER TABLE audit_logs ADD COLUMN sequence INTEGER NOT NULL DEFAULT 0; -- テナント内の連番
+ALTER TABLE audit_logs ADD COLUMN changes TEXT NOT NULL DEFAULT '[]'; -- JSON: AuditChange[]
+ALTER TABLE audit_logs ADD COLUMN prev_hash TEXT NOT NULL DEFAULT '';
+ALTER TABLE audit_logs ADD COLUMN hash TEXT NOT NULL DEFAULT '';
+
+-- 同時追記では片方が失敗し、チェーンが分岐しない
+CREATE UNIQUE INDEX idx_audit_logs_sequence ON audit_logs(tenant_id, sequence);
+
+-- 追記のみ（更新は拒否。削除はテナント削除のカスケードのため許可）
+CREATE TRIGGER audit_logs_append_only
+BEFORE UPDATE ON audit_logs
+BEGIN
+  SELECT RAISE(ABORT, 'audit_logs is append-only');
+END;
@@ -0,0 +1,6 @@
+-- Migration: 0008_audit_log_search
+-- 監査ログ検索（GET /tenants/:tenantId/audit-logs）の絞り込み用インデックス
+
+CREATE INDEX idx_audit_logs_actor ON audit_logs(tenant_id, actor_id, sequence);
+CREATE INDEX idx_audit_logs_target ON audit_logs(tenant_id, target_type, target_id, sequence);
+CREATE INDEX idx_audit_logs_action ON audit_logs(tenant_id, action, sequence);
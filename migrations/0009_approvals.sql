@@ -0,0 +1,23 @@
+-- Migration: 0009_approvals
+-- 配信前承認（src/domain/approval.ts）
+
+CREATE TABLE approvals (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  target_type TEXT NOT NULL CHECK (
+    target_type IN ('lp', 'creative', 'measurement', 'stop_rules', 'budget_cap', 'destination_url')
+  ),
+  target_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'approved', 'rejected')),
+  checklist TEXT NOT NULL, -- JSON: ApprovalChecklistItem[]
+  comments TEXT NOT NULL DEFAULT '[]', -- JSON: ApprovalComment[]
+  sign_offs TEXT NOT NULL DEFAULT '[]', -- JSON: ApprovalSignOff[]
+  requested_by TEXT NOT NULL,
+  approved_by TEXT,
+  approved_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_approvals_run ON approvals(tenant_id, run_id, target_type);
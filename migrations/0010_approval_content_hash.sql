@@ -0,0 +1,6 @@
+-- Migration: 0010_approval_content_hash
+-- 承認対象の内容ハッシュ（承認後の変更で承認待ちへ戻す）と Run の配信先URL
+
+ALTER TABLE approvals ADD COLUMN content_hash TEXT; -- SHA-256（承認対象の正規化 JSON）
+ALTER TABLE approvals ADD COLUMN invalidated_at TEXT;
+ALTER TABLE runs ADD COLUMN destination_url TEXT;
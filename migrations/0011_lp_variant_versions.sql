@@ -0,0 +1,29 @@
+-- Migration: 0011_lp_variant_versions
+-- LP バリアントの版管理（src/domain/lp-variant.ts）
+-- variants_lp は最新版の内容とステータスを保持し、全版を lp_variant_versions に残す
+
+ALTER TABLE variants_lp ADD COLUMN appeal TEXT;
+ALTER TABLE variants_lp ADD COLUMN layout_type TEXT;
+ALTER TABLE variants_lp ADD COLUMN offer TEXT;
+ALTER TABLE variants_lp ADD COLUMN published_version INTEGER;
+ALTER TABLE variants_lp ADD COLUMN created_by TEXT;
+
+CREATE TABLE lp_variant_versions (
+  variant_id TEXT NOT NULL REFERENCES variants_lp(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('draft', 'submitted', 'approved', 'published')),
+  content TEXT NOT NULL, -- JSON: LpContent
+  created_by TEXT NOT NULL,
+  restored_from INTEGER,
+  submitted_by TEXT,
+  submitted_at TEXT,
+  approved_by TEXT,
+  approved_at TEXT,
+  published_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (variant_id, version)
+);
+
+CREATE INDEX idx_lp_variant_versions_tenant ON lp_variant_versions(tenant_id, variant_id);
@@ -0,0 +1,4 @@
+-- Migration: 0012_run_pixels
+-- Run の計測タグ（LP ランタイムが <head> に埋め込む）
+
+ALTER TABLE runs ADD COLUMN pixels TEXT NOT NULL DEFAULT '[]'; -- JSON: PixelConfig[]
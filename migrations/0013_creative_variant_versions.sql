@@ -0,0 +1,29 @@
+-- Migration: 0013_creative_variant_versions
+-- クリエイティブバリアントの版管理（src/domain/creative-variant.ts）
+-- variants_creative は最新版の内容とステータスを保持し、全版を creative_variant_versions に残す
+-- aspect_ratio は構成に含まれるアスペクト比のカンマ区切り（サイズごとのテンプレートは content に保持）
+
+ALTER TABLE variants_creative ADD COLUMN appeal TEXT;
+ALTER TABLE variants_creative ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE variants_creative ADD COLUMN published_version INTEGER;
+ALTER TABLE variants_creative ADD COLUMN created_by TEXT;
+
+CREATE TABLE creative_variant_versions (
+  variant_id TEXT NOT NULL REFERENCES variants_creative(id) ON DELETE CASCADE,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('draft', 'submitted', 'approved', 'published')),
+  content TEXT NOT NULL, -- JSON: CreativeContent
+  created_by TEXT NOT NULL,
+  restored_from INTEGER,
+  submitted_by TEXT,
+  submitted_at TEXT,
+  approved_by TEXT,
+  approved_at TEXT,
+  published_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (variant_id, version)
+);
+
+CREATE INDEX idx_creative_variant_versions_tenant ON creative_variant_versions(tenant_id, variant_id);
@@ -0,0 +1,19 @@
+-- Migration: 0014_creative_images
+-- クリエイティブ用のアップロード画像（src/domain/creative-image.ts）
+-- 本体は R2（key）に保存し、寸法とハッシュを記録する。切り抜きはテンプレートの画像レイヤーに保持
+
+CREATE TABLE creative_images (
+  id TEXT PRIMARY KEY,
+  tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  run_id TEXT NOT NULL REFERENCES runs(id) ON DELETE CASCADE,
+  key TEXT NOT NULL UNIQUE,
+  content_type TEXT NOT NULL,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  size INTEGER NOT NULL,
+  hash TEXT NOT NULL,
+  uploaded_by TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_creative_images_run ON creative_images(tenant_id, run_id, created_at);
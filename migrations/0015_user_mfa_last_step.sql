@@ -0,0 +1,4 @@
+-- Migration: 0015_user_mfa_last_step
+-- TOTP の再利用防止（src/domain/auth.ts）。検証失敗の回数とロックは KV（CACHE）に保存
+
+ALTER TABLE users ADD COLUMN mfa_last_used_step INTEGER; -- 最後に受け付けた TOTP の時間ステップ
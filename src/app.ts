@@ -0,0 +1,73 @@
+/**
+ * Application
+ * ルーティングとリポジトリの注入
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv, Bindings } from './env'
+import { createD1Repositories } from './repositories/d1'
+import type { Repositories } from './repositories/types'
+import { identifyCaller } from './middleware/auth'
+import approvals from './routes/approvals'
+import auditLogs from './routes/audit-logs'
+import auth from './routes/auth'
+import creative from './routes/creative'
+import creativeImages from './routes/creative-images'
+import creativeVariants from './routes/creative-variants'
+import deployments from './routes/deployments'
+import lp from './routes/lp'
+import lpVariants from './routes/lp-variants'
+import manualStops from './routes/manual-stops'
+import members from './routes/members'
+import ownedAuditLogs from './routes/owned-audit-logs'
+import projects from './routes/projects'
+import runs from './routes/runs'
+import stopRules from './routes/stop-rules'
+import tenants from './routes/tenants'
+
+/**
+ * Honoアプリを作成（テストではインメモリリポジトリを渡す）
+ */
+export function createApp(
+  resolveRepositories: (env: Bindings) => Repositories = (env) => createD1Repositories(env.DB)
+) {
+  const app = new Hono<AppEnv>()
+
+  app.use('*', async (c, next) => {
+    c.set('repositories', resolveRepositories(c.env))
+    await next()
+  })
+  app.use('*', identifyCaller)
+
+  app.get('/', (c) => {
+    return c.json({
+      name: 'Launch Test System',
+      version: '0.1.0',
+      environment: c.env.ENVIRONMENT,
+      status: 'ok'
+    })
+  })
+
+  app.get('/health', (c) => {
+    return c.json({ status: 'healthy' })
+  })
+
+  app.route('/audit-logs', ownedAuditLogs)
+  app.route('/auth', auth)
+  app.route('/creative', creative)
+  app.route('/lp', lp)
+  app.route('/stop-rules', stopRules)
+  app.route('/tenants', tenants)
+  app.route('/tenants/:tenantId/projects', projects)
+  app.route('/tenants/:tenantId/members', members)
+  app.route('/tenants/:tenantId/runs/:runId/deployments', deployments)
+  app.route('/tenants/:tenantId/runs/:runId/approvals', approvals)
+  app.route('/tenants/:tenantId/runs/:runId/lp-variants', lpVariants)
+  app.route('/tenants/:tenantId/runs/:runId/creative-variants', creativeVariants)
+  app.route('/tenants/:tenantId/runs/:runId/creative-images', creativeImages)
+  app.route('/tenants/:tenantId/runs', runs)
+  app.route('/tenants/:tenantId/manual-stops', manualStops)
+  app.route('/tenants/:tenantId/audit-logs', auditLogs)
+
+  return app
+}
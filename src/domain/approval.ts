@@ -0,0 +1,508 @@
+/**
+ * Approval Workflow
+ * 配信前承認（対象ごとのチェックリスト、コメント、承認記録、承認ゲート）
+ * 承認は対象内容の SHA-256 に紐づき、承認後に内容が変わると承認待ちへ戻る
+ */
+
+import { canonicalJson, sha256Hex } from './audit'
+import {
+  applyTemplate,
+  createNotification,
+  getDefaultTemplate,
+  type Notification,
+  type NotificationRecipient,
+} from './notification'
+import type { Run } from './run'
+import type { StopRuleType } from './stop-rules'
+
+// 承認対象
+export type ApprovalTargetType =
+  | 'lp'
+  | 'creative'
+  | 'measurement'
+  | 'stop_rules'
+  | 'budget_cap'
+  | 'destination_url'
+
+// 承認ステータス
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected'
+
+// 承認判断
+export type ApprovalDecision = 'approved' | 'rejected'
+
+// チェックリスト項目
+export interface ApprovalChecklistItem {
+  id: string
+  label: string
+  checked: boolean
+  checkedBy?: string
+  checkedAt?: string
+}
+
+// コメント
+export interface ApprovalComment {
+  id: string
+  authorId: string
+  body: string
+  createdAt: string
+}
+
+// 承認記録（誰がいつ判断したか）
+export interface ApprovalSignOff {
+  reviewerId: string
+  decision: ApprovalDecision
+  comment?: string
+  signedAt: string
+}
+
+// 承認
+export interface Approval {
+  id: string
+  tenantId: string
+  runId: string
+  targetType: ApprovalTargetType
+  targetId?: string // LP/クリエイティブのバリアントID など
+  status: ApprovalStatus
+  checklist: ApprovalChecklistItem[]
+  comments: ApprovalComment[]
+  signOffs: ApprovalSignOff[]
+  requestedBy: string
+  approvedBy?: string
+  approvedAt?: string
+  contentHash?: string // 審査中（承認済みなら承認した）内容のハッシュ
+  invalidatedAt?: string // 内容の変更で承認待ちへ戻った日時
+  createdAt: string
+  updatedAt: string
+}
+
+// 承認依頼リクエスト
+export interface ApprovalRequest {
+  tenantId: string
+  runId: string
+  targetType: ApprovalTargetType
+  targetId?: string
+  requestedBy: string
+  contentHash?: string
+}
+
+// 承認ゲートの判定結果（unapprovedVariantIds は現在の内容の承認が無い LP・クリエイティブ）
+export interface ApprovalGateResult {
+  allowed: boolean
+  reason?: string
+  missingTargets: ApprovalTargetType[]
+  unapprovedIds: string[]
+  unapprovedVariantIds: string[]
+}
+
+// 承認ゲートで個別に承認を確認する Run のバリアント（最新版の内容ハッシュ）
+export interface ApprovalGateVariant {
+  targetType: 'lp' | 'creative'
+  id: string
+  contentHash: string
+}
+
+// 配信開始前に承認が必要な対象
+export const APPROVAL_TARGETS: ApprovalTargetType[] = [
+  'lp',
+  'creative',
+  'measurement',
+  'stop_rules',
+  'budget_cap',
+  'destination_url',
+]
+
+// 対象ごとのチェックリスト
+export const APPROVAL_CHECKLISTS: Record<ApprovalTargetType, string[]> = {
+  lp: [
+    '薬機法・景表法に抵触する表現がない',
+    '価格・オファー・期限の表記が正しい',
+    'CTA とリンク先が正しい',
+    'PC/SP で表示崩れがない',
+    '会社情報・特商法表記・プライバシーポリシーへの導線がある',
+  ],
+  creative: [
+    '薬機法・景表法に抵触する表現がない',
+    'テキスト量とセーフエリアが媒体の基準内',
+    '画像・素材の権利を確認した',
+    'LP の訴求内容と一致している',
+  ],
+  measurement: [
+    'ピクセル/タグが LP に設置されている',
+    'CV イベントの定義と発火を確認した',
+    'UTM パラメータが付与されている',
+  ],
+  stop_rules: ['停止条件が設定されている', '閾値と評価期間が妥当', '停止時の通知先が設定されている'],
+  budget_cap: ['予算上限が設定されている', '日予算・総予算が承認済みの金額以内', '課金通貨とタイムゾーンを確認した'],
+  destination_url: ['配信先 URL が本番 URL である', 'HTTPS で到達できる', 'リダイレクト先が想定どおり'],
+}
+
+// 予算上限として扱う停止条件
+const BUDGET_RULE_TYPES: StopRuleType[] = ['total_budget', 'daily_budget']
+
+/**
+ * 承認IDを生成
+ */
+export function generateApprovalId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `appr_${timestamp}_${random}`
+}
+
+/**
+ * コメントIDを生成
+ */
+export function generateApprovalCommentId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 6)
+  return `acmt_${timestamp}_${random}`
+}
+
+/**
+ * 対象のチェックリストを作成（すべて未チェック）
+ */
+export function createChecklist(targetType: ApprovalTargetType): ApprovalChecklistItem[] {
+  return APPROVAL_CHECKLISTS[targetType].map((label, index) => ({
+    id: `${targetType}_${index + 1}`,
+    label,
+    checked: false,
+  }))
+}
+
+/**
+ * 承認を依頼
+ */
+export function createApproval(request: ApprovalRequest, now = new Date()): Approval {
+  if (!APPROVAL_TARGETS.includes(request.targetType)) {
+    throw new Error('Invalid approval target')
+  }
+
+  const timestamp = now.toISOString()
+
+  return {
+    id: generateApprovalId(),
+    tenantId: request.tenantId,
+    runId: request.runId,
+    targetType: request.targetType,
+    targetId: request.targetId,
+    status: 'pending',
+    checklist: createChecklist(request.targetType),
+    comments: [],
+    signOffs: [],
+    requestedBy: request.requestedBy,
+    contentHash: request.contentHash,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * チェックリスト項目を更新（判断済みの承認は変更不可）
+ */
+export function setChecklistItem(
+  approval: Approval,
+  itemId: string,
+  checked: boolean,
+  userId: string,
+  now = new Date()
+): Approval {
+  if (approval.status !== 'pending') {
+    throw new Error(`Approval is ${approval.status}`)
+  }
+  if (!approval.checklist.some((item) => item.id === itemId)) {
+    throw new Error('Checklist item not found')
+  }
+
+  const timestamp = now.toISOString()
+
+  return {
+    ...approval,
+    checklist: approval.checklist.map((item) =>
+      item.id !== itemId
+        ? item
+        : checked
+          ? { ...item, checked: true, checkedBy: userId, checkedAt: timestamp }
+          : { id: item.id, label: item.label, checked: false }
+    ),
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * コメントを追加
+ */
+export function addApprovalComment(approval: Approval, authorId: string, body: string, now = new Date()): Approval {
+  const text = body.trim()
+  if (!text) {
+    throw new Error('Comment is required')
+  }
+
+  const timestamp = now.toISOString()
+
+  return {
+    ...approval,
+    comments: [...approval.comments, { id: generateApprovalCommentId(), authorId, body: text, createdAt: timestamp }],
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * チェックリストがすべて完了しているか
+ */
+export function isChecklistComplete(approval: Approval): boolean {
+  return approval.checklist.every((item) => item.checked)
+}
+
+/**
+ * 承認または差し戻し（承認はチェックリスト完了が必須、差し戻しはコメント必須）
+ */
+export function signOffApproval(
+  approval: Approval,
+  reviewerId: string,
+  decision: ApprovalDecision,
+  comment?: string,
+  now = new Date()
+): Approval {
+  if (approval.status !== 'pending') {
+    throw new Error(`Approval is ${approval.status}`)
+  }
+  if (decision === 'approved' && !isChecklistComplete(approval)) {
+    throw new Error('Checklist is incomplete')
+  }
+  if (decision === 'rejected' && !comment?.trim()) {
+    throw new Error('Comment is required to reject')
+  }
+
+  const timestamp = now.toISOString()
+  const signOff: ApprovalSignOff = { reviewerId, decision, signedAt: timestamp }
+  if (comment?.trim()) signOff.comment = comment.trim()
+
+  const updated: Approval = {
+    ...approval,
+    status: decision,
+    signOffs: [...approval.signOffs, signOff],
+    updatedAt: timestamp,
+  }
+  if (decision === 'approved') {
+    updated.approvedBy = reviewerId
+    updated.approvedAt = timestamp
+  }
+  return updated
+}
+
+/**
+ * 差し戻された承認を再提出（チェックリストをやり直す）
+ */
+export function resubmitApproval(approval: Approval, now = new Date()): Approval {
+  if (approval.status !== 'rejected') {
+    throw new Error('Only rejected approvals can be resubmitted')
+  }
+
+  return {
+    ...approval,
+    status: 'pending',
+    checklist: createChecklist(approval.targetType),
+    updatedAt: now.toISOString(),
+  }
+}
+
+/**
+ * 承認対象の内容ハッシュ（キー順を固定した JSON の SHA-256）
+ */
+export function computeApprovalContentHash(content: unknown): Promise<string> {
+  return sha256Hex(canonicalJson(content))
+}
+
+/**
+ * Run が保持する承認対象の内容（LP/クリエイティブは Run の外にあるため undefined）
+ */
+export function getRunApprovalContent(run: Run, targetType: ApprovalTargetType): unknown {
+  switch (targetType) {
+    case 'stop_rules':
+      return run.stopRules
+    case 'budget_cap':
+      return run.stopRules.filter((rule) => BUDGET_RULE_TYPES.includes(rule.type))
+    case 'destination_url':
+      return run.destinationUrl ?? null
+    case 'measurement':
+      return run.pixels ?? []
+    default:
+      return undefined
+  }
+}
+
+/**
+ * 内容が審査時から変わっているか
+ */
+export function hasApprovalContentChanged(approval: Approval, contentHash: string): boolean {
+  return approval.contentHash !== contentHash
+}
+
+/**
+ * 内容の変更を反映（承認済み・承認待ちはチェックリストをやり直して承認待ちへ戻す）
+ */
+export function invalidateApproval(approval: Approval, contentHash: string, now = new Date()): Approval {
+  if (!hasApprovalContentChanged(approval, contentHash)) {
+    return approval
+  }
+
+  const timestamp = now.toISOString()
+  if (approval.status === 'rejected') {
+    // 差し戻し中の修正は再提出で審査する
+    return { ...approval, contentHash, updatedAt: timestamp }
+  }
+
+  return {
+    ...approval,
+    status: 'pending',
+    checklist: createChecklist(approval.targetType),
+    approvedBy: undefined,
+    approvedAt: undefined,
+    contentHash,
+    invalidatedAt: timestamp,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * バリアントの現在の内容に対する承認があるか
+ */
+export function isVariantApproved(approvals: Approval[], variant: ApprovalGateVariant): boolean {
+  return approvals.some(
+    (a) =>
+      a.targetType === variant.targetType &&
+      a.targetId === variant.id &&
+      a.status === 'approved' &&
+      a.contentHash === variant.contentHash
+  )
+}
+
+/**
+ * 承認ゲート（全対象に承認があり、すべて Approved の場合のみ配信開始できる）
+ * LP・クリエイティブはバリアントごとに、現在の内容に対する承認が必要
+ */
+export function checkApprovalGate(approvals: Approval[], variants: ApprovalGateVariant[] = []): ApprovalGateResult {
+  const missingTargets = APPROVAL_TARGETS.filter((type) => !approvals.some((a) => a.targetType === type))
+  const unapprovedIds = approvals.filter((a) => a.status !== 'approved').map((a) => a.id)
+  const unapprovedVariantIds = variants
+    .filter((variant) => !isVariantApproved(approvals, variant))
+    .map((variant) => variant.id)
+  const result = { missingTargets, unapprovedIds, unapprovedVariantIds }
+
+  if (missingTargets.length > 0) {
+    return { allowed: false, reason: `Approval is missing for: ${missingTargets.join(', ')}`, ...result }
+  }
+  if (unapprovedIds.length > 0) {
+    return { allowed: false, reason: `${unapprovedIds.length} approval(s) are not approved`, ...result }
+  }
+  if (unapprovedVariantIds.length > 0) {
+    return {
+      allowed: false,
+      reason: `Variants are not approved in their current content: ${unapprovedVariantIds.join(', ')}`,
+      ...result,
+    }
+  }
+  return { allowed: true, ...result }
+}
+
+/**
+ * 承認対象の表示名
+ */
+function getApprovalTargetName(approval: Approval): string {
+  const label = getApprovalTargetLabel(approval.targetType)
+  return approval.targetId ? `${label}（${approval.targetId}）` : label
+}
+
+/**
+ * 承認依頼の通知を作成
+ */
+export function createApprovalRequestedNotification(
+  approval: Approval,
+  recipients: NotificationRecipient[]
+): Notification {
+  const template = getDefaultTemplate('approval_required', 'in_app')
+  const variables = { targetName: getApprovalTargetName(approval), requestedBy: approval.requestedBy }
+
+  return createNotification(
+    approval.tenantId,
+    'approval_required',
+    'in_app',
+    recipients,
+    applyTemplate(template.subject, variables),
+    applyTemplate(template.body, variables),
+    { data: { approvalId: approval.id, runId: approval.runId, targetType: approval.targetType } }
+  )
+}
+
+/**
+ * 内容変更で承認待ちへ戻ったことを Reviewer に通知
+ */
+export function createApprovalInvalidatedNotification(
+  approval: Approval,
+  changedBy: string,
+  recipients: NotificationRecipient[]
+): Notification {
+  const template = getDefaultTemplate('approval_required', 'in_app')
+  const variables = { targetName: getApprovalTargetName(approval), requestedBy: changedBy }
+
+  return createNotification(
+    approval.tenantId,
+    'approval_required',
+    'in_app',
+    recipients,
+    applyTemplate(template.subject, variables),
+    `${applyTemplate(template.body, variables)}（承認後に内容が変更されたため再承認が必要です）`,
+    {
+      data: {
+        approvalId: approval.id,
+        runId: approval.runId,
+        targetType: approval.targetType,
+        reason: 'content_changed',
+      },
+    }
+  )
+}
+
+/**
+ * 承認完了の通知を作成（依頼者宛て）
+ */
+export function createApprovalCompletedNotification(approval: Approval): Notification {
+  const template = getDefaultTemplate('approval_completed', 'in_app')
+  const variables = { targetName: getApprovalTargetName(approval), approvedBy: approval.approvedBy ?? '' }
+
+  return createNotification(
+    approval.tenantId,
+    'approval_completed',
+    'in_app',
+    [{ type: 'user', target: approval.requestedBy }],
+    applyTemplate(template.subject, variables),
+    applyTemplate(template.body, variables),
+    { data: { approvalId: approval.id, runId: approval.runId, targetType: approval.targetType } }
+  )
+}
+
+/**
+ * 承認対象のラベルを取得
+ */
+export function getApprovalTargetLabel(targetType: ApprovalTargetType): string {
+  const labels: Record<ApprovalTargetType, string> = {
+    lp: 'LP',
+    creative: 'クリエイティブ',
+    measurement: '計測',
+    stop_rules: '停止条件',
+    budget_cap: '予算上限',
+    destination_url: '配信先URL',
+  }
+  return labels[targetType]
+}
+
+/**
+ * 承認ステータスのラベルを取得
+ */
+export function getApprovalStatusLabel(status: ApprovalStatus): string {
+  const labels: Record<ApprovalStatus, string> = {
+    pending: '承認待ち',
+    approved: '承認済み',
+    rejected: '差し戻し',
+  }
+  return labels[status]
+}
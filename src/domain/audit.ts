@@ -0,0 +1,459 @@
+/**
+ * Audit Domain
+ * 追記型の監査ログ（前エントリのハッシュを含むハッシュチェーンで改ざんを検知）
+ */
+
+// 監査対象の種別
+export type AuditTargetType =
+  | 'tenant'
+  | 'project'
+  | 'membership'
+  | 'invitation'
+  | 'run'
+  | 'deployment'
+  | 'manual_stop_task'
+  | 'approval'
+  | 'lp_variant'
+  | 'creative_variant'
+  | 'creative_image'
+
+// 監査ログ
+export interface AuditLog {
+  id: string
+  tenantId: string
+  sequence: number // テナント内の連番（1始まり）
+  actorId: string
+  action: string // 例: deployment.rollback
+  targetType: AuditTargetType
+  targetId?: string
+  changes: AuditChange[]
+  metadata: Record<string, unknown>
+  createdAt: string
+  prevHash: string
+  hash: string
+}
+
+// 変更差分（path はドット区切り）
+export interface AuditChange {
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+// 監査ログの記録内容
+export interface AuditLogInput {
+  tenantId: string
+  actorId: string
+  action: string
+  targetType: AuditTargetType
+  targetId?: string
+  before?: unknown
+  after?: unknown
+  metadata?: Record<string, unknown>
+}
+
+// チェーン検証結果
+export interface AuditChainVerification {
+  valid: boolean
+  checked: number
+  brokenAt?: {
+    id: string
+    sequence: number
+    reason: 'sequence_gap' | 'prev_hash_mismatch' | 'hash_mismatch'
+  }
+}
+
+// R2 スナップショット
+export interface AuditSnapshot {
+  key: string
+  body: string // JSONL
+  tenantId: string
+  date: string
+  count: number
+  firstSequence: number
+  lastSequence: number
+  lastHash: string
+}
+
+// 監査ログの検索条件（from 以上 to 未満、action は末尾 .* で前方一致）
+export interface AuditLogFilter {
+  actorId?: string
+  action?: string
+  targetType?: AuditTargetType
+  targetId?: string
+  from?: string
+  to?: string
+}
+
+// リポジトリへの検索クエリ（新しい順、before より小さい sequence）
+export interface AuditLogQuery extends AuditLogFilter {
+  before?: number
+  limit: number
+}
+
+// エクスポート形式
+export type AuditExportFormat = 'csv' | 'jsonl'
+
+export const AUDIT_EXPORT_FORMATS: AuditExportFormat[] = ['csv', 'jsonl']
+
+// チェーン先頭の prevHash
+export const AUDIT_GENESIS_HASH = '0'.repeat(64)
+
+export const AUDIT_TARGET_TYPES: AuditTargetType[] = [
+  'tenant',
+  'project',
+  'membership',
+  'invitation',
+  'run',
+  'deployment',
+  'manual_stop_task',
+  'approval',
+  'lp_variant',
+  'creative_variant',
+  'creative_image',
+]
+
+// 検索の1ページあたり件数
+export const AUDIT_SEARCH_DEFAULT_LIMIT = 50
+export const AUDIT_SEARCH_MAX_LIMIT = 200
+
+// 1回のエクスポートの上限件数
+export const AUDIT_EXPORT_MAX_ROWS = 10000
+
+// CSV の列
+export const AUDIT_CSV_COLUMNS = [
+  'tenant_id',
+  'sequence',
+  'created_at',
+  'actor_id',
+  'action',
+  'target_type',
+  'target_id',
+  'changes',
+  'metadata',
+  'prev_hash',
+  'hash',
+] as const
+
+/**
+ * 監査ログIDを生成
+ */
+export function generateAuditLogId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `audit_${timestamp}_${random}`
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * キー順を固定した JSON（ハッシュ計算用）
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalJson(v === undefined ? null : v)).join(',')}]`
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+/**
+ * 変更前後のオブジェクト差分（配列は値全体で比較）
+ */
+export function diffObjects(before: unknown, after: unknown, path = ''): AuditChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+    return keys.flatMap((key) => diffObjects(before[key], after[key], path ? `${path}.${key}` : key))
+  }
+
+  if (canonicalJson(before) === canonicalJson(after)) {
+    return []
+  }
+
+  const change: AuditChange = { path }
+  if (before !== undefined) change.before = before
+  if (after !== undefined) change.after = after
+  return [change]
+}
+
+/**
+ * SHA-256 の16進ダイジェスト
+ */
+export async function sha256Hex(input: string | ArrayBuffer): Promise<string> {
+  const data = typeof input === 'string' ? new TextEncoder().encode(input) : input
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * エントリのハッシュを計算（hash 以外の全項目と prevHash を含む）
+ */
+export async function computeAuditHash(entry: Omit<AuditLog, 'hash'>): Promise<string> {
+  const payload = canonicalJson({
+    id: entry.id,
+    tenantId: entry.tenantId,
+    sequence: entry.sequence,
+    actorId: entry.actorId,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    changes: entry.changes,
+    metadata: entry.metadata,
+    createdAt: entry.createdAt,
+    prevHash: entry.prevHash,
+  })
+  return sha256Hex(payload)
+}
+
+/**
+ * 監査ログを作成（previous はテナント内の直前のエントリ）
+ */
+export async function createAuditLog(
+  input: AuditLogInput,
+  previous: AuditLog | null,
+  now = new Date()
+): Promise<AuditLog> {
+  if (!input.actorId) {
+    throw new Error('Actor is required')
+  }
+  if (previous && previous.tenantId !== input.tenantId) {
+    throw new Error('Tenant mismatch')
+  }
+
+  const entry: Omit<AuditLog, 'hash'> = {
+    id: generateAuditLogId(),
+    tenantId: input.tenantId,
+    sequence: (previous?.sequence ?? 0) + 1,
+    actorId: input.actorId,
+    action: input.action,
+    targetType: input.targetType,
+    targetId: input.targetId,
+    changes: diffObjects(input.before, input.after),
+    metadata: input.metadata ?? {},
+    createdAt: now.toISOString(),
+    prevHash: previous?.hash ?? AUDIT_GENESIS_HASH,
+  }
+
+  return { ...entry, hash: await computeAuditHash(entry) }
+}
+
+/**
+ * ハッシュチェーンを検証（logs は sequence 昇順、anchor は区間の直前のエントリ）
+ */
+export async function verifyAuditChain(
+  logs: AuditLog[],
+  anchor: Pick<AuditLog, 'sequence' | 'hash'> | null = null
+): Promise<AuditChainVerification> {
+  let expectedSequence = (anchor?.sequence ?? 0) + 1
+  let expectedPrevHash = anchor?.hash ?? AUDIT_GENESIS_HASH
+
+  for (const [index, log] of logs.entries()) {
+    const broken = (reason: NonNullable<AuditChainVerification['brokenAt']>['reason']) => ({
+      valid: false,
+      checked: index,
+      brokenAt: { id: log.id, sequence: log.sequence, reason },
+    })
+
+    if (log.sequence !== expectedSequence) {
+      return broken('sequence_gap')
+    }
+    if (log.prevHash !== expectedPrevHash) {
+      return broken('prev_hash_mismatch')
+    }
+    const { hash, ...entry } = log
+    if ((await computeAuditHash(entry)) !== hash) {
+      return broken('hash_mismatch')
+    }
+
+    expectedSequence = log.sequence + 1
+    expectedPrevHash = log.hash
+  }
+
+  return { valid: true, checked: logs.length }
+}
+
+/**
+ * スナップショットの R2 キー
+ */
+export function getAuditSnapshotKey(tenantId: string, date: string): string {
+  return `audit-snapshots/${tenantId}/${date}.jsonl`
+}
+
+/**
+ * 1日分のログ区間からスナップショットを作成（空なら null）
+ */
+export function createAuditSnapshot(tenantId: string, date: string, logs: AuditLog[]): AuditSnapshot | null {
+  if (logs.length === 0) {
+    return null
+  }
+
+  const last = logs[logs.length - 1]
+  return {
+    key: getAuditSnapshotKey(tenantId, date),
+    body: toAuditJsonl(logs),
+    tenantId,
+    date,
+    count: logs.length,
+    firstSequence: logs[0].sequence,
+    lastSequence: last.sequence,
+    lastHash: last.hash,
+  }
+}
+
+/**
+ * クエリ文字列から検索条件を取得（空の値は条件なし）
+ */
+export function parseAuditLogFilter(query: Record<string, string | undefined>): AuditLogFilter {
+  return {
+    actorId: query.actorId || undefined,
+    action: query.action || undefined,
+    targetType: (query.targetType as AuditTargetType) || undefined,
+    targetId: query.targetId || undefined,
+    from: query.from || undefined,
+    to: query.to || undefined,
+  }
+}
+
+/**
+ * 検索条件のバリデーション
+ */
+export function validateAuditLogFilter(filter: AuditLogFilter): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (filter.targetType && !AUDIT_TARGET_TYPES.includes(filter.targetType)) {
+    errors.push('Invalid target type')
+  }
+  if (filter.targetId && !filter.targetType) {
+    errors.push('targetType is required when filtering by targetId')
+  }
+  if (filter.from && Number.isNaN(Date.parse(filter.from))) {
+    errors.push('Invalid from date')
+  }
+  if (filter.to && Number.isNaN(Date.parse(filter.to))) {
+    errors.push('Invalid to date')
+  }
+  if (filter.from && filter.to && Date.parse(filter.from) >= Date.parse(filter.to)) {
+    errors.push('from must be before to')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * 日付を created_at と比較できる ISO 文字列に揃える
+ */
+export function normalizeAuditLogFilter(filter: AuditLogFilter): AuditLogFilter {
+  return {
+    ...filter,
+    from: filter.from ? new Date(filter.from).toISOString() : undefined,
+    to: filter.to ? new Date(filter.to).toISOString() : undefined,
+  }
+}
+
+/**
+ * action の条件に一致するか（deployment.* のような前方一致に対応）
+ */
+export function matchesAuditAction(action: string, pattern: string): boolean {
+  return pattern.endsWith('.*') ? action.startsWith(pattern.slice(0, -1)) : action === pattern
+}
+
+/**
+ * ページングカーソルを作成（base64url、次ページは sequence がこれより小さいエントリ）
+ */
+export function encodeAuditCursor(sequence: number): string {
+  return toBase64Url(`seq:${sequence}`)
+}
+
+/**
+ * ページングカーソルを解析（不正なら null）
+ */
+export function decodeAuditCursor(cursor: string): number | null {
+  const match = /^seq:(\d+)$/.exec(fromBase64Url(cursor) ?? '')
+  return match ? Number(match[1]) : null
+}
+
+/**
+ * テナント横断のページングカーソルを作成（テナントごとに前ページで最後に返した sequence）
+ */
+export function encodeAuditTenantsCursor(positions: Record<string, number>): string {
+  const entries = Object.entries(positions).map(([tenantId, sequence]) => `${tenantId}=${sequence}`)
+  return toBase64Url(`tenants:${entries.join(',')}`)
+}
+
+/**
+ * テナント横断のページングカーソルを解析（不正なら null）
+ */
+export function decodeAuditTenantsCursor(cursor: string): Record<string, number> | null {
+  const match = /^tenants:(.*)$/.exec(fromBase64Url(cursor) ?? '')
+  if (!match) {
+    return null
+  }
+
+  const positions: Record<string, number> = {}
+  for (const entry of match[1] ? match[1].split(',') : []) {
+    const position = /^([\w-]+)=(\d+)$/.exec(entry)
+    if (!position) {
+      return null
+    }
+    positions[position[1]] = Number(position[2])
+  }
+  return positions
+}
+
+function toBase64Url(value: string): string {
+  return btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): string | null {
+  try {
+    return atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * CSV のフィールドをエスケープ（RFC 4180）
+ */
+export function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * 監査ログを CSV に変換（changes と metadata は JSON 文字列）
+ */
+export function toAuditCsv(logs: AuditLog[]): string {
+  const rows = logs.map((log) =>
+    [
+      log.tenantId,
+      String(log.sequence),
+      log.createdAt,
+      log.actorId,
+      log.action,
+      log.targetType,
+      log.targetId ?? '',
+      JSON.stringify(log.changes),
+      JSON.stringify(log.metadata),
+      log.prevHash,
+      log.hash,
+    ]
+      .map(escapeCsvField)
+      .join(',')
+  )
+  return [AUDIT_CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+/**
+ * 監査ログを JSONL に変換
+ */
+export function toAuditJsonl(logs: AuditLog[]): string {
+  return logs.map((log) => JSON.stringify(log)).join('\n') + (logs.length > 0 ? '\n' : '')
+}
@@ -0,0 +1,355 @@
+/**
+ * Auth Domain
+ * マジックリンク認証、セッション、TOTP MFA（Web Crypto のみで実装）
+ */
+
+import type { Role } from './tenancy'
+
+// ユーザー
+export interface User {
+  id: string
+  email: string
+  name?: string
+  mfaSecret?: string // Base32（登録開始時に設定、有効化前は mfaEnabledAt なし）
+  mfaEnabledAt?: string
+  mfaLastUsedStep?: number // 最後に受け付けた TOTP の時間ステップ（同じコードの再利用を拒否）
+  createdAt: string
+  updatedAt: string
+}
+
+// セッション（KV に保存、キーはトークンのハッシュ）
+export interface Session {
+  id: string
+  userId: string
+  email: string
+  mfaVerified: boolean
+  createdAt: string
+  expiresAt: string
+}
+
+// マジックリンク（KV に保存、キーはトークンのハッシュ）
+export interface MagicLinkRecord {
+  userId: string
+  email: string
+  createdAt: string
+}
+
+// MFA の検証失敗の記録（KV に保存、lockedUntil までは検証しない）
+export interface MfaAttempts {
+  failures: number
+  lockedUntil?: string
+}
+
+// メール（Queue のコンシューマーが送信）
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+// マジックリンクの有効期間（秒）
+export const MAGIC_LINK_TTL_SECONDS = 15 * 60
+
+// セッションの有効期間（秒）
+export const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60
+
+// セッションCookie名
+export const SESSION_COOKIE_NAME = 'lts_session'
+
+// TOTP 設定（RFC 6238 の既定値）
+export const TOTP_PERIOD_SECONDS = 30
+export const TOTP_DIGITS = 6
+
+// 前後何ステップまでの時刻ずれを許容するか
+const TOTP_DRIFT_STEPS = 1
+
+// MFA をロックするまでの連続失敗回数と、ロックの時間（秒）
+export const MFA_MAX_FAILED_ATTEMPTS = 5
+export const MFA_LOCKOUT_SECONDS = 15 * 60
+
+// MFA 必須のロール
+const MFA_REQUIRED_ROLES: Role[] = ['owner', 'operator']
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * ユニークIDを生成
+ */
+function generateId(prefix: string): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `${prefix}_${timestamp}_${random}`
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * ユーザーIDを生成
+ */
+export function generateUserId(): string {
+  return generateId('user')
+}
+
+/**
+ * セッションIDを生成
+ */
+export function generateSessionId(): string {
+  return generateId('sess')
+}
+
+/**
+ * 認証トークンを生成（32バイトの乱数）
+ */
+export function generateAuthToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)))
+}
+
+/**
+ * 認証トークンのハッシュを計算（KV のキーにはハッシュのみ使う）
+ */
+export async function hashAuthToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return toHex(new Uint8Array(digest))
+}
+
+/**
+ * メールアドレスを正規化
+ */
+export function normalizeEmail(email: string): string {
+  const normalized = (email ?? '').trim().toLowerCase()
+  if (!EMAIL_PATTERN.test(normalized)) {
+    throw new Error('Invalid email address')
+  }
+  return normalized
+}
+
+/**
+ * ユーザーを作成
+ */
+export function createUser(email: string, now = new Date()): User {
+  const timestamp = now.toISOString()
+
+  return {
+    id: generateUserId(),
+    email: normalizeEmail(email),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * セッションを作成（MFA は未検証で開始）
+ */
+export function createSession(user: User, now = new Date()): Session {
+  return {
+    id: generateSessionId(),
+    userId: user.id,
+    email: user.email,
+    mfaVerified: false,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_TTL_SECONDS * 1000).toISOString(),
+  }
+}
+
+/**
+ * セッションが期限切れか
+ */
+export function isSessionExpired(session: Session, now = new Date()): boolean {
+  return new Date(session.expiresAt).getTime() <= now.getTime()
+}
+
+/**
+ * ロールに MFA が必要か
+ */
+export function requiresMfa(role: Role): boolean {
+  return MFA_REQUIRED_ROLES.includes(role)
+}
+
+/**
+ * MFA が有効化済みか
+ */
+export function isMfaEnabled(user: User): boolean {
+  return !!user.mfaSecret && !!user.mfaEnabledAt
+}
+
+/**
+ * Base32 エンコード（RFC 4648、パディングなし）
+ */
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * Base32 デコード
+ */
+export function base32Decode(input: string): Uint8Array<ArrayBuffer> {
+  const cleaned = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase()
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return new Uint8Array(bytes)
+}
+
+/**
+ * TOTP シークレットを生成（160bit）
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)))
+}
+
+/**
+ * 認証アプリ登録用の otpauth URI を作成
+ */
+export function buildOtpauthUri(secret: string, email: string, issuer = 'Launch Test System'): string {
+  const label = encodeURIComponent(`${issuer}:${email}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+/**
+ * HOTP を計算（RFC 4226）
+ */
+async function generateHotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  )
+
+  const message = new DataView(new ArrayBuffer(8))
+  message.setUint32(0, Math.floor(counter / 2 ** 32))
+  message.setUint32(4, counter >>> 0)
+
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer))
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * 時刻に対応する TOTP を計算（RFC 6238）
+ */
+export async function generateTotp(secret: string, now = new Date()): Promise<string> {
+  return generateHotp(secret, Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS))
+}
+
+/**
+ * TOTP が一致した時間ステップを取得（前後1ステップの時刻ずれを許容、一致しなければ null）
+ */
+export async function findTotpStep(secret: string, code: string, now = new Date()): Promise<number | null> {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code ?? '')) {
+    return null
+  }
+
+  const counter = Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS)
+  let matched: number | null = null
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    // 全ステップを比較して応答時間を揃える
+    if (timingSafeEqual(await generateHotp(secret, counter + drift), code)) {
+      matched = counter + drift
+    }
+  }
+  return matched
+}
+
+/**
+ * TOTP を検証（前後1ステップの時刻ずれを許容）
+ */
+export async function verifyTotp(secret: string, code: string, now = new Date()): Promise<boolean> {
+  return (await findTotpStep(secret, code, now)) !== null
+}
+
+/**
+ * MFA がロック中かチェック
+ */
+export function isMfaLocked(attempts: MfaAttempts | null, now = new Date()): boolean {
+  return !!attempts?.lockedUntil && new Date(attempts.lockedUntil).getTime() > now.getTime()
+}
+
+/**
+ * MFA の検証失敗を記録（上限に達したらロックして回数を数え直す）
+ */
+export function recordMfaFailure(attempts: MfaAttempts | null, now = new Date()): MfaAttempts {
+  const failures = (isMfaLocked(attempts, now) ? 0 : (attempts?.failures ?? 0)) + 1
+  if (failures < MFA_MAX_FAILED_ATTEMPTS) {
+    return { failures }
+  }
+  return { failures: 0, lockedUntil: new Date(now.getTime() + MFA_LOCKOUT_SECONDS * 1000).toISOString() }
+}
+
+/**
+ * マジックリンクのメールを作成
+ */
+export function createMagicLinkMail(email: string, url: string): MailMessage {
+  return {
+    to: email,
+    subject: 'Launch Test System ログインリンク',
+    text: [
+      '以下のリンクからログインしてください。',
+      url,
+      '',
+      `このリンクは${MAGIC_LINK_TTL_SECONDS / 60}分間、1回だけ有効です。`,
+      '心当たりがない場合はこのメールを破棄してください。',
+    ].join('\n'),
+  }
+}
+
+/**
+ * 長さの等しい文字列を定数時間で比較
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false
+  }
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
@@ -0,0 +1,301 @@
+/**
+ * Copy Lint
+ * LP・クリエイティブの文言を組み込みルール（断定・No.1・誇大表現・薬機法/景表法系の表現）と
+ * プロジェクトの禁則表現で検査し、位置付きの指摘を返す（error があれば承認できない）
+ * 文言は NFKC で正規化してから照合し、注意書きは検査しない
+ */
+
+import type { CreativeAspectRatio, CreativeContent } from './creative-variant'
+import type { LpContent } from './lp-variant'
+import { isSafeBannedRegex, type BannedExpression } from './tenancy'
+
+// 重要度
+export type CopyLintSeverity = 'error' | 'warning'
+
+// ルール種別
+export type CopyLintCategory = 'banned' | 'absolute' | 'ranking' | 'hype' | 'pharma' | 'pricing'
+
+// 検査ルール（evidence: 同じ文に注記・出典があれば指摘しない）
+export interface CopyLintRule {
+  id: string
+  category: CopyLintCategory
+  severity: CopyLintSeverity
+  pattern: RegExp
+  message: string
+  evidence?: boolean
+}
+
+// 検査対象の文言（path は LP なら sections.<id>.<プロパティ>、クリエイティブなら copy.<キー>）
+export interface CopyLintText {
+  path: string
+  text: string
+  layers?: { aspectRatio: CreativeAspectRatio; layerId: string }[] // 文言を表示するレイヤー
+  disclaimer?: boolean // 注意書きセクションの文言（検査しない）
+}
+
+// 指摘
+export interface CopyLintFinding {
+  ruleId: string
+  category: CopyLintCategory
+  severity: CopyLintSeverity
+  message: string
+  path: string
+  match: string // 元の文言のまま（正規化前）
+  index: number // 元の文言内の開始位置
+  layers?: CopyLintText['layers']
+}
+
+// 検査結果
+export interface CopyLintResult {
+  passed: boolean // error が無い
+  errorCount: number
+  warningCount: number
+  findings: CopyLintFinding[]
+}
+
+// 根拠の注記（※・出典・調査元の記載）
+const EVIDENCE_PATTERN = /※|\*|出典|調べ|調査|注\)/
+
+// 文の区切り（正規化後の文言を句点・感嘆符・疑問符・改行で分ける。No.1 の「.」では区切らない）
+const SENTENCE_PATTERN = /[^。!?\n]+[。!?\n]*|[。!?\n]+/g
+
+// 正規化の単位（基底文字と後続の結合文字・半角の濁点/半濁点）
+const GRAPHEME_PATTERN = /[\s\S][\p{M}\uff9e\uff9f]*/gu
+
+// 組み込みルール
+export const BUILTIN_COPY_LINT_RULES: CopyLintRule[] = [
+  {
+    id: 'absolute-claim',
+    category: 'absolute',
+    severity: 'error',
+    pattern: /絶対(?:に)?|必ず|100\s*[%％]|確実に|誰でも/g,
+    message: 'Absolute claim without evidence',
+    evidence: true,
+  },
+  {
+    id: 'ranking-claim',
+    category: 'ranking',
+    severity: 'error',
+    pattern: /No\.?\s*1|ナンバー(?:ワン|1)|(?:日本|世界|業界)(?:一|初)|売上1位|最安(?:値)?/gi,
+    message: 'Ranking or superlative claim without evidence',
+    evidence: true,
+  },
+  {
+    id: 'hype',
+    category: 'hype',
+    severity: 'warning',
+    pattern: /最強|最高級|激安|爆安|驚異の|奇跡の|魔法の|史上最/g,
+    message: 'Over-hyped phrasing',
+  },
+  {
+    id: 'pharma-efficacy',
+    category: 'pharma',
+    severity: 'error',
+    pattern: /治る|治す|完治|治療|予防|(?:が|に)効く|痩せる|若返る|シミが消える|副作用(?:が|は)?(?:ない|なし|ゼロ)/g,
+    message: 'Medical efficacy claim (薬機法)',
+  },
+  {
+    id: 'pharma-endorsement',
+    category: 'pharma',
+    severity: 'error',
+    pattern: /(?:医師|医者|専門家)(?:も|が)(?:推奨|おすすめ|オススメ|認めた)/g,
+    message: 'Endorsement by medical professionals (薬機法)',
+  },
+  {
+    id: 'pricing-pressure',
+    category: 'pricing',
+    severity: 'warning',
+    pattern: /今だけ|本日限り|残りわずか|完全無料|通常価格の?\d+%\s*OFF/gi,
+    message: 'Limited-time or pricing claim must match the actual offer (景表法)',
+  },
+]
+
+// 検査しない LP のプロパティ（URL・フォームの送信先・項目名など）
+const LP_SKIP_KEYS = new Set(['url', 'imageUrl', 'action', 'name', 'type'])
+
+/**
+ * 正規表現の特殊文字をエスケープ
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * プロジェクトの禁則表現をルールに変換（不正・危険な正規表現は無視。文字列は文言と同じく NFKC で正規化）
+ */
+export function toBannedExpressionRules(expressions: BannedExpression[]): CopyLintRule[] {
+  const rules: CopyLintRule[] = []
+  expressions.forEach((expression, i) => {
+    if (expression.isRegex && !isSafeBannedRegex(expression.pattern)) return
+    const source = expression.isRegex ? expression.pattern : escapeRegExp(expression.pattern.normalize('NFKC'))
+    try {
+      rules.push({
+        id: `project-banned-${i + 1}`,
+        category: 'banned',
+        severity: 'error',
+        pattern: new RegExp(source, 'g'),
+        message: expression.reason
+          ? `Banned expression: ${expression.pattern} (${expression.reason})`
+          : `Banned expression: ${expression.pattern}`,
+      })
+    } catch {
+      // validateBannedExpressions で登録時に弾いている
+    }
+  })
+  return rules
+}
+
+/**
+ * 組み込みルールとプロジェクトの禁則表現
+ */
+export function buildCopyLintRules(expressions: BannedExpression[] = []): CopyLintRule[] {
+  return [...BUILTIN_COPY_LINT_RULES, ...toBannedExpressionRules(expressions)]
+}
+
+/**
+ * プロパティ内の文字列を再帰的に収集
+ */
+function collectStrings(value: unknown, path: string, texts: CopyLintText[]): void {
+  if (typeof value === 'string') {
+    if (value.trim()) texts.push({ path, text: value })
+    return
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => collectStrings(item, `${path}.${i}`, texts))
+    return
+  }
+  if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (!LP_SKIP_KEYS.has(key)) collectStrings(child, `${path}.${key}`, texts)
+    }
+  }
+}
+
+/**
+ * LP の検査対象の文言（タイトル・説明・全セクションのテキスト。注意書きセクションは disclaimer を付ける）
+ */
+export function extractLpTexts(content: LpContent): CopyLintText[] {
+  const texts: CopyLintText[] = []
+  collectStrings(content.title, 'title', texts)
+  collectStrings(content.description, 'description', texts)
+  for (const section of content.sections) {
+    const collected: CopyLintText[] = []
+    collectStrings(section.props, `sections.${section.id}`, collected)
+    const disclaimer = section.type === 'disclaimer'
+    texts.push(...(disclaimer ? collected.map((text) => ({ ...text, disclaimer })) : collected))
+  }
+  return texts
+}
+
+/**
+ * クリエイティブの検査対象の文言（copy の各キーと、それを表示するテキストレイヤー）
+ */
+export function extractCreativeTexts(content: CreativeContent): CopyLintText[] {
+  return Object.entries(content.copy)
+    .filter(([, text]) => typeof text === 'string' && text.trim())
+    .map(([key, text]) => ({
+      path: `copy.${key}`,
+      text,
+      layers: content.templates.flatMap((template) =>
+        template.layers
+          .filter((layer) => layer.type === 'text' && layer.copyKey === key)
+          .map((layer) => ({ aspectRatio: template.aspectRatio, layerId: layer.id }))
+      ),
+    }))
+}
+
+/**
+ * 文言を NFKC で正規化し、正規化後の各文字に対応する元の文言の範囲を返す
+ */
+function normalizeCopyText(text: string): { normalized: string; starts: number[]; ends: number[] } {
+  let normalized = ''
+  const starts: number[] = []
+  const ends: number[] = []
+  for (const match of text.matchAll(GRAPHEME_PATTERN)) {
+    const start = match.index ?? 0
+    const part = match[0].normalize('NFKC')
+    for (let i = 0; i < part.length; i++) {
+      starts.push(start)
+      ends.push(start + match[0].length)
+    }
+    normalized += part
+  }
+  return { normalized, starts, ends }
+}
+
+/**
+ * 文字列が現れる範囲（正規化後の位置）
+ */
+function findRanges(text: string, pattern: RegExp): [number, number][] {
+  return [...text.matchAll(pattern)].map((match) => [match.index ?? 0, (match.index ?? 0) + match[0].length])
+}
+
+/**
+ * 文言を検査（項目順・出現位置順。注意書きと注意文テンプレートに一致する部分は検査しない）
+ */
+export function lintCopy(texts: CopyLintText[], rules: CopyLintRule[], disclaimers: string[] = []): CopyLintResult {
+  const disclaimerPatterns = disclaimers
+    .map((disclaimer) => disclaimer.normalize('NFKC').trim())
+    .filter(Boolean)
+    .map((disclaimer) => new RegExp(escapeRegExp(disclaimer), 'g'))
+
+  const findings: CopyLintFinding[] = []
+  for (const { path, text, layers, disclaimer } of texts) {
+    if (disclaimer) continue
+    const { normalized, starts, ends } = normalizeCopyText(text)
+    const sentences = findRanges(normalized, SENTENCE_PATTERN)
+    const evidenced = sentences.filter(([start, end]) => EVIDENCE_PATTERN.test(normalized.slice(start, end)))
+    const excluded = disclaimerPatterns.flatMap((pattern) => findRanges(normalized, pattern))
+    const within = (ranges: [number, number][], start: number, end: number) =>
+      ranges.some(([from, to]) => start < to && end > from)
+
+    const found: CopyLintFinding[] = []
+    for (const rule of rules) {
+      for (const match of normalized.matchAll(rule.pattern)) {
+        const start = match.index ?? 0
+        const end = start + match[0].length
+        if (!match[0] || within(excluded, start, end)) continue
+        if (rule.evidence && within(evidenced, start, start + 1)) continue
+        found.push({
+          ruleId: rule.id,
+          category: rule.category,
+          severity: rule.severity,
+          message: rule.message,
+          path,
+          match: text.slice(starts[start], ends[end - 1]),
+          index: starts[start],
+          ...(layers ? { layers } : {}),
+        })
+      }
+    }
+    findings.push(...found.sort((a, b) => a.index - b.index))
+  }
+
+  const errorCount = findings.filter((finding) => finding.severity === 'error').length
+  return { passed: errorCount === 0, errorCount, warningCount: findings.length - errorCount, findings }
+}
+
+/**
+ * 承認を止める指摘の要約（エラーメッセージ用）
+ */
+export function formatCopyLintErrors(result: CopyLintResult): string {
+  const errors = result.findings
+    .filter((finding) => finding.severity === 'error')
+    .map((finding) => `${finding.path}: ${finding.message} "${finding.match}"`)
+  return `Copy lint failed: ${errors.join('; ')}`
+}
+
+/**
+ * ルール種別のラベルを取得
+ */
+export function getCopyLintCategoryLabel(category: CopyLintCategory): string {
+  const labels: Record<CopyLintCategory, string> = {
+    banned: '禁則表現',
+    absolute: '断定表現',
+    ranking: 'No.1・最上級表現',
+    hype: '誇大表現',
+    pharma: '薬機法',
+    pricing: '景表法（価格・期間）',
+  }
+  return labels[category]
+}
@@ -0,0 +1,188 @@
+/**
+ * Creative Image
+ * クリエイティブ用にアップロードした画像（R2 保存・寸法の記録）と、レイヤー枠に合わせた切り抜き範囲の算出
+ */
+
+import type { CreativeImageLayer } from './creative-variant'
+
+// アップロード画像
+export interface CreativeImage {
+  id: string
+  tenantId: string
+  runId: string
+  key: string // R2 キー（画像レイヤーの src に指定する）
+  contentType: string
+  width: number
+  height: number
+  size: number
+  hash: string
+  uploadedBy: string
+  createdAt: string
+}
+
+// 画像の形式と寸法
+export interface ImageDimensions {
+  contentType: string
+  width: number
+  height: number
+}
+
+// 元画像上の矩形（px）
+export interface ImageRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// 受け付ける形式と拡張子
+export const CREATIVE_IMAGE_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+}
+
+// アップロードの上限（バイト）
+export const CREATIVE_IMAGE_MAX_SIZE = 10 * 1024 * 1024
+
+// アップロード画像の R2 キーの接頭辞
+export const CREATIVE_IMAGE_PREFIX = 'uploads/creatives/'
+
+/**
+ * アップロード画像IDを生成
+ */
+export function generateCreativeImageId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `cimg_${timestamp}_${random}`
+}
+
+/**
+ * アップロード画像の保存キー
+ */
+export function creativeImageKey(tenantId: string, runId: string, imageId: string, contentType: string): string {
+  return `${CREATIVE_IMAGE_PREFIX}${tenantId}/${runId}/${imageId}.${CREATIVE_IMAGE_TYPES[contentType]}`
+}
+
+/**
+ * テナント・Run にアップロードした画像の R2 キーか
+ */
+export function isCreativeImageKey(src: string, tenantId: string, runId: string): boolean {
+  return src.startsWith(`${CREATIVE_IMAGE_PREFIX}${tenantId}/${runId}/`)
+}
+
+/**
+ * 画像のバイト列から MIME タイプを判定（不明なら null）
+ */
+export function detectImageType(bytes: ArrayBuffer): string | null {
+  const head = new Uint8Array(bytes.slice(0, 12))
+  const ascii = String.fromCharCode(...head)
+  if (head[0] === 0x89 && ascii.slice(1, 4) === 'PNG') return 'image/png'
+  if (head[0] === 0xff && head[1] === 0xd8) return 'image/jpeg'
+  if (ascii.startsWith('GIF8')) return 'image/gif'
+  if (ascii.startsWith('RIFF') && ascii.slice(8, 12) === 'WEBP') return 'image/webp'
+  return null
+}
+
+/**
+ * JPEG の SOF マーカーから寸法を読む
+ */
+function readJpegSize(view: DataView): { width: number; height: number } | null {
+  let offset = 2
+  while (offset + 9 < view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null
+    const marker = view.getUint8(offset + 1)
+    // SOF0〜SOF15（DHT・JPG・DAC を除く）
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) }
+    }
+    offset += 2 + view.getUint16(offset + 2)
+  }
+  return null
+}
+
+/**
+ * WebP（VP8・VP8L・VP8X）の寸法を読む
+ */
+function readWebpSize(view: DataView): { width: number; height: number } | null {
+  if (view.byteLength < 30) return null
+  const chunk = String.fromCharCode(view.getUint8(12), view.getUint8(13), view.getUint8(14), view.getUint8(15))
+  if (chunk === 'VP8 ') {
+    return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff }
+  }
+  if (chunk === 'VP8L') {
+    const bits = view.getUint32(21, true)
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+  }
+  if (chunk === 'VP8X') {
+    const uint24 = (offset: number) =>
+      view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16)
+    return { width: uint24(24) + 1, height: uint24(27) + 1 }
+  }
+  return null
+}
+
+/**
+ * 画像の形式と寸法をヘッダーから読む（対応外・破損していれば null）
+ */
+export function readImageDimensions(bytes: ArrayBuffer): ImageDimensions | null {
+  const contentType = detectImageType(bytes)
+  const view = new DataView(bytes)
+  let size: { width: number; height: number } | null = null
+  if (contentType === 'image/png' && view.byteLength >= 24) {
+    size = { width: view.getUint32(16), height: view.getUint32(20) }
+  } else if (contentType === 'image/gif' && view.byteLength >= 10) {
+    size = { width: view.getUint16(6, true), height: view.getUint16(8, true) }
+  } else if (contentType === 'image/jpeg') {
+    size = readJpegSize(view)
+  } else if (contentType === 'image/webp') {
+    size = readWebpSize(view)
+  }
+  return contentType && size && size.width > 0 && size.height > 0 ? { contentType, ...size } : null
+}
+
+/**
+ * 画像レイヤーで表示する元画像の範囲（crop 指定を優先し、cover は注目点を中心に枠の縦横比で切り抜く）
+ */
+export function resolveImageCrop(image: { width: number; height: number }, layer: CreativeImageLayer): ImageRect {
+  if (layer.crop) {
+    return {
+      x: layer.crop.x * image.width,
+      y: layer.crop.y * image.height,
+      width: layer.crop.width * image.width,
+      height: layer.crop.height * image.height,
+    }
+  }
+  if (layer.fit !== 'cover') {
+    return { x: 0, y: 0, width: image.width, height: image.height }
+  }
+
+  const scale = Math.min(image.width / layer.width, image.height / layer.height)
+  const width = layer.width * scale
+  const height = layer.height * scale
+  const focal = layer.focalPoint ?? { x: 0.5, y: 0.5 }
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max)
+  return {
+    x: clamp(focal.x * image.width - width / 2, image.width - width),
+    y: clamp(focal.y * image.height - height / 2, image.height - height),
+    width,
+    height,
+  }
+}
+
+/**
+ * アップロード画像を作成
+ */
+export function createCreativeImage(
+  request: Omit<CreativeImage, 'id' | 'key' | 'createdAt'>,
+  now = new Date()
+): CreativeImage {
+  const id = generateCreativeImageId()
+  return {
+    id,
+    ...request,
+    key: creativeImageKey(request.tenantId, request.runId, id, request.contentType),
+    createdAt: now.toISOString(),
+  }
+}
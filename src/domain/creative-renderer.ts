@@ -0,0 +1,309 @@
+/**
+ * Creative Renderer
+ * クリエイティブのテンプレート（画像・テキストレイヤー）をサイズごとの SVG に合成する（PNG 化は描画サービスで行う）
+ */
+
+import { sha256Hex } from './audit'
+import { resolveImageCrop } from './creative-image'
+import {
+  CREATIVE_SIZES,
+  type CreativeAspectRatio,
+  type CreativeImageLayer,
+  type CreativeTemplate,
+  type CreativeTextLayer,
+  type CreativeVariantVersion,
+} from './creative-variant'
+import { escapeHtml } from './lp-renderer'
+
+// 出力形式
+export type CreativeRenderFormat = 'svg' | 'png'
+
+// 描画オプション（画像 src → 埋め込み用 URL。ラスタライズ時は data URI を渡す。寸法が分かれば切り抜きを反映）
+export interface CreativeRenderOptions {
+  images?: Record<string, string>
+  imageSizes?: Record<string, { width: number; height: number }>
+}
+
+// 文字の自動調整結果
+export interface FittedText {
+  fontSize: number
+  lineHeight: number // px
+  lines: string[]
+  truncated: boolean // 最小サイズでも収まらず省略した
+}
+
+// 描画ファイル
+export interface CreativeRenderFile {
+  aspectRatio: CreativeAspectRatio
+  format: CreativeRenderFormat
+  key: string
+  body: string | ArrayBuffer
+  contentType: string
+  width: number
+  height: number
+  hash: string
+  size: number
+}
+
+// 形式ごとの Content-Type
+const CONTENT_TYPES: Record<CreativeRenderFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+}
+
+// サイズごとに描画する形式（SVG は元画像を参照、PNG は配信用）
+export const CREATIVE_RENDER_FORMATS: CreativeRenderFormat[] = ['svg', 'png']
+
+// 指定フォントが無い場合のフォールバック（日本語フォントを優先）
+export const CREATIVE_FALLBACK_FONTS = ['Noto Sans JP', 'Noto Sans', 'sans-serif']
+
+// 自動縮小の下限（px）
+export const CREATIVE_MIN_FONT_SIZE = 12
+
+// 既定の行の高さ（フォントサイズに対する倍率）
+const DEFAULT_LINE_HEIGHT = 1.3
+
+// 省略記号
+const ELLIPSIS = '…'
+
+// 全角として扱う文字（CJK・かな・ハングル・全角記号）
+const WIDE_RANGES = [
+  '\\u1100-\\u115f\\u2e80-\\ua4cf\\uac00-\\ud7a3',
+  '\\uf900-\\ufaff\\ufe30-\\ufe4f\\uff00-\\uff60\\uffe0-\\uffe6',
+].join('')
+const WIDE_CHAR = new RegExp(`[${WIDE_RANGES}]`)
+
+// 折り返しの単位（全角は1文字ずつ、半角は単語ごと）
+const WRAP_TOKEN = new RegExp(`[${WIDE_RANGES}]|[^\\s${WIDE_RANGES}]+|\\s+`, 'g')
+
+/**
+ * 描画ファイルの保存キー（版・サイズごとに固定）
+ */
+export function creativeRenderKey(
+  version: Pick<CreativeVariantVersion, 'tenantId' | 'variantId' | 'version'>,
+  runId: string,
+  aspectRatio: CreativeAspectRatio,
+  format: CreativeRenderFormat
+): string {
+  const name = `${aspectRatio.replace(':', 'x')}.${format}`
+  return `creatives/${version.tenantId}/${runId}/${version.variantId}/v${version.version}/${name}`
+}
+
+/**
+ * 描画ファイルの配信パス（PNG はサイズ名のみ、SVG は拡張子を付けて区別する）
+ */
+export function creativeRenderPath(
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  aspectRatio: CreativeAspectRatio,
+  format: CreativeRenderFormat
+): string {
+  const path = `/creative/${tenantId}/${runId}/${variantId}/${aspectRatio.replace(':', 'x')}`
+  return format === 'png' ? path : `${path}.${format}`
+}
+
+/**
+ * 配信パスのファイル名（1x1・1x1.svg）からサイズと形式を取得（不正なら null）
+ */
+export function parseCreativeRenderName(
+  name: string
+): { aspectRatio: CreativeAspectRatio; format: CreativeRenderFormat } | null {
+  const match = /^(\d+)x(\d+)(\.svg)?$/.exec(name)
+  const aspectRatio = match ? `${match[1]}:${match[2]}` : ''
+  if (!match || !(aspectRatio in CREATIVE_SIZES)) {
+    return null
+  }
+  return { aspectRatio: aspectRatio as CreativeAspectRatio, format: match[3] ? 'svg' : 'png' }
+}
+
+/**
+ * 描画形式の Content-Type
+ */
+export function getCreativeRenderContentType(format: CreativeRenderFormat): string {
+  return CONTENT_TYPES[format]
+}
+
+/**
+ * フォント指定にフォールバックを付けた font-family
+ */
+export function buildFontFamily(fontFamily?: string): string {
+  const families = [...(fontFamily ? [fontFamily] : []), ...CREATIVE_FALLBACK_FONTS]
+  return [...new Set(families)].map((family) => (family.includes(' ') ? `'${family}'` : family)).join(', ')
+}
+
+/**
+ * 文字列の描画幅の概算（px。全角 1em・半角は文字種ごとの平均幅）
+ */
+export function measureText(
+  text: string,
+  fontSize: number,
+  fontWeight: CreativeTextLayer['fontWeight'] = 'normal'
+): number {
+  let em = 0
+  for (const char of text) {
+    if (WIDE_CHAR.test(char)) em += 1
+    else if (char === ' ') em += 0.3
+    else if (/[A-Z0-9]/.test(char)) em += 0.65
+    else if (/[ilj.,:;'!|]/.test(char)) em += 0.3
+    else em += 0.55
+  }
+  return em * fontSize * (fontWeight === 'bold' ? 1.06 : 1)
+}
+
+/**
+ * 指定幅で折り返す（改行は維持し、幅を超える単語は文字単位で分割）
+ */
+export function wrapText(
+  text: string,
+  width: number,
+  fontSize: number,
+  fontWeight?: CreativeTextLayer['fontWeight']
+): string[] {
+  const lines: string[] = []
+  for (const paragraph of text.split('\n')) {
+    let line = ''
+    const push = () => {
+      lines.push(line.trimEnd())
+      line = ''
+    }
+    for (const token of paragraph.match(WRAP_TOKEN) ?? []) {
+      if (measureText(line + token, fontSize, fontWeight) <= width) {
+        line += token
+        continue
+      }
+      if (line.trim()) push()
+      if (/^\s+$/.test(token)) continue
+      for (const char of measureText(token, fontSize, fontWeight) <= width ? [token] : [...token]) {
+        if (line && measureText(line + char, fontSize, fontWeight) > width) push()
+        line += char
+      }
+    }
+    push()
+  }
+  return lines
+}
+
+/**
+ * レイヤーの枠と行数に収まるまでフォントサイズを縮小（下限でも収まらなければ末尾を省略）
+ */
+export function fitText(layer: CreativeTextLayer, text: string): FittedText {
+  const ratio = layer.lineHeight ?? DEFAULT_LINE_HEIGHT
+  const minSize = Math.min(layer.fontSize, CREATIVE_MIN_FONT_SIZE)
+  const maxLines = layer.maxLines ?? Infinity
+
+  for (let fontSize = layer.fontSize; fontSize >= minSize; fontSize -= 1) {
+    const lines = wrapText(text, layer.width, fontSize, layer.fontWeight)
+    if (lines.length <= maxLines && lines.length * fontSize * ratio <= layer.height) {
+      return { fontSize, lineHeight: fontSize * ratio, lines, truncated: false }
+    }
+  }
+
+  const lineHeight = minSize * ratio
+  const fitLines = Math.max(1, Math.min(maxLines, Math.floor(layer.height / lineHeight)))
+  const lines = wrapText(text, layer.width, minSize, layer.fontWeight).slice(0, fitLines)
+  let last = lines[lines.length - 1] ?? ''
+  while (last && measureText(last + ELLIPSIS, minSize, layer.fontWeight) > layer.width) {
+    last = [...last].slice(0, -1).join('')
+  }
+  lines[lines.length - 1] = last + ELLIPSIS
+  return { fontSize: minSize, lineHeight, lines, truncated: true }
+}
+
+/**
+ * 数値属性の整形（小数は2桁まで）
+ */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+/**
+ * 画像レイヤーを描画（cover は枠いっぱいに切り抜き、contain は枠内に収める）
+ */
+function renderImageLayer(layer: CreativeImageLayer, options: CreativeRenderOptions): string {
+  const href = escapeHtml(options.images?.[layer.src] ?? layer.src)
+  const aspect = layer.fit === 'cover' ? 'xMidYMid slice' : 'xMidYMid meet'
+  const box = `x="${num(layer.x)}" y="${num(layer.y)}" width="${num(layer.width)}" height="${num(layer.height)}"`
+  const size = options.imageSizes?.[layer.src]
+  if (!size || (!layer.crop && !layer.focalPoint)) {
+    return `<image ${box} href="${href}" preserveAspectRatio="${aspect}"/>`
+  }
+
+  // 元画像の切り抜き範囲を viewBox にして枠へ写す
+  const crop = resolveImageCrop(size, layer)
+  const viewBox = [crop.x, crop.y, crop.width, crop.height].map(num).join(' ')
+  const image = `<image width="${size.width}" height="${size.height}" href="${href}"/>`
+  return `<svg ${box} viewBox="${viewBox}" preserveAspectRatio="${aspect}">${image}</svg>`
+}
+
+/**
+ * テキストレイヤーを描画（文言は copy から取得し、枠に合わせて自動調整）
+ */
+function renderTextLayer(layer: CreativeTextLayer, copy: Record<string, string>): string {
+  const fitted = fitText(layer, copy[layer.copyKey] ?? '')
+  const anchor = { left: 'start', center: 'middle', right: 'end' }[layer.align]
+  const x = { left: layer.x, center: layer.x + layer.width / 2, right: layer.x + layer.width }[layer.align]
+  // 行ボックスの中央にベースラインを合わせ、行の集まりを枠の上下中央に置く
+  const top = layer.y + (layer.height - fitted.lines.length * fitted.lineHeight) / 2
+  const tspans = fitted.lines
+    .map((line, i) => {
+      const y = top + fitted.lineHeight * i + fitted.lineHeight / 2 + fitted.fontSize * 0.35
+      return `<tspan x="${num(x)}" y="${num(y)}">${escapeHtml(line)}</tspan>`
+    })
+    .join('')
+  const attrs = [
+    `font-family="${escapeHtml(buildFontFamily(layer.fontFamily))}"`,
+    `font-size="${num(fitted.fontSize)}"`,
+    `font-weight="${layer.fontWeight ?? 'normal'}"`,
+    `fill="${escapeHtml(layer.color)}"`,
+    `text-anchor="${anchor}"`,
+  ]
+  return `<text ${attrs.join(' ')} xml:space="preserve">${tspans}</text>`
+}
+
+/**
+ * テンプレートを SVG に合成（レイヤーは背面から順に重ねる）
+ */
+export function renderCreativeSvg(
+  template: CreativeTemplate,
+  copy: Record<string, string>,
+  options: CreativeRenderOptions = {}
+): string {
+  const { width, height } = template
+  const body = template.layers
+    .map((layer) => {
+      const inner = layer.type === 'image' ? renderImageLayer(layer, options) : renderTextLayer(layer, copy)
+      const translucent = layer.opacity !== undefined && layer.opacity < 1
+      return translucent ? `<g opacity="${num(layer.opacity!)}">${inner}</g>` : inner
+    })
+    .join('\n')
+  const background = template.background
+    ? `<rect width="${width}" height="${height}" fill="${escapeHtml(template.background)}"/>\n`
+    : ''
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+${background}${body}
+</svg>
+`
+}
+
+/**
+ * 画像を SVG に埋め込む data URI に変換
+ */
+export function toImageDataUri(bytes: ArrayBuffer, contentType: string): string {
+  const view = new Uint8Array(bytes)
+  let binary = ''
+  for (let i = 0; i < view.length; i += 0x8000) {
+    binary += String.fromCharCode(...view.subarray(i, i + 0x8000))
+  }
+  return `data:${contentType};base64,${btoa(binary)}`
+}
+
+/**
+ * 描画ファイルを作成（ハッシュとサイズを付与）
+ */
+export async function createCreativeRenderFile(
+  file: Omit<CreativeRenderFile, 'contentType' | 'hash' | 'size'>
+): Promise<CreativeRenderFile> {
+  const size = typeof file.body === 'string' ? new TextEncoder().encode(file.body).byteLength : file.body.byteLength
+  return { ...file, contentType: CONTENT_TYPES[file.format], hash: await sha256Hex(file.body), size }
+}
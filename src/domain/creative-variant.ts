@@ -0,0 +1,624 @@
+/**
+ * Creative Variant
+ * クリエイティブのテンプレート（サイズごとの画像・テキストレイヤー）と版管理（下書き→提出→承認→公開）
+ */
+
+// アスペクト比
+export type CreativeAspectRatio = '1:1' | '4:5' | '9:16'
+
+// 版のステータス
+export type CreativeVersionStatus = 'draft' | 'submitted' | 'approved' | 'published'
+
+// レイヤー種別
+export type CreativeLayerType = 'image' | 'text'
+
+// レイヤー共通（座標・サイズはキャンバスのピクセル）
+interface CreativeLayerBase {
+  id: string
+  name?: string
+  x: number
+  y: number
+  width: number
+  height: number
+  opacity?: number // 0〜1
+}
+
+// 画像の切り抜き範囲（元画像に対する割合 0〜1）
+export interface CreativeImageCrop {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// 画像の注目点（元画像に対する割合 0〜1。cover で切り抜く際の中心）
+export interface CreativeFocalPoint {
+  x: number
+  y: number
+}
+
+// 画像レイヤー（src は Run にアップロードした画像の R2 キー。切り抜きはサイズごとのレイヤーで指定）
+export interface CreativeImageLayer extends CreativeLayerBase {
+  type: 'image'
+  src: string
+  fit: 'cover' | 'contain'
+  crop?: CreativeImageCrop
+  focalPoint?: CreativeFocalPoint
+}
+
+// テキストレイヤー（文言は copy のキーで参照し、後から差し替えられる）
+export interface CreativeTextLayer extends CreativeLayerBase {
+  type: 'text'
+  copyKey: string
+  fontSize: number
+  fontWeight?: 'normal' | 'bold'
+  fontFamily?: string
+  color: string
+  align: 'left' | 'center' | 'right'
+  lineHeight?: number
+  maxLines?: number
+}
+
+// レイヤー
+export type CreativeLayer = CreativeImageLayer | CreativeTextLayer
+
+// サイズごとのテンプレート（layers は背面から順）
+export interface CreativeTemplate {
+  aspectRatio: CreativeAspectRatio
+  width: number
+  height: number
+  background?: string
+  layers: CreativeLayer[]
+}
+
+// クリエイティブの構成
+export interface CreativeContent {
+  copy: Record<string, string> // 文言（キー → テキスト）
+  templates: CreativeTemplate[]
+}
+
+// クリエイティブバリアント（version/status/content は最新版を反映）
+export interface CreativeVariant {
+  id: string
+  tenantId: string
+  runId: string
+  name: string
+  appeal?: string // 訴求
+  version: number
+  status: CreativeVersionStatus
+  content: CreativeContent
+  approvedBy?: string
+  approvedAt?: string
+  publishedVersion?: number
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+// クリエイティブバリアントの版
+export interface CreativeVariantVersion {
+  variantId: string
+  tenantId: string
+  version: number
+  status: CreativeVersionStatus
+  content: CreativeContent
+  createdBy: string
+  restoredFrom?: number // ロールバック元の版
+  submittedBy?: string
+  submittedAt?: string
+  approvedBy?: string
+  approvedAt?: string
+  publishedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// セーフエリア（キャンバスに対する上下左右の余白の割合）
+export interface CreativeSafeArea {
+  top: number
+  bottom: number
+  left: number
+  right: number
+}
+
+// セーフエリア外のテキストレイヤーの警告
+export interface CreativeSafeAreaWarning {
+  aspectRatio: CreativeAspectRatio
+  layerId: string
+  message: string
+}
+
+// クリエイティブバリアント作成リクエスト
+export interface CreativeVariantCreateRequest {
+  tenantId: string
+  runId: string
+  name: string
+  appeal?: string
+  content?: CreativeContent
+  createdBy: string
+}
+
+// 変更後のバリアントと対象の版
+export interface CreativeVariantChange {
+  variant: CreativeVariant
+  version: CreativeVariantVersion
+}
+
+// アスペクト比ごとの標準キャンバスサイズ
+export const CREATIVE_SIZES: Record<CreativeAspectRatio, { width: number; height: number }> = {
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 },
+  '9:16': { width: 1080, height: 1920 },
+}
+
+// 提出時に必須のサイズ
+export const CREATIVE_REQUIRED_SIZES: CreativeAspectRatio[] = ['1:1', '4:5', '9:16']
+
+// 配置ごとのセーフエリア（9:16 はストーリーズ・リールの UI に隠れる上 14%・下 35%・左右 6% を避ける）
+export const CREATIVE_SAFE_AREAS: Partial<Record<CreativeAspectRatio, CreativeSafeArea>> = {
+  '9:16': { top: 0.14, bottom: 0.35, left: 0.06, right: 0.06 },
+}
+
+// レイヤー種別一覧
+const CREATIVE_LAYER_TYPES: CreativeLayerType[] = ['image', 'text']
+
+/**
+ * クリエイティブバリアントIDを生成
+ */
+export function generateCreativeVariantId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `crv_${timestamp}_${random}`
+}
+
+/**
+ * レイヤーIDを生成
+ */
+export function generateCreativeLayerId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 6)
+  return `lyr_${timestamp}_${random}`
+}
+
+/**
+ * 標準サイズの空テンプレートを作成
+ */
+export function createCreativeTemplate(
+  aspectRatio: CreativeAspectRatio,
+  layers: CreativeLayer[] = []
+): CreativeTemplate {
+  return { aspectRatio, ...CREATIVE_SIZES[aspectRatio], layers }
+}
+
+/**
+ * ID のないレイヤーに ID を付与
+ */
+export function normalizeCreativeContent(content: CreativeContent): CreativeContent {
+  return {
+    ...content,
+    templates: content.templates.map((template) => ({
+      ...template,
+      layers: template.layers.map((layer) => (layer.id ? layer : { ...layer, id: generateCreativeLayerId() })),
+    })),
+  }
+}
+
+/**
+ * 構成に不足している必須サイズ
+ */
+export function getMissingCreativeSizes(content: CreativeContent): CreativeAspectRatio[] {
+  return CREATIVE_REQUIRED_SIZES.filter((ratio) => !content.templates.some((t) => t.aspectRatio === ratio))
+}
+
+/**
+ * 数値が正の有限値か
+ */
+function isPositive(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+}
+
+/**
+ * 0〜1 の割合か
+ */
+function isRatio(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1
+}
+
+/**
+ * 画像レイヤーの切り抜き範囲と注目点を検証
+ */
+function validateImageFraming(label: string, layer: CreativeImageLayer): string[] {
+  const errors: string[] = []
+  const { crop, focalPoint } = layer
+  if (
+    crop &&
+    !(
+      [crop.x, crop.y, crop.width, crop.height].every(isRatio) &&
+      crop.width > 0 &&
+      crop.height > 0 &&
+      crop.x + crop.width <= 1 &&
+      crop.y + crop.height <= 1
+    )
+  ) {
+    errors.push(`${label}: crop must be within the image`)
+  }
+  if (focalPoint && !(isRatio(focalPoint.x) && isRatio(focalPoint.y))) {
+    errors.push(`${label}: focalPoint must be between 0 and 1`)
+  }
+  return errors
+}
+
+/**
+ * レイヤーの構造を検証
+ */
+function validateLayer(template: CreativeTemplate, layer: CreativeLayer, copy: Record<string, string>): string[] {
+  const label = `Layer ${layer.id} (${template.aspectRatio})`
+  const errors: string[] = []
+
+  if (!CREATIVE_LAYER_TYPES.includes(layer.type)) {
+    return [`${label}: unknown layer type ${layer.type}`]
+  }
+  if (![layer.x, layer.y].every((value) => typeof value === 'number' && Number.isFinite(value))) {
+    errors.push(`${label}: position must be a number`)
+  }
+  if (!isPositive(layer.width) || !isPositive(layer.height)) {
+    errors.push(`${label}: size must be positive`)
+  }
+  if (layer.opacity !== undefined && !(layer.opacity >= 0 && layer.opacity <= 1)) {
+    errors.push(`${label}: opacity must be between 0 and 1`)
+  }
+  if (layer.type === 'image') {
+    errors.push(...validateImageFraming(label, layer))
+  }
+  if (layer.type === 'text') {
+    if (!(layer.copyKey in copy)) {
+      errors.push(`${label}: copy ${layer.copyKey} is not defined`)
+    }
+    if (!isPositive(layer.fontSize)) {
+      errors.push(`${label}: fontSize must be positive`)
+    }
+  }
+  return errors
+}
+
+/**
+ * クリエイティブの構成を検証（下書きは構造のみ、提出時は必須サイズと文言・画像まで）
+ */
+export function validateCreativeContent(
+  content: CreativeContent,
+  mode: 'draft' | 'submit' = 'submit'
+): { valid: boolean; errors: string[] } {
+  if (!content || !Array.isArray(content.templates) || typeof content.copy !== 'object' || content.copy === null) {
+    return { valid: false, errors: ['Templates and copy are required'] }
+  }
+
+  const errors: string[] = []
+  const ratios = new Set<string>()
+  const layerIds = new Set<string>()
+  for (const template of content.templates) {
+    if (!(template.aspectRatio in CREATIVE_SIZES)) {
+      errors.push(`Unknown aspect ratio: ${template.aspectRatio}`)
+      continue
+    }
+    if (ratios.has(template.aspectRatio)) {
+      errors.push(`Duplicate template: ${template.aspectRatio}`)
+    }
+    ratios.add(template.aspectRatio)
+    if (!isPositive(template.width) || !isPositive(template.height)) {
+      errors.push(`Template ${template.aspectRatio}: size must be positive`)
+    }
+    for (const layer of template.layers) {
+      if (layer.id && layerIds.has(layer.id)) {
+        errors.push(`Duplicate layer id: ${layer.id}`)
+      }
+      layerIds.add(layer.id)
+      errors.push(...validateLayer(template, layer, content.copy))
+    }
+  }
+
+  if (mode === 'submit' && errors.length === 0) {
+    const missing = getMissingCreativeSizes(content)
+    if (missing.length > 0) {
+      errors.push(`Missing required sizes: ${missing.join(', ')}`)
+    }
+    for (const template of content.templates) {
+      if (template.layers.length === 0) {
+        errors.push(`Template ${template.aspectRatio}: at least one layer is required`)
+      }
+      for (const layer of template.layers) {
+        if (layer.type === 'image' && !layer.src?.trim()) {
+          errors.push(`Layer ${layer.id} (${template.aspectRatio}): src is required`)
+        }
+      }
+    }
+    for (const [key, text] of Object.entries(content.copy)) {
+      if (typeof text !== 'string' || text.trim().length === 0) {
+        errors.push(`Copy ${key} is empty`)
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * 版を作成
+ */
+function createVersion(
+  variant: CreativeVariant,
+  version: number,
+  content: CreativeContent,
+  createdBy: string,
+  timestamp: string
+): CreativeVariantVersion {
+  return {
+    variantId: variant.id,
+    tenantId: variant.tenantId,
+    version,
+    status: 'draft',
+    content,
+    createdBy,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * 最新版をバリアントに反映
+ */
+function withLatest(variant: CreativeVariant, version: CreativeVariantVersion, timestamp: string): CreativeVariant {
+  if (version.version !== variant.version && version.version !== variant.version + 1) {
+    return { ...variant, updatedAt: timestamp }
+  }
+  return {
+    ...variant,
+    version: version.version,
+    status: version.status,
+    content: version.content,
+    approvedBy: version.approvedBy,
+    approvedAt: version.approvedAt,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * クリエイティブバリアントを作成（版1の下書き。構成を省略すると必須サイズの空テンプレート）
+ */
+export function createCreativeVariant(request: CreativeVariantCreateRequest, now = new Date()): CreativeVariantChange {
+  if (!request.name?.trim()) {
+    throw new Error('Name is required')
+  }
+
+  const content = normalizeCreativeContent(
+    request.content ?? { copy: {}, templates: CREATIVE_REQUIRED_SIZES.map((ratio) => createCreativeTemplate(ratio)) }
+  )
+  const validation = validateCreativeContent(content, 'draft')
+  if (!validation.valid) {
+    throw new Error(validation.errors.join(', '))
+  }
+
+  const timestamp = now.toISOString()
+  const variant: CreativeVariant = {
+    id: generateCreativeVariantId(),
+    tenantId: request.tenantId,
+    runId: request.runId,
+    name: request.name.trim(),
+    appeal: request.appeal,
+    version: 1,
+    status: 'draft',
+    content,
+    createdBy: request.createdBy,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+
+  return { variant, version: createVersion(variant, 1, content, request.createdBy, timestamp) }
+}
+
+/**
+ * 下書きを保存（最新版が下書きなら上書き、それ以外は新しい版を作成）
+ */
+export function saveCreativeDraft(
+  variant: CreativeVariant,
+  latest: CreativeVariantVersion,
+  content: CreativeContent,
+  userId: string,
+  now = new Date()
+): CreativeVariantChange {
+  if (latest.version !== variant.version) {
+    throw new Error('Version is not the latest')
+  }
+
+  const normalized = normalizeCreativeContent(content)
+  const validation = validateCreativeContent(normalized, 'draft')
+  if (!validation.valid) {
+    throw new Error(validation.errors.join(', '))
+  }
+
+  const timestamp = now.toISOString()
+  const version: CreativeVariantVersion =
+    latest.status === 'draft'
+      ? { ...latest, content: normalized, updatedAt: timestamp }
+      : createVersion(variant, latest.version + 1, normalized, userId, timestamp)
+
+  return { variant: withLatest(variant, version, timestamp), version }
+}
+
+/**
+ * 文言だけを差し替えた下書きを保存（レイヤー配置はそのまま）
+ */
+export function rewordCreative(
+  variant: CreativeVariant,
+  latest: CreativeVariantVersion,
+  copy: Record<string, string>,
+  userId: string,
+  now = new Date()
+): CreativeVariantChange {
+  const unknown = Object.keys(copy).filter((key) => !(key in latest.content.copy))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown copy keys: ${unknown.join(', ')}`)
+  }
+  const content = { ...latest.content, copy: { ...latest.content.copy, ...copy } }
+  return saveCreativeDraft(variant, latest, content, userId, now)
+}
+
+/**
+ * 最新の下書きを提出（必須サイズまで検証）
+ */
+export function submitCreativeVersion(
+  variant: CreativeVariant,
+  version: CreativeVariantVersion,
+  userId: string,
+  now = new Date()
+): CreativeVariantChange {
+  if (version.version !== variant.version) {
+    throw new Error('Only the latest version can be submitted')
+  }
+  if (version.status !== 'draft') {
+    throw new Error(`Version is ${version.status}`)
+  }
+
+  const validation = validateCreativeContent(version.content)
+  if (!validation.valid) {
+    throw new Error(validation.errors.join(', '))
+  }
+
+  const timestamp = now.toISOString()
+  const submitted: CreativeVariantVersion = {
+    ...version,
+    status: 'submitted',
+    submittedBy: userId,
+    submittedAt: timestamp,
+    updatedAt: timestamp,
+  }
+  return { variant: withLatest(variant, submitted, timestamp), version: submitted }
+}
+
+/**
+ * 提出済みの版を承認
+ */
+export function approveCreativeVersion(
+  variant: CreativeVariant,
+  version: CreativeVariantVersion,
+  reviewerId: string,
+  now = new Date()
+): CreativeVariantChange {
+  if (version.status !== 'submitted') {
+    throw new Error(`Version is ${version.status}`)
+  }
+
+  const timestamp = now.toISOString()
+  const approved: CreativeVariantVersion = {
+    ...version,
+    status: 'approved',
+    approvedBy: reviewerId,
+    approvedAt: timestamp,
+    updatedAt: timestamp,
+  }
+  return { variant: withLatest(variant, approved, timestamp), version: approved }
+}
+
+/**
+ * 承認済みの版を公開（公開済みの版を再公開して公開中の版を戻すこともできる）
+ */
+export function publishCreativeVersion(
+  variant: CreativeVariant,
+  version: CreativeVariantVersion,
+  now = new Date()
+): CreativeVariantChange {
+  if (version.status !== 'approved' && version.status !== 'published') {
+    throw new Error(`Version is ${version.status}`)
+  }
+
+  const timestamp = now.toISOString()
+  const published: CreativeVariantVersion = {
+    ...version,
+    status: 'published',
+    publishedAt: timestamp,
+    updatedAt: timestamp,
+  }
+  return {
+    variant: { ...withLatest(variant, published, timestamp), publishedVersion: version.version },
+    version: published,
+  }
+}
+
+/**
+ * 過去の版の内容で新しい下書きを作成（再提出・再承認が必要）
+ */
+export function rollbackCreativeVariant(
+  variant: CreativeVariant,
+  target: CreativeVariantVersion,
+  userId: string,
+  now = new Date()
+): CreativeVariantChange {
+  if (target.version >= variant.version) {
+    throw new Error('Rollback target must be an earlier version')
+  }
+
+  const timestamp = now.toISOString()
+  const version: CreativeVariantVersion = {
+    ...createVersion(variant, variant.version + 1, target.content, userId, timestamp),
+    restoredFrom: target.version,
+  }
+  return { variant: withLatest(variant, version, timestamp), version }
+}
+
+/**
+ * セーフエリアからはみ出すテキストレイヤーを警告（提出は妨げない）
+ */
+export function getCreativeSafeAreaWarnings(content: CreativeContent): CreativeSafeAreaWarning[] {
+  const warnings: CreativeSafeAreaWarning[] = []
+  for (const template of content.templates) {
+    const area = CREATIVE_SAFE_AREAS[template.aspectRatio]
+    if (!area) continue
+
+    const left = template.width * area.left
+    const right = template.width * (1 - area.right)
+    const top = template.height * area.top
+    const bottom = template.height * (1 - area.bottom)
+    for (const layer of template.layers) {
+      if (layer.type !== 'text') continue
+      if (layer.x < left || layer.y < top || layer.x + layer.width > right || layer.y + layer.height > bottom) {
+        warnings.push({
+          aspectRatio: template.aspectRatio,
+          layerId: layer.id,
+          message: `Text layer ${layer.id} is outside the Stories/Reels safe area (${template.aspectRatio})`,
+        })
+      }
+    }
+  }
+  return warnings
+}
+
+/**
+ * 構成に含まれるアスペクト比
+ */
+export function getCreativeAspectRatios(content: CreativeContent): CreativeAspectRatio[] {
+  return content.templates.map((template) => template.aspectRatio)
+}
+
+/**
+ * アスペクト比のラベルを取得
+ */
+export function getCreativeAspectRatioLabel(ratio: CreativeAspectRatio): string {
+  const labels: Record<CreativeAspectRatio, string> = {
+    '1:1': 'スクエア（1:1）',
+    '4:5': '縦長（4:5）',
+    '9:16': 'ストーリーズ（9:16）',
+  }
+  return labels[ratio]
+}
+
+/**
+ * 版ステータスのラベルを取得
+ */
+export function getCreativeVersionStatusLabel(status: CreativeVersionStatus): string {
+  const labels: Record<CreativeVersionStatus, string> = {
+    draft: '下書き',
+    submitted: '提出済み',
+    approved: '承認済み',
+    published: '公開済み',
+  }
+  return labels[status]
+}
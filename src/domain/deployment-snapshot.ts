@@ -0,0 +1,149 @@
+/**
+ * Deployment Snapshot
+ * 公開時点の配信物（LP HTML・設定 JSON・クリエイティブ）を版ごとに固定保存する（公開物の証跡）
+ */
+
+import { canonicalJson, sha256Hex } from './audit'
+import type { PublishedLp } from './lp-renderer'
+import { createDeployedAsset, type DeployedAsset, type Deployment, type DeploymentEnvironment } from './publishing'
+import type { Run } from './run'
+
+// スナップショットの1ファイル
+export interface SnapshotEntry {
+  path: string
+  type: DeployedAsset['type']
+  variantId?: string
+  sourceUrl: string
+  contentType: string
+  hash: string
+  size: number
+}
+
+// スナップショットのマニフェスト（hash は entries の正規化 JSON の SHA-256）
+export interface DeploymentSnapshotManifest {
+  deploymentId: string
+  tenantId: string
+  runId: string
+  environment: DeploymentEnvironment
+  version: number
+  createdAt: string
+  entries: SnapshotEntry[]
+  hash: string
+}
+
+// デプロイメントに記録するスナップショット参照
+export interface DeploymentSnapshotRef {
+  key: string
+  hash: string
+}
+
+// マニフェストのファイル名
+export const SNAPSHOT_MANIFEST = 'manifest.json'
+
+/**
+ * デプロイ版ごとの保存先プレフィックス
+ */
+export function snapshotPrefix(deployment: Deployment): string {
+  return `snapshots/${deployment.tenantId}/${deployment.runId}/${deployment.environment}/v${deployment.version}/`
+}
+
+/**
+ * スナップショット内ファイルの保存キー
+ */
+export function snapshotKey(deployment: Deployment, path: string): string {
+  return `${snapshotPrefix(deployment)}${path}`
+}
+
+/**
+ * LP の描画入力と HTML のパス
+ */
+export function snapshotLpPaths(variantId: string): { html: string; config: string } {
+  return { html: `lp/${variantId}.html`, config: `lp/${variantId}.json` }
+}
+
+/**
+ * クリエイティブの描画ファイルのパス
+ */
+export function snapshotCreativePath(variantId: string, aspectRatio: string, format: string): string {
+  return `creatives/${variantId}/${aspectRatio.replace(':', 'x')}.${format}`
+}
+
+/**
+ * スナップショットのファイル記録を作成
+ */
+export async function createSnapshotEntry(
+  file: Omit<SnapshotEntry, 'hash' | 'size'>,
+  body: string | ArrayBuffer
+): Promise<SnapshotEntry> {
+  const size = typeof body === 'string' ? new TextEncoder().encode(body).length : body.byteLength
+  return { ...file, hash: await sha256Hex(body), size }
+}
+
+/**
+ * 公開時点の配信設定（正規化 JSON）
+ */
+export function toDeploymentConfigJson(deployment: Deployment, run: Run, lps: PublishedLp[]): string {
+  return canonicalJson({
+    deploymentId: deployment.id,
+    environment: deployment.environment,
+    version: deployment.version,
+    urls: deployment.urls,
+    run: {
+      id: run.id,
+      destinationUrl: run.destinationUrl ?? null,
+      pixels: run.pixels ?? [],
+      stopRules: run.stopRules,
+    },
+    lps: lps.map((page) => ({ variantId: page.variantId, version: page.version })),
+  })
+}
+
+/**
+ * マニフェストを作成（パス順に並べて全体のハッシュを計算）
+ */
+export async function createSnapshotManifest(
+  deployment: Deployment,
+  entries: SnapshotEntry[],
+  now = new Date()
+): Promise<DeploymentSnapshotManifest> {
+  const sorted = [...entries].sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+  return {
+    deploymentId: deployment.id,
+    tenantId: deployment.tenantId,
+    runId: deployment.runId,
+    environment: deployment.environment,
+    version: deployment.version,
+    createdAt: now.toISOString(),
+    entries: sorted,
+    hash: await sha256Hex(canonicalJson(sorted)),
+  }
+}
+
+/**
+ * マニフェストが改ざんされていないか（entries と全体ハッシュの一致）
+ */
+export async function isSnapshotManifestIntact(manifest: DeploymentSnapshotManifest): Promise<boolean> {
+  return manifest.hash === (await sha256Hex(canonicalJson(manifest.entries)))
+}
+
+/**
+ * スナップショットのファイルをデプロイ済みアセットとして表現
+ */
+export function toSnapshotAssets(deployment: Deployment, manifest: DeploymentSnapshotManifest): DeployedAsset[] {
+  return manifest.entries.map((entry) =>
+    createDeployedAsset(entry.type, entry.sourceUrl, snapshotKey(deployment, entry.path), {
+      variantId: entry.variantId,
+      hash: entry.hash,
+      size: entry.size,
+      contentType: entry.contentType,
+    })
+  )
+}
+
+/**
+ * デプロイメントに記録されたスナップショット参照（公開前のデプロイメントは null）
+ */
+export function getSnapshotRef(deployment: Deployment): DeploymentSnapshotRef | null {
+  const ref = deployment.metadata.snapshot as DeploymentSnapshotRef | undefined
+  return ref?.key && ref.hash ? ref : null
+}
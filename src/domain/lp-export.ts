@@ -0,0 +1,103 @@
+/**
+ * LP Export
+ * 公開済み LP の版を単体 HTML・正規化 JSON・印刷用 HTML に書き出す（R2 保存・証跡用）
+ */
+
+import { canonicalJson, sha256Hex } from './audit'
+import { creativeRenderPath } from './creative-renderer'
+import type { CreativeAspectRatio } from './creative-variant'
+import { renderLpHtml, type PublishedLp } from './lp-renderer'
+import type { Deployment } from './publishing'
+
+// エクスポート形式
+export type LpExportFormat = 'html' | 'json' | 'print'
+
+// エクスポートファイル
+export interface LpExportFile {
+  format: LpExportFormat
+  key: string
+  body: string
+  contentType: string
+  hash: string
+  size: number
+}
+
+// 形式ごとのファイル名
+const FILE_NAMES: Record<LpExportFormat, string> = {
+  html: 'index.html',
+  json: 'lp.json',
+  print: 'print.html',
+}
+
+// 形式ごとの Content-Type
+const CONTENT_TYPES: Record<LpExportFormat, string> = {
+  html: 'text/html; charset=utf-8',
+  json: 'application/json',
+  print: 'text/html; charset=utf-8',
+}
+
+/**
+ * エクスポートの保存キー（版ごとに固定）
+ */
+export function lpExportKey(page: PublishedLp, format: LpExportFormat): string {
+  return `exports/lp/${page.tenantId}/${page.runId}/${page.variantId}/v${page.version}/${FILE_NAMES[format]}`
+}
+
+/**
+ * LP が参照するクリエイティブの配信パス（/creative/...）→ デプロイメントの配信 URL（CreativeUrl）の対応表
+ * （バリアント・サイズごとに、デプロイメントに描画ファイルが記録されているものだけ）
+ */
+export function buildCreativeAssetUrls(deployment: Deployment): Record<string, string> {
+  const rendered = new Set(
+    deployment.assets.filter((asset) => asset.type === 'creative').map((asset) => asset.sourceUrl)
+  )
+  const urls: Record<string, string> = {}
+  for (const { variantId, aspectRatio, url } of deployment.urls.creativeUrls) {
+    const { tenantId, runId } = deployment
+    const path = creativeRenderPath(tenantId, runId, variantId, aspectRatio as CreativeAspectRatio, 'png')
+    if (rendered.has(path)) {
+      urls[path] = url
+    }
+  }
+  return urls
+}
+
+/**
+ * 公開済み LP の正規化 JSON（キー順固定。計測タグは含めない）
+ */
+export function toLpExportJson(page: PublishedLp): string {
+  return canonicalJson({
+    tenantId: page.tenantId,
+    runId: page.runId,
+    variantId: page.variantId,
+    version: page.version,
+    publishedAt: page.publishedAt,
+    content: page.content,
+  })
+}
+
+/**
+ * 3形式のエクスポートファイルを生成（計測タグは埋め込まない）
+ */
+export async function createLpExport(
+  page: PublishedLp,
+  assetUrls: Record<string, string> = {}
+): Promise<LpExportFile[]> {
+  const exported: PublishedLp = { ...page, pixels: [] }
+  const bodies: Record<LpExportFormat, string> = {
+    html: renderLpHtml(exported, { assetUrls }),
+    json: toLpExportJson(exported),
+    print: renderLpHtml(exported, { assetUrls, print: true }),
+  }
+
+  return Promise.all(
+    (Object.keys(bodies) as LpExportFormat[]).map(async (format) => ({
+      format,
+      key: lpExportKey(page, format),
+      body: bodies[format],
+      contentType: CONTENT_TYPES[format],
+      hash: await sha256Hex(bodies[format]),
+      size: new TextEncoder().encode(bodies[format]).length,
+    }))
+  )
+}
@@ -0,0 +1,262 @@
+/**
+ * LP Renderer
+ * 公開済み LP の構成 JSON からランタイムで HTML を生成（ユーザー入力はすべてエスケープ）
+ */
+
+import type { LpContent, LpFormField, LpSection } from './lp-variant'
+import { generateGATag, generateMetaPixelCode, isValidPixelId, type PixelConfig } from './measurement'
+
+// 公開済み LP（KV にキャッシュする構成）
+export interface PublishedLp {
+  tenantId: string
+  runId: string
+  variantId: string
+  version: number
+  content: LpContent
+  pixels: PixelConfig[]
+  publishedAt: string
+}
+
+// クリエイティブの配信パス（/creative/:tenantId/:runId/:variantId/:name）
+const CREATIVE_PATH_PATTERN = /^\/creative\/[\w-]+\/[\w-]+\/[\w-]+\/\d+x\d+(?:\.svg)?$/
+
+// 描画オプション（エクスポート時の画像 URL 差し替え・印刷用レイアウト）
+export interface LpRenderOptions {
+  assetUrls?: Record<string, string>
+  print?: boolean
+}
+
+// 共通スタイル（テンプレートは1つ、内容はデータで差し替える）
+const BASE_STYLE = `
+body{margin:0;color:#222;line-height:1.7;
+font-family:-apple-system,BlinkMacSystemFont,"Hiragino Sans","Noto Sans JP",sans-serif}
+.lp{max-width:720px;margin:0 auto;padding:0 16px}
+section{padding:32px 0}
+.lp-hero{text-align:center}
+.lp-hero h1{font-size:1.75rem;line-height:1.4;margin:0 0 12px}
+.lp-hero img{max-width:100%;height:auto}
+.lp-button{display:inline-block;padding:14px 32px;border-radius:999px;background:#e4572e;color:#fff;
+font-weight:bold;text-decoration:none}
+.lp-cta{text-align:center}
+.lp-form label{display:block;margin:12px 0 4px;font-weight:bold}
+.lp-form input,.lp-form select,.lp-form textarea{width:100%;padding:10px;box-sizing:border-box}
+.lp-disclaimer{font-size:.8rem;color:#666}
+`.trim()
+
+// 印刷用スタイル（PDF 変換向け。リンク先を併記し、セクション途中での改ページを避ける）
+const PRINT_STYLE = `
+@page{size:A4;margin:16mm}
+body{font-size:11pt}
+.lp{max-width:none;padding:0}
+section{padding:12pt 0;break-inside:avoid}
+.lp-button{padding:0;border-radius:0;background:none;color:#222;text-decoration:underline}
+.lp-link-url{font-size:.8em;color:#666;word-break:break-all}
+.lp-print-meta{font-size:.8em;color:#666;border-top:1px solid #ccc;margin-top:24pt;padding-top:8pt}
+`.trim()
+
+/**
+ * HTML 特殊文字をエスケープ
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * リンク・画像に使える URL か（https とページ内リンクのみ。javascript: などは拒否）
+ */
+export function safeUrl(value: string | undefined, allowAnchor = true): string | null {
+  if (!value) return null
+  if (allowAnchor && /^#[A-Za-z0-9_-]+$/.test(value)) return value
+  try {
+    return new URL(value).protocol === 'https:' ? value : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 画像に使える URL か（https と、同じホストで配信するクリエイティブの描画ファイル /creative/... のみ）
+ */
+export function safeImageUrl(value: string | undefined): string | null {
+  return value && CREATIVE_PATH_PATTERN.test(value) ? value : safeUrl(value, false)
+}
+
+/**
+ * テキストを段落として描画（改行は <br>）
+ */
+function renderText(value: string | undefined): string {
+  return escapeHtml(value).replace(/\r?\n/g, '<br>')
+}
+
+/**
+ * リンクボタンを描画（URL が不正なら描画しない。印刷時はリンク先を併記）
+ */
+function renderButton(label: string, url: string | undefined, options: LpRenderOptions): string {
+  const href = safeUrl(url)
+  if (!href) return ''
+  const link = `<a class="lp-button" href="${escapeHtml(href)}">${escapeHtml(label)}</a>`
+  return options.print && !href.startsWith('#')
+    ? `${link} <span class="lp-link-url">${escapeHtml(href)}</span>`
+    : link
+}
+
+/**
+ * フォーム項目を描画
+ */
+function renderFormField(sectionId: string, field: LpFormField): string {
+  const id = escapeHtml(`${sectionId}-${field.name}`)
+  const name = escapeHtml(field.name)
+  const required = field.required ? ' required' : ''
+  const label = `<label for="${id}">${escapeHtml(field.label)}</label>`
+
+  switch (field.type) {
+    case 'textarea':
+      return `${label}<textarea id="${id}" name="${name}"${required}></textarea>`
+    case 'select': {
+      const options = (field.options ?? []).map((o) => `<option value="${escapeHtml(o)}">${escapeHtml(o)}</option>`)
+      return `${label}<select id="${id}" name="${name}"${required}>${options.join('')}</select>`
+    }
+    case 'checkbox':
+      return `<label><input type="checkbox" name="${name}" value="1"${required}> ${escapeHtml(field.label)}</label>`
+    default:
+      return `${label}<input id="${id}" type="${escapeHtml(field.type)}" name="${name}"${required}>`
+  }
+}
+
+/**
+ * セクションを描画
+ */
+export function renderLpSection(section: LpSection, content: LpContent, options: LpRenderOptions = {}): string {
+  const open = `<section id="${escapeHtml(section.id)}" class="lp-${escapeHtml(section.type)}">`
+
+  switch (section.type) {
+    case 'hero': {
+      const { headline, subheadline, imageUrl, ctaLabel } = section.props
+      const image = safeImageUrl(imageUrl && (options.assetUrls?.[imageUrl] ?? imageUrl))
+      const cta = content.sections.find((s) => s.type === 'cta')
+      return [
+        open,
+        `<h1>${escapeHtml(headline)}</h1>`,
+        subheadline ? `<p>${renderText(subheadline)}</p>` : '',
+        image ? `<img src="${escapeHtml(image)}" alt="">` : '',
+        ctaLabel && cta?.type === 'cta' ? renderButton(ctaLabel, cta.props.url, options) : '',
+        '</section>',
+      ].join('')
+    }
+    case 'benefits':
+      return [
+        open,
+        section.props.title ? `<h2>${escapeHtml(section.props.title)}</h2>` : '',
+        '<ul>',
+        ...section.props.items.map((item) => {
+          const body = item.body ? `<p>${renderText(item.body)}</p>` : ''
+          return `<li><strong>${escapeHtml(item.title)}</strong>${body}</li>`
+        }),
+        '</ul></section>',
+      ].join('')
+    case 'faq': {
+      const details = options.print ? '<details open>' : '<details>'
+      return [
+        open,
+        `<h2>${escapeHtml(section.props.title ?? 'よくある質問')}</h2>`,
+        ...section.props.items.map(
+          (item) =>
+            `${details}<summary>${escapeHtml(item.question)}</summary><p>${renderText(item.answer)}</p></details>`
+        ),
+        '</section>',
+      ].join('')
+    }
+    case 'cta':
+      return [
+        open,
+        renderButton(section.props.label, section.props.url, options),
+        section.props.note ? `<p>${renderText(section.props.note)}</p>` : '',
+        '</section>',
+      ].join('')
+    case 'form': {
+      // 送信先が無いと GET で同じ URL に送られ、入力内容が計測タグの記録する URL に載るため表示しない
+      const action = safeUrl(section.props.action, false)
+      if (!action) return ''
+      return [
+        open,
+        section.props.title ? `<h2>${escapeHtml(section.props.title)}</h2>` : '',
+        `<form class="lp-form" method="post" action="${escapeHtml(action)}">`,
+        ...section.props.fields.map((field) => renderFormField(section.id, field)),
+        `<p><button class="lp-button" type="submit">${escapeHtml(section.props.submitLabel)}</button></p>`,
+        '</form></section>',
+      ].join('')
+    }
+    case 'disclaimer':
+      return `<aside id="${escapeHtml(section.id)}" class="lp-disclaimer">${renderText(section.props.text)}</aside>`
+  }
+}
+
+/**
+ * 計測タグを描画（ID の形式が不正なもの、任意コードの custom は埋め込まない）
+ */
+export function renderPixelTags(pixels: PixelConfig[]): string {
+  return pixels
+    .filter((pixel) => pixel.enabled && isValidPixelId(pixel.platform, pixel.pixelId))
+    .map((pixel) => {
+      switch (pixel.platform) {
+        case 'meta':
+          return generateMetaPixelCode(pixel.pixelId, pixel.events)
+        case 'google':
+          return generateGATag(pixel.pixelId)
+        default:
+          return ''
+      }
+    })
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * 印刷版の末尾に載せる版情報
+ */
+function renderPrintMeta(page: PublishedLp): string {
+  return [
+    '<footer class="lp-print-meta">',
+    `${escapeHtml(page.variantId)} v${page.version} / 公開日時 ${escapeHtml(page.publishedAt)}`,
+    '</footer>',
+  ].join('')
+}
+
+/**
+ * 公開済み LP の HTML を生成
+ */
+export function renderLpHtml(page: PublishedLp, options: LpRenderOptions = {}): string {
+  const { content } = page
+  const description = content.description
+    ? `<meta name="description" content="${escapeHtml(content.description)}">`
+    : ''
+  const pixels = renderPixelTags(page.pixels)
+  const style = options.print ? `${BASE_STYLE}\n${PRINT_STYLE}` : BASE_STYLE
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="ja">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(content.title)}</title>`,
+    description,
+    `<style>${style}</style>`,
+    pixels,
+    '</head>',
+    '<body>',
+    `<main class="lp" data-run-id="${escapeHtml(page.runId)}" data-variant-id="${escapeHtml(page.variantId)}">`,
+    ...content.sections.map((section) => renderLpSection(section, content, options)),
+    '</main>',
+    options.print ? renderPrintMeta(page) : '',
+    '</body>',
+    '</html>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
@@ -0,0 +1,636 @@
+/**
+ * LP Variant
+ * LP バリアントの構成（型付きセクションの JSON）と版管理（下書き/提出/承認/公開済み、差分、ロールバック）
+ */
+
+import { canonicalJson } from './audit'
+
+// セクション種別
+export type LpSectionType = 'hero' | 'benefits' | 'faq' | 'cta' | 'form' | 'disclaimer'
+
+// 版のステータス
+export type LpVersionStatus = 'draft' | 'submitted' | 'approved' | 'published'
+
+// ファーストビュー
+export interface LpHeroProps {
+  headline: string
+  subheadline?: string
+  imageUrl?: string
+  ctaLabel?: string
+}
+
+// ベネフィット
+export interface LpBenefitsProps {
+  title?: string
+  items: { title: string; body?: string }[]
+}
+
+// FAQ
+export interface LpFaqProps {
+  title?: string
+  items: { question: string; answer: string }[]
+}
+
+// CTA
+export interface LpCtaProps {
+  label: string
+  url: string // https の URL または #form などのページ内リンク
+  note?: string
+}
+
+// フォーム項目
+export interface LpFormField {
+  name: string
+  label: string
+  type: 'text' | 'email' | 'tel' | 'textarea' | 'select' | 'checkbox'
+  required: boolean
+  options?: string[] // select のみ
+}
+
+// フォーム
+export interface LpFormProps {
+  title?: string
+  fields: LpFormField[]
+  submitLabel: string
+  action?: string // 送信先（https の URL に POST する。未指定のフォームは公開 LP に表示しない）
+}
+
+// 注意書き
+export interface LpDisclaimerProps {
+  text: string
+}
+
+// セクション種別ごとのプロパティ
+export interface LpSectionPropsMap {
+  hero: LpHeroProps
+  benefits: LpBenefitsProps
+  faq: LpFaqProps
+  cta: LpCtaProps
+  form: LpFormProps
+  disclaimer: LpDisclaimerProps
+}
+
+// セクション
+export type LpSection = {
+  [T in LpSectionType]: { id: string; type: T; props: LpSectionPropsMap[T] }
+}[LpSectionType]
+
+// LP の構成
+export interface LpContent {
+  title: string
+  description?: string
+  sections: LpSection[]
+}
+
+// LP バリアント（version/status/content は最新版を反映）
+export interface LpVariant {
+  id: string
+  tenantId: string
+  runId: string
+  name: string
+  appeal?: string // 訴求
+  layoutType?: string // 構成タイプ
+  offer?: string // オファー差分
+  version: number
+  status: LpVersionStatus
+  content: LpContent
+  approvedBy?: string
+  approvedAt?: string
+  publishedVersion?: number
+  publishedUrl?: string
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+// LP バリアントの版
+export interface LpVariantVersion {
+  variantId: string
+  tenantId: string
+  version: number
+  status: LpVersionStatus
+  content: LpContent
+  createdBy: string
+  restoredFrom?: number // ロールバック元の版
+  submittedBy?: string
+  submittedAt?: string
+  approvedBy?: string
+  approvedAt?: string
+  publishedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// LP バリアント作成リクエスト
+export interface LpVariantCreateRequest {
+  tenantId: string
+  runId: string
+  name: string
+  appeal?: string
+  layoutType?: string
+  offer?: string
+  content?: LpContent
+  createdBy: string
+}
+
+// 変更後のバリアントと対象の版
+export interface LpVariantChange {
+  variant: LpVariant
+  version: LpVariantVersion
+}
+
+// 項目の変更
+export interface LpFieldChange {
+  path: string // 例: items[1].answer
+  before?: unknown
+  after?: unknown
+}
+
+// セクションの変更
+export interface LpSectionDiff {
+  sectionId: string
+  type: LpSectionType
+  change: 'added' | 'removed' | 'modified' | 'moved'
+  fromIndex?: number
+  toIndex?: number
+  fields: LpFieldChange[]
+}
+
+// 版の差分
+export interface LpContentDiff {
+  changed: boolean
+  meta: LpFieldChange[] // title / description
+  sections: LpSectionDiff[]
+}
+
+// セクション種別一覧
+export const LP_SECTION_TYPES: LpSectionType[] = ['hero', 'benefits', 'faq', 'cta', 'form', 'disclaimer']
+
+// 提出時に必須のセクション
+export const LP_REQUIRED_SECTIONS: LpSectionType[] = ['hero', 'cta']
+
+// フォーム項目の種別
+const LP_FORM_FIELD_TYPES: LpFormField['type'][] = ['text', 'email', 'tel', 'textarea', 'select', 'checkbox']
+
+/**
+ * LP バリアントIDを生成
+ */
+export function generateLpVariantId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `lpv_${timestamp}_${random}`
+}
+
+/**
+ * セクションIDを生成
+ */
+export function generateLpSectionId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 6)
+  return `sec_${timestamp}_${random}`
+}
+
+/**
+ * セクションを作成
+ */
+export function createLpSection<T extends LpSectionType>(type: T, props: LpSectionPropsMap[T]): LpSection {
+  return { id: generateLpSectionId(), type, props } as LpSection
+}
+
+/**
+ * ID のないセクションに ID を付与
+ */
+export function normalizeLpContent(content: LpContent): LpContent {
+  return {
+    ...content,
+    sections: content.sections.map((section) => (section.id ? section : { ...section, id: generateLpSectionId() })),
+  }
+}
+
+/**
+ * テキストが空でないか
+ */
+function isFilled(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+/**
+ * CTA のリンク先として有効か（https またはページ内リンク）
+ */
+function isValidFormAction(url: string): boolean {
+  return !url.startsWith('#') && isValidCtaUrl(url)
+}
+
+function isValidCtaUrl(url: string): boolean {
+  if (url.startsWith('#')) {
+    return url.length > 1
+  }
+  try {
+    return new URL(url).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * セクションの必須項目を検証
+ */
+function validateSection(section: LpSection): string[] {
+  const prefix = `Section ${section.id} (${section.type})`
+  const errors: string[] = []
+
+  switch (section.type) {
+    case 'hero':
+      if (!isFilled(section.props.headline)) errors.push(`${prefix}: headline is required`)
+      break
+    case 'benefits':
+      if (!section.props.items?.length) errors.push(`${prefix}: at least one item is required`)
+      section.props.items?.forEach((item, i) => {
+        if (!isFilled(item.title)) errors.push(`${prefix}: items[${i}].title is required`)
+      })
+      break
+    case 'faq':
+      if (!section.props.items?.length) errors.push(`${prefix}: at least one item is required`)
+      section.props.items?.forEach((item, i) => {
+        if (!isFilled(item.question)) errors.push(`${prefix}: items[${i}].question is required`)
+        if (!isFilled(item.answer)) errors.push(`${prefix}: items[${i}].answer is required`)
+      })
+      break
+    case 'cta':
+      if (!isFilled(section.props.label)) errors.push(`${prefix}: label is required`)
+      if (!isFilled(section.props.url) || !isValidCtaUrl(section.props.url)) {
+        errors.push(`${prefix}: url must be an https URL or an in-page link`)
+      }
+      break
+    case 'form': {
+      if (!section.props.fields?.length) errors.push(`${prefix}: at least one field is required`)
+      if (!isFilled(section.props.submitLabel)) errors.push(`${prefix}: submitLabel is required`)
+      if (section.props.action !== undefined && !isValidFormAction(section.props.action)) {
+        errors.push(`${prefix}: action must be an https URL`)
+      }
+      const names = new Set<string>()
+      section.props.fields?.forEach((field, i) => {
+        if (!isFilled(field.name) || names.has(field.name)) {
+          errors.push(`${prefix}: fields[${i}].name must be unique`)
+        }
+        names.add(field.name)
+        if (!LP_FORM_FIELD_TYPES.includes(field.type)) errors.push(`${prefix}: fields[${i}].type is invalid`)
+        if (field.type === 'select' && !field.options?.length) {
+          errors.push(`${prefix}: fields[${i}].options is required for select`)
+        }
+      })
+      break
+    }
+    case 'disclaimer':
+      if (!isFilled(section.props.text)) errors.push(`${prefix}: text is required`)
+      break
+  }
+  return errors
+}
+
+/**
+ * LP の構成を検証（下書きは構造のみ、提出時は必須項目まで）
+ */
+export function validateLpContent(
+  content: LpContent,
+  mode: 'draft' | 'submit' = 'submit'
+): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!content || !Array.isArray(content.sections)) {
+    return { valid: false, errors: ['Sections must be an array'] }
+  }
+
+  const ids = new Set<string>()
+  for (const section of content.sections) {
+    if (!LP_SECTION_TYPES.includes(section.type)) {
+      errors.push(`Unknown section type: ${section.type}`)
+      continue
+    }
+    if (typeof section.props !== 'object' || section.props === null) {
+      errors.push(`Section ${section.id} (${section.type}): props is required`)
+      continue
+    }
+    if (section.id && ids.has(section.id)) {
+      errors.push(`Duplicate section id: ${section.id}`)
+    }
+    ids.add(section.id)
+  }
+
+  if (mode === 'submit' && errors.length === 0) {
+    if (!isFilled(content.title)) {
+      errors.push('Title is required')
+    }
+    for (const type of LP_REQUIRED_SECTIONS) {
+      if (!content.sections.some((section) => section.type === type)) {
+        errors.push(`Section ${type} is required`)
+      }
+    }
+    errors.push(...content.sections.flatMap(validateSection))
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * 版を作成
+ */
+function createVersion(
+  variant: LpVariant,
+  version: number,
+  content: LpContent,
+  createdBy: string,
+  timestamp: string
+): LpVariantVersion {
+  return {
+    variantId: variant.id,
+    tenantId: variant.tenantId,
+    version,
+    status: 'draft',
+    content,
+    createdBy,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * 最新版をバリアントに反映
+ */
+function withLatest(variant: LpVariant, version: LpVariantVersion, timestamp: string): LpVariant {
+  if (version.version !== variant.version && version.version !== variant.version + 1) {
+    return { ...variant, updatedAt: timestamp }
+  }
+  return {
+    ...variant,
+    version: version.version,
+    status: version.status,
+    content: version.content,
+    approvedBy: version.approvedBy,
+    approvedAt: version.approvedAt,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * LP バリアントを作成（版1の下書き）
+ */
+export function createLpVariant(request: LpVariantCreateRequest, now = new Date()): LpVariantChange {
+  if (!request.name?.trim()) {
+    throw new Error('Name is required')
+  }
+
+  const content = normalizeLpContent(request.content ?? { title: request.name.trim(), sections: [] })
+  const validation = validateLpContent(content, 'draft')
+  if (!validation.valid) {
+    throw new Error(validation.errors.join(', '))
+  }
+
+  const timestamp = now.toISOString()
+  const variant: LpVariant = {
+    id: generateLpVariantId(),
+    tenantId: request.tenantId,
+    runId: request.runId,
+    name: request.name.trim(),
+    appeal: request.appeal,
+    layoutType: request.layoutType,
+    offer: request.offer,
+    version: 1,
+    status: 'draft',
+    content,
+    createdBy: request.createdBy,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+
+  return { variant, version: createVersion(variant, 1, content, request.createdBy, timestamp) }
+}
+
+/**
+ * 下書きを保存（最新版が下書きなら上書き、それ以外は新しい版を作成）
+ */
+export function saveLpDraft(
+  variant: LpVariant,
+  latest: LpVariantVersion,
+  content: LpContent,
+  userId: string,
+  now = new Date()
+): LpVariantChange {
+  if (latest.version !== variant.version) {
+    throw new Error('Version is not the latest')
+  }
+
+  const normalized = normalizeLpContent(content)
+  const validation = validateLpContent(normalized, 'draft')
+  if (!validation.valid) {
+    throw new Error(validation.errors.join(', '))
+  }
+
+  const timestamp = now.toISOString()
+  const version: LpVariantVersion =
+    latest.status === 'draft'
+      ? { ...latest, content: normalized, updatedAt: timestamp }
+      : createVersion(variant, latest.version + 1, normalized, userId, timestamp)
+
+  return { variant: withLatest(variant, version, timestamp), version }
+}
+
+/**
+ * 最新の下書きを提出（必須項目まで検証）
+ */
+export function submitLpVersion(
+  variant: LpVariant,
+  version: LpVariantVersion,
+  userId: string,
+  now = new Date()
+): LpVariantChange {
+  if (version.version !== variant.version) {
+    throw new Error('Only the latest version can be submitted')
+  }
+  if (version.status !== 'draft') {
+    throw new Error(`Version is ${version.status}`)
+  }
+
+  const validation = validateLpContent(version.content)
+  if (!validation.valid) {
+    throw new Error(validation.errors.join(', '))
+  }
+
+  const timestamp = now.toISOString()
+  const submitted: LpVariantVersion = {
+    ...version,
+    status: 'submitted',
+    submittedBy: userId,
+    submittedAt: timestamp,
+    updatedAt: timestamp,
+  }
+  return { variant: withLatest(variant, submitted, timestamp), version: submitted }
+}
+
+/**
+ * 提出済みの版を承認
+ */
+export function approveLpVersion(
+  variant: LpVariant,
+  version: LpVariantVersion,
+  reviewerId: string,
+  now = new Date()
+): LpVariantChange {
+  if (version.status !== 'submitted') {
+    throw new Error(`Version is ${version.status}`)
+  }
+
+  const timestamp = now.toISOString()
+  const approved: LpVariantVersion = {
+    ...version,
+    status: 'approved',
+    approvedBy: reviewerId,
+    approvedAt: timestamp,
+    updatedAt: timestamp,
+  }
+  return { variant: withLatest(variant, approved, timestamp), version: approved }
+}
+
+/**
+ * 承認済みの版を公開（公開済みの版を再公開して公開中の版を戻すこともできる）
+ */
+export function publishLpVersion(variant: LpVariant, version: LpVariantVersion, now = new Date()): LpVariantChange {
+  if (version.status !== 'approved' && version.status !== 'published') {
+    throw new Error(`Version is ${version.status}`)
+  }
+
+  const timestamp = now.toISOString()
+  const published: LpVariantVersion = {
+    ...version,
+    status: 'published',
+    publishedAt: timestamp,
+    updatedAt: timestamp,
+  }
+  return {
+    variant: { ...withLatest(variant, published, timestamp), publishedVersion: version.version },
+    version: published,
+  }
+}
+
+/**
+ * 過去の版の内容で新しい下書きを作成（再提出・再承認が必要）
+ */
+export function rollbackLpVariant(
+  variant: LpVariant,
+  target: LpVariantVersion,
+  userId: string,
+  now = new Date()
+): LpVariantChange {
+  if (target.version >= variant.version) {
+    throw new Error('Rollback target must be an earlier version')
+  }
+
+  const timestamp = now.toISOString()
+  const version: LpVariantVersion = {
+    ...createVersion(variant, variant.version + 1, target.content, userId, timestamp),
+    restoredFrom: target.version,
+  }
+  return { variant: withLatest(variant, version, timestamp), version }
+}
+
+/**
+ * 値の差分（オブジェクトはキー、配列はインデックスごとに比較）
+ */
+function diffFields(before: unknown, after: unknown, path: string): LpFieldChange[] {
+  if (canonicalJson(before) === canonicalJson(after)) {
+    return []
+  }
+
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value)
+
+  if (isObject(before) && isObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+    return keys.flatMap((key) => diffFields(before[key], after[key], path ? `${path}.${key}` : key))
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length)
+    return Array.from({ length }, (_, i) => diffFields(before[i], after[i], `${path}[${i}]`)).flat()
+  }
+
+  const change: LpFieldChange = { path }
+  if (before !== undefined) change.before = before
+  if (after !== undefined) change.after = after
+  return [change]
+}
+
+/**
+ * 2つの版の構成差分（セクションは ID で対応付け）
+ */
+export function diffLpContent(before: LpContent, after: LpContent): LpContentDiff {
+  const meta = [
+    ...diffFields(before.title, after.title, 'title'),
+    ...diffFields(before.description, after.description, 'description'),
+  ]
+
+  const beforeIds = before.sections.map((s) => s.id)
+  const afterIds = after.sections.map((s) => s.id)
+  const commonBefore = beforeIds.filter((id) => afterIds.includes(id))
+  const commonAfter = afterIds.filter((id) => beforeIds.includes(id))
+
+  const sections: LpSectionDiff[] = []
+  before.sections.forEach((section, fromIndex) => {
+    if (!afterIds.includes(section.id)) {
+      sections.push({ sectionId: section.id, type: section.type, change: 'removed', fromIndex, fields: [] })
+    }
+  })
+  after.sections.forEach((section, toIndex) => {
+    const fromIndex = beforeIds.indexOf(section.id)
+    if (fromIndex === -1) {
+      sections.push({ sectionId: section.id, type: section.type, change: 'added', toIndex, fields: [] })
+      return
+    }
+
+    const previous = before.sections[fromIndex]
+    const fields =
+      previous.type === section.type
+        ? diffFields(previous.props, section.props, '')
+        : [{ path: 'type', before: previous.type, after: section.type }]
+    const moved = commonBefore.indexOf(section.id) !== commonAfter.indexOf(section.id)
+    if (fields.length > 0 || moved) {
+      sections.push({
+        sectionId: section.id,
+        type: section.type,
+        change: fields.length > 0 ? 'modified' : 'moved',
+        fromIndex,
+        toIndex,
+        fields,
+      })
+    }
+  })
+
+  return { changed: meta.length > 0 || sections.length > 0, meta, sections }
+}
+
+/**
+ * セクション種別のラベルを取得
+ */
+export function getLpSectionLabel(type: LpSectionType): string {
+  const labels: Record<LpSectionType, string> = {
+    hero: 'ファーストビュー',
+    benefits: 'ベネフィット',
+    faq: 'FAQ',
+    cta: 'CTA',
+    form: 'フォーム',
+    disclaimer: '注意書き',
+  }
+  return labels[type]
+}
+
+/**
+ * 版ステータスのラベルを取得
+ */
+export function getLpVersionStatusLabel(status: LpVersionStatus): string {
+  const labels: Record<LpVersionStatus, string> = {
+    draft: '下書き',
+    submitted: '提出済み',
+    approved: '承認済み',
+    published: '公開済み',
+  }
+  return labels[status]
+}
@@ -0,0 +1,187 @@
+/**
+ * Manual Stop Fallback
+ * API停止に失敗した広告の手動停止フロー
+ */
+
+import {
+  applyTemplate,
+  createNotification,
+  getDefaultTemplate,
+  type Notification,
+  type NotificationChannel,
+  type NotificationRecipient,
+} from './notification'
+import { getUnpausedEntities, type StopEvent, type StopEventEntity } from './stop-event'
+
+// 手動停止タスクのステータス
+export type ManualStopStatus = 'pending' | 'confirmed'
+
+// 手動停止タスク
+export interface ManualStopTask {
+  id: string
+  tenantId: string
+  runId: string
+  stopEventId: string
+  entities: StopEventEntity[]
+  status: ManualStopStatus
+  escalationLevel: number
+  lastNotifiedAt?: string
+  nextEscalationAt: string
+  confirmedBy?: string
+  confirmedAt?: string
+  confirmationNote?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// 再通知の間隔（毎時Cronで判定）
+export const MANUAL_STOP_ESCALATION_INTERVAL_MINUTES = 60
+
+// Slackまで通知先を広げるエスカレーションレベル
+export const MANUAL_STOP_SLACK_ESCALATION_LEVEL = 3
+
+/**
+ * 手動停止タスクIDを生成
+ */
+export function generateManualStopTaskId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `mstop_${timestamp}_${random}`
+}
+
+/**
+ * 停止イベントから手動停止タスクを作成
+ */
+export function createManualStopTask(event: StopEvent, now = new Date()): ManualStopTask {
+  const entities = getUnpausedEntities(event)
+  if (entities.length === 0) {
+    throw new Error('Stop event has no entities requiring manual stop')
+  }
+
+  const timestamp = now.toISOString()
+
+  return {
+    id: generateManualStopTaskId(),
+    tenantId: event.tenantId,
+    runId: event.runId,
+    stopEventId: event.id,
+    entities,
+    status: 'pending',
+    escalationLevel: 0,
+    nextEscalationAt: timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * 再通知が必要かチェック
+ */
+export function shouldEscalate(task: ManualStopTask, now = new Date()): boolean {
+  return task.status === 'pending' && new Date(task.nextEscalationAt).getTime() <= now.getTime()
+}
+
+/**
+ * エスカレーションを記録
+ */
+export function escalateManualStopTask(task: ManualStopTask, now = new Date()): ManualStopTask {
+  if (task.status !== 'pending') {
+    throw new Error('Only pending manual stop tasks can be escalated')
+  }
+
+  const next = new Date(now.getTime() + MANUAL_STOP_ESCALATION_INTERVAL_MINUTES * 60 * 1000)
+
+  return {
+    ...task,
+    escalationLevel: task.escalationLevel + 1,
+    lastNotifiedAt: now.toISOString(),
+    nextEscalationAt: next.toISOString(),
+    updatedAt: now.toISOString(),
+  }
+}
+
+/**
+ * 手動停止の完了を記録
+ */
+export function confirmManualStop(
+  task: ManualStopTask,
+  confirmedBy: string,
+  note?: string,
+  now = new Date()
+): ManualStopTask {
+  if (task.status === 'confirmed') {
+    throw new Error('Manual stop task is already confirmed')
+  }
+
+  if (!confirmedBy) {
+    throw new Error('Confirmer is required')
+  }
+
+  return {
+    ...task,
+    status: 'confirmed',
+    confirmedBy,
+    confirmedAt: now.toISOString(),
+    confirmationNote: note,
+    updatedAt: now.toISOString(),
+  }
+}
+
+/**
+ * エスカレーションレベルに応じた通知チャンネルを取得
+ */
+export function getEscalationChannels(escalationLevel: number): NotificationChannel[] {
+  if (escalationLevel >= MANUAL_STOP_SLACK_ESCALATION_LEVEL) {
+    return ['in_app', 'email', 'slack']
+  }
+  return ['in_app', 'email']
+}
+
+/**
+ * 手動停止依頼の通知を作成（エスカレーション後のタスクを渡す）
+ */
+export function createManualStopNotifications(
+  task: ManualStopTask,
+  runName: string,
+  recipients: NotificationRecipient[]
+): Notification[] {
+  const variables = {
+    runName,
+    entities: task.entities
+      .map((e) => `${e.entityType}:${e.metaId ?? e.entityId}`)
+      .join(', '),
+    escalationLevel: task.escalationLevel,
+  }
+
+  return getEscalationChannels(task.escalationLevel).map((channel) => {
+    const template = getDefaultTemplate('manual_stop_required', channel)
+    return createNotification(
+      task.tenantId,
+      'manual_stop_required',
+      channel,
+      recipients,
+      applyTemplate(template.subject, variables),
+      applyTemplate(template.body, variables),
+      {
+        priority: 'urgent',
+        data: {
+          taskId: task.id,
+          runId: task.runId,
+          stopEventId: task.stopEventId,
+          escalationLevel: task.escalationLevel,
+        },
+      }
+    )
+  })
+}
+
+/**
+ * 手動停止ステータスのラベルを取得
+ */
+export function getManualStopStatusLabel(status: ManualStopStatus): string {
+  const labels: Record<ManualStopStatus, string> = {
+    pending: '手動停止待ち',
+    confirmed: '停止確認済み',
+  }
+  return labels[status]
+}
@@ -692,6 +692,20 @@ export function createPixelConfig(
   }
 }
 
+/**
+ * ピクセルIDの形式が正しいか（タグにそのまま埋め込むため英数字のみ許可）
+ */
+export function isValidPixelId(platform: PixelConfig['platform'], pixelId: string): boolean {
+  switch (platform) {
+    case 'meta':
+      return /^\d{5,20}$/.test(pixelId)
+    case 'google':
+      return /^(G|AW)-[A-Z0-9]{4,20}$/.test(pixelId)
+    default:
+      return /^[A-Za-z0-9_-]{1,64}$/.test(pixelId)
+  }
+}
+
 /**
  * Metaピクセルコードを生成
  */
@@ -494,6 +494,53 @@ export function createAdPayload(
   return payload
 }
 
+/**
+ * エンティティ（Campaign/AdSet/Ad）のステータスを更新
+ */
+export async function updateEntityStatus(
+  accessToken: string,
+  metaId: string,
+  status: MetaEntityStatus
+): Promise<MetaApiResponse<{ success: boolean }>> {
+  const params = new URLSearchParams({
+    status,
+    access_token: accessToken,
+  })
+
+  try {
+    const response = await fetch(`${META_API_BASE_URL}/${metaId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: params.toString(),
+    })
+
+    if (!response.ok) {
+      const errorData = (await response.json()) as Record<string, unknown>
+      return {
+        success: false,
+        error: parseMetaError(errorData),
+      }
+    }
+
+    const data = (await response.json()) as { success?: boolean }
+
+    return {
+      success: true,
+      data: { success: data.success ?? true },
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        code: -1,
+        type: 'NetworkError',
+        message: error instanceof Error ? error.message : 'Network error',
+        isTransient: true,
+      },
+    }
+  }
+}
+
 /**
  * インサイトを取得するためのフィールド
  */
@@ -16,6 +16,7 @@ export type NotificationType =
   | 'budget_alert'
   | 'performance_alert'
   | 'auto_stop_triggered'
+  | 'manual_stop_required'
   | 'winner_declared'
   | 'error'
   | 'info'
@@ -208,6 +209,7 @@ export function getDefaultPriority(type: NotificationType): NotificationPriority
     budget_alert: 'high',
     performance_alert: 'high',
     auto_stop_triggered: 'urgent',
+    manual_stop_required: 'urgent',
     winner_declared: 'normal',
     error: 'urgent',
     info: 'low',
@@ -338,6 +340,7 @@ export function getNotificationColor(type: NotificationType): string {
     budget_alert: '#ff9800', // orange
     performance_alert: '#ff9800', // orange
     auto_stop_triggered: '#f44336', // red
+    manual_stop_required: '#f44336', // red
     winner_declared: '#9c27b0', // purple
     error: '#f44336', // red
     info: '#607d8b', // gray
@@ -358,6 +361,7 @@ export function getNotificationEmoji(type: NotificationType): string {
     budget_alert: ':moneybag:',
     performance_alert: ':chart_with_downwards_trend:',
     auto_stop_triggered: ':rotating_light:',
+    manual_stop_required: ':warning:',
     winner_declared: ':trophy:',
     error: ':x:',
     info: ':information_source:',
@@ -500,6 +504,7 @@ export function createNotificationPreferences(
       'budget_alert',
       'performance_alert',
       'auto_stop_triggered',
+      'manual_stop_required',
       'winner_declared',
       'error',
     ],
@@ -634,6 +639,10 @@ export function getDefaultTemplate(
       subject: '自動停止: {{runName}}',
       body: 'Run「{{runName}}」が{{condition}}により自動停止されました。',
     },
+    manual_stop_required: {
+      subject: '手動停止が必要です: {{runName}}',
+      body: 'Run「{{runName}}」の広告をAPIで停止できませんでした。Ads Managerで{{entities}}を停止し、完了を確認してください。（{{escalationLevel}}回目の通知）',
+    },
     winner_declared: {
       subject: '勝者決定: {{runName}}',
       body: 'Run「{{runName}}」でバリアント「{{winnerName}}」が勝者に決定しました。改善率: {{improvement}}%',
@@ -680,6 +689,7 @@ export function getNotificationTypeLabel(type: NotificationType): string {
     budget_alert: '予算アラート',
     performance_alert: 'パフォーマンスアラート',
     auto_stop_triggered: '自動停止',
+    manual_stop_required: '手動停止依頼',
     winner_declared: '勝者決定',
     error: 'エラー',
     info: '情報',
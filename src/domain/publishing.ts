@@ -3,6 +3,10 @@
  * 公開・デプロイ・URL管理
  */
 
+import { extractLpTexts } from './copy-lint'
+import type { LpContent } from './lp-variant'
+import type { DisclaimerTemplate } from './tenancy'
+
 // デプロイメントステータス
 export type DeploymentStatus =
   | 'pending'
@@ -104,6 +108,12 @@ export interface DeploymentLog {
   details?: Record<string, unknown>
 }
 
+// デプロイ検証の追加情報（公開する LP の内容とプロジェクトの注意文テンプレート）
+export interface DeploymentValidationContext {
+  lpPages?: { variantId: string; content: LpContent }[]
+  disclaimerTemplates?: DisclaimerTemplate[]
+}
+
 // ロールバックリクエスト
 export interface RollbackRequest {
   deploymentId: string
@@ -473,9 +483,32 @@ export function getNextEnvironment(
 }
 
 /**
- * デプロイ検証
+ * 注意文の比較用に正規化（全角・半角の統一と空白の除去）
+ */
+export function normalizeDisclaimerText(text: string): string {
+  return text.normalize('NFKC').replace(/\s+/g, '')
+}
+
+/**
+ * LP に含まれていない必須の注意文（いずれかのテキスト項目に完全一致または正規化して含まれていればよい）
+ */
+export function findMissingDisclaimers(content: LpContent, templates: DisclaimerTemplate[]): DisclaimerTemplate[] {
+  const texts = extractLpTexts(content).map((entry) => normalizeDisclaimerText(entry.text))
+  return templates.filter((template) => {
+    if (!template.required) return false
+    // 空の注意文は必ず含まれることになってしまうため、満たせない（不足）として扱う
+    const text = normalizeDisclaimerText(template.text ?? '')
+    return !text || !texts.some((entry) => entry.includes(text))
+  })
+}
+
+/**
+ * デプロイ検証（本番は全 LP に必須の注意文が含まれていること）
  */
-export function validateDeployment(deployment: Deployment): {
+export function validateDeployment(
+  deployment: Deployment,
+  context: DeploymentValidationContext = {}
+): {
   valid: boolean
   errors: string[]
 } {
@@ -497,12 +530,36 @@ export function validateDeployment(deployment: Deployment): {
     errors.push('Production deployment requires at least one asset')
   }
 
+  errors.push(...findDeploymentDisclaimerErrors(deployment, context))
+
   return {
     valid: errors.length === 0,
     errors,
   }
 }
 
+/**
+ * 必須の注意文が欠けた LP のエラー（本番のみ。描画ファイルが揃う前の公開前チェックにも使う）
+ */
+export function findDeploymentDisclaimerErrors(
+  deployment: Deployment,
+  context: DeploymentValidationContext = {}
+): string[] {
+  if (deployment.environment !== 'production' || !context.disclaimerTemplates) {
+    return []
+  }
+
+  const errors: string[] = []
+  for (const page of context.lpPages ?? []) {
+    const missing = findMissingDisclaimers(page.content, context.disclaimerTemplates)
+    if (missing.length > 0) {
+      const names = missing.map((template) => template.name).join(', ')
+      errors.push(`LP ${page.variantId} is missing required disclaimers: ${names}`)
+    }
+  }
+  return errors
+}
+
 /**
  * URL形式を検証
  */
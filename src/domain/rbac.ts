@@ -0,0 +1,91 @@
+/**
+ * RBAC Domain
+ * ロールごとの操作権限（Owner / Operator / Reviewer / Viewer）
+ */
+
+import type { Role } from './tenancy'
+
+// 権限チェック対象の操作
+export type Action =
+  | 'tenant:read'
+  | 'member:read'
+  | 'member:manage'
+  | 'project:read'
+  | 'project:write'
+  | 'project:archive'
+  | 'run:read'
+  | 'run:write'
+  | 'run:approve'
+  | 'deployment:read'
+  | 'deployment:publish'
+  | 'deployment:rollback'
+  | 'stop_rule:evaluate'
+  | 'manual_stop:read'
+  | 'manual_stop:confirm'
+  | 'audit_log:read'
+  | 'approval:read'
+  | 'approval:request'
+  | 'approval:comment'
+  | 'approval:review'
+  | 'lp:read'
+  | 'lp:write'
+  | 'creative:read'
+  | 'creative:write'
+
+// 権限マトリクス（操作 → 許可ロール）
+export const PERMISSION_MATRIX: Record<Action, Role[]> = {
+  'tenant:read': ['owner', 'operator', 'reviewer', 'viewer'],
+  'member:read': ['owner', 'operator', 'reviewer', 'viewer'],
+  'member:manage': ['owner'],
+  'project:read': ['owner', 'operator', 'reviewer', 'viewer'],
+  'project:write': ['owner', 'operator'],
+  'project:archive': ['owner'],
+  'run:read': ['owner', 'operator', 'reviewer', 'viewer'],
+  'run:write': ['owner', 'operator'],
+  'run:approve': ['owner', 'reviewer'],
+  'deployment:read': ['owner', 'operator', 'reviewer', 'viewer'],
+  'deployment:publish': ['owner', 'operator'],
+  'deployment:rollback': ['owner', 'operator'],
+  'stop_rule:evaluate': ['owner', 'operator'],
+  'manual_stop:read': ['owner', 'operator', 'reviewer', 'viewer'],
+  'manual_stop:confirm': ['owner', 'operator'],
+  'audit_log:read': ['owner'],
+  'approval:read': ['owner', 'operator', 'reviewer', 'viewer'],
+  'approval:request': ['owner', 'operator'],
+  'approval:comment': ['owner', 'operator', 'reviewer'],
+  'approval:review': ['owner', 'reviewer'],
+  'lp:read': ['owner', 'operator', 'reviewer', 'viewer'],
+  'lp:write': ['owner', 'operator'],
+  'creative:read': ['owner', 'operator', 'reviewer', 'viewer'],
+  'creative:write': ['owner', 'operator'],
+}
+
+// 権限チェック結果
+export interface PermissionCheck {
+  allowed: boolean
+  reason?: string
+}
+
+/**
+ * ロールが操作を許可されているか
+ */
+export function can(role: Role, action: Action): boolean {
+  return PERMISSION_MATRIX[action].includes(role)
+}
+
+/**
+ * 権限をチェック（拒否理由付き）
+ */
+export function checkPermission(role: Role, action: Action): PermissionCheck {
+  if (can(role, action)) {
+    return { allowed: true }
+  }
+  return { allowed: false, reason: `Role ${role} is not allowed to ${action}` }
+}
+
+/**
+ * ロールに許可された操作一覧
+ */
+export function getAllowedActions(role: Role): Action[] {
+  return (Object.keys(PERMISSION_MATRIX) as Action[]).filter((action) => can(role, action))
+}
@@ -0,0 +1,385 @@
+/**
+ * Run State Machine
+ * Run（実験単位）の状態遷移管理
+ */
+
+import { isValidPixelId, type PixelConfig } from './measurement'
+import { validateStopRules, type StopRule } from './stop-rules'
+import type { Role } from './tenancy'
+
+// Runステータス
+export type RunStatus =
+  | 'draft'
+  | 'designing'
+  | 'generating'
+  | 'ready_for_review'
+  | 'approved'
+  | 'publishing'
+  | 'live'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'archived'
+
+// Run
+export interface Run {
+  id: string
+  tenantId: string
+  projectId: string
+  name: string
+  description?: string
+  status: RunStatus
+  stopRules: StopRule[]
+  destinationUrl?: string // 広告の配信先URL
+  pixels?: PixelConfig[] // LP に埋め込む計測タグ
+  createdBy: string
+  approvedBy?: string
+  approvedAt?: string
+  startedAt?: string
+  completedAt?: string
+  archivedAt?: string
+  history: RunTransition[]
+  metadata: Record<string, unknown>
+  createdAt: string
+  updatedAt: string
+}
+
+// 状態遷移記録
+export interface RunTransition {
+  from: RunStatus
+  to: RunStatus
+  actorId: string
+  actorRole: Role
+  reason?: string
+  timestamp: string
+}
+
+// 状態遷移リクエスト
+export interface RunTransitionRequest {
+  to: RunStatus
+  actorId: string
+  actorRole: Role
+  reason?: string
+}
+
+// 遷移チェック結果
+export interface TransitionCheck {
+  allowed: boolean
+  reason?: string
+}
+
+// Run作成リクエスト
+export interface RunCreateRequest {
+  tenantId: string
+  projectId: string
+  name: string
+  createdBy: string
+  description?: string
+  stopRules?: StopRule[]
+  destinationUrl?: string
+}
+
+// Run設定の更新（承認対象の項目）
+export interface RunSettingsUpdate {
+  stopRules?: StopRule[]
+  destinationUrl?: string
+  pixels?: PixelConfig[]
+}
+
+// 許可される遷移
+export const RUN_TRANSITIONS: Record<RunStatus, RunStatus[]> = {
+  draft: ['designing', 'archived'],
+  designing: ['generating', 'draft', 'archived'],
+  generating: ['ready_for_review', 'designing', 'archived'],
+  ready_for_review: ['approved', 'designing', 'archived'],
+  approved: ['publishing', 'ready_for_review', 'archived'],
+  publishing: ['live', 'approved'],
+  live: ['running', 'paused', 'archived'],
+  running: ['paused', 'completed'],
+  paused: ['running', 'completed', 'archived'],
+  completed: ['running', 'archived'],
+  archived: [],
+}
+
+// Reviewerが実行可能な遷移（承認・差し戻し）
+const REVIEWER_TRANSITIONS: Partial<Record<RunStatus, RunStatus[]>> = {
+  ready_for_review: ['approved', 'designing'],
+}
+
+/**
+ * RunIDを生成
+ */
+export function generateRunId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `run_${timestamp}_${random}`
+}
+
+/**
+ * Run作成リクエストを検証
+ */
+export function validateRunCreateRequest(request: RunCreateRequest): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!request.name?.trim()) {
+    errors.push('Run name is required')
+  }
+  if (!request.projectId) {
+    errors.push('Project ID is required')
+  }
+  // 停止条件は下書き時点では省略でき、指定した場合のみ検証する
+  if (request.stopRules?.length) {
+    errors.push(...validateStopRules(request.stopRules).errors)
+  }
+  if (request.destinationUrl !== undefined && !isHttpsUrl(request.destinationUrl)) {
+    errors.push('Destination URL must be an https URL')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Runを作成
+ */
+export function createRun(request: RunCreateRequest): Run {
+  const validation = validateRunCreateRequest(request)
+  if (!validation.valid) {
+    throw new Error(validation.errors.join(', '))
+  }
+
+  const now = new Date().toISOString()
+
+  return {
+    id: generateRunId(),
+    tenantId: request.tenantId,
+    projectId: request.projectId,
+    name: request.name.trim(),
+    description: request.description,
+    status: 'draft',
+    stopRules: request.stopRules || [],
+    destinationUrl: request.destinationUrl,
+    createdBy: request.createdBy,
+    history: [],
+    metadata: {},
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * 遷移先として定義されているかチェック
+ */
+export function isValidTransition(from: RunStatus, to: RunStatus): boolean {
+  return RUN_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * 状態遷移が可能かチェック
+ */
+export function checkTransition(
+  run: Run,
+  request: RunTransitionRequest
+): TransitionCheck {
+  const { to, actorRole } = request
+
+  if (!isValidTransition(run.status, to)) {
+    return {
+      allowed: false,
+      reason: `Invalid transition: ${run.status} -> ${to}`,
+    }
+  }
+
+  if (actorRole === 'viewer') {
+    return { allowed: false, reason: 'Viewer cannot change run status' }
+  }
+
+  if (to === 'approved' && run.status === 'ready_for_review') {
+    if (actorRole !== 'reviewer' && actorRole !== 'owner') {
+      return { allowed: false, reason: 'Only reviewer or owner can approve a run' }
+    }
+  }
+
+  if (actorRole === 'reviewer') {
+    const reviewerTargets = REVIEWER_TRANSITIONS[run.status] || []
+    if (!reviewerTargets.includes(to)) {
+      return {
+        allowed: false,
+        reason: `Reviewer cannot perform transition: ${run.status} -> ${to}`,
+      }
+    }
+  }
+
+  if (to === 'running') {
+    if (!run.approvedAt) {
+      return { allowed: false, reason: 'Run must be approved before running' }
+    }
+
+    // Paused/Completedからの再開は理由の記録が必須
+    if ((run.status === 'paused' || run.status === 'completed') && !request.reason) {
+      return { allowed: false, reason: 'Reason is required to resume a run' }
+    }
+  }
+
+  return { allowed: true }
+}
+
+/**
+ * 状態遷移を実行
+ */
+export function transitionRun(run: Run, request: RunTransitionRequest): Run {
+  const check = checkTransition(run, request)
+  if (!check.allowed) {
+    throw new Error(check.reason)
+  }
+
+  const now = new Date().toISOString()
+  const transition: RunTransition = {
+    from: run.status,
+    to: request.to,
+    actorId: request.actorId,
+    actorRole: request.actorRole,
+    reason: request.reason,
+    timestamp: now,
+  }
+
+  const updated: Run = {
+    ...run,
+    status: request.to,
+    history: [...run.history, transition],
+    updatedAt: now,
+  }
+
+  switch (request.to) {
+    case 'approved':
+      updated.approvedBy = request.actorId
+      updated.approvedAt = now
+      break
+    case 'ready_for_review':
+    case 'designing':
+      // 承認前の状態へ戻った場合は承認を取り消す
+      updated.approvedBy = undefined
+      updated.approvedAt = undefined
+      break
+    case 'running':
+      updated.startedAt = run.startedAt || now
+      updated.completedAt = undefined
+      break
+    case 'completed':
+      updated.completedAt = now
+      break
+    case 'archived':
+      updated.archivedAt = now
+      break
+  }
+
+  return updated
+}
+
+/**
+ * 遷移後の状態（ステータス・履歴・各時刻）だけを Run に反映（設定は Run 側の値を残す）
+ */
+export function applyRunLifecycle(run: Run, transitioned: Run): Run {
+  return {
+    ...run,
+    status: transitioned.status,
+    history: transitioned.history,
+    approvedBy: transitioned.approvedBy,
+    approvedAt: transitioned.approvedAt,
+    startedAt: transitioned.startedAt,
+    completedAt: transitioned.completedAt,
+    archivedAt: transitioned.archivedAt,
+    updatedAt: transitioned.updatedAt,
+  }
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * 停止条件・配信先URL・計測タグを更新（アーカイブ済みは不可）
+ */
+export function updateRunSettings(run: Run, update: RunSettingsUpdate, now = new Date()): Run {
+  if (run.status === 'archived') {
+    throw new Error('Archived run cannot be edited')
+  }
+  if (update.stopRules) {
+    const validation = validateStopRules(update.stopRules)
+    if (!validation.valid) {
+      throw new Error(validation.errors.join(', '))
+    }
+  }
+  if (update.destinationUrl !== undefined && !isHttpsUrl(update.destinationUrl)) {
+    throw new Error('Destination URL must be an https URL')
+  }
+  const invalidPixel = update.pixels?.find((pixel) => !isValidPixelId(pixel.platform, pixel.pixelId))
+  if (invalidPixel) {
+    throw new Error(`Invalid pixel id for ${invalidPixel.platform}: ${invalidPixel.pixelId}`)
+  }
+
+  return {
+    ...run,
+    stopRules: update.stopRules ?? run.stopRules,
+    destinationUrl: update.destinationUrl ?? run.destinationUrl,
+    pixels: update.pixels ?? run.pixels,
+    updatedAt: now.toISOString(),
+  }
+}
+
+/**
+ * 遷移可能なステータス一覧を取得
+ */
+export function getAvailableTransitions(run: Run, actorRole: Role): RunStatus[] {
+  // 再開理由は実行時に要求するため、ここでは仮の理由で判定する
+  return RUN_TRANSITIONS[run.status].filter(
+    (to) => checkTransition(run, { to, actorId: '', actorRole, reason: 'check' }).allowed
+  )
+}
+
+/**
+ * 配信中（課金が発生しうる）ステータスかチェック
+ */
+export function isRunDelivering(run: Run): boolean {
+  return run.status === 'running'
+}
+
+/**
+ * 終了状態かチェック
+ */
+export function isRunTerminal(run: Run): boolean {
+  return run.status === 'archived'
+}
+
+/**
+ * 直近の状態遷移を取得
+ */
+export function getLastTransition(run: Run): RunTransition | null {
+  if (run.history.length === 0) {
+    return null
+  }
+  return run.history[run.history.length - 1]
+}
+
+/**
+ * Runステータスのラベルを取得
+ */
+export function getRunStatusLabel(status: RunStatus): string {
+  const labels: Record<RunStatus, string> = {
+    draft: '下書き',
+    designing: '設計中',
+    generating: '生成中',
+    ready_for_review: 'レビュー待ち',
+    approved: '承認済み',
+    publishing: '公開中',
+    live: '配信可能',
+    running: '配信中',
+    paused: '一時停止',
+    completed: '完了',
+    archived: 'アーカイブ済み',
+  }
+  return labels[status]
+}
@@ -0,0 +1,153 @@
+/**
+ * Stop Events
+ * 自動停止の発火記録（停止理由・時刻・対象）
+ */
+
+import type { MetaApiError } from './meta-api'
+import type { Run, RunStatus } from './run'
+import { formatStopCondition, type StopDecision, type StopRuleType } from './stop-rules'
+
+// 停止の実行元
+export type StopEventSource = 'cron' | 'api'
+
+// 停止実行結果
+export type StopPauseResult = 'api_paused' | 'manual_fallback_required' | 'no_active_entities'
+
+// 停止対象のMetaエンティティ種別
+export type StopTargetEntityType = 'campaign' | 'adset'
+
+// Metaエンティティ停止の失敗
+export interface EntityPauseFailure {
+  entityId: string
+  entityType: StopTargetEntityType
+  metaId?: string
+  error: MetaApiError
+}
+
+// 停止に成功したMetaエンティティ
+export interface PausedEntity {
+  entityId: string
+  entityType: StopTargetEntityType
+  metaId?: string
+}
+
+// 停止イベントの対象エンティティ
+export interface StopEventEntity {
+  entityId: string
+  entityType: StopTargetEntityType
+  metaId?: string
+  paused: boolean
+  errorCode?: number
+  errorMessage?: string
+  isTransient?: boolean
+}
+
+// 停止イベント
+export interface StopEvent {
+  id: string
+  tenantId: string
+  runId: string
+  source: StopEventSource
+  reason: StopDecision['reason']
+  ruleId?: string
+  ruleType?: StopRuleType
+  threshold?: number
+  observedValue?: number
+  condition: string
+  ambiguities: string[]
+  affectedEntities: StopEventEntity[]
+  pauseResult: StopPauseResult
+  runStatusBefore: RunStatus
+  runStatusAfter?: RunStatus
+  occurredAt: string
+}
+
+/**
+ * 停止イベントIDを生成
+ */
+export function generateStopEventId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `stop_${timestamp}_${random}`
+}
+
+/**
+ * 停止実行結果を判定
+ */
+export function determinePauseResult(
+  paused: PausedEntity[],
+  failed: EntityPauseFailure[]
+): StopPauseResult {
+  if (failed.length > 0) {
+    return 'manual_fallback_required'
+  }
+
+  if (paused.length === 0) {
+    return 'no_active_entities'
+  }
+
+  return 'api_paused'
+}
+
+/**
+ * 停止イベントを作成
+ */
+export function createStopEvent(
+  run: Run,
+  decision: StopDecision,
+  source: StopEventSource,
+  paused: PausedEntity[],
+  failed: EntityPauseFailure[],
+  runStatusAfter?: RunStatus
+): StopEvent {
+  const affectedEntities: StopEventEntity[] = [
+    ...paused.map((p) => ({ ...p, paused: true })),
+    ...failed.map((f) => ({
+      entityId: f.entityId,
+      entityType: f.entityType,
+      metaId: f.metaId,
+      paused: false,
+      errorCode: f.error.code,
+      errorMessage: f.error.message,
+      isTransient: f.error.isTransient,
+    })),
+  ]
+
+  return {
+    id: generateStopEventId(),
+    tenantId: run.tenantId,
+    runId: run.id,
+    source,
+    reason: decision.reason,
+    ruleId: decision.triggeredRule?.ruleId,
+    ruleType: decision.triggeredRule?.ruleType,
+    threshold: decision.triggeredRule?.threshold,
+    observedValue: decision.triggeredRule?.observedValue,
+    condition: formatStopCondition(decision),
+    ambiguities: decision.ambiguities,
+    affectedEntities,
+    pauseResult: determinePauseResult(paused, failed),
+    runStatusBefore: run.status,
+    runStatusAfter,
+    occurredAt: decision.evaluatedAt,
+  }
+}
+
+/**
+ * 手動停止が必要なエンティティを取得
+ */
+export function getUnpausedEntities(event: StopEvent): StopEventEntity[] {
+  return event.affectedEntities.filter((e) => !e.paused)
+}
+
+/**
+ * 停止実行結果のラベルを取得
+ */
+export function getPauseResultLabel(result: StopPauseResult): string {
+  const labels: Record<StopPauseResult, string> = {
+    api_paused: 'API停止済み',
+    manual_fallback_required: '手動停止が必要',
+    no_active_entities: '配信中エンティティなし',
+  }
+  return labels[result]
+}
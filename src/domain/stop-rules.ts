@@ -0,0 +1,486 @@
+/**
+ * Stop Rules (Guardrails)
+ * 自動停止条件の評価
+ */
+
+import { formatDateString, type DailyMetrics, type HourlyMetrics } from './measurement'
+
+// 停止条件タイプ
+export type StopRuleType =
+  | 'total_budget'
+  | 'daily_budget'
+  | 'cpa_cap'
+  | 'zero_conversion'
+  | 'consecutive_errors'
+
+// 停止条件
+export interface StopRule {
+  id: string
+  type: StopRuleType
+  // 総額/日額/CPA上限は金額、CVゼロ継続は時間、エラー連続は回数
+  threshold: number
+  // CPA上限の判定に必要な最低サンプル
+  minConversions?: number
+  minSpend?: number
+  enabled: boolean
+}
+
+// ヘルスチェック種別（エラー連続の判定対象）
+export type HealthCheckType = 'lp_fetch' | 'event_tracking' | 'insights_fetch'
+
+// ヘルスチェック結果
+export interface HealthCheckResult {
+  type: HealthCheckType
+  success: boolean
+  checkedAt: string
+  message?: string
+}
+
+// 評価コンテキスト
+export interface StopRuleContext {
+  runId: string
+  hourlyMetrics: HourlyMetrics[]
+  dailyMetrics: DailyMetrics[]
+  healthChecks: HealthCheckResult[]
+  runStartedAt?: string
+  now?: Date
+}
+
+// 評価オプション
+export interface StopRuleEvaluationOptions {
+  // 最新の時間単位メトリクスがこれより古ければデータ欠落とみなす
+  staleAfterHours: number
+}
+
+// 発火した停止条件
+export interface StopRuleTrigger {
+  ruleId: string
+  ruleType: StopRuleType
+  threshold: number
+  observedValue: number
+  message: string
+}
+
+// 停止判定
+export interface StopDecision {
+  runId: string
+  action: 'continue' | 'pause'
+  reason: 'rule_triggered' | 'ambiguous_data' | 'no_trigger'
+  triggeredRule?: StopRuleTrigger
+  triggers: StopRuleTrigger[]
+  ambiguities: string[]
+  notify: boolean
+  evaluatedAt: string
+}
+
+// 停止条件テンプレート入力
+export interface StopRuleTemplateInput {
+  totalBudget: number
+  dailyBudget: number
+  targetCpa?: number
+}
+
+export const DEFAULT_EVALUATION_OPTIONS: StopRuleEvaluationOptions = {
+  staleAfterHours: 3,
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+/**
+ * 停止条件IDを生成
+ */
+export function generateStopRuleId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 6)
+  return `rule_${timestamp}_${random}`
+}
+
+/**
+ * 停止条件を作成
+ */
+export function createStopRule(
+  type: StopRuleType,
+  threshold: number,
+  options?: {
+    minConversions?: number
+    minSpend?: number
+    enabled?: boolean
+  }
+): StopRule {
+  return {
+    id: generateStopRuleId(),
+    type,
+    threshold,
+    minConversions: options?.minConversions,
+    minSpend: options?.minSpend,
+    enabled: options?.enabled ?? true,
+  }
+}
+
+/**
+ * 推奨値で停止条件テンプレートを作成
+ */
+export function createStopRuleTemplate(input: StopRuleTemplateInput): StopRule[] {
+  const rules: StopRule[] = [
+    createStopRule('total_budget', input.totalBudget),
+    createStopRule('daily_budget', input.dailyBudget),
+    createStopRule('zero_conversion', 24),
+    createStopRule('consecutive_errors', 3),
+  ]
+
+  if (input.targetCpa) {
+    rules.push(
+      createStopRule('cpa_cap', input.targetCpa * 1.5, {
+        minConversions: 3,
+        minSpend: input.targetCpa * 3,
+      })
+    )
+  }
+
+  return rules
+}
+
+/**
+ * 停止条件の設定を検証
+ */
+export function validateStopRules(rules: StopRule[]): {
+  valid: boolean
+  errors: string[]
+} {
+  const errors: string[] = []
+  const enabled = rules.filter((r) => r.enabled)
+
+  if (!enabled.some((r) => r.type === 'total_budget')) {
+    errors.push('Total budget cap is required')
+  }
+
+  if (!enabled.some((r) => r.type === 'daily_budget')) {
+    errors.push('Daily budget cap is required')
+  }
+
+  for (const rule of enabled) {
+    if (!Number.isFinite(rule.threshold) || rule.threshold <= 0) {
+      errors.push(`Invalid threshold for ${rule.type}: ${rule.threshold}`)
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  }
+}
+
+/**
+ * 数値が有効なメトリクス値かチェック
+ */
+function isValidMetricValue(value: number): boolean {
+  return Number.isFinite(value) && value >= 0
+}
+
+/**
+ * メトリクスの曖昧さ（欠落・遅延・不正値）を検出
+ */
+export function detectAmbiguities(
+  context: StopRuleContext,
+  options: StopRuleEvaluationOptions = DEFAULT_EVALUATION_OPTIONS
+): string[] {
+  const ambiguities: string[] = []
+  const now = context.now ?? new Date()
+
+  const invalidHourly = context.hourlyMetrics.some(
+    (m) => ![m.impressions, m.clicks, m.spend, m.conversions].every(isValidMetricValue)
+  )
+  const invalidDaily = context.dailyMetrics.some(
+    (m) => ![m.impressions, m.clicks, m.spend, m.conversions].every(isValidMetricValue)
+  )
+  if (invalidHourly || invalidDaily) {
+    ambiguities.push('Metrics contain invalid values')
+  }
+
+  const startedAt = context.runStartedAt ? new Date(context.runStartedAt).getTime() : null
+  const withinGracePeriod =
+    startedAt !== null && now.getTime() - startedAt < options.staleAfterHours * HOUR_MS
+
+  if (context.hourlyMetrics.length === 0) {
+    if (!withinGracePeriod) {
+      ambiguities.push('No hourly metrics available')
+    }
+    return ambiguities
+  }
+
+  const latestHour = Math.max(...context.hourlyMetrics.map((m) => new Date(m.hour).getTime()))
+  if (now.getTime() - latestHour > options.staleAfterHours * HOUR_MS) {
+    ambiguities.push(`Hourly metrics are stale (latest: ${new Date(latestHour).toISOString()})`)
+  }
+
+  return ambiguities
+}
+
+/**
+ * 本日の消化額を取得（日次と時間単位の大きい方を採用）
+ */
+export function getTodaySpend(context: StopRuleContext): number {
+  const today = formatDateString(context.now ?? new Date())
+
+  const dailySpend = context.dailyMetrics
+    .filter((m) => m.date === today)
+    .reduce((sum, m) => sum + m.spend, 0)
+  const hourlySpend = context.hourlyMetrics
+    .filter((m) => formatDateString(new Date(m.hour)) === today)
+    .reduce((sum, m) => sum + m.spend, 0)
+
+  return Math.max(dailySpend, hourlySpend)
+}
+
+/**
+ * 累計消化額を取得
+ */
+export function getTotalSpend(context: StopRuleContext): number {
+  const today = formatDateString(context.now ?? new Date())
+
+  const pastSpend = context.dailyMetrics
+    .filter((m) => m.date !== today)
+    .reduce((sum, m) => sum + m.spend, 0)
+
+  return pastSpend + getTodaySpend(context)
+}
+
+/**
+ * 累計CV数を取得
+ */
+export function getTotalConversions(context: StopRuleContext): number {
+  const today = formatDateString(context.now ?? new Date())
+
+  const pastConversions = context.dailyMetrics
+    .filter((m) => m.date !== today)
+    .reduce((sum, m) => sum + m.conversions, 0)
+  const dailyToday = context.dailyMetrics.filter((m) => m.date === today)
+  const hourlyToday = context.hourlyMetrics.filter(
+    (m) => formatDateString(new Date(m.hour)) === today
+  )
+
+  // CPAを過小評価しないよう、両方のデータがある場合は今日のCVは小さい方を採用
+  const sources = [dailyToday, hourlyToday]
+    .filter((rows) => rows.length > 0)
+    .map((rows) => rows.reduce((sum, m) => sum + m.conversions, 0))
+  const todayConversions = sources.length > 0 ? Math.min(...sources) : 0
+
+  return pastConversions + todayConversions
+}
+
+/**
+ * 最後のCVからの経過時間を取得（時間）
+ */
+export function getHoursWithoutConversion(context: StopRuleContext): {
+  hours: number
+  spend: number
+} {
+  const now = (context.now ?? new Date()).getTime()
+  const sorted = [...context.hourlyMetrics].sort(
+    (a, b) => new Date(a.hour).getTime() - new Date(b.hour).getTime()
+  )
+
+  if (sorted.length === 0) {
+    return { hours: 0, spend: 0 }
+  }
+
+  let lastConversionIndex = -1
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    if (sorted[i].conversions > 0) {
+      lastConversionIndex = i
+      break
+    }
+  }
+
+  // CVがあった時間帯の終わり、もしくは計測開始時刻を起点にする
+  const since =
+    lastConversionIndex >= 0
+      ? new Date(sorted[lastConversionIndex].hour).getTime() + HOUR_MS
+      : new Date(sorted[0].hour).getTime()
+  const spend = sorted
+    .slice(lastConversionIndex + 1)
+    .reduce((sum, m) => sum + m.spend, 0)
+
+  return {
+    hours: Math.max(0, Math.floor((now - since) / HOUR_MS)),
+    spend,
+  }
+}
+
+/**
+ * ヘルスチェックの最大連続失敗回数を取得
+ */
+export function getMaxConsecutiveFailures(checks: HealthCheckResult[]): {
+  count: number
+  type?: HealthCheckType
+} {
+  const byType = new Map<HealthCheckType, HealthCheckResult[]>()
+  for (const check of checks) {
+    byType.set(check.type, [...(byType.get(check.type) || []), check])
+  }
+
+  let max: { count: number; type?: HealthCheckType } = { count: 0 }
+
+  for (const [type, results] of byType) {
+    const sorted = [...results].sort(
+      (a, b) => new Date(a.checkedAt).getTime() - new Date(b.checkedAt).getTime()
+    )
+
+    let streak = 0
+    for (let i = sorted.length - 1; i >= 0 && !sorted[i].success; i--) {
+      streak++
+    }
+
+    if (streak > max.count) {
+      max = { count: streak, type }
+    }
+  }
+
+  return max
+}
+
+/**
+ * 単一の停止条件を評価
+ */
+export function evaluateStopRule(
+  rule: StopRule,
+  context: StopRuleContext
+): StopRuleTrigger | null {
+  if (!rule.enabled) {
+    return null
+  }
+
+  const trigger = (observedValue: number, message: string): StopRuleTrigger => ({
+    ruleId: rule.id,
+    ruleType: rule.type,
+    threshold: rule.threshold,
+    observedValue,
+    message,
+  })
+
+  switch (rule.type) {
+    case 'total_budget': {
+      const spend = getTotalSpend(context)
+      return spend >= rule.threshold
+        ? trigger(spend, `Total spend ${spend} reached cap ${rule.threshold}`)
+        : null
+    }
+    case 'daily_budget': {
+      const spend = getTodaySpend(context)
+      return spend >= rule.threshold
+        ? trigger(spend, `Daily spend ${spend} reached cap ${rule.threshold}`)
+        : null
+    }
+    case 'cpa_cap': {
+      const spend = getTotalSpend(context)
+      const conversions = getTotalConversions(context)
+
+      if (conversions < (rule.minConversions ?? 1) || spend < (rule.minSpend ?? 0)) {
+        return null
+      }
+
+      const cpa = spend / conversions
+      return cpa > rule.threshold
+        ? trigger(cpa, `CPA ${cpa.toFixed(0)} exceeded cap ${rule.threshold}`)
+        : null
+    }
+    case 'zero_conversion': {
+      const { hours, spend } = getHoursWithoutConversion(context)
+      return hours >= rule.threshold && spend > 0
+        ? trigger(hours, `No conversions for ${hours} hours`)
+        : null
+    }
+    case 'consecutive_errors': {
+      const { count, type } = getMaxConsecutiveFailures(context.healthChecks)
+      return count >= rule.threshold
+        ? trigger(count, `${type} failed ${count} times in a row`)
+        : null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * 停止条件を評価して停止判定を返す
+ *
+ * データが曖昧（欠落・遅延・不正値・設定不備）な場合は安全側に倒して一時停止＋通知とする
+ */
+export function evaluateStopRules(
+  rules: StopRule[],
+  context: StopRuleContext,
+  options: StopRuleEvaluationOptions = DEFAULT_EVALUATION_OPTIONS
+): StopDecision {
+  const now = context.now ?? new Date()
+  const triggers = rules
+    .map((rule) => evaluateStopRule(rule, context))
+    .filter((t): t is StopRuleTrigger => t !== null)
+
+  const ambiguities = [
+    ...validateStopRules(rules).errors,
+    ...detectAmbiguities(context, options),
+  ]
+
+  const base = {
+    runId: context.runId,
+    triggers,
+    ambiguities,
+    evaluatedAt: now.toISOString(),
+  }
+
+  if (triggers.length > 0) {
+    return {
+      ...base,
+      action: 'pause',
+      reason: 'rule_triggered',
+      triggeredRule: triggers[0],
+      notify: true,
+    }
+  }
+
+  if (ambiguities.length > 0) {
+    return {
+      ...base,
+      action: 'pause',
+      reason: 'ambiguous_data',
+      notify: true,
+    }
+  }
+
+  return {
+    ...base,
+    action: 'continue',
+    reason: 'no_trigger',
+    notify: false,
+  }
+}
+
+/**
+ * 停止理由を通知テンプレート用の文字列に整形（{{condition}}）
+ */
+export function formatStopCondition(decision: StopDecision): string {
+  if (decision.triggeredRule) {
+    const { ruleType, threshold, observedValue } = decision.triggeredRule
+    return `${getStopRuleTypeLabel(ruleType)}（閾値: ${threshold} / 実績: ${Math.round(observedValue * 100) / 100}）`
+  }
+
+  if (decision.reason === 'ambiguous_data') {
+    return `データ不整合（${decision.ambiguities.join(', ')}）`
+  }
+
+  return '停止条件なし'
+}
+
+/**
+ * 停止条件タイプのラベルを取得
+ */
+export function getStopRuleTypeLabel(type: StopRuleType): string {
+  const labels: Record<StopRuleType, string> = {
+    total_budget: '総額上限',
+    daily_budget: '日額上限',
+    cpa_cap: 'CPA上限',
+    zero_conversion: 'CVゼロ継続',
+    consecutive_errors: 'エラー連続',
+  }
+  return labels[type]
+}
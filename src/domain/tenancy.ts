@@ -0,0 +1,554 @@
+/**
+ * Tenancy
+ * テナント・プロジェクト・メンバーシップ・招待
+ */
+
+import type { EventType } from './measurement'
+
+// ユーザーロール
+export type Role = 'owner' | 'operator' | 'reviewer' | 'viewer'
+
+// 支払いプラン
+export type TenantPlan = 'free' | 'starter' | 'pro' | 'enterprise'
+
+// 招待ステータス
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked'
+
+// テナント
+export interface Tenant {
+  id: string
+  name: string
+  slug: string
+  plan: TenantPlan
+  settings: TenantSettings
+  createdAt: string
+  updatedAt: string
+}
+
+// テナント設定
+export interface TenantSettings {
+  dataRetentionDays: number
+  defaultTimezone: string
+}
+
+// プロジェクト（商材単位）
+export interface Project {
+  id: string
+  tenantId: string
+  name: string
+  description?: string
+  conversionDefinitions: ProjectConversionDefinition[]
+  disclaimerTemplates: DisclaimerTemplate[]
+  bannedExpressions: BannedExpression[]
+  brandSettings: BrandSettings
+  createdBy: string
+  archivedAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// CV定義（Run作成時にコピーされる）
+export interface ProjectConversionDefinition {
+  id: string
+  name: string
+  eventType: EventType
+  eventName: string
+  value?: number
+  isRevenue: boolean
+  attributionWindow: number // days
+  priority: number
+}
+
+// 注意文テンプレート
+export interface DisclaimerTemplate {
+  id: string
+  name: string
+  text: string
+  required: boolean
+}
+
+// 禁則表現
+export interface BannedExpression {
+  pattern: string
+  isRegex: boolean
+  reason?: string
+}
+
+// ブランド設定
+export interface BrandSettings {
+  primaryColor: string
+  secondaryColor?: string
+  fontFamily?: string
+  logoUrl?: string
+  toneOfVoice?: string
+}
+
+// メンバーシップ
+export interface Membership {
+  id: string
+  tenantId: string
+  userId: string
+  role: Role
+  createdAt: string
+  updatedAt: string
+}
+
+// 招待
+export interface Invitation {
+  id: string
+  tenantId: string
+  email: string
+  role: Role
+  invitedBy: string
+  tokenHash: string
+  status: InvitationStatus
+  expiresAt: string
+  acceptedBy?: string
+  acceptedAt?: string
+  createdAt: string
+}
+
+// テナント作成リクエスト
+export interface TenantCreateRequest {
+  name: string
+  slug: string
+  ownerId: string
+  plan?: TenantPlan
+}
+
+// プロジェクト作成リクエスト
+export interface ProjectCreateRequest {
+  tenantId: string
+  name: string
+  createdBy: string
+  description?: string
+  conversionDefinitions?: Omit<ProjectConversionDefinition, 'id'>[]
+  disclaimerTemplates?: Omit<DisclaimerTemplate, 'id'>[]
+  bannedExpressions?: BannedExpression[]
+  brandSettings?: Partial<BrandSettings>
+}
+
+// 招待リクエスト
+export interface InvitationRequest {
+  tenantId: string
+  email: string
+  role: Role
+  invitedBy: string
+}
+
+// 招待の有効期間
+export const INVITATION_TTL_DAYS = 7
+
+// ロール一覧
+export const ROLES: Role[] = ['owner', 'operator', 'reviewer', 'viewer']
+
+// デフォルトのテナント設定
+export const DEFAULT_TENANT_SETTINGS: TenantSettings = {
+  dataRetentionDays: 365,
+  defaultTimezone: 'Asia/Tokyo',
+}
+
+// デフォルトのブランド設定
+export const DEFAULT_BRAND_SETTINGS: BrandSettings = {
+  primaryColor: '#1a73e8',
+}
+
+// 禁則表現（正規表現）の上限文字数
+export const BANNED_EXPRESSION_MAX_LENGTH = 100
+
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,38}[a-z0-9])$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function generateId(prefix: string): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `${prefix}_${timestamp}_${random}`
+}
+
+/**
+ * テナントIDを生成
+ */
+export function generateTenantId(): string {
+  return generateId('tenant')
+}
+
+/**
+ * プロジェクトIDを生成
+ */
+export function generateProjectId(): string {
+  return generateId('proj')
+}
+
+/**
+ * メンバーシップIDを生成
+ */
+export function generateMembershipId(): string {
+  return generateId('mem')
+}
+
+/**
+ * 招待IDを生成
+ */
+export function generateInvitationId(): string {
+  return generateId('inv')
+}
+
+/**
+ * 招待トークンを生成（メールで送る平文）
+ */
+export function generateInviteToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 招待トークンのハッシュを計算（保存はハッシュのみ）
+ */
+export async function hashInviteToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * テナント作成リクエストを検証
+ */
+export function validateTenantRequest(request: TenantCreateRequest): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!request.name?.trim()) {
+    errors.push('Tenant name is required')
+  }
+  if (!SLUG_PATTERN.test(request.slug ?? '')) {
+    errors.push('Slug must be 3-40 lowercase letters, digits or hyphens')
+  }
+  if (!request.ownerId) {
+    errors.push('Owner is required')
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * テナントを作成（作成者をオーナーとして登録）
+ */
+export function createTenant(
+  request: TenantCreateRequest,
+  now = new Date()
+): { tenant: Tenant; ownerMembership: Membership } {
+  const validation = validateTenantRequest(request)
+  if (!validation.valid) {
+    throw new Error(validation.errors.join(', '))
+  }
+
+  const timestamp = now.toISOString()
+  const tenant: Tenant = {
+    id: generateTenantId(),
+    name: request.name.trim(),
+    slug: request.slug,
+    plan: request.plan ?? 'free',
+    settings: { ...DEFAULT_TENANT_SETTINGS },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+
+  return {
+    tenant,
+    ownerMembership: createMembership(tenant.id, request.ownerId, 'owner', now),
+  }
+}
+
+/**
+ * プランを変更
+ */
+export function changeTenantPlan(tenant: Tenant, plan: TenantPlan, now = new Date()): Tenant {
+  return { ...tenant, plan, updatedAt: now.toISOString() }
+}
+
+/**
+ * 禁則表現を検証
+ */
+export function validateBannedExpressions(expressions: BannedExpression[]): string[] {
+  const errors: string[] = []
+
+  for (const expression of expressions) {
+    if (!expression.pattern) {
+      errors.push('Banned expression pattern is required')
+      continue
+    }
+    if (expression.isRegex) {
+      try {
+        new RegExp(expression.pattern)
+      } catch {
+        errors.push(`Invalid regex: ${expression.pattern}`)
+        continue
+      }
+      if (!isSafeBannedRegex(expression.pattern)) {
+        errors.push(`Unsafe regex: ${expression.pattern}`)
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * バックトラックが指数的に増えうる形か（量指定子を含むグループへの量指定子 (a+)+ と後方参照）
+ */
+function hasCatastrophicBacktracking(pattern: string): boolean {
+  const groups: boolean[] = [] // 開いているグループ内に量指定子があるか
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      if (/[1-9]/.test(pattern[i + 1] ?? '')) return true
+      i++
+    } else if (char === '[') {
+      // 文字クラスの中は読み飛ばす
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') i++
+      }
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const quantified = groups.pop() ?? false
+      if (quantified && /[+*{]/.test(pattern[i + 1] ?? '')) return true
+      if (quantified && groups.length > 0) groups[groups.length - 1] = true
+    } else if ('+*{'.includes(char) && groups.length > 0) {
+      groups[groups.length - 1] = true
+    }
+  }
+  return false
+}
+
+/**
+ * 禁則表現の正規表現が検査に使えるか（長すぎるもの・バックトラックが爆発しうる形は使わない）
+ */
+export function isSafeBannedRegex(pattern: string): boolean {
+  return pattern.length <= BANNED_EXPRESSION_MAX_LENGTH && !hasCatastrophicBacktracking(pattern)
+}
+
+/**
+ * プロジェクト作成リクエストを検証
+ */
+export function validateProjectRequest(request: ProjectCreateRequest): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!request.name?.trim()) {
+    errors.push('Project name is required')
+  }
+  if (!request.tenantId) {
+    errors.push('Tenant is required')
+  }
+
+  for (const definition of request.conversionDefinitions ?? []) {
+    if (!definition.eventName) {
+      errors.push('Conversion event name is required')
+    }
+    if (definition.attributionWindow <= 0) {
+      errors.push(`Attribution window must be greater than 0: ${definition.name}`)
+    }
+  }
+
+  for (const template of request.disclaimerTemplates ?? []) {
+    if (!template.text?.trim()) {
+      errors.push(`Disclaimer text is required: ${template.name}`)
+    }
+  }
+
+  errors.push(...validateBannedExpressions(request.bannedExpressions ?? []))
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * プロジェクトを作成
+ */
+export function createProject(request: ProjectCreateRequest, now = new Date()): Project {
+  const validation = validateProjectRequest(request)
+  if (!validation.valid) {
+    throw new Error(validation.errors.join(', '))
+  }
+
+  const timestamp = now.toISOString()
+
+  return {
+    id: generateProjectId(),
+    tenantId: request.tenantId,
+    name: request.name.trim(),
+    description: request.description,
+    conversionDefinitions: (request.conversionDefinitions ?? []).map((d) => ({
+      ...d,
+      id: generateId('cvdef'),
+    })),
+    disclaimerTemplates: (request.disclaimerTemplates ?? []).map((t) => ({
+      ...t,
+      id: generateId('disc'),
+    })),
+    bannedExpressions: request.bannedExpressions ?? [],
+    brandSettings: { ...DEFAULT_BRAND_SETTINGS, ...request.brandSettings },
+    createdBy: request.createdBy,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * プロジェクトをアーカイブ
+ */
+export function archiveProject(project: Project, now = new Date()): Project {
+  if (project.archivedAt) {
+    throw new Error('Project is already archived')
+  }
+  return { ...project, archivedAt: now.toISOString(), updatedAt: now.toISOString() }
+}
+
+/**
+ * メンバーシップを作成
+ */
+export function createMembership(
+  tenantId: string,
+  userId: string,
+  role: Role,
+  now = new Date()
+): Membership {
+  const timestamp = now.toISOString()
+
+  return {
+    id: generateMembershipId(),
+    tenantId,
+    userId,
+    role,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+}
+
+/**
+ * オーナーが最低1人残るかチェック
+ */
+function assertOwnerRemains(memberships: Membership[], changedId: string): void {
+  const remainingOwners = memberships.filter((m) => m.role === 'owner' && m.id !== changedId)
+  if (remainingOwners.length === 0) {
+    throw new Error('Tenant must keep at least one owner')
+  }
+}
+
+/**
+ * メンバーのロールを変更
+ */
+export function changeMemberRole(
+  membership: Membership,
+  role: Role,
+  tenantMemberships: Membership[],
+  now = new Date()
+): Membership {
+  if (membership.role === 'owner' && role !== 'owner') {
+    assertOwnerRemains(tenantMemberships, membership.id)
+  }
+  return { ...membership, role, updatedAt: now.toISOString() }
+}
+
+/**
+ * メンバーを削除できるかチェック
+ */
+export function assertCanRemoveMember(membership: Membership, tenantMemberships: Membership[]): void {
+  if (membership.role === 'owner') {
+    assertOwnerRemains(tenantMemberships, membership.id)
+  }
+}
+
+/**
+ * 招待を作成（tokenHash は hashInviteToken で計算した値）
+ */
+export function createInvitation(
+  request: InvitationRequest,
+  tokenHash: string,
+  now = new Date()
+): Invitation {
+  const email = (request.email ?? '').trim().toLowerCase()
+  if (!EMAIL_PATTERN.test(email)) {
+    throw new Error('Invalid email address')
+  }
+
+  const expiresAt = new Date(now.getTime() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+
+  return {
+    id: generateInvitationId(),
+    tenantId: request.tenantId,
+    email,
+    role: request.role,
+    invitedBy: request.invitedBy,
+    tokenHash,
+    status: 'pending',
+    expiresAt: expiresAt.toISOString(),
+    createdAt: now.toISOString(),
+  }
+}
+
+/**
+ * 招待が有効かチェック
+ */
+export function isInvitationActive(invitation: Invitation, now = new Date()): boolean {
+  return invitation.status === 'pending' && new Date(invitation.expiresAt).getTime() > now.getTime()
+}
+
+/**
+ * 招待を承諾してメンバーシップを作成
+ */
+export function acceptInvitation(
+  invitation: Invitation,
+  userId: string,
+  now = new Date()
+): { invitation: Invitation; membership: Membership } {
+  if (invitation.status !== 'pending') {
+    throw new Error(`Invitation is ${invitation.status}`)
+  }
+  if (!isInvitationActive(invitation, now)) {
+    throw new Error('Invitation has expired')
+  }
+
+  return {
+    invitation: {
+      ...invitation,
+      status: 'accepted',
+      acceptedBy: userId,
+      acceptedAt: now.toISOString(),
+    },
+    membership: createMembership(invitation.tenantId, userId, invitation.role, now),
+  }
+}
+
+/**
+ * 招待を取り消し
+ */
+export function revokeInvitation(invitation: Invitation): Invitation {
+  if (invitation.status !== 'pending') {
+    throw new Error(`Invitation is ${invitation.status}`)
+  }
+  return { ...invitation, status: 'revoked' }
+}
+
+/**
+ * ロールのラベルを取得
+ */
+export function getRoleLabel(role: Role): string {
+  const labels: Record<Role, string> = {
+    owner: 'オーナー',
+    operator: 'オペレーター',
+    reviewer: 'レビュアー',
+    viewer: '閲覧者',
+  }
+  return labels[role]
+}
+
+/**
+ * プランのラベルを取得
+ */
+export function getTenantPlanLabel(plan: TenantPlan): string {
+  const labels: Record<TenantPlan, string> = {
+    free: 'フリー',
+    starter: 'スターター',
+    pro: 'プロ',
+    enterprise: 'エンタープライズ',
+  }
+  return labels[plan]
+}
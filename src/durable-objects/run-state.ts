@@ -0,0 +1,391 @@
+/**
+ * RunState Durable Object
+ * Run単位の状態管理（停止判定/排他/レート制御）
+ */
+
+import { Hono } from 'hono'
+import {
+  checkTransition,
+  transitionRun,
+  type Run,
+  type RunSettingsUpdate,
+  type RunTransitionRequest,
+} from '../domain/run'
+import type { HealthCheckResult } from '../domain/stop-rules'
+
+// ストレージキー
+const STORAGE_KEYS = {
+  run: 'run',
+  lease: 'lease',
+  rateLimit: 'rate_limit',
+  healthChecks: 'health_checks',
+} as const
+
+// 排他リース
+export interface RunLease {
+  id: string
+  holder: string
+  purpose: 'transition' | 'auto_stop_evaluation'
+  acquiredAt: number
+  expiresAt: number
+}
+
+// リース取得結果
+export interface LeaseResult {
+  acquired: boolean
+  lease?: RunLease
+  heldBy?: string
+  retryAfterMs?: number
+}
+
+// レート制限設定（トークンバケット）
+export interface RateLimitConfig {
+  capacity: number
+  refillPerSecond: number
+}
+
+// レート制限状態
+export interface RateLimitState {
+  tokens: number
+  updatedAt: number
+}
+
+// レート制限判定結果
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterMs: number
+}
+
+// Meta APIコールのRun単位レート制限（30回/分）
+export const META_RATE_LIMIT: RateLimitConfig = {
+  capacity: 30,
+  refillPerSecond: 0.5,
+}
+
+// リースのデフォルト有効期間
+export const DEFAULT_LEASE_TTL_MS = 60_000
+
+// 保持するヘルスチェック結果の件数（種別ごと）
+export const MAX_HEALTH_CHECKS_PER_TYPE = 20
+
+/**
+ * リースIDを生成
+ */
+export function generateLeaseId(): string {
+  const timestamp = Date.now().toString(36)
+  const random = Math.random().toString(36).substring(2, 8)
+  return `lease_${timestamp}_${random}`
+}
+
+/**
+ * リースが有効かチェック
+ */
+export function isLeaseActive(lease: RunLease | undefined, now = Date.now()): lease is RunLease {
+  return !!lease && lease.expiresAt > now
+}
+
+/**
+ * リースを取得
+ */
+export function acquireLease(
+  current: RunLease | undefined,
+  holder: string,
+  purpose: RunLease['purpose'],
+  ttlMs = DEFAULT_LEASE_TTL_MS,
+  now = Date.now()
+): LeaseResult {
+  if (isLeaseActive(current, now) && current.holder !== holder) {
+    return {
+      acquired: false,
+      heldBy: current.holder,
+      retryAfterMs: current.expiresAt - now,
+    }
+  }
+
+  return {
+    acquired: true,
+    lease: {
+      id: generateLeaseId(),
+      holder,
+      purpose,
+      acquiredAt: now,
+      expiresAt: now + ttlMs,
+    },
+  }
+}
+
+/**
+ * トークンを補充
+ */
+export function refillTokens(
+  state: RateLimitState | undefined,
+  config: RateLimitConfig,
+  now = Date.now()
+): RateLimitState {
+  if (!state) {
+    return { tokens: config.capacity, updatedAt: now }
+  }
+
+  const elapsedSeconds = Math.max(0, now - state.updatedAt) / 1000
+  return {
+    tokens: Math.min(config.capacity, state.tokens + elapsedSeconds * config.refillPerSecond),
+    updatedAt: now,
+  }
+}
+
+/**
+ * トークンを消費
+ */
+export function consumeTokens(
+  state: RateLimitState | undefined,
+  config: RateLimitConfig,
+  cost = 1,
+  now = Date.now()
+): { state: RateLimitState; result: RateLimitResult } {
+  const refilled = refillTokens(state, config, now)
+
+  if (refilled.tokens >= cost) {
+    const tokens = refilled.tokens - cost
+    return {
+      state: { tokens, updatedAt: now },
+      result: { allowed: true, remaining: Math.floor(tokens), retryAfterMs: 0 },
+    }
+  }
+
+  const deficit = cost - refilled.tokens
+  return {
+    state: refilled,
+    result: {
+      allowed: false,
+      remaining: Math.floor(refilled.tokens),
+      retryAfterMs: Math.ceil((deficit / config.refillPerSecond) * 1000),
+    },
+  }
+}
+
+/**
+ * ヘルスチェック結果を追加（種別ごとに直近の件数のみ保持）
+ */
+export function appendHealthCheck(
+  checks: HealthCheckResult[],
+  check: HealthCheckResult,
+  limit = MAX_HEALTH_CHECKS_PER_TYPE
+): HealthCheckResult[] {
+  const sameType = [...checks.filter((c) => c.type === check.type), check]
+    .sort((a, b) => new Date(a.checkedAt).getTime() - new Date(b.checkedAt).getTime())
+    .slice(-limit)
+
+  return [...checks.filter((c) => c.type !== check.type), ...sameType]
+}
+
+/**
+ * Run単位の状態を保持するDurable Object
+ */
+export class RunState implements DurableObject {
+  private readonly app = new Hono()
+
+  constructor(private readonly state: DurableObjectState, _env: unknown) {
+    this.app.get('/run', async (c) => {
+      const run = await this.getRun()
+      if (!run) {
+        return c.json({ error: 'Run not initialized' }, 404)
+      }
+      return c.json(run)
+    })
+
+    this.app.put('/run', async (c) => {
+      const run = await c.req.json<Run>()
+      await this.state.storage.put(STORAGE_KEYS.run, run)
+      return c.json(run)
+    })
+
+    // 未初期化のときだけ保存（保存済みの Run は遷移の基準なので上書きしない）
+    this.app.post('/run/init', async (c) => {
+      const run = await this.initialize(await c.req.json<Run>())
+      return c.json(run)
+    })
+
+    this.app.patch('/run/settings', async (c) => {
+      const run = await this.updateSettings(await c.req.json<RunSettingsUpdate>())
+      if (!run) {
+        return c.json({ error: 'Run not initialized' }, 404)
+      }
+      return c.json(run)
+    })
+
+    this.app.post('/transition', async (c) => {
+      const body = await c.req.json<{ request: RunTransitionRequest; leaseId?: string }>()
+      const result = await this.transition(body.request, body.leaseId)
+      return c.json(result.body, result.status)
+    })
+
+    this.app.post('/lease/acquire', async (c) => {
+      const body = await c.req.json<{ holder: string; purpose: RunLease['purpose']; ttlMs?: number }>()
+      const result = await this.acquire(body.holder, body.purpose, body.ttlMs)
+      return c.json(result, result.acquired ? 200 : 409)
+    })
+
+    this.app.post('/lease/release', async (c) => {
+      const body = await c.req.json<{ leaseId: string }>()
+      const released = await this.release(body.leaseId)
+      return c.json({ released })
+    })
+
+    this.app.get('/health-checks', async (c) => {
+      const checks = await this.state.storage.get<HealthCheckResult[]>(STORAGE_KEYS.healthChecks)
+      return c.json(checks || [])
+    })
+
+    this.app.post('/health-checks', async (c) => {
+      const check = await c.req.json<HealthCheckResult>()
+      const current = await this.state.storage.get<HealthCheckResult[]>(STORAGE_KEYS.healthChecks)
+      const updated = appendHealthCheck(current || [], check)
+      await this.state.storage.put(STORAGE_KEYS.healthChecks, updated)
+      return c.json(updated)
+    })
+
+    this.app.post('/rate-limit/meta', async (c) => {
+      const body = await c.req.json<{ cost?: number }>().catch(() => ({ cost: 1 }))
+      const result = await this.consumeMetaQuota(body.cost ?? 1)
+      return c.json(result, result.allowed ? 200 : 429)
+    })
+  }
+
+  fetch(request: Request): Promise<Response> | Response {
+    return this.app.fetch(request)
+  }
+
+  private async getRun(): Promise<Run | undefined> {
+    return this.state.storage.get<Run>(STORAGE_KEYS.run)
+  }
+
+  private async initialize(run: Run): Promise<Run> {
+    let stored = run
+    await this.state.blockConcurrencyWhile(async () => {
+      const current = await this.getRun()
+      if (current) {
+        stored = current
+        return
+      }
+      await this.state.storage.put(STORAGE_KEYS.run, run)
+    })
+    return stored
+  }
+
+  private async updateSettings(update: RunSettingsUpdate): Promise<Run | undefined> {
+    let updated: Run | undefined
+    await this.state.blockConcurrencyWhile(async () => {
+      const run = await this.getRun()
+      if (!run) return
+      updated = {
+        ...run,
+        stopRules: update.stopRules ?? run.stopRules,
+        destinationUrl: update.destinationUrl ?? run.destinationUrl,
+        pixels: update.pixels ?? run.pixels,
+      }
+      await this.state.storage.put(STORAGE_KEYS.run, updated)
+    })
+    return updated
+  }
+
+  private async transition(
+    request: RunTransitionRequest,
+    leaseId?: string
+  ): Promise<{ status: 200 | 404 | 409 | 422; body: unknown }> {
+    let result: { status: 200 | 404 | 409 | 422; body: unknown } = { status: 200, body: null }
+
+    await this.state.blockConcurrencyWhile(async () => {
+      const run = await this.getRun()
+      if (!run) {
+        result = { status: 404, body: { error: 'Run not initialized' } }
+        return
+      }
+
+      // 停止判定などでリースが保持されている間は、保持者以外の遷移を拒否
+      const lease = await this.state.storage.get<RunLease>(STORAGE_KEYS.lease)
+      if (isLeaseActive(lease) && lease.id !== leaseId) {
+        result = { status: 409, body: { error: `Run is locked by ${lease.holder}` } }
+        return
+      }
+
+      const check = checkTransition(run, request)
+      if (!check.allowed) {
+        result = { status: 422, body: { error: check.reason } }
+        return
+      }
+
+      const updated = transitionRun(run, request)
+      await this.state.storage.put(STORAGE_KEYS.run, updated)
+      result = { status: 200, body: updated }
+    })
+
+    return result
+  }
+
+  private async acquire(
+    holder: string,
+    purpose: RunLease['purpose'],
+    ttlMs?: number
+  ): Promise<LeaseResult> {
+    const current = await this.state.storage.get<RunLease>(STORAGE_KEYS.lease)
+    const result = acquireLease(current, holder, purpose, ttlMs)
+
+    if (result.acquired && result.lease) {
+      await this.state.storage.put(STORAGE_KEYS.lease, result.lease)
+    }
+
+    return result
+  }
+
+  private async release(leaseId: string): Promise<boolean> {
+    const current = await this.state.storage.get<RunLease>(STORAGE_KEYS.lease)
+    if (!current || current.id !== leaseId) {
+      return false
+    }
+
+    await this.state.storage.delete(STORAGE_KEYS.lease)
+    return true
+  }
+
+  private async consumeMetaQuota(cost: number): Promise<RateLimitResult> {
+    const current = await this.state.storage.get<RateLimitState>(STORAGE_KEYS.rateLimit)
+    const { state, result } = consumeTokens(current, META_RATE_LIMIT, cost)
+    await this.state.storage.put(STORAGE_KEYS.rateLimit, state)
+    return result
+  }
+}
+
+/**
+ * RunStateのクライアントを作成
+ */
+export function createRunStateClient(namespace: DurableObjectNamespace, runId: string) {
+  const stub = namespace.get(namespace.idFromName(runId))
+
+  const call = async <T>(method: string, path: string, body?: unknown): Promise<{ ok: boolean; status: number; data: T }> => {
+    const response = await stub.fetch(`https://run-state${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    return { ok: response.ok, status: response.status, data: (await response.json()) as T }
+  }
+
+  return {
+    getRun: () => call<Run>('GET', '/run'),
+    putRun: (run: Run) => call<Run>('PUT', '/run', run),
+    initRun: (run: Run) => call<Run>('POST', '/run/init', run),
+    updateSettings: (update: RunSettingsUpdate) => call<Run>('PATCH', '/run/settings', update),
+    transition: (request: RunTransitionRequest, leaseId?: string) =>
+      call<Run | { error: string }>('POST', '/transition', { request, leaseId }),
+    acquireLease: (holder: string, purpose: RunLease['purpose'], ttlMs?: number) =>
+      call<LeaseResult>('POST', '/lease/acquire', { holder, purpose, ttlMs }),
+    releaseLease: (leaseId: string) => call<{ released: boolean }>('POST', '/lease/release', { leaseId }),
+    consumeMetaQuota: (cost = 1) => call<RateLimitResult>('POST', '/rate-limit/meta', { cost }),
+    listHealthChecks: () => call<HealthCheckResult[]>('GET', '/health-checks'),
+    recordHealthCheck: (check: HealthCheckResult) =>
+      call<HealthCheckResult[]>('POST', '/health-checks', check),
+  }
+}
+
+export type RunStateClient = ReturnType<typeof createRunStateClient>
@@ -0,0 +1,32 @@
+import type { Session } from './domain/auth'
+import type { Membership } from './domain/tenancy'
+import type { Repositories } from './repositories/types'
+
+/**
+ * Worker Bindings
+ * wrangler.toml で定義されたバインディング
+ */
+export type Bindings = {
+  DB: D1Database
+  ASSETS: R2Bucket
+  CACHE: KVNamespace
+  JOBS_QUEUE: Queue
+  RUN_STATE: DurableObjectNamespace
+  ENVIRONMENT: string
+  MAIL_API_URL: string // メール送信 API（SendGrid v3 互換の JSON を POST）
+  MAIL_API_KEY: string // wrangler secret で設定
+  MAIL_FROM: string
+}
+
+/**
+ * Honoアプリの環境（バインディングとリクエスト変数）
+ */
+export type AppEnv = {
+  Bindings: Bindings
+  Variables: {
+    repositories: Repositories
+    userId?: string
+    session?: Session
+    membership?: Membership
+  }
+}
@@ -1,27 +1,19 @@
-import { Hono } from 'hono'
+import type { Bindings } from './env'
+import { createApp } from './app'
+import { handleQueue, type QueueJob } from './queue'
+import { runScheduled } from './scheduled'
 
-type Bindings = {
-  DB: D1Database
-  ASSETS: R2Bucket
-  CACHE: KVNamespace
-  JOBS_QUEUE: Queue
-  RUN_STATE: DurableObjectNamespace
-  ENVIRONMENT: string
-}
+export { RunState } from './durable-objects/run-state'
 
-const app = new Hono<{ Bindings: Bindings }>()
+const app = createApp()
 
-app.get('/', (c) => {
-  return c.json({
-    name: 'Launch Test System',
-    version: '0.1.0',
-    environment: c.env.ENVIRONMENT,
-    status: 'ok'
-  })
-})
-
-app.get('/health', (c) => {
-  return c.json({ status: 'healthy' })
-})
-
-export default app
+export default {
+  fetch: app.fetch,
+  // 失敗は例外にして Workers のログと Cron の実行結果に残す（全件の処理は終えてから投げる）
+  scheduled: async (controller, env, ctx) => {
+    await runScheduled(controller, env, ctx)
+  },
+  queue: async (batch, env, ctx) => {
+    await handleQueue(batch, env, ctx)
+  },
+} satisfies ExportedHandler<Bindings, QueueJob>
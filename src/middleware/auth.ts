@@ -0,0 +1,35 @@
+/**
+ * Auth Middleware
+ * セッションCookieから呼び出し元を識別
+ */
+
+import { getCookie } from 'hono/cookie'
+import { createMiddleware } from 'hono/factory'
+import type { AppEnv } from '../env'
+import { SESSION_COOKIE_NAME } from '../domain/auth'
+import { createAuthDeps, resolveSession } from '../services/auth'
+
+/**
+ * セッションCookieを検証して userId / session を設定（未ログインなら未設定のまま）
+ */
+export const identifyCaller = createMiddleware<AppEnv>(async (c, next) => {
+  const sessionToken = getCookie(c, SESSION_COOKIE_NAME)
+  if (sessionToken) {
+    const session = await resolveSession(createAuthDeps(c.env, c.var.repositories), sessionToken)
+    if (session) {
+      c.set('session', session)
+      c.set('userId', session.userId)
+    }
+  }
+  await next()
+})
+
+/**
+ * ログイン済みであることを要求
+ */
+export const requireUser = createMiddleware<AppEnv>(async (c, next) => {
+  if (!c.var.userId) {
+    return c.json({ error: 'Authentication required' }, 401)
+  }
+  await next()
+})
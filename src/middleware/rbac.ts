@@ -0,0 +1,50 @@
+/**
+ * RBAC Middleware
+ * テナント内ロールによる権限チェック（Owner/Operator は MFA 済みセッションが必要）
+ */
+
+import type { Context } from 'hono'
+import { createMiddleware } from 'hono/factory'
+import type { AppEnv } from '../env'
+import { requiresMfa } from '../domain/auth'
+import { checkPermission, type Action } from '../domain/rbac'
+
+// 権限チェック対象のテナントIDを取得する関数
+export type TenantIdResolver = (c: Context<AppEnv>) => string | undefined | Promise<string | undefined>
+
+// パスの :tenantId を使う（既定）
+const fromPath: TenantIdResolver = (c) => c.req.param('tenantId')
+
+/**
+ * テナントのメンバーシップを解決し、操作が許可されたロールか検証
+ */
+export function requirePermission(action: Action, resolveTenantId: TenantIdResolver = fromPath) {
+  return createMiddleware<AppEnv>(async (c, next) => {
+    const userId = c.var.userId
+    if (!userId) {
+      return c.json({ error: 'Authentication required' }, 401)
+    }
+
+    const tenantId = await resolveTenantId(c)
+    if (!tenantId) {
+      return c.json({ error: 'tenantId is required' }, 400)
+    }
+
+    const membership = await c.var.repositories.memberships(tenantId).findByUserId(userId)
+    if (!membership) {
+      return c.json({ error: 'Not a member of this tenant' }, 403)
+    }
+
+    const check = checkPermission(membership.role, action)
+    if (!check.allowed) {
+      return c.json({ error: 'Forbidden', reason: check.reason }, 403)
+    }
+
+    if (requiresMfa(membership.role) && !c.var.session?.mfaVerified) {
+      return c.json({ error: 'MFA required' }, 403)
+    }
+
+    c.set('membership', membership)
+    await next()
+  })
+}
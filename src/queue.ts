@@ -0,0 +1,60 @@
+/**
+ * Queue Handlers
+ * JOBS_QUEUE のコンシューマー（wrangler.toml の queues.consumers と対応）
+ */
+
+import { createMagicLinkMail } from './domain/auth'
+import type { Bindings } from './env'
+import type { MagicLinkJob } from './services/auth'
+import { createMailer, type Mailer } from './services/mailer'
+
+// キューに積まれるジョブ
+export type QueueJob = MagicLinkJob
+
+// バッチの処理結果（失敗したメッセージは再試行に回す）
+export interface QueueSummary {
+  delivered: number
+  retried: { id: string; error: string }[]
+  skipped: string[] // 種類の分からないメッセージ（再試行しない）
+}
+
+/**
+ * ジョブを1件処理
+ */
+async function processJob(job: QueueJob, mailer: Mailer): Promise<boolean> {
+  switch (job.type) {
+    case 'magic_link_email':
+      await mailer.send(createMagicLinkMail(job.email, job.url))
+      return true
+    default:
+      return false
+  }
+}
+
+/**
+ * キューのバッチを処理
+ */
+export async function handleQueue(
+  batch: MessageBatch<QueueJob>,
+  env: Bindings,
+  _ctx: ExecutionContext,
+  mailer: Mailer = createMailer(env)
+): Promise<QueueSummary> {
+  const summary: QueueSummary = { delivered: 0, retried: [], skipped: [] }
+
+  for (const message of batch.messages) {
+    try {
+      if (await processJob(message.body, mailer)) {
+        summary.delivered++
+      } else {
+        summary.skipped.push(message.id)
+      }
+      message.ack()
+    } catch (error) {
+      summary.retried.push({ id: message.id, error: error instanceof Error ? error.message : 'Unknown error' })
+      message.retry()
+    }
+  }
+
+  return summary
+}
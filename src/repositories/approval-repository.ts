@@ -0,0 +1,116 @@
+/**
+ * Approval Repository
+ * approvals テーブルへの永続化（テナント単位）
+ */
+
+import type { Approval, ApprovalStatus, ApprovalTargetType } from '../domain/approval'
+
+/**
+ * 行データを承認に変換
+ */
+export function rowToApproval(row: Record<string, unknown>): Approval {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    runId: row.run_id as string,
+    targetType: row.target_type as ApprovalTargetType,
+    targetId: (row.target_id as string | null) ?? undefined,
+    status: row.status as ApprovalStatus,
+    checklist: JSON.parse(row.checklist as string),
+    comments: JSON.parse(row.comments as string),
+    signOffs: JSON.parse(row.sign_offs as string),
+    requestedBy: row.requested_by as string,
+    approvedBy: (row.approved_by as string | null) ?? undefined,
+    approvedAt: (row.approved_at as string | null) ?? undefined,
+    contentHash: (row.content_hash as string | null) ?? undefined,
+    invalidatedAt: (row.invalidated_at as string | null) ?? undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+export class ApprovalRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(approval: Approval): Promise<Approval> {
+    if (approval.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO approvals (id, tenant_id, run_id, target_type, target_id, status, checklist, comments,
+          sign_offs, requested_by, approved_by, approved_at, content_hash, invalidated_at, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        approval.id,
+        this.tenantId,
+        approval.runId,
+        approval.targetType,
+        approval.targetId ?? null,
+        approval.status,
+        JSON.stringify(approval.checklist),
+        JSON.stringify(approval.comments),
+        JSON.stringify(approval.signOffs),
+        approval.requestedBy,
+        approval.approvedBy ?? null,
+        approval.approvedAt ?? null,
+        approval.contentHash ?? null,
+        approval.invalidatedAt ?? null,
+        approval.createdAt,
+        approval.updatedAt
+      )
+      .run()
+
+    return approval
+  }
+
+  async update(approval: Approval): Promise<Approval> {
+    if (approval.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `UPDATE approvals SET status = ?, checklist = ?, comments = ?, sign_offs = ?, approved_by = ?,
+          approved_at = ?, content_hash = ?, invalidated_at = ?, updated_at = ?
+          WHERE tenant_id = ? AND id = ?`
+      )
+      .bind(
+        approval.status,
+        JSON.stringify(approval.checklist),
+        JSON.stringify(approval.comments),
+        JSON.stringify(approval.signOffs),
+        approval.approvedBy ?? null,
+        approval.approvedAt ?? null,
+        approval.contentHash ?? null,
+        approval.invalidatedAt ?? null,
+        approval.updatedAt,
+        this.tenantId,
+        approval.id
+      )
+      .run()
+
+    return approval
+  }
+
+  async findById(id: string): Promise<Approval | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM approvals WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToApproval(row) : null
+  }
+
+  async listByRun(runId: string): Promise<Approval[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM approvals WHERE tenant_id = ? AND run_id = ? ORDER BY created_at')
+      .bind(this.tenantId, runId)
+      .all()
+    return results.map(rowToApproval)
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Audit Log Repository
+ * audit_logs テーブルへの追記（テナント単位、更新・削除メソッドは持たない）
+ */
+
+import type { AuditLog, AuditLogQuery } from '../domain/audit'
+
+/**
+ * 行データを監査ログに変換
+ */
+export function rowToAuditLog(row: Record<string, unknown>): AuditLog {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    sequence: row.sequence as number,
+    actorId: row.actor_id as string,
+    action: row.action as string,
+    targetType: row.target_type as AuditLog['targetType'],
+    targetId: (row.target_id as string | null) ?? undefined,
+    changes: JSON.parse(row.changes as string),
+    metadata: JSON.parse(row.details as string),
+    createdAt: row.created_at as string,
+    prevHash: row.prev_hash as string,
+    hash: row.hash as string,
+  }
+}
+
+/**
+ * 期間内に監査ログがあるテナントID（全テナント、スナップショット用）
+ */
+export async function listAuditLogTenantIds(db: D1Database, from: string, to: string): Promise<string[]> {
+  const { results } = await db
+    .prepare('SELECT DISTINCT tenant_id FROM audit_logs WHERE created_at >= ? AND created_at < ?')
+    .bind(from, to)
+    .all()
+  return results.map((row) => row.tenant_id as string)
+}
+
+export class AuditLogRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async append(log: AuditLog): Promise<AuditLog> {
+    if (log.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO audit_logs (id, tenant_id, sequence, actor_id, action, target_type, target_id, changes,
+          details, created_at, prev_hash, hash)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        log.id,
+        this.tenantId,
+        log.sequence,
+        log.actorId,
+        log.action,
+        log.targetType,
+        log.targetId ?? null,
+        JSON.stringify(log.changes),
+        JSON.stringify(log.metadata),
+        log.createdAt,
+        log.prevHash,
+        log.hash
+      )
+      .run()
+
+    return log
+  }
+
+  async findLatest(): Promise<AuditLog | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM audit_logs WHERE tenant_id = ? ORDER BY sequence DESC LIMIT 1')
+      .bind(this.tenantId)
+      .first()
+    return row ? rowToAuditLog(row) : null
+  }
+
+  async findBySequence(sequence: number): Promise<AuditLog | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM audit_logs WHERE tenant_id = ? AND sequence = ?')
+      .bind(this.tenantId, sequence)
+      .first()
+    return row ? rowToAuditLog(row) : null
+  }
+
+  async listAfter(sequence = 0, limit = 1000): Promise<AuditLog[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM audit_logs WHERE tenant_id = ? AND sequence > ? ORDER BY sequence LIMIT ?')
+      .bind(this.tenantId, sequence, limit)
+      .all()
+    return results.map(rowToAuditLog)
+  }
+
+  async search(query: AuditLogQuery): Promise<AuditLog[]> {
+    const conditions = ['tenant_id = ?']
+    const params: (string | number)[] = [this.tenantId]
+    const where = (condition: string, value: string | number | undefined) => {
+      if (value === undefined || value === '') return
+      conditions.push(condition)
+      params.push(value)
+    }
+
+    where('actor_id = ?', query.actorId)
+    if (query.action?.endsWith('.*')) {
+      where(`action LIKE ? ESCAPE '\\'`, `${query.action.slice(0, -1).replace(/[\\%_]/g, '\\$&')}%`)
+    } else {
+      where('action = ?', query.action)
+    }
+    where('target_type = ?', query.targetType)
+    where('target_id = ?', query.targetId)
+    where('created_at >= ?', query.from)
+    where('created_at < ?', query.to)
+    where('sequence < ?', query.before)
+
+    const { results } = await this.db
+      .prepare(`SELECT * FROM audit_logs WHERE ${conditions.join(' AND ')} ORDER BY sequence DESC LIMIT ?`)
+      .bind(...params, query.limit)
+      .all()
+    return results.map(rowToAuditLog)
+  }
+
+  async listBetween(from: string, to: string): Promise<AuditLog[]> {
+    const { results } = await this.db
+      .prepare(
+        'SELECT * FROM audit_logs WHERE tenant_id = ? AND created_at >= ? AND created_at < ? ORDER BY sequence'
+      )
+      .bind(this.tenantId, from, to)
+      .all()
+    return results.map(rowToAuditLog)
+  }
+}
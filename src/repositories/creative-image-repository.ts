@@ -0,0 +1,77 @@
+/**
+ * Creative Image Repository
+ * creative_images テーブルへの永続化（テナント単位）
+ */
+
+import type { CreativeImage } from '../domain/creative-image'
+
+/**
+ * 行データをアップロード画像に変換
+ */
+export function rowToCreativeImage(row: Record<string, unknown>): CreativeImage {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    runId: row.run_id as string,
+    key: row.key as string,
+    contentType: row.content_type as string,
+    width: row.width as number,
+    height: row.height as number,
+    size: row.size as number,
+    hash: row.hash as string,
+    uploadedBy: row.uploaded_by as string,
+    createdAt: row.created_at as string,
+  }
+}
+
+export class CreativeImageRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(image: CreativeImage): Promise<CreativeImage> {
+    if (image.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO creative_images (id, tenant_id, run_id, key, content_type, width, height, size, hash,
+          uploaded_by, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        image.id,
+        this.tenantId,
+        image.runId,
+        image.key,
+        image.contentType,
+        image.width,
+        image.height,
+        image.size,
+        image.hash,
+        image.uploadedBy,
+        image.createdAt
+      )
+      .run()
+
+    return image
+  }
+
+  async findById(id: string): Promise<CreativeImage | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM creative_images WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToCreativeImage(row) : null
+  }
+
+  async listByRun(runId: string): Promise<CreativeImage[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM creative_images WHERE tenant_id = ? AND run_id = ? ORDER BY created_at DESC')
+      .bind(this.tenantId, runId)
+      .all()
+    return results.map(rowToCreativeImage)
+  }
+}
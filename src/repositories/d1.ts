@@ -0,0 +1,56 @@
+/**
+ * D1 Repositories
+ * D1バインディングからリポジトリ一式を作成
+ */
+
+import { ApprovalRepository } from './approval-repository'
+import { AuditLogRepository, listAuditLogTenantIds } from './audit-log-repository'
+import { CreativeImageRepository } from './creative-image-repository'
+import { CreativeVariantRepository } from './creative-variant-repository'
+import { DeploymentRepository } from './deployment-repository'
+import { InvitationRepository } from './invitation-repository'
+import { LpVariantRepository } from './lp-variant-repository'
+import { listDueManualStopTasks, ManualStopTaskRepository } from './manual-stop-task-repository'
+import { listMembershipsByUser, MembershipRepository } from './membership-repository'
+import { MetaConnectionRepository } from './meta-connection-repository'
+import { MetaEntityRepository } from './meta-entity-repository'
+import { MetricsRepository } from './metrics-repository'
+import { NotificationRepository } from './notification-repository'
+import { ProjectRepository } from './project-repository'
+import { listRunningRuns, RunRepository } from './run-repository'
+import { StopEventRepository } from './stop-event-repository'
+import { TenantRepository } from './tenant-repository'
+import { TestResultRepository } from './test-result-repository'
+import { UserRepository } from './user-repository'
+import type { Repositories } from './types'
+
+/**
+ * D1リポジトリを作成
+ */
+export function createD1Repositories(db: D1Database): Repositories {
+  return {
+    users: () => new UserRepository(db),
+    tenants: () => new TenantRepository(db),
+    projects: (tenantId) => new ProjectRepository(db, tenantId),
+    invitations: (tenantId) => new InvitationRepository(db, tenantId),
+    runs: (tenantId) => new RunRepository(db, tenantId),
+    deployments: (tenantId) => new DeploymentRepository(db, tenantId),
+    metaConnections: (tenantId) => new MetaConnectionRepository(db, tenantId),
+    metaEntities: (tenantId) => new MetaEntityRepository(db, tenantId),
+    metrics: (tenantId) => new MetricsRepository(db, tenantId),
+    memberships: (tenantId) => new MembershipRepository(db, tenantId),
+    notifications: (tenantId) => new NotificationRepository(db, tenantId),
+    testResults: (tenantId) => new TestResultRepository(db, tenantId),
+    stopEvents: (tenantId) => new StopEventRepository(db, tenantId),
+    manualStopTasks: (tenantId) => new ManualStopTaskRepository(db, tenantId),
+    auditLogs: (tenantId) => new AuditLogRepository(db, tenantId),
+    approvals: (tenantId) => new ApprovalRepository(db, tenantId),
+    lpVariants: (tenantId) => new LpVariantRepository(db, tenantId),
+    creativeVariants: (tenantId) => new CreativeVariantRepository(db, tenantId),
+    creativeImages: (tenantId) => new CreativeImageRepository(db, tenantId),
+    listRunningRuns: () => listRunningRuns(db),
+    listDueManualStopTasks: (now) => listDueManualStopTasks(db, now),
+    listAuditLogTenantIds: (from, to) => listAuditLogTenantIds(db, from, to),
+    listMembershipsByUser: (userId) => listMembershipsByUser(db, userId),
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Deployment Repository
+ * deployments テーブルへの永続化（テナント単位）
+ */
+
+import type { Deployment, DeploymentEnvironment } from '../domain/publishing'
+
+/**
+ * 行データをデプロイメントに変換
+ */
+export function rowToDeployment(row: Record<string, unknown>): Deployment {
+  return {
+    id: row.id as string,
+    runId: row.run_id as string,
+    tenantId: row.tenant_id as string,
+    environment: row.environment as Deployment['environment'],
+    status: row.status as Deployment['status'],
+    version: row.version as number,
+    deployedBy: row.deployed_by as string,
+    deployedAt: (row.deployed_at as string | null) ?? undefined,
+    completedAt: (row.completed_at as string | null) ?? undefined,
+    assets: JSON.parse(row.assets as string),
+    urls: JSON.parse(row.urls as string),
+    error: (row.error as string | null) ?? undefined,
+    metadata: JSON.parse(row.metadata as string),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+export class DeploymentRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(deployment: Deployment): Promise<Deployment> {
+    if (deployment.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO deployments (id, tenant_id, run_id, environment, status, version, deployed_by,
+          deployed_at, completed_at, assets, urls, error, metadata, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        deployment.id,
+        this.tenantId,
+        deployment.runId,
+        deployment.environment,
+        deployment.status,
+        deployment.version,
+        deployment.deployedBy,
+        deployment.deployedAt ?? null,
+        deployment.completedAt ?? null,
+        JSON.stringify(deployment.assets),
+        JSON.stringify(deployment.urls),
+        deployment.error ?? null,
+        JSON.stringify(deployment.metadata),
+        deployment.createdAt,
+        deployment.updatedAt
+      )
+      .run()
+
+    return deployment
+  }
+
+  async update(deployment: Deployment): Promise<Deployment> {
+    if (deployment.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `UPDATE deployments SET status = ?, deployed_at = ?, completed_at = ?, assets = ?, urls = ?,
+          error = ?, metadata = ?, updated_at = ? WHERE tenant_id = ? AND id = ?`
+      )
+      .bind(
+        deployment.status,
+        deployment.deployedAt ?? null,
+        deployment.completedAt ?? null,
+        JSON.stringify(deployment.assets),
+        JSON.stringify(deployment.urls),
+        deployment.error ?? null,
+        JSON.stringify(deployment.metadata),
+        deployment.updatedAt,
+        this.tenantId,
+        deployment.id
+      )
+      .run()
+
+    return deployment
+  }
+
+  async findById(id: string): Promise<Deployment | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM deployments WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToDeployment(row) : null
+  }
+
+  async listByRun(runId: string, environment?: DeploymentEnvironment): Promise<Deployment[]> {
+    const { results } = environment
+      ? await this.db
+          .prepare(
+            'SELECT * FROM deployments WHERE tenant_id = ? AND run_id = ? AND environment = ? ORDER BY version DESC'
+          )
+          .bind(this.tenantId, runId, environment)
+          .all()
+      : await this.db
+          .prepare('SELECT * FROM deployments WHERE tenant_id = ? AND run_id = ? ORDER BY created_at DESC')
+          .bind(this.tenantId, runId)
+          .all()
+    return results.map(rowToDeployment)
+  }
+
+  async findLatestDeployed(runId: string, environment: DeploymentEnvironment): Promise<Deployment | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT * FROM deployments WHERE tenant_id = ? AND run_id = ? AND environment = ? AND status = 'deployed'
+          ORDER BY version DESC LIMIT 1`
+      )
+      .bind(this.tenantId, runId, environment)
+      .first()
+    return row ? rowToDeployment(row) : null
+  }
+
+  async getNextVersion(runId: string, environment: DeploymentEnvironment): Promise<number> {
+    const row = await this.db
+      .prepare(
+        'SELECT MAX(version) AS version FROM deployments WHERE tenant_id = ? AND run_id = ? AND environment = ?'
+      )
+      .bind(this.tenantId, runId, environment)
+      .first<{ version: number | null }>()
+    return (row?.version ?? 0) + 1
+  }
+}
@@ -0,0 +1,963 @@
+/**
+ * In-Memory Repositories
+ * D1リポジトリと同じインターフェースのインメモリ実装（ローカル/テスト用）
+ */
+
+import type { Approval } from '../domain/approval'
+import { matchesAuditAction, type AuditLog, type AuditLogQuery } from '../domain/audit'
+import type { User } from '../domain/auth'
+import type { CreativeImage } from '../domain/creative-image'
+import type { CreativeVariant, CreativeVariantChange, CreativeVariantVersion } from '../domain/creative-variant'
+import type { LpVariant, LpVariantChange, LpVariantVersion } from '../domain/lp-variant'
+import type { ManualStopStatus, ManualStopTask } from '../domain/manual-stop'
+import type { DailyMetrics, HourlyMetrics } from '../domain/measurement'
+import type {
+  MetaAd,
+  MetaAdSet,
+  MetaCampaign,
+  MetaConnection,
+  MetaEntityStatus,
+} from '../domain/meta-api'
+import type { Notification, NotificationStatus } from '../domain/notification'
+import type { Deployment, DeploymentEnvironment } from '../domain/publishing'
+import type { Run, RunStatus } from '../domain/run'
+import type { StopEvent } from '../domain/stop-event'
+import type { Invitation, InvitationStatus, Membership, Project, Role, Tenant } from '../domain/tenancy'
+import type { TestResult } from '../domain/winner-learning'
+import type { MetaEntityType, RunMetaEntities } from './meta-entity-repository'
+import type {
+  ApprovalStore,
+  AuditLogStore,
+  CreativeImageStore,
+  CreativeVariantStore,
+  DeploymentStore,
+  InvitationStore,
+  LpVariantStore,
+  ManualStopTaskStore,
+  MembershipStore,
+  MetaConnectionStore,
+  MetaEntityStore,
+  MetricsStore,
+  NotificationStore,
+  ProjectStore,
+  Repositories,
+  RunStore,
+  StopEventStore,
+  TenantStore,
+  TestResultStore,
+  UserStore,
+} from './types'
+
+// テナントに紐づくレコード
+interface Scoped<T> {
+  tenantId: string
+  value: T
+}
+
+// Metaエンティティのレコード
+interface MetaEntityRecord {
+  tenantId: string
+  runId: string
+  entityType: MetaEntityType
+  entity: MetaCampaign | MetaAdSet | MetaAd
+  createdAt: string
+}
+
+// インメモリストア（テーブル相当）
+export interface InMemoryStore {
+  users: Map<string, User>
+  tenants: Map<string, Tenant>
+  projects: Map<string, Project>
+  invitations: Map<string, Invitation>
+  runs: Map<string, Run>
+  deployments: Map<string, Deployment>
+  metaConnections: Map<string, MetaConnection>
+  metaEntities: Map<string, MetaEntityRecord>
+  metricsHourly: Map<string, Scoped<HourlyMetrics>>
+  metricsDaily: Map<string, Scoped<DailyMetrics>>
+  memberships: Map<string, Membership>
+  notifications: Map<string, Notification>
+  testResults: Map<string, Scoped<TestResult>>
+  stopEvents: Map<string, StopEvent>
+  manualStopTasks: Map<string, ManualStopTask>
+  auditLogs: Map<string, AuditLog>
+  approvals: Map<string, Approval>
+  lpVariants: Map<string, LpVariant>
+  lpVariantVersions: Map<string, LpVariantVersion> // キー: variantId:version
+  creativeVariants: Map<string, CreativeVariant>
+  creativeVariantVersions: Map<string, CreativeVariantVersion> // キー: variantId:version
+  creativeImages: Map<string, CreativeImage>
+}
+
+/**
+ * 空のインメモリストアを作成
+ */
+export function createInMemoryStore(): InMemoryStore {
+  return {
+    users: new Map(),
+    tenants: new Map(),
+    projects: new Map(),
+    invitations: new Map(),
+    runs: new Map(),
+    deployments: new Map(),
+    metaConnections: new Map(),
+    metaEntities: new Map(),
+    metricsHourly: new Map(),
+    metricsDaily: new Map(),
+    memberships: new Map(),
+    notifications: new Map(),
+    testResults: new Map(),
+    stopEvents: new Map(),
+    manualStopTasks: new Map(),
+    auditLogs: new Map(),
+    approvals: new Map(),
+    lpVariants: new Map(),
+    lpVariantVersions: new Map(),
+    creativeVariants: new Map(),
+    creativeVariantVersions: new Map(),
+    creativeImages: new Map(),
+  }
+}
+
+// 永続化と同様に参照を切り離す
+const clone = <T>(value: T): T => structuredClone(value)
+
+const byDesc = <T>(key: (v: T) => string) => (a: T, b: T) => key(b).localeCompare(key(a))
+const byAsc = <T>(key: (v: T) => string) => (a: T, b: T) => key(a).localeCompare(key(b))
+
+export class InMemoryUserRepository implements UserStore {
+  constructor(private readonly store: InMemoryStore) {}
+
+  async create(user: User): Promise<User> {
+    if (await this.findByEmail(user.email)) {
+      throw new Error('Email is already registered')
+    }
+    this.store.users.set(user.id, clone(user))
+    return user
+  }
+
+  async update(user: User): Promise<User> {
+    if (this.store.users.has(user.id)) {
+      this.store.users.set(user.id, clone(user))
+    }
+    return user
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const user = this.store.users.get(id)
+    return user ? clone(user) : null
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const user = [...this.store.users.values()].find((u) => u.email === email)
+    return user ? clone(user) : null
+  }
+}
+
+export class InMemoryTenantRepository implements TenantStore {
+  constructor(private readonly store: InMemoryStore) {}
+
+  async create(tenant: Tenant): Promise<Tenant> {
+    if (await this.findBySlug(tenant.slug)) {
+      throw new Error('Slug is already taken')
+    }
+    this.store.tenants.set(tenant.id, clone(tenant))
+    return tenant
+  }
+
+  async update(tenant: Tenant): Promise<Tenant> {
+    if (this.store.tenants.has(tenant.id)) {
+      this.store.tenants.set(tenant.id, clone(tenant))
+    }
+    return tenant
+  }
+
+  async findById(id: string): Promise<Tenant | null> {
+    const tenant = this.store.tenants.get(id)
+    return tenant ? clone(tenant) : null
+  }
+
+  async findBySlug(slug: string): Promise<Tenant | null> {
+    const tenant = [...this.store.tenants.values()].find((t) => t.slug === slug)
+    return tenant ? clone(tenant) : null
+  }
+}
+
+export class InMemoryProjectRepository implements ProjectStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(project: Project): Promise<Project> {
+    if (project.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.projects.set(project.id, clone(project))
+    return project
+  }
+
+  async update(project: Project): Promise<Project> {
+    if (project.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    if (this.store.projects.get(project.id)?.tenantId === this.tenantId) {
+      this.store.projects.set(project.id, clone(project))
+    }
+    return project
+  }
+
+  async findById(id: string): Promise<Project | null> {
+    const project = this.store.projects.get(id)
+    return project && project.tenantId === this.tenantId ? clone(project) : null
+  }
+
+  async list(includeArchived = false): Promise<Project[]> {
+    return [...this.store.projects.values()]
+      .filter((p) => p.tenantId === this.tenantId && (includeArchived || !p.archivedAt))
+      .sort(byDesc((p) => p.createdAt))
+      .map(clone)
+  }
+}
+
+export class InMemoryInvitationRepository implements InvitationStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(invitation: Invitation): Promise<Invitation> {
+    if (invitation.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.invitations.set(invitation.id, clone(invitation))
+    return invitation
+  }
+
+  async update(invitation: Invitation): Promise<Invitation> {
+    if (invitation.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    if (this.store.invitations.get(invitation.id)?.tenantId === this.tenantId) {
+      this.store.invitations.set(invitation.id, clone(invitation))
+    }
+    return invitation
+  }
+
+  async findById(id: string): Promise<Invitation | null> {
+    const invitation = this.store.invitations.get(id)
+    return invitation && invitation.tenantId === this.tenantId ? clone(invitation) : null
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<Invitation | null> {
+    const invitation = [...this.store.invitations.values()].find(
+      (i) => i.tenantId === this.tenantId && i.tokenHash === tokenHash
+    )
+    return invitation ? clone(invitation) : null
+  }
+
+  async list(status?: InvitationStatus): Promise<Invitation[]> {
+    return [...this.store.invitations.values()]
+      .filter((i) => i.tenantId === this.tenantId && (!status || i.status === status))
+      .sort(byDesc((i) => i.createdAt))
+      .map(clone)
+  }
+}
+
+export class InMemoryRunRepository implements RunStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(run: Run): Promise<Run> {
+    if (run.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.runs.set(run.id, clone(run))
+    return run
+  }
+
+  async update(run: Run): Promise<Run> {
+    if (run.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    if (this.store.runs.get(run.id)?.tenantId === this.tenantId) {
+      this.store.runs.set(run.id, clone(run))
+    }
+    return run
+  }
+
+  async findById(id: string): Promise<Run | null> {
+    const run = this.store.runs.get(id)
+    return run && run.tenantId === this.tenantId ? clone(run) : null
+  }
+
+  async listByProject(projectId: string, limit = 100): Promise<Run[]> {
+    return [...this.store.runs.values()]
+      .filter((r) => r.tenantId === this.tenantId && r.projectId === projectId)
+      .sort(byDesc((r) => r.createdAt))
+      .slice(0, limit)
+      .map(clone)
+  }
+
+  async list(status?: RunStatus, limit = 100): Promise<Run[]> {
+    return [...this.store.runs.values()]
+      .filter((r) => r.tenantId === this.tenantId && (!status || r.status === status))
+      .sort(byDesc((r) => r.createdAt))
+      .slice(0, limit)
+      .map(clone)
+  }
+}
+
+export class InMemoryDeploymentRepository implements DeploymentStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(deployment: Deployment): Promise<Deployment> {
+    if (deployment.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.deployments.set(deployment.id, clone(deployment))
+    return deployment
+  }
+
+  async update(deployment: Deployment): Promise<Deployment> {
+    if (deployment.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    if (this.store.deployments.get(deployment.id)?.tenantId === this.tenantId) {
+      this.store.deployments.set(deployment.id, clone(deployment))
+    }
+    return deployment
+  }
+
+  async findById(id: string): Promise<Deployment | null> {
+    const deployment = this.store.deployments.get(id)
+    return deployment && deployment.tenantId === this.tenantId ? clone(deployment) : null
+  }
+
+  async listByRun(runId: string, environment?: DeploymentEnvironment): Promise<Deployment[]> {
+    const deployments = this.forRun(runId).filter((d) => !environment || d.environment === environment)
+    return environment
+      ? deployments.sort((a, b) => b.version - a.version)
+      : deployments.sort(byDesc((d) => d.createdAt))
+  }
+
+  async findLatestDeployed(runId: string, environment: DeploymentEnvironment): Promise<Deployment | null> {
+    const deployed = (await this.listByRun(runId, environment)).filter((d) => d.status === 'deployed')
+    return deployed[0] ?? null
+  }
+
+  async getNextVersion(runId: string, environment: DeploymentEnvironment): Promise<number> {
+    const versions = (await this.listByRun(runId, environment)).map((d) => d.version)
+    return Math.max(0, ...versions) + 1
+  }
+
+  private forRun(runId: string): Deployment[] {
+    return [...this.store.deployments.values()]
+      .filter((d) => d.tenantId === this.tenantId && d.runId === runId)
+      .map(clone)
+  }
+}
+
+export class InMemoryMetaConnectionRepository implements MetaConnectionStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async save(connection: MetaConnection): Promise<MetaConnection> {
+    if (connection.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    const existing = this.store.metaConnections.get(connection.id)
+    if (!existing || existing.tenantId === this.tenantId) {
+      this.store.metaConnections.set(connection.id, clone(connection))
+    }
+    return connection
+  }
+
+  async findActive(): Promise<MetaConnection | null> {
+    const active = [...this.store.metaConnections.values()]
+      .filter((c) => c.tenantId === this.tenantId && c.status === 'active')
+      .sort(byDesc((c) => c.updatedAt))
+    return active[0] ? clone(active[0]) : null
+  }
+}
+
+export class InMemoryMetaEntityRepository implements MetaEntityStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async saveCampaign(campaign: MetaCampaign): Promise<MetaCampaign> {
+    this.upsert(campaign.runId, 'campaign', campaign)
+    return campaign
+  }
+
+  async saveAdSet(runId: string, adSet: MetaAdSet): Promise<MetaAdSet> {
+    this.upsert(runId, 'adset', adSet)
+    return adSet
+  }
+
+  async saveAd(runId: string, ad: MetaAd): Promise<MetaAd> {
+    this.upsert(runId, 'ad', ad)
+    return ad
+  }
+
+  async listByRun(runId: string): Promise<RunMetaEntities> {
+    const records = [...this.store.metaEntities.values()]
+      .filter((r) => r.tenantId === this.tenantId && r.runId === runId)
+      .sort(byAsc((r) => r.createdAt))
+
+    const ofType = <T>(type: MetaEntityType): T[] =>
+      records.filter((r) => r.entityType === type).map((r) => clone(r.entity) as T)
+
+    return {
+      campaigns: ofType<MetaCampaign>('campaign'),
+      adSets: ofType<MetaAdSet>('adset'),
+      ads: ofType<MetaAd>('ad'),
+    }
+  }
+
+  async updateStatus(entityId: string, status: MetaEntityStatus): Promise<void> {
+    const record = this.store.metaEntities.get(entityId)
+    if (record && record.tenantId === this.tenantId) {
+      record.entity = { ...record.entity, status }
+    }
+  }
+
+  private upsert(runId: string, entityType: MetaEntityType, entity: MetaCampaign | MetaAdSet | MetaAd) {
+    const existing = this.store.metaEntities.get(entity.id)
+    if (existing && existing.tenantId !== this.tenantId) return
+
+    this.store.metaEntities.set(entity.id, {
+      tenantId: this.tenantId,
+      runId: existing?.runId ?? runId,
+      entityType: existing?.entityType ?? entityType,
+      entity: clone(entity),
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    })
+  }
+}
+
+export class InMemoryMetricsRepository implements MetricsStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async upsertHourly(metrics: HourlyMetrics[]): Promise<void> {
+    for (const m of metrics) {
+      const key = `${m.runId}:${m.variantId}:${m.hour}`
+      const existing = this.store.metricsHourly.get(key)
+      if (existing && existing.tenantId !== this.tenantId) continue
+      this.store.metricsHourly.set(key, { tenantId: this.tenantId, value: clone(m) })
+    }
+  }
+
+  async upsertDaily(metrics: DailyMetrics[]): Promise<void> {
+    for (const m of metrics) {
+      const key = `${m.runId}:${m.variantId}:${m.date}`
+      const existing = this.store.metricsDaily.get(key)
+      if (existing && existing.tenantId !== this.tenantId) continue
+      this.store.metricsDaily.set(key, { tenantId: this.tenantId, value: clone(m) })
+    }
+  }
+
+  async listHourly(runId: string, since?: string): Promise<HourlyMetrics[]> {
+    return [...this.store.metricsHourly.values()]
+      .filter((r) => r.tenantId === this.tenantId && r.value.runId === runId)
+      .map((r) => clone(r.value))
+      .filter((m) => m.hour >= (since ?? ''))
+      .sort(byAsc((m) => m.hour))
+  }
+
+  async listDaily(runId: string, from?: string, to?: string): Promise<DailyMetrics[]> {
+    return [...this.store.metricsDaily.values()]
+      .filter((r) => r.tenantId === this.tenantId && r.value.runId === runId)
+      .map((r) => clone(r.value))
+      .filter((m) => m.date >= (from ?? '') && m.date <= (to ?? '9999-12-31'))
+      .sort(byAsc((m) => m.date))
+  }
+}
+
+export class InMemoryMembershipRepository implements MembershipStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(membership: Membership): Promise<Membership> {
+    if (membership.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    if (await this.findByUserId(membership.userId)) {
+      throw new Error('User is already a member')
+    }
+    this.store.memberships.set(membership.id, clone(membership))
+    return membership
+  }
+
+  async update(membership: Membership): Promise<Membership> {
+    if (membership.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    if (this.store.memberships.get(membership.id)?.tenantId === this.tenantId) {
+      this.store.memberships.set(membership.id, clone(membership))
+    }
+    return membership
+  }
+
+  async delete(id: string): Promise<void> {
+    if (this.store.memberships.get(id)?.tenantId === this.tenantId) {
+      this.store.memberships.delete(id)
+    }
+  }
+
+  async findById(id: string): Promise<Membership | null> {
+    const membership = this.store.memberships.get(id)
+    return membership && membership.tenantId === this.tenantId ? clone(membership) : null
+  }
+
+  async findByUserId(userId: string): Promise<Membership | null> {
+    const membership = this.forTenant().find((m) => m.userId === userId)
+    return membership ?? null
+  }
+
+  async list(): Promise<Membership[]> {
+    return this.forTenant().sort(byAsc((m) => m.createdAt))
+  }
+
+  async listUserIdsByRoles(roles: Role[]): Promise<string[]> {
+    return this.forTenant()
+      .filter((m) => roles.includes(m.role))
+      .map((m) => m.userId)
+  }
+
+  private forTenant(): Membership[] {
+    return [...this.store.memberships.values()].filter((m) => m.tenantId === this.tenantId).map(clone)
+  }
+}
+
+export class InMemoryNotificationRepository implements NotificationStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(notification: Notification): Promise<Notification> {
+    if (notification.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.notifications.set(notification.id, clone(notification))
+    return notification
+  }
+
+  async update(notification: Notification): Promise<Notification> {
+    if (notification.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    const existing = this.store.notifications.get(notification.id)
+    if (existing && existing.tenantId === this.tenantId) {
+      this.store.notifications.set(notification.id, {
+        ...existing,
+        status: notification.status,
+        sentAt: notification.sentAt,
+        readAt: notification.readAt,
+        error: notification.error,
+      })
+    }
+    return notification
+  }
+
+  async findById(id: string): Promise<Notification | null> {
+    const notification = this.store.notifications.get(id)
+    return notification && notification.tenantId === this.tenantId ? clone(notification) : null
+  }
+
+  async list(status?: NotificationStatus, limit = 100): Promise<Notification[]> {
+    return [...this.store.notifications.values()]
+      .filter((n) => n.tenantId === this.tenantId && (!status || n.status === status))
+      .sort(byDesc((n) => n.createdAt))
+      .slice(0, limit)
+      .map(clone)
+  }
+}
+
+export class InMemoryTestResultRepository implements TestResultStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(result: TestResult): Promise<TestResult> {
+    if (this.store.runs.get(result.runId)?.tenantId !== this.tenantId) {
+      throw new Error('Run not found')
+    }
+    this.store.testResults.set(result.id, { tenantId: this.tenantId, value: clone(result) })
+    return result
+  }
+
+  async findById(id: string): Promise<TestResult | null> {
+    const record = this.store.testResults.get(id)
+    return record && record.tenantId === this.tenantId ? clone(record.value) : null
+  }
+
+  async listByRun(runId: string): Promise<TestResult[]> {
+    return [...this.store.testResults.values()]
+      .filter((r) => r.tenantId === this.tenantId && r.value.runId === runId)
+      .map((r) => clone(r.value))
+      .sort(byDesc((r) => r.createdAt))
+  }
+
+  async findLatestByRun(runId: string): Promise<TestResult | null> {
+    return (await this.listByRun(runId))[0] ?? null
+  }
+}
+
+export class InMemoryStopEventRepository implements StopEventStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(event: StopEvent): Promise<StopEvent> {
+    if (event.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.stopEvents.set(event.id, clone(event))
+    return event
+  }
+
+  async findById(id: string): Promise<StopEvent | null> {
+    const event = this.store.stopEvents.get(id)
+    return event && event.tenantId === this.tenantId ? clone(event) : null
+  }
+
+  async listByRun(runId: string, limit = 100): Promise<StopEvent[]> {
+    return [...this.store.stopEvents.values()]
+      .filter((e) => e.tenantId === this.tenantId && e.runId === runId)
+      .sort(byDesc((e) => e.occurredAt))
+      .slice(0, limit)
+      .map(clone)
+  }
+}
+
+export class InMemoryManualStopTaskRepository implements ManualStopTaskStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(task: ManualStopTask): Promise<ManualStopTask> {
+    if (task.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.manualStopTasks.set(task.id, clone(task))
+    return task
+  }
+
+  async update(task: ManualStopTask): Promise<ManualStopTask> {
+    if (task.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    if (this.store.manualStopTasks.get(task.id)?.tenantId === this.tenantId) {
+      this.store.manualStopTasks.set(task.id, clone(task))
+    }
+    return task
+  }
+
+  async findById(id: string): Promise<ManualStopTask | null> {
+    const task = this.store.manualStopTasks.get(id)
+    return task && task.tenantId === this.tenantId ? clone(task) : null
+  }
+
+  async list(status?: ManualStopStatus, limit = 100): Promise<ManualStopTask[]> {
+    return [...this.store.manualStopTasks.values()]
+      .filter((t) => t.tenantId === this.tenantId && (!status || t.status === status))
+      .sort(byDesc((t) => t.createdAt))
+      .slice(0, limit)
+      .map(clone)
+  }
+}
+
+export class InMemoryAuditLogRepository implements AuditLogStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async append(log: AuditLog): Promise<AuditLog> {
+    if (log.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    // UNIQUE(tenant_id, sequence) 相当
+    if (await this.findBySequence(log.sequence)) {
+      throw new Error('Audit log sequence conflict')
+    }
+    this.store.auditLogs.set(log.id, clone(log))
+    return log
+  }
+
+  async findLatest(): Promise<AuditLog | null> {
+    return this.forTenant().at(-1) ?? null
+  }
+
+  async findBySequence(sequence: number): Promise<AuditLog | null> {
+    return this.forTenant().find((l) => l.sequence === sequence) ?? null
+  }
+
+  async listAfter(sequence = 0, limit = 1000): Promise<AuditLog[]> {
+    return this.forTenant()
+      .filter((l) => l.sequence > sequence)
+      .slice(0, limit)
+  }
+
+  async listBetween(from: string, to: string): Promise<AuditLog[]> {
+    return this.forTenant().filter((l) => l.createdAt >= from && l.createdAt < to)
+  }
+
+  async search(query: AuditLogQuery): Promise<AuditLog[]> {
+    return this.forTenant()
+      .filter(
+        (l) =>
+          (!query.actorId || l.actorId === query.actorId) &&
+          (!query.action || matchesAuditAction(l.action, query.action)) &&
+          (!query.targetType || l.targetType === query.targetType) &&
+          (!query.targetId || l.targetId === query.targetId) &&
+          (!query.from || l.createdAt >= query.from) &&
+          (!query.to || l.createdAt < query.to) &&
+          (query.before === undefined || l.sequence < query.before)
+      )
+      .reverse()
+      .slice(0, query.limit)
+  }
+
+  private forTenant(): AuditLog[] {
+    return [...this.store.auditLogs.values()]
+      .filter((l) => l.tenantId === this.tenantId)
+      .sort((a, b) => a.sequence - b.sequence)
+      .map(clone)
+  }
+}
+
+export class InMemoryApprovalRepository implements ApprovalStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(approval: Approval): Promise<Approval> {
+    if (approval.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.approvals.set(approval.id, clone(approval))
+    return approval
+  }
+
+  async update(approval: Approval): Promise<Approval> {
+    if (approval.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    if (this.store.approvals.get(approval.id)?.tenantId === this.tenantId) {
+      this.store.approvals.set(approval.id, clone(approval))
+    }
+    return approval
+  }
+
+  async findById(id: string): Promise<Approval | null> {
+    const approval = this.store.approvals.get(id)
+    return approval && approval.tenantId === this.tenantId ? clone(approval) : null
+  }
+
+  async listByRun(runId: string): Promise<Approval[]> {
+    return [...this.store.approvals.values()]
+      .filter((a) => a.tenantId === this.tenantId && a.runId === runId)
+      .sort(byAsc((a) => a.createdAt))
+      .map(clone)
+  }
+}
+
+export class InMemoryLpVariantRepository implements LpVariantStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create({ variant, version }: LpVariantChange): Promise<LpVariant> {
+    if (variant.tenantId !== this.tenantId || version.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.lpVariants.set(variant.id, clone(variant))
+    this.store.lpVariantVersions.set(`${version.variantId}:${version.version}`, clone(version))
+    return variant
+  }
+
+  async update({ variant, version }: LpVariantChange): Promise<LpVariant> {
+    if (variant.tenantId !== this.tenantId || version.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    if (this.store.lpVariants.get(variant.id)?.tenantId === this.tenantId) {
+      this.store.lpVariants.set(variant.id, clone(variant))
+      this.store.lpVariantVersions.set(`${version.variantId}:${version.version}`, clone(version))
+    }
+    return variant
+  }
+
+  async findById(id: string): Promise<LpVariant | null> {
+    const variant = this.store.lpVariants.get(id)
+    return variant && variant.tenantId === this.tenantId ? clone(variant) : null
+  }
+
+  async listByRun(runId: string): Promise<LpVariant[]> {
+    return [...this.store.lpVariants.values()]
+      .filter((v) => v.tenantId === this.tenantId && v.runId === runId)
+      .sort(byAsc((v) => v.createdAt))
+      .map(clone)
+  }
+
+  async findVersion(variantId: string, version: number): Promise<LpVariantVersion | null> {
+    const found = this.store.lpVariantVersions.get(`${variantId}:${version}`)
+    return found && found.tenantId === this.tenantId ? clone(found) : null
+  }
+
+  async listVersions(variantId: string): Promise<LpVariantVersion[]> {
+    return [...this.store.lpVariantVersions.values()]
+      .filter((v) => v.tenantId === this.tenantId && v.variantId === variantId)
+      .sort((a, b) => a.version - b.version)
+      .map(clone)
+  }
+}
+
+export class InMemoryCreativeVariantRepository implements CreativeVariantStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create({ variant, version }: CreativeVariantChange): Promise<CreativeVariant> {
+    if (variant.tenantId !== this.tenantId || version.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.creativeVariants.set(variant.id, clone(variant))
+    this.store.creativeVariantVersions.set(`${version.variantId}:${version.version}`, clone(version))
+    return variant
+  }
+
+  async update({ variant, version }: CreativeVariantChange): Promise<CreativeVariant> {
+    if (variant.tenantId !== this.tenantId || version.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    if (this.store.creativeVariants.get(variant.id)?.tenantId === this.tenantId) {
+      this.store.creativeVariants.set(variant.id, clone(variant))
+      this.store.creativeVariantVersions.set(`${version.variantId}:${version.version}`, clone(version))
+    }
+    return variant
+  }
+
+  async findById(id: string): Promise<CreativeVariant | null> {
+    const variant = this.store.creativeVariants.get(id)
+    return variant && variant.tenantId === this.tenantId ? clone(variant) : null
+  }
+
+  async listByRun(runId: string): Promise<CreativeVariant[]> {
+    return [...this.store.creativeVariants.values()]
+      .filter((v) => v.tenantId === this.tenantId && v.runId === runId)
+      .sort(byAsc((v) => v.createdAt))
+      .map(clone)
+  }
+
+  async findVersion(variantId: string, version: number): Promise<CreativeVariantVersion | null> {
+    const found = this.store.creativeVariantVersions.get(`${variantId}:${version}`)
+    return found && found.tenantId === this.tenantId ? clone(found) : null
+  }
+
+  async listVersions(variantId: string): Promise<CreativeVariantVersion[]> {
+    return [...this.store.creativeVariantVersions.values()]
+      .filter((v) => v.tenantId === this.tenantId && v.variantId === variantId)
+      .sort((a, b) => a.version - b.version)
+      .map(clone)
+  }
+}
+
+export class InMemoryCreativeImageRepository implements CreativeImageStore {
+  constructor(
+    private readonly store: InMemoryStore,
+    private readonly tenantId: string
+  ) {}
+
+  async create(image: CreativeImage): Promise<CreativeImage> {
+    if (image.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+    this.store.creativeImages.set(image.id, clone(image))
+    return image
+  }
+
+  async findById(id: string): Promise<CreativeImage | null> {
+    const image = this.store.creativeImages.get(id)
+    return image && image.tenantId === this.tenantId ? clone(image) : null
+  }
+
+  async listByRun(runId: string): Promise<CreativeImage[]> {
+    return [...this.store.creativeImages.values()]
+      .filter((i) => i.tenantId === this.tenantId && i.runId === runId)
+      .sort(byDesc((i) => i.createdAt))
+      .map(clone)
+  }
+}
+
+/**
+ * インメモリリポジトリを作成
+ */
+export function createInMemoryRepositories(store = createInMemoryStore()): Repositories {
+  return {
+    users: () => new InMemoryUserRepository(store),
+    tenants: () => new InMemoryTenantRepository(store),
+    projects: (tenantId) => new InMemoryProjectRepository(store, tenantId),
+    invitations: (tenantId) => new InMemoryInvitationRepository(store, tenantId),
+    runs: (tenantId) => new InMemoryRunRepository(store, tenantId),
+    deployments: (tenantId) => new InMemoryDeploymentRepository(store, tenantId),
+    metaConnections: (tenantId) => new InMemoryMetaConnectionRepository(store, tenantId),
+    metaEntities: (tenantId) => new InMemoryMetaEntityRepository(store, tenantId),
+    metrics: (tenantId) => new InMemoryMetricsRepository(store, tenantId),
+    memberships: (tenantId) => new InMemoryMembershipRepository(store, tenantId),
+    notifications: (tenantId) => new InMemoryNotificationRepository(store, tenantId),
+    testResults: (tenantId) => new InMemoryTestResultRepository(store, tenantId),
+    stopEvents: (tenantId) => new InMemoryStopEventRepository(store, tenantId),
+    manualStopTasks: (tenantId) => new InMemoryManualStopTaskRepository(store, tenantId),
+    auditLogs: (tenantId) => new InMemoryAuditLogRepository(store, tenantId),
+    approvals: (tenantId) => new InMemoryApprovalRepository(store, tenantId),
+    lpVariants: (tenantId) => new InMemoryLpVariantRepository(store, tenantId),
+    creativeVariants: (tenantId) => new InMemoryCreativeVariantRepository(store, tenantId),
+    creativeImages: (tenantId) => new InMemoryCreativeImageRepository(store, tenantId),
+
+    async listRunningRuns() {
+      return [...store.runs.values()].filter((r) => r.status === 'running').map(clone)
+    },
+
+    async listDueManualStopTasks(now) {
+      return [...store.manualStopTasks.values()]
+        .filter((t) => t.status === 'pending' && t.nextEscalationAt <= now.toISOString())
+        .sort(byAsc((t) => t.nextEscalationAt))
+        .map(clone)
+    },
+
+    async listAuditLogTenantIds(from, to) {
+      const logs = [...store.auditLogs.values()].filter((l) => l.createdAt >= from && l.createdAt < to)
+      return [...new Set(logs.map((l) => l.tenantId))]
+    },
+
+    async listMembershipsByUser(userId) {
+      return [...store.memberships.values()]
+        .filter((m) => m.userId === userId)
+        .sort(byAsc((m) => m.createdAt))
+        .map(clone)
+    },
+  }
+}
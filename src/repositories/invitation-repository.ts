@@ -0,0 +1,111 @@
+/**
+ * Invitation Repository
+ * invitations テーブルへの永続化（テナント単位）
+ */
+
+import type { Invitation, InvitationStatus } from '../domain/tenancy'
+
+/**
+ * 行データを招待に変換
+ */
+export function rowToInvitation(row: Record<string, unknown>): Invitation {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    email: row.email as string,
+    role: row.role as Invitation['role'],
+    invitedBy: row.invited_by as string,
+    tokenHash: row.token_hash as string,
+    status: row.status as InvitationStatus,
+    expiresAt: row.expires_at as string,
+    acceptedBy: (row.accepted_by as string | null) ?? undefined,
+    acceptedAt: (row.accepted_at as string | null) ?? undefined,
+    createdAt: row.created_at as string,
+  }
+}
+
+export class InvitationRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(invitation: Invitation): Promise<Invitation> {
+    if (invitation.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO invitations (id, tenant_id, email, role, invited_by, token_hash, status, expires_at,
+          accepted_by, accepted_at, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        invitation.id,
+        this.tenantId,
+        invitation.email,
+        invitation.role,
+        invitation.invitedBy,
+        invitation.tokenHash,
+        invitation.status,
+        invitation.expiresAt,
+        invitation.acceptedBy ?? null,
+        invitation.acceptedAt ?? null,
+        invitation.createdAt
+      )
+      .run()
+
+    return invitation
+  }
+
+  async update(invitation: Invitation): Promise<Invitation> {
+    if (invitation.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        'UPDATE invitations SET status = ?, accepted_by = ?, accepted_at = ? WHERE tenant_id = ? AND id = ?'
+      )
+      .bind(
+        invitation.status,
+        invitation.acceptedBy ?? null,
+        invitation.acceptedAt ?? null,
+        this.tenantId,
+        invitation.id
+      )
+      .run()
+
+    return invitation
+  }
+
+  async findById(id: string): Promise<Invitation | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM invitations WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToInvitation(row) : null
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<Invitation | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM invitations WHERE tenant_id = ? AND token_hash = ?')
+      .bind(this.tenantId, tokenHash)
+      .first()
+    return row ? rowToInvitation(row) : null
+  }
+
+  async list(status?: InvitationStatus): Promise<Invitation[]> {
+    const { results } = status
+      ? await this.db
+          .prepare('SELECT * FROM invitations WHERE tenant_id = ? AND status = ? ORDER BY created_at DESC')
+          .bind(this.tenantId, status)
+          .all()
+      : await this.db
+          .prepare('SELECT * FROM invitations WHERE tenant_id = ? ORDER BY created_at DESC')
+          .bind(this.tenantId)
+          .all()
+    return results.map(rowToInvitation)
+  }
+}
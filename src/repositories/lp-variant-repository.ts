@@ -0,0 +1,196 @@
+/**
+ * LP Variant Repository
+ * variants_lp / lp_variant_versions テーブルへの永続化（テナント単位）
+ */
+
+import type { LpVariant, LpVariantChange, LpVariantVersion, LpVersionStatus } from '../domain/lp-variant'
+
+/**
+ * 行データを LP バリアントに変換
+ */
+export function rowToLpVariant(row: Record<string, unknown>): LpVariant {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    runId: row.run_id as string,
+    name: row.name as string,
+    appeal: (row.appeal as string | null) ?? undefined,
+    layoutType: (row.layout_type as string | null) ?? undefined,
+    offer: (row.offer as string | null) ?? undefined,
+    version: row.version as number,
+    status: row.status as LpVersionStatus,
+    content: JSON.parse(row.content as string),
+    approvedBy: (row.approved_by as string | null) ?? undefined,
+    approvedAt: (row.approved_at as string | null) ?? undefined,
+    publishedVersion: (row.published_version as number | null) ?? undefined,
+    publishedUrl: (row.published_url as string | null) ?? undefined,
+    createdBy: (row.created_by as string | null) ?? '',
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+/**
+ * 行データを LP バリアントの版に変換
+ */
+export function rowToLpVariantVersion(row: Record<string, unknown>): LpVariantVersion {
+  return {
+    variantId: row.variant_id as string,
+    tenantId: row.tenant_id as string,
+    version: row.version as number,
+    status: row.status as LpVersionStatus,
+    content: JSON.parse(row.content as string),
+    createdBy: row.created_by as string,
+    restoredFrom: (row.restored_from as number | null) ?? undefined,
+    submittedBy: (row.submitted_by as string | null) ?? undefined,
+    submittedAt: (row.submitted_at as string | null) ?? undefined,
+    approvedBy: (row.approved_by as string | null) ?? undefined,
+    approvedAt: (row.approved_at as string | null) ?? undefined,
+    publishedAt: (row.published_at as string | null) ?? undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+export class LpVariantRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  /**
+   * 版の追加・更新ステートメント
+   */
+  private upsertVersion(version: LpVariantVersion): D1PreparedStatement {
+    return this.db
+      .prepare(
+        `INSERT INTO lp_variant_versions (variant_id, tenant_id, version, status, content, created_by, restored_from,
+          submitted_by, submitted_at, approved_by, approved_at, published_at, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (variant_id, version) DO UPDATE SET status = excluded.status, content = excluded.content,
+            submitted_by = excluded.submitted_by, submitted_at = excluded.submitted_at,
+            approved_by = excluded.approved_by, approved_at = excluded.approved_at,
+            published_at = excluded.published_at, updated_at = excluded.updated_at
+          WHERE lp_variant_versions.tenant_id = excluded.tenant_id`
+      )
+      .bind(
+        version.variantId,
+        this.tenantId,
+        version.version,
+        version.status,
+        JSON.stringify(version.content),
+        version.createdBy,
+        version.restoredFrom ?? null,
+        version.submittedBy ?? null,
+        version.submittedAt ?? null,
+        version.approvedBy ?? null,
+        version.approvedAt ?? null,
+        version.publishedAt ?? null,
+        version.createdAt,
+        version.updatedAt
+      )
+  }
+
+  async create({ variant, version }: LpVariantChange): Promise<LpVariant> {
+    if (variant.tenantId !== this.tenantId || version.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO variants_lp (id, tenant_id, run_id, name, appeal, layout_type, offer, version, content,
+            status, approved_by, approved_at, published_version, published_url, created_by, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(
+          variant.id,
+          this.tenantId,
+          variant.runId,
+          variant.name,
+          variant.appeal ?? null,
+          variant.layoutType ?? null,
+          variant.offer ?? null,
+          variant.version,
+          JSON.stringify(variant.content),
+          variant.status,
+          variant.approvedBy ?? null,
+          variant.approvedAt ?? null,
+          variant.publishedVersion ?? null,
+          variant.publishedUrl ?? null,
+          variant.createdBy,
+          variant.createdAt,
+          variant.updatedAt
+        ),
+      this.upsertVersion(version),
+    ])
+
+    return variant
+  }
+
+  async update({ variant, version }: LpVariantChange): Promise<LpVariant> {
+    if (variant.tenantId !== this.tenantId || version.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db.batch([
+      this.db
+        .prepare(
+          `UPDATE variants_lp SET name = ?, appeal = ?, layout_type = ?, offer = ?, version = ?, content = ?,
+            status = ?, approved_by = ?, approved_at = ?, published_version = ?, published_url = ?, updated_at = ?
+            WHERE tenant_id = ? AND id = ?`
+        )
+        .bind(
+          variant.name,
+          variant.appeal ?? null,
+          variant.layoutType ?? null,
+          variant.offer ?? null,
+          variant.version,
+          JSON.stringify(variant.content),
+          variant.status,
+          variant.approvedBy ?? null,
+          variant.approvedAt ?? null,
+          variant.publishedVersion ?? null,
+          variant.publishedUrl ?? null,
+          variant.updatedAt,
+          this.tenantId,
+          variant.id
+        ),
+      this.upsertVersion(version),
+    ])
+
+    return variant
+  }
+
+  async findById(id: string): Promise<LpVariant | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM variants_lp WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToLpVariant(row) : null
+  }
+
+  async listByRun(runId: string): Promise<LpVariant[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM variants_lp WHERE tenant_id = ? AND run_id = ? ORDER BY created_at')
+      .bind(this.tenantId, runId)
+      .all()
+    return results.map(rowToLpVariant)
+  }
+
+  async findVersion(variantId: string, version: number): Promise<LpVariantVersion | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM lp_variant_versions WHERE tenant_id = ? AND variant_id = ? AND version = ?')
+      .bind(this.tenantId, variantId, version)
+      .first()
+    return row ? rowToLpVariantVersion(row) : null
+  }
+
+  async listVersions(variantId: string): Promise<LpVariantVersion[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM lp_variant_versions WHERE tenant_id = ? AND variant_id = ? ORDER BY version')
+      .bind(this.tenantId, variantId)
+      .all()
+    return results.map(rowToLpVariantVersion)
+  }
+}
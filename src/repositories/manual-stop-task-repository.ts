@@ -0,0 +1,132 @@
+/**
+ * Manual Stop Task Repository
+ * manual_stop_tasks テーブルへの永続化（テナント単位）
+ */
+
+import type { ManualStopStatus, ManualStopTask } from '../domain/manual-stop'
+
+/**
+ * 行データを手動停止タスクに変換
+ */
+export function rowToManualStopTask(row: Record<string, unknown>): ManualStopTask {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    runId: row.run_id as string,
+    stopEventId: row.stop_event_id as string,
+    entities: JSON.parse(row.entities as string),
+    status: row.status as ManualStopStatus,
+    escalationLevel: row.escalation_level as number,
+    lastNotifiedAt: (row.last_notified_at as string | null) ?? undefined,
+    nextEscalationAt: row.next_escalation_at as string,
+    confirmedBy: (row.confirmed_by as string | null) ?? undefined,
+    confirmedAt: (row.confirmed_at as string | null) ?? undefined,
+    confirmationNote: (row.confirmation_note as string | null) ?? undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+/**
+ * 再通知期限を過ぎた手動停止タスクを取得（全テナント、Cron用）
+ */
+export async function listDueManualStopTasks(db: D1Database, now: Date): Promise<ManualStopTask[]> {
+  const { results } = await db
+    .prepare(
+      "SELECT * FROM manual_stop_tasks WHERE status = 'pending' AND next_escalation_at <= ? ORDER BY next_escalation_at"
+    )
+    .bind(now.toISOString())
+    .all()
+  return results.map(rowToManualStopTask)
+}
+
+export class ManualStopTaskRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(task: ManualStopTask): Promise<ManualStopTask> {
+    if (task.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO manual_stop_tasks (id, tenant_id, run_id, stop_event_id, entities, status,
+          escalation_level, last_notified_at, next_escalation_at, confirmed_by, confirmed_at,
+          confirmation_note, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        task.id,
+        this.tenantId,
+        task.runId,
+        task.stopEventId,
+        JSON.stringify(task.entities),
+        task.status,
+        task.escalationLevel,
+        task.lastNotifiedAt ?? null,
+        task.nextEscalationAt,
+        task.confirmedBy ?? null,
+        task.confirmedAt ?? null,
+        task.confirmationNote ?? null,
+        task.createdAt,
+        task.updatedAt
+      )
+      .run()
+
+    return task
+  }
+
+  async update(task: ManualStopTask): Promise<ManualStopTask> {
+    if (task.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `UPDATE manual_stop_tasks SET status = ?, escalation_level = ?, last_notified_at = ?,
+          next_escalation_at = ?, confirmed_by = ?, confirmed_at = ?, confirmation_note = ?, updated_at = ?
+          WHERE tenant_id = ? AND id = ?`
+      )
+      .bind(
+        task.status,
+        task.escalationLevel,
+        task.lastNotifiedAt ?? null,
+        task.nextEscalationAt,
+        task.confirmedBy ?? null,
+        task.confirmedAt ?? null,
+        task.confirmationNote ?? null,
+        task.updatedAt,
+        this.tenantId,
+        task.id
+      )
+      .run()
+
+    return task
+  }
+
+  async findById(id: string): Promise<ManualStopTask | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM manual_stop_tasks WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToManualStopTask(row) : null
+  }
+
+  async list(status?: ManualStopStatus, limit = 100): Promise<ManualStopTask[]> {
+    const { results } = status
+      ? await this.db
+          .prepare(
+            'SELECT * FROM manual_stop_tasks WHERE tenant_id = ? AND status = ? ORDER BY created_at DESC LIMIT ?'
+          )
+          .bind(this.tenantId, status, limit)
+          .all()
+      : await this.db
+          .prepare('SELECT * FROM manual_stop_tasks WHERE tenant_id = ? ORDER BY created_at DESC LIMIT ?')
+          .bind(this.tenantId, limit)
+          .all()
+    return results.map(rowToManualStopTask)
+  }
+}
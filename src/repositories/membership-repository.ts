@@ -0,0 +1,117 @@
+/**
+ * Membership Repository
+ * memberships テーブルへの永続化（テナント単位）
+ */
+
+import type { Membership, Role } from '../domain/tenancy'
+
+/**
+ * 行データをメンバーシップに変換
+ */
+export function rowToMembership(row: Record<string, unknown>): Membership {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    userId: row.user_id as string,
+    role: row.role as Role,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+/**
+ * ユーザーの全テナントのメンバーシップを取得（テナント横断）
+ */
+export async function listMembershipsByUser(db: D1Database, userId: string): Promise<Membership[]> {
+  const { results } = await db
+    .prepare('SELECT * FROM memberships WHERE user_id = ? ORDER BY created_at')
+    .bind(userId)
+    .all()
+  return results.map(rowToMembership)
+}
+
+export class MembershipRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(membership: Membership): Promise<Membership> {
+    if (membership.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO memberships (id, tenant_id, user_id, role, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        membership.id,
+        this.tenantId,
+        membership.userId,
+        membership.role,
+        membership.createdAt,
+        membership.updatedAt
+      )
+      .run()
+
+    return membership
+  }
+
+  async update(membership: Membership): Promise<Membership> {
+    if (membership.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare('UPDATE memberships SET role = ?, updated_at = ? WHERE tenant_id = ? AND id = ?')
+      .bind(membership.role, membership.updatedAt, this.tenantId, membership.id)
+      .run()
+
+    return membership
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db
+      .prepare('DELETE FROM memberships WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .run()
+  }
+
+  async findById(id: string): Promise<Membership | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM memberships WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToMembership(row) : null
+  }
+
+  async findByUserId(userId: string): Promise<Membership | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM memberships WHERE tenant_id = ? AND user_id = ?')
+      .bind(this.tenantId, userId)
+      .first()
+    return row ? rowToMembership(row) : null
+  }
+
+  async list(): Promise<Membership[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM memberships WHERE tenant_id = ? ORDER BY created_at')
+      .bind(this.tenantId)
+      .all()
+    return results.map(rowToMembership)
+  }
+
+  async listUserIdsByRoles(roles: Role[]): Promise<string[]> {
+    if (roles.length === 0) return []
+
+    const { results } = await this.db
+      .prepare(
+        `SELECT user_id FROM memberships WHERE tenant_id = ? AND role IN (${roles.map(() => '?').join(', ')})`
+      )
+      .bind(this.tenantId, ...roles)
+      .all<{ user_id: string }>()
+    return results.map((row) => row.user_id)
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Meta Connection Repository
+ * meta_connections テーブルへの永続化（テナント単位）
+ */
+
+import type { MetaConnection } from '../domain/meta-api'
+
+/**
+ * 行データをMeta接続情報に変換
+ */
+export function rowToMetaConnection(row: Record<string, unknown>): MetaConnection {
+  const token = JSON.parse(row.token as string)
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    adAccountId: row.ad_account_id as string,
+    businessId: (row.business_id as string | null) ?? undefined,
+    token: { ...token, expiresAt: new Date(token.expiresAt) },
+    status: row.status as MetaConnection['status'],
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+export class MetaConnectionRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async save(connection: MetaConnection): Promise<MetaConnection> {
+    if (connection.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO meta_connections (id, tenant_id, ad_account_id, business_id, token, status, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (id) DO UPDATE SET token = excluded.token, status = excluded.status,
+            updated_at = excluded.updated_at
+          WHERE meta_connections.tenant_id = excluded.tenant_id`
+      )
+      .bind(
+        connection.id,
+        this.tenantId,
+        connection.adAccountId,
+        connection.businessId ?? null,
+        JSON.stringify(connection.token),
+        connection.status,
+        connection.createdAt,
+        connection.updatedAt
+      )
+      .run()
+
+    return connection
+  }
+
+  async findActive(): Promise<MetaConnection | null> {
+    const row = await this.db
+      .prepare(
+        "SELECT * FROM meta_connections WHERE tenant_id = ? AND status = 'active' ORDER BY updated_at DESC LIMIT 1"
+      )
+      .bind(this.tenantId)
+      .first()
+    return row ? rowToMetaConnection(row) : null
+  }
+}
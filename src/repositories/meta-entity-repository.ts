@@ -0,0 +1,101 @@
+/**
+ * Meta Entity Repository
+ * meta_entities テーブルへの永続化（テナント単位）
+ */
+
+import type { MetaAd, MetaAdSet, MetaCampaign, MetaEntityStatus } from '../domain/meta-api'
+
+// Metaエンティティ種別
+export type MetaEntityType = 'campaign' | 'adset' | 'ad'
+
+// Run配下のMetaエンティティ
+export interface RunMetaEntities {
+  campaigns: MetaCampaign[]
+  adSets: MetaAdSet[]
+  ads: MetaAd[]
+}
+
+export class MetaEntityRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async saveCampaign(campaign: MetaCampaign): Promise<MetaCampaign> {
+    await this.upsert(campaign.runId, 'campaign', campaign, null)
+    return campaign
+  }
+
+  async saveAdSet(runId: string, adSet: MetaAdSet): Promise<MetaAdSet> {
+    await this.upsert(runId, 'adset', adSet, adSet.campaignId)
+    return adSet
+  }
+
+  async saveAd(runId: string, ad: MetaAd): Promise<MetaAd> {
+    await this.upsert(runId, 'ad', ad, ad.adSetId)
+    return ad
+  }
+
+  async listByRun(runId: string): Promise<RunMetaEntities> {
+    const { results } = await this.db
+      .prepare(
+        'SELECT entity_type, payload FROM meta_entities WHERE tenant_id = ? AND run_id = ? ORDER BY created_at'
+      )
+      .bind(this.tenantId, runId)
+      .all<{ entity_type: MetaEntityType; payload: string }>()
+
+    const ofType = <T>(type: MetaEntityType): T[] =>
+      results.filter((row) => row.entity_type === type).map((row) => JSON.parse(row.payload) as T)
+
+    return {
+      campaigns: ofType<MetaCampaign>('campaign'),
+      adSets: ofType<MetaAdSet>('adset'),
+      ads: ofType<MetaAd>('ad'),
+    }
+  }
+
+  async updateStatus(entityId: string, status: MetaEntityStatus): Promise<void> {
+    await this.db
+      .prepare(
+        `UPDATE meta_entities SET status = ?, payload = json_set(payload, '$.status', ?), updated_at = ?
+          WHERE tenant_id = ? AND id = ?`
+      )
+      .bind(status, status, new Date().toISOString(), this.tenantId, entityId)
+      .run()
+  }
+
+  private async upsert(
+    runId: string,
+    entityType: MetaEntityType,
+    entity: MetaCampaign | MetaAdSet | MetaAd,
+    parentId: string | null
+  ): Promise<void> {
+    const now = new Date().toISOString()
+
+    await this.db
+      .prepare(
+        `INSERT INTO meta_entities (id, tenant_id, run_id, entity_type, parent_id, meta_id, name, status,
+          payload, synced_at, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT (id) DO UPDATE SET meta_id = excluded.meta_id, name = excluded.name,
+            status = excluded.status, payload = excluded.payload, synced_at = excluded.synced_at,
+            updated_at = excluded.updated_at
+          WHERE meta_entities.tenant_id = excluded.tenant_id`
+      )
+      .bind(
+        entity.id,
+        this.tenantId,
+        runId,
+        entityType,
+        parentId,
+        entity.metaId ?? null,
+        entity.name,
+        entity.status,
+        JSON.stringify(entity),
+        entity.syncedAt ?? null,
+        now,
+        now
+      )
+      .run()
+  }
+}
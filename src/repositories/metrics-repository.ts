@@ -0,0 +1,140 @@
+/**
+ * Metrics Repository
+ * metrics_hourly / metrics_daily テーブルへの永続化（テナント単位）
+ */
+
+import type { DailyMetrics, HourlyMetrics } from '../domain/measurement'
+
+/**
+ * 行データを時間単位メトリクスに変換
+ */
+export function rowToHourlyMetrics(row: Record<string, unknown>): HourlyMetrics {
+  return {
+    runId: row.run_id as string,
+    variantId: row.variant_id as string,
+    hour: row.hour as string,
+    impressions: row.impressions as number,
+    clicks: row.clicks as number,
+    spend: row.spend as number,
+    conversions: row.conversions as number,
+    revenue: row.revenue as number,
+  }
+}
+
+/**
+ * 行データを日単位メトリクスに変換
+ */
+export function rowToDailyMetrics(row: Record<string, unknown>): DailyMetrics {
+  return {
+    runId: row.run_id as string,
+    variantId: row.variant_id as string,
+    date: row.date as string,
+    impressions: row.impressions as number,
+    reach: row.reach as number,
+    clicks: row.clicks as number,
+    spend: row.spend as number,
+    conversions: row.conversions as number,
+    revenue: row.revenue as number,
+    cpc: row.cpc as number,
+    cpm: row.cpm as number,
+    ctr: row.ctr as number,
+    cvr: row.cvr as number,
+    cpa: row.cpa as number,
+    roas: row.roas as number,
+  }
+}
+
+export class MetricsRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async upsertHourly(metrics: HourlyMetrics[]): Promise<void> {
+    if (metrics.length === 0) return
+
+    const statement = this.db.prepare(
+      `INSERT INTO metrics_hourly (tenant_id, run_id, variant_id, hour, impressions, clicks, spend, conversions, revenue)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (run_id, variant_id, hour) DO UPDATE SET impressions = excluded.impressions,
+          clicks = excluded.clicks, spend = excluded.spend, conversions = excluded.conversions,
+          revenue = excluded.revenue
+        WHERE metrics_hourly.tenant_id = excluded.tenant_id`
+    )
+
+    await this.db.batch(
+      metrics.map((m) =>
+        statement.bind(
+          this.tenantId,
+          m.runId,
+          m.variantId,
+          m.hour,
+          m.impressions,
+          m.clicks,
+          m.spend,
+          m.conversions,
+          m.revenue
+        )
+      )
+    )
+  }
+
+  async upsertDaily(metrics: DailyMetrics[]): Promise<void> {
+    if (metrics.length === 0) return
+
+    const statement = this.db.prepare(
+      `INSERT INTO metrics_daily (tenant_id, run_id, variant_id, date, impressions, reach, clicks, spend,
+        conversions, revenue, cpc, cpm, ctr, cvr, cpa, roas)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (run_id, variant_id, date) DO UPDATE SET impressions = excluded.impressions,
+          reach = excluded.reach, clicks = excluded.clicks, spend = excluded.spend,
+          conversions = excluded.conversions, revenue = excluded.revenue, cpc = excluded.cpc,
+          cpm = excluded.cpm, ctr = excluded.ctr, cvr = excluded.cvr, cpa = excluded.cpa,
+          roas = excluded.roas
+        WHERE metrics_daily.tenant_id = excluded.tenant_id`
+    )
+
+    await this.db.batch(
+      metrics.map((m) =>
+        statement.bind(
+          this.tenantId,
+          m.runId,
+          m.variantId,
+          m.date,
+          m.impressions,
+          m.reach,
+          m.clicks,
+          m.spend,
+          m.conversions,
+          m.revenue,
+          m.cpc,
+          m.cpm,
+          m.ctr,
+          m.cvr,
+          m.cpa,
+          m.roas
+        )
+      )
+    )
+  }
+
+  async listHourly(runId: string, since?: string): Promise<HourlyMetrics[]> {
+    const { results } = await this.db
+      .prepare(
+        'SELECT * FROM metrics_hourly WHERE tenant_id = ? AND run_id = ? AND hour >= ? ORDER BY hour'
+      )
+      .bind(this.tenantId, runId, since ?? '')
+      .all()
+    return results.map(rowToHourlyMetrics)
+  }
+
+  async listDaily(runId: string, from?: string, to?: string): Promise<DailyMetrics[]> {
+    const { results } = await this.db
+      .prepare(
+        'SELECT * FROM metrics_daily WHERE tenant_id = ? AND run_id = ? AND date >= ? AND date <= ? ORDER BY date'
+      )
+      .bind(this.tenantId, runId, from ?? '', to ?? '9999-12-31')
+      .all()
+    return results.map(rowToDailyMetrics)
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Notification Repository
+ * notifications テーブルへの永続化（テナント単位）
+ */
+
+import type { Notification, NotificationStatus } from '../domain/notification'
+
+/**
+ * 行データを通知に変換
+ */
+export function rowToNotification(row: Record<string, unknown>): Notification {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    type: row.type as Notification['type'],
+    priority: row.priority as Notification['priority'],
+    channel: row.channel as Notification['channel'],
+    recipients: JSON.parse(row.recipients as string),
+    subject: row.subject as string,
+    message: row.message as string,
+    data: JSON.parse(row.data as string),
+    status: row.status as NotificationStatus,
+    sentAt: (row.sent_at as string | null) ?? undefined,
+    readAt: (row.read_at as string | null) ?? undefined,
+    error: (row.error as string | null) ?? undefined,
+    createdAt: row.created_at as string,
+  }
+}
+
+export class NotificationRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(notification: Notification): Promise<Notification> {
+    if (notification.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO notifications (id, tenant_id, type, priority, channel, recipients, subject, message,
+          data, status, sent_at, read_at, error, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        notification.id,
+        this.tenantId,
+        notification.type,
+        notification.priority,
+        notification.channel,
+        JSON.stringify(notification.recipients),
+        notification.subject,
+        notification.message,
+        JSON.stringify(notification.data ?? {}),
+        notification.status,
+        notification.sentAt ?? null,
+        notification.readAt ?? null,
+        notification.error ?? null,
+        notification.createdAt
+      )
+      .run()
+
+    return notification
+  }
+
+  async update(notification: Notification): Promise<Notification> {
+    if (notification.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        'UPDATE notifications SET status = ?, sent_at = ?, read_at = ?, error = ? WHERE tenant_id = ? AND id = ?'
+      )
+      .bind(
+        notification.status,
+        notification.sentAt ?? null,
+        notification.readAt ?? null,
+        notification.error ?? null,
+        this.tenantId,
+        notification.id
+      )
+      .run()
+
+    return notification
+  }
+
+  async findById(id: string): Promise<Notification | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM notifications WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToNotification(row) : null
+  }
+
+  async list(status?: NotificationStatus, limit = 100): Promise<Notification[]> {
+    const { results } = status
+      ? await this.db
+          .prepare(
+            'SELECT * FROM notifications WHERE tenant_id = ? AND status = ? ORDER BY created_at DESC LIMIT ?'
+          )
+          .bind(this.tenantId, status, limit)
+          .all()
+      : await this.db
+          .prepare('SELECT * FROM notifications WHERE tenant_id = ? ORDER BY created_at DESC LIMIT ?')
+          .bind(this.tenantId, limit)
+          .all()
+    return results.map(rowToNotification)
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Project Repository
+ * projects テーブルへの永続化（テナント単位）
+ */
+
+import type { Project } from '../domain/tenancy'
+
+/**
+ * 行データをプロジェクトに変換
+ */
+export function rowToProject(row: Record<string, unknown>): Project {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    name: row.name as string,
+    description: (row.description as string | null) ?? undefined,
+    conversionDefinitions: JSON.parse(row.conversion_definitions as string),
+    disclaimerTemplates: JSON.parse(row.disclaimer_templates as string),
+    bannedExpressions: JSON.parse(row.banned_expressions as string),
+    brandSettings: JSON.parse(row.brand_settings as string),
+    createdBy: row.created_by as string,
+    archivedAt: (row.archived_at as string | null) ?? undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+export class ProjectRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(project: Project): Promise<Project> {
+    if (project.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO projects (id, tenant_id, name, description, conversion_definitions, disclaimer_templates,
+          banned_expressions, brand_settings, created_by, archived_at, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        project.id,
+        this.tenantId,
+        project.name,
+        project.description ?? null,
+        JSON.stringify(project.conversionDefinitions),
+        JSON.stringify(project.disclaimerTemplates),
+        JSON.stringify(project.bannedExpressions),
+        JSON.stringify(project.brandSettings),
+        project.createdBy,
+        project.archivedAt ?? null,
+        project.createdAt,
+        project.updatedAt
+      )
+      .run()
+
+    return project
+  }
+
+  async update(project: Project): Promise<Project> {
+    if (project.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `UPDATE projects SET name = ?, description = ?, conversion_definitions = ?, disclaimer_templates = ?,
+          banned_expressions = ?, brand_settings = ?, archived_at = ?, updated_at = ?
+          WHERE tenant_id = ? AND id = ?`
+      )
+      .bind(
+        project.name,
+        project.description ?? null,
+        JSON.stringify(project.conversionDefinitions),
+        JSON.stringify(project.disclaimerTemplates),
+        JSON.stringify(project.bannedExpressions),
+        JSON.stringify(project.brandSettings),
+        project.archivedAt ?? null,
+        project.updatedAt,
+        this.tenantId,
+        project.id
+      )
+      .run()
+
+    return project
+  }
+
+  async findById(id: string): Promise<Project | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM projects WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToProject(row) : null
+  }
+
+  async list(includeArchived = false): Promise<Project[]> {
+    const { results } = await this.db
+      .prepare(
+        `SELECT * FROM projects WHERE tenant_id = ? ${includeArchived ? '' : 'AND archived_at IS NULL'}
+          ORDER BY created_at DESC`
+      )
+      .bind(this.tenantId)
+      .all()
+    return results.map(rowToProject)
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Run Repository
+ * runs テーブルへの永続化（テナント単位）
+ */
+
+import type { Run, RunStatus } from '../domain/run'
+
+/**
+ * 行データをRunに変換
+ */
+export function rowToRun(row: Record<string, unknown>): Run {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    projectId: row.project_id as string,
+    name: row.name as string,
+    description: (row.description as string | null) ?? undefined,
+    status: row.status as RunStatus,
+    stopRules: JSON.parse(row.stop_rules as string),
+    destinationUrl: (row.destination_url as string | null) ?? undefined,
+    pixels: row.pixels ? JSON.parse(row.pixels as string) : undefined,
+    createdBy: row.created_by as string,
+    approvedBy: (row.approved_by as string | null) ?? undefined,
+    approvedAt: (row.approved_at as string | null) ?? undefined,
+    startedAt: (row.started_at as string | null) ?? undefined,
+    completedAt: (row.completed_at as string | null) ?? undefined,
+    archivedAt: (row.archived_at as string | null) ?? undefined,
+    history: JSON.parse(row.history as string),
+    metadata: JSON.parse(row.metadata as string),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+/**
+ * 配信中のRunを取得（全テナント、Cron用）
+ */
+export async function listRunningRuns(db: D1Database): Promise<Run[]> {
+  const { results } = await db.prepare("SELECT * FROM runs WHERE status = 'running'").all()
+  return results.map(rowToRun)
+}
+
+export class RunRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(run: Run): Promise<Run> {
+    if (run.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO runs (id, tenant_id, project_id, name, description, status, stop_rules, destination_url,
+          pixels, created_by, approved_by, approved_at, started_at, completed_at, archived_at, history, metadata,
+          created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        run.id,
+        this.tenantId,
+        run.projectId,
+        run.name,
+        run.description ?? null,
+        run.status,
+        JSON.stringify(run.stopRules),
+        run.destinationUrl ?? null,
+        JSON.stringify(run.pixels ?? []),
+        run.createdBy,
+        run.approvedBy ?? null,
+        run.approvedAt ?? null,
+        run.startedAt ?? null,
+        run.completedAt ?? null,
+        run.archivedAt ?? null,
+        JSON.stringify(run.history),
+        JSON.stringify(run.metadata),
+        run.createdAt,
+        run.updatedAt
+      )
+      .run()
+
+    return run
+  }
+
+  async update(run: Run): Promise<Run> {
+    if (run.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `UPDATE runs SET name = ?, description = ?, status = ?, stop_rules = ?, destination_url = ?, pixels = ?,
+          approved_by = ?, approved_at = ?, started_at = ?, completed_at = ?, archived_at = ?, history = ?,
+          metadata = ?, updated_at = ? WHERE tenant_id = ? AND id = ?`
+      )
+      .bind(
+        run.name,
+        run.description ?? null,
+        run.status,
+        JSON.stringify(run.stopRules),
+        run.destinationUrl ?? null,
+        JSON.stringify(run.pixels ?? []),
+        run.approvedBy ?? null,
+        run.approvedAt ?? null,
+        run.startedAt ?? null,
+        run.completedAt ?? null,
+        run.archivedAt ?? null,
+        JSON.stringify(run.history),
+        JSON.stringify(run.metadata),
+        run.updatedAt,
+        this.tenantId,
+        run.id
+      )
+      .run()
+
+    return run
+  }
+
+  async findById(id: string): Promise<Run | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM runs WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToRun(row) : null
+  }
+
+  async listByProject(projectId: string, limit = 100): Promise<Run[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM runs WHERE tenant_id = ? AND project_id = ? ORDER BY created_at DESC LIMIT ?')
+      .bind(this.tenantId, projectId, limit)
+      .all()
+    return results.map(rowToRun)
+  }
+
+  async list(status?: RunStatus, limit = 100): Promise<Run[]> {
+    const { results } = status
+      ? await this.db
+          .prepare('SELECT * FROM runs WHERE tenant_id = ? AND status = ? ORDER BY created_at DESC LIMIT ?')
+          .bind(this.tenantId, status, limit)
+          .all()
+      : await this.db
+          .prepare('SELECT * FROM runs WHERE tenant_id = ? ORDER BY created_at DESC LIMIT ?')
+          .bind(this.tenantId, limit)
+          .all()
+    return results.map(rowToRun)
+  }
+}
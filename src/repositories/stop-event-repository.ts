@@ -0,0 +1,90 @@
+/**
+ * Stop Event Repository
+ * stop_events テーブルへの永続化（テナント単位）
+ */
+
+import type { StopEvent } from '../domain/stop-event'
+
+/**
+ * 行データを停止イベントに変換
+ */
+export function rowToStopEvent(row: Record<string, unknown>): StopEvent {
+  return {
+    id: row.id as string,
+    tenantId: row.tenant_id as string,
+    runId: row.run_id as string,
+    source: row.source as StopEvent['source'],
+    reason: row.reason as StopEvent['reason'],
+    ruleId: (row.rule_id as string | null) ?? undefined,
+    ruleType: (row.rule_type as StopEvent['ruleType'] | null) ?? undefined,
+    threshold: (row.threshold as number | null) ?? undefined,
+    observedValue: (row.observed_value as number | null) ?? undefined,
+    condition: row.condition as string,
+    ambiguities: JSON.parse(row.ambiguities as string),
+    affectedEntities: JSON.parse(row.affected_entities as string),
+    pauseResult: row.pause_result as StopEvent['pauseResult'],
+    runStatusBefore: row.run_status_before as StopEvent['runStatusBefore'],
+    runStatusAfter: (row.run_status_after as StopEvent['runStatusAfter'] | null) ?? undefined,
+    occurredAt: row.occurred_at as string,
+  }
+}
+
+export class StopEventRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(event: StopEvent): Promise<StopEvent> {
+    if (event.tenantId !== this.tenantId) {
+      throw new Error('Tenant mismatch')
+    }
+
+    await this.db
+      .prepare(
+        `INSERT INTO stop_events (id, tenant_id, run_id, source, reason, rule_id, rule_type, threshold,
+          observed_value, condition, ambiguities, affected_entities, pause_result, run_status_before,
+          run_status_after, occurred_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        event.id,
+        this.tenantId,
+        event.runId,
+        event.source,
+        event.reason,
+        event.ruleId ?? null,
+        event.ruleType ?? null,
+        event.threshold ?? null,
+        event.observedValue ?? null,
+        event.condition,
+        JSON.stringify(event.ambiguities),
+        JSON.stringify(event.affectedEntities),
+        event.pauseResult,
+        event.runStatusBefore,
+        event.runStatusAfter ?? null,
+        event.occurredAt
+      )
+      .run()
+
+    return event
+  }
+
+  async findById(id: string): Promise<StopEvent | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM stop_events WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToStopEvent(row) : null
+  }
+
+  async listByRun(runId: string, limit = 100): Promise<StopEvent[]> {
+    const { results } = await this.db
+      .prepare(
+        'SELECT * FROM stop_events WHERE tenant_id = ? AND run_id = ? ORDER BY occurred_at DESC LIMIT ?'
+      )
+      .bind(this.tenantId, runId, limit)
+      .all()
+    return results.map(rowToStopEvent)
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Tenant Repository
+ * tenants テーブルへの永続化
+ */
+
+import type { Tenant } from '../domain/tenancy'
+
+/**
+ * 行データをテナントに変換
+ */
+export function rowToTenant(row: Record<string, unknown>): Tenant {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    slug: row.slug as string,
+    plan: row.plan as Tenant['plan'],
+    settings: JSON.parse(row.settings as string),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+export class TenantRepository {
+  constructor(private readonly db: D1Database) {}
+
+  async create(tenant: Tenant): Promise<Tenant> {
+    await this.db
+      .prepare(
+        `INSERT INTO tenants (id, name, slug, plan, settings, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        tenant.id,
+        tenant.name,
+        tenant.slug,
+        tenant.plan,
+        JSON.stringify(tenant.settings),
+        tenant.createdAt,
+        tenant.updatedAt
+      )
+      .run()
+
+    return tenant
+  }
+
+  async update(tenant: Tenant): Promise<Tenant> {
+    await this.db
+      .prepare('UPDATE tenants SET name = ?, plan = ?, settings = ?, updated_at = ? WHERE id = ?')
+      .bind(tenant.name, tenant.plan, JSON.stringify(tenant.settings), tenant.updatedAt, tenant.id)
+      .run()
+
+    return tenant
+  }
+
+  async findById(id: string): Promise<Tenant | null> {
+    const row = await this.db.prepare('SELECT * FROM tenants WHERE id = ?').bind(id).first()
+    return row ? rowToTenant(row) : null
+  }
+
+  async findBySlug(slug: string): Promise<Tenant | null> {
+    const row = await this.db.prepare('SELECT * FROM tenants WHERE slug = ?').bind(slug).first()
+    return row ? rowToTenant(row) : null
+  }
+}
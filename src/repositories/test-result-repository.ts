@@ -0,0 +1,94 @@
+/**
+ * Test Result Repository
+ * test_results テーブルへの永続化（テナント単位）
+ */
+
+import type { TestResult } from '../domain/winner-learning'
+
+/**
+ * 行データをテスト結果に変換
+ */
+export function rowToTestResult(row: Record<string, unknown>): TestResult {
+  return {
+    id: row.id as string,
+    runId: row.run_id as string,
+    testType: row.test_type as TestResult['testType'],
+    startDate: row.start_date as string,
+    endDate: row.end_date as string,
+    primaryMetric: row.primary_metric as TestResult['primaryMetric'],
+    variants: JSON.parse(row.variants as string),
+    winner: JSON.parse(row.winner as string),
+    confidence: row.confidence as number,
+    sampleSize: row.sample_size as number,
+    learnings: JSON.parse(row.learnings as string),
+    createdAt: row.created_at as string,
+  }
+}
+
+export class TestResultRepository {
+  constructor(
+    private readonly db: D1Database,
+    private readonly tenantId: string
+  ) {}
+
+  async create(result: TestResult): Promise<TestResult> {
+    // 他テナントのRunには保存しない
+    const { meta } = await this.db
+      .prepare(
+        `INSERT INTO test_results (id, tenant_id, run_id, test_type, start_date, end_date, primary_metric,
+          variants, winner, confidence, sample_size, learnings, created_at)
+          SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+          WHERE EXISTS (SELECT 1 FROM runs WHERE tenant_id = ? AND id = ?)`
+      )
+      .bind(
+        result.id,
+        this.tenantId,
+        result.runId,
+        result.testType,
+        result.startDate,
+        result.endDate,
+        result.primaryMetric,
+        JSON.stringify(result.variants),
+        JSON.stringify(result.winner),
+        result.confidence,
+        result.sampleSize,
+        JSON.stringify(result.learnings),
+        result.createdAt,
+        this.tenantId,
+        result.runId
+      )
+      .run()
+
+    if (meta.changes === 0) {
+      throw new Error('Run not found')
+    }
+
+    return result
+  }
+
+  async findById(id: string): Promise<TestResult | null> {
+    const row = await this.db
+      .prepare('SELECT * FROM test_results WHERE tenant_id = ? AND id = ?')
+      .bind(this.tenantId, id)
+      .first()
+    return row ? rowToTestResult(row) : null
+  }
+
+  async listByRun(runId: string): Promise<TestResult[]> {
+    const { results } = await this.db
+      .prepare('SELECT * FROM test_results WHERE tenant_id = ? AND run_id = ? ORDER BY created_at DESC')
+      .bind(this.tenantId, runId)
+      .all()
+    return results.map(rowToTestResult)
+  }
+
+  async findLatestByRun(runId: string): Promise<TestResult | null> {
+    const row = await this.db
+      .prepare(
+        'SELECT * FROM test_results WHERE tenant_id = ? AND run_id = ? ORDER BY created_at DESC LIMIT 1'
+      )
+      .bind(this.tenantId, runId)
+      .first()
+    return row ? rowToTestResult(row) : null
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Repository Interfaces
+ * D1/インメモリ実装で共通のリポジトリ型
+ */
+
+import type { ManualStopTask } from '../domain/manual-stop'
+import type { Membership } from '../domain/tenancy'
+import type { ApprovalRepository } from './approval-repository'
+import type { AuditLogRepository } from './audit-log-repository'
+import type { Run } from '../domain/run'
+import type { CreativeImageRepository } from './creative-image-repository'
+import type { CreativeVariantRepository } from './creative-variant-repository'
+import type { DeploymentRepository } from './deployment-repository'
+import type { InvitationRepository } from './invitation-repository'
+import type { LpVariantRepository } from './lp-variant-repository'
+import type { ManualStopTaskRepository } from './manual-stop-task-repository'
+import type { MembershipRepository } from './membership-repository'
+import type { MetaConnectionRepository } from './meta-connection-repository'
+import type { MetaEntityRepository } from './meta-entity-repository'
+import type { MetricsRepository } from './metrics-repository'
+import type { NotificationRepository } from './notification-repository'
+import type { ProjectRepository } from './project-repository'
+import type { RunRepository } from './run-repository'
+import type { StopEventRepository } from './stop-event-repository'
+import type { TenantRepository } from './tenant-repository'
+import type { TestResultRepository } from './test-result-repository'
+import type { UserRepository } from './user-repository'
+
+// クラスの公開メソッドのみを取り出す
+type PublicOf<T> = Pick<T, keyof T>
+
+export type UserStore = PublicOf<UserRepository>
+export type TenantStore = PublicOf<TenantRepository>
+export type ProjectStore = PublicOf<ProjectRepository>
+export type InvitationStore = PublicOf<InvitationRepository>
+export type RunStore = PublicOf<RunRepository>
+export type DeploymentStore = PublicOf<DeploymentRepository>
+export type MetaConnectionStore = PublicOf<MetaConnectionRepository>
+export type MetaEntityStore = PublicOf<MetaEntityRepository>
+export type MetricsStore = PublicOf<MetricsRepository>
+export type MembershipStore = PublicOf<MembershipRepository>
+export type NotificationStore = PublicOf<NotificationRepository>
+export type TestResultStore = PublicOf<TestResultRepository>
+export type StopEventStore = PublicOf<StopEventRepository>
+export type ManualStopTaskStore = PublicOf<ManualStopTaskRepository>
+export type AuditLogStore = PublicOf<AuditLogRepository>
+export type ApprovalStore = PublicOf<ApprovalRepository>
+export type LpVariantStore = PublicOf<LpVariantRepository>
+export type CreativeVariantStore = PublicOf<CreativeVariantRepository>
+export type CreativeImageStore = PublicOf<CreativeImageRepository>
+
+// テナント単位のリポジトリとシステム横断クエリ
+export interface Repositories {
+  users(): UserStore
+  tenants(): TenantStore
+  projects(tenantId: string): ProjectStore
+  invitations(tenantId: string): InvitationStore
+  runs(tenantId: string): RunStore
+  deployments(tenantId: string): DeploymentStore
+  metaConnections(tenantId: string): MetaConnectionStore
+  metaEntities(tenantId: string): MetaEntityStore
+  metrics(tenantId: string): MetricsStore
+  memberships(tenantId: string): MembershipStore
+  notifications(tenantId: string): NotificationStore
+  testResults(tenantId: string): TestResultStore
+  stopEvents(tenantId: string): StopEventStore
+  manualStopTasks(tenantId: string): ManualStopTaskStore
+  auditLogs(tenantId: string): AuditLogStore
+  approvals(tenantId: string): ApprovalStore
+  lpVariants(tenantId: string): LpVariantStore
+  creativeVariants(tenantId: string): CreativeVariantStore
+  creativeImages(tenantId: string): CreativeImageStore
+  listRunningRuns(): Promise<Run[]>
+  listDueManualStopTasks(now: Date): Promise<ManualStopTask[]>
+  listAuditLogTenantIds(from: string, to: string): Promise<string[]>
+  listMembershipsByUser(userId: string): Promise<Membership[]>
+}
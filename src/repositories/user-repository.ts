@@ -0,0 +1,76 @@
+/**
+ * User Repository
+ * users テーブルへの永続化
+ */
+
+import type { User } from '../domain/auth'
+
+/**
+ * 行データをユーザーに変換
+ */
+export function rowToUser(row: Record<string, unknown>): User {
+  return {
+    id: row.id as string,
+    email: row.email as string,
+    name: (row.name as string | null) ?? undefined,
+    mfaSecret: (row.mfa_secret as string | null) ?? undefined,
+    mfaEnabledAt: (row.mfa_enabled_at as string | null) ?? undefined,
+    mfaLastUsedStep: (row.mfa_last_used_step as number | null) ?? undefined,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  }
+}
+
+export class UserRepository {
+  constructor(private readonly db: D1Database) {}
+
+  async create(user: User): Promise<User> {
+    await this.db
+      .prepare(
+        `INSERT INTO users (id, email, name, mfa_secret, mfa_enabled_at, mfa_last_used_step, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        user.id,
+        user.email,
+        user.name ?? null,
+        user.mfaSecret ?? null,
+        user.mfaEnabledAt ?? null,
+        user.mfaLastUsedStep ?? null,
+        user.createdAt,
+        user.updatedAt
+      )
+      .run()
+
+    return user
+  }
+
+  async update(user: User): Promise<User> {
+    await this.db
+      .prepare(
+        `UPDATE users SET name = ?, mfa_secret = ?, mfa_enabled_at = ?, mfa_last_used_step = ?, updated_at = ?
+          WHERE id = ?`
+      )
+      .bind(
+        user.name ?? null,
+        user.mfaSecret ?? null,
+        user.mfaEnabledAt ?? null,
+        user.mfaLastUsedStep ?? null,
+        user.updatedAt,
+        user.id
+      )
+      .run()
+
+    return user
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const row = await this.db.prepare('SELECT * FROM users WHERE id = ?').bind(id).first()
+    return row ? rowToUser(row) : null
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const row = await this.db.prepare('SELECT * FROM users WHERE email = ?').bind(email).first()
+    return row ? rowToUser(row) : null
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Approvals API
+ * 配信前承認（/tenants/:tenantId/runs/:runId/approvals）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import { APPROVAL_TARGETS, type ApprovalTargetType } from '../domain/approval'
+import { requirePermission } from '../middleware/rbac'
+import {
+  commentOnApproval,
+  evaluateApprovalGate,
+  requestApproval,
+  resubmitTenantApproval,
+  signOffTenantApproval,
+  updateApprovalChecklist,
+} from '../services/approval'
+
+const approvals = new Hono<AppEnv>()
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/approvals
+ * Run の承認一覧と承認ゲートの状態
+ */
+approvals.get('/', requirePermission('approval:read'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const runId = c.req.param('runId')!
+
+  const list = await c.var.repositories.approvals(tenantId).listByRun(runId)
+  const gate = await evaluateApprovalGate(c.var.repositories, tenantId, runId)
+  return c.json({ approvals: list, gate })
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/approvals
+ * 承認を依頼（呼び出し元を依頼者とする）
+ */
+approvals.post('/', requirePermission('approval:request'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const runId = c.req.param('runId')!
+  const body = await c.req.json<{ targetType: ApprovalTargetType; targetId?: string }>().catch(() => null)
+  if (!body || !APPROVAL_TARGETS.includes(body.targetType)) {
+    return c.json({ error: 'Invalid approval target' }, 400)
+  }
+
+  try {
+    const approval = await requestApproval(c.var.repositories, {
+      tenantId,
+      runId,
+      targetType: body.targetType,
+      targetId: body.targetId,
+      requestedBy: c.var.userId!,
+    })
+    return c.json({ approval }, 201)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 404)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/approvals/:approvalId
+ * 承認を取得
+ */
+approvals.get('/:approvalId', requirePermission('approval:read'), async (c) => {
+  const approval = await c.var.repositories.approvals(c.req.param('tenantId')!).findById(c.req.param('approvalId'))
+  if (!approval || approval.runId !== c.req.param('runId')) {
+    return c.json({ error: 'Approval not found' }, 404)
+  }
+  return c.json({ approval })
+})
+
+/**
+ * PATCH /tenants/:tenantId/runs/:runId/approvals/:approvalId/checklist/:itemId
+ * チェックリスト項目を更新
+ */
+approvals.patch('/:approvalId/checklist/:itemId', requirePermission('approval:review'), async (c) => {
+  const body = await c.req.json<{ checked: boolean }>().catch(() => null)
+  if (typeof body?.checked !== 'boolean') {
+    return c.json({ error: 'checked is required' }, 400)
+  }
+
+  try {
+    const approval = await updateApprovalChecklist(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('approvalId'),
+      c.req.param('itemId'),
+      body.checked,
+      c.var.userId!
+    )
+    if (!approval) {
+      return c.json({ error: 'Approval not found' }, 404)
+    }
+    return c.json({ approval })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/approvals/:approvalId/comments
+ * コメントを追加
+ */
+approvals.post('/:approvalId/comments', requirePermission('approval:comment'), async (c) => {
+  const body = await c.req.json<{ body: string }>().catch(() => null)
+  if (!body?.body?.trim()) {
+    return c.json({ error: 'Comment is required' }, 400)
+  }
+
+  const approval = await commentOnApproval(
+    c.var.repositories,
+    c.req.param('tenantId')!,
+    c.req.param('runId')!,
+    c.req.param('approvalId'),
+    body.body,
+    c.var.userId!
+  )
+  if (!approval) {
+    return c.json({ error: 'Approval not found' }, 404)
+  }
+  return c.json({ approval }, 201)
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/approvals/:approvalId/approve
+ * 承認（チェックリスト完了が必須）
+ */
+approvals.post('/:approvalId/approve', requirePermission('approval:review'), async (c) => {
+  const body = await c.req.json<{ comment?: string }>().catch(() => ({ comment: undefined }))
+
+  try {
+    const approval = await signOffTenantApproval(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('approvalId'),
+      'approved',
+      c.var.userId!,
+      body.comment
+    )
+    if (!approval) {
+      return c.json({ error: 'Approval not found' }, 404)
+    }
+    return c.json({ approval })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/approvals/:approvalId/reject
+ * 差し戻し（コメント必須）
+ */
+approvals.post('/:approvalId/reject', requirePermission('approval:review'), async (c) => {
+  const body = await c.req.json<{ comment?: string }>().catch(() => null)
+  if (!body?.comment?.trim()) {
+    return c.json({ error: 'Comment is required to reject' }, 400)
+  }
+
+  try {
+    const approval = await signOffTenantApproval(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('approvalId'),
+      'rejected',
+      c.var.userId!,
+      body.comment
+    )
+    if (!approval) {
+      return c.json({ error: 'Approval not found' }, 404)
+    }
+    return c.json({ approval })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/approvals/:approvalId/resubmit
+ * 差し戻された承認を再提出
+ */
+approvals.post('/:approvalId/resubmit', requirePermission('approval:request'), async (c) => {
+  try {
+    const approval = await resubmitTenantApproval(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('approvalId'),
+      c.var.userId!
+    )
+    if (!approval) {
+      return c.json({ error: 'Approval not found' }, 404)
+    }
+    return c.json({ approval })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+export default approvals
@@ -0,0 +1,68 @@
+/**
+ * Audit Logs API
+ * 監査ログの検索とエクスポート（/tenants/:tenantId/audit-logs、Owner のみ）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import {
+  AUDIT_EXPORT_FORMATS,
+  AUDIT_SEARCH_DEFAULT_LIMIT,
+  AUDIT_SEARCH_MAX_LIMIT,
+  decodeAuditCursor,
+  normalizeAuditLogFilter,
+  parseAuditLogFilter,
+  validateAuditLogFilter,
+  type AuditExportFormat,
+} from '../domain/audit'
+import { requirePermission } from '../middleware/rbac'
+import { exportAuditLogs, searchAuditLogs } from '../services/audit'
+
+const auditLogs = new Hono<AppEnv>()
+
+/**
+ * GET /tenants/:tenantId/audit-logs
+ * 監査ログを検索（?actorId=&action=&targetType=&targetId=&from=&to=&cursor=&limit=）
+ * ?format=csv|jsonl で条件に一致する全件をエクスポート
+ */
+auditLogs.get('/', requirePermission('audit_log:read'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const filter = parseAuditLogFilter(c.req.query())
+  const validation = validateAuditLogFilter(filter)
+  if (!validation.valid) {
+    return c.json({ error: 'Invalid filter', details: validation.errors }, 400)
+  }
+
+  const format = c.req.query('format')
+  if (format && format !== 'json') {
+    if (!AUDIT_EXPORT_FORMATS.includes(format as AuditExportFormat)) {
+      return c.json({ error: 'Invalid format' }, 400)
+    }
+    try {
+      const exported = await exportAuditLogs(
+        c.var.repositories,
+        tenantId,
+        normalizeAuditLogFilter(filter),
+        format as AuditExportFormat
+      )
+      return c.body(exported.body, 200, {
+        'Content-Type': exported.contentType,
+        'Content-Disposition': `attachment; filename="${exported.filename}"`,
+      })
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+    }
+  }
+
+  const cursor = c.req.query('cursor')
+  const before = cursor ? decodeAuditCursor(cursor) : undefined
+  if (before === null) {
+    return c.json({ error: 'Invalid cursor' }, 400)
+  }
+  const limit = Math.min(Number(c.req.query('limit')) || AUDIT_SEARCH_DEFAULT_LIMIT, AUDIT_SEARCH_MAX_LIMIT)
+
+  const page = await searchAuditLogs(c.var.repositories, tenantId, normalizeAuditLogFilter(filter), { before, limit })
+  return c.json(page)
+})
+
+export default auditLogs
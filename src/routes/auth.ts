@@ -0,0 +1,128 @@
+/**
+ * Auth API
+ * マジックリンクログインと TOTP MFA（/auth）
+ */
+
+import { Hono } from 'hono'
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie'
+import type { AppEnv } from '../env'
+import { SESSION_COOKIE_NAME, SESSION_TTL_SECONDS } from '../domain/auth'
+import { requireUser } from '../middleware/auth'
+import {
+  createAuthDeps,
+  enrollMfa,
+  logout,
+  MFA_LOCKED_ERROR,
+  requestMagicLink,
+  verifyMagicLink,
+  verifyMfa,
+} from '../services/auth'
+
+const auth = new Hono<AppEnv>()
+
+/**
+ * POST /auth/magic-link
+ * ログイン用マジックリンクをメール送信（登録有無に関わらず 202）
+ */
+auth.post('/magic-link', async (c) => {
+  const body = await c.req.json<{ email: string }>().catch(() => null)
+  if (!body?.email) {
+    return c.json({ error: 'email is required' }, 400)
+  }
+
+  try {
+    const verifyUrl = new URL('/auth/magic-link/verify', c.req.url).toString()
+    await requestMagicLink(createAuthDeps(c.env, c.var.repositories), body.email, verifyUrl)
+    return c.json({ sent: true }, 202)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+  }
+})
+
+/**
+ * GET /auth/magic-link/verify?token=
+ * マジックリンクを検証してセッションCookieを発行
+ */
+auth.get('/magic-link/verify', async (c) => {
+  const token = c.req.query('token')
+  if (!token) {
+    return c.json({ error: 'token is required' }, 400)
+  }
+
+  const result = await verifyMagicLink(createAuthDeps(c.env, c.var.repositories), token)
+  if (!result) {
+    return c.json({ error: 'Invalid or expired link' }, 401)
+  }
+
+  setCookie(c, SESSION_COOKIE_NAME, result.sessionToken, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'Lax',
+    path: '/',
+    maxAge: SESSION_TTL_SECONDS,
+  })
+  return c.json({
+    session: result.session,
+    mfaEnrolled: !!result.user.mfaEnabledAt,
+  })
+})
+
+/**
+ * GET /auth/me
+ * 現在のセッション
+ */
+auth.get('/me', requireUser, (c) => {
+  return c.json({ session: c.var.session })
+})
+
+/**
+ * POST /auth/mfa/enroll
+ * TOTP シークレットを発行（認証アプリに登録して /auth/mfa/verify で有効化）
+ */
+auth.post('/mfa/enroll', requireUser, async (c) => {
+  try {
+    const enrollment = await enrollMfa(createAuthDeps(c.env, c.var.repositories), c.var.session!)
+    return c.json(enrollment, 201)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /auth/mfa/verify
+ * TOTP コードを検証してセッションを MFA 済みにする（連続失敗でロック中は 429）
+ */
+auth.post('/mfa/verify', requireUser, async (c) => {
+  const body = await c.req.json<{ code: string }>().catch(() => null)
+  if (!body?.code) {
+    return c.json({ error: 'code is required' }, 400)
+  }
+
+  try {
+    const session = await verifyMfa(
+      createAuthDeps(c.env, c.var.repositories),
+      getCookie(c, SESSION_COOKIE_NAME)!,
+      c.var.session!,
+      body.code
+    )
+    return c.json({ session })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, message === MFA_LOCKED_ERROR ? 429 : 401)
+  }
+})
+
+/**
+ * POST /auth/logout
+ * セッションを破棄
+ */
+auth.post('/logout', async (c) => {
+  const sessionToken = getCookie(c, SESSION_COOKIE_NAME)
+  if (sessionToken) {
+    await logout(createAuthDeps(c.env, c.var.repositories), sessionToken)
+  }
+  deleteCookie(c, SESSION_COOKIE_NAME, { path: '/' })
+  return c.json({ loggedOut: true })
+})
+
+export default auth
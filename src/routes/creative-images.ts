@@ -0,0 +1,60 @@
+/**
+ * Creative Images API
+ * クリエイティブ用画像のアップロード（/tenants/:tenantId/runs/:runId/creative-images）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import { requirePermission } from '../middleware/rbac'
+import { uploadTenantCreativeImage } from '../services/creative-image'
+
+const creativeImages = new Hono<AppEnv>()
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/creative-images
+ * Run のアップロード画像一覧（新しい順）
+ */
+creativeImages.get('/', requirePermission('creative:read'), async (c) => {
+  const images = await c.var.repositories.creativeImages(c.req.param('tenantId')!).listByRun(c.req.param('runId')!)
+  return c.json({ images })
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/creative-images
+ * 画像をアップロード（リクエスト本文が画像そのもの）。返却された key を画像レイヤーの src に指定する
+ */
+creativeImages.post('/', requirePermission('creative:write'), async (c) => {
+  const body = await c.req.arrayBuffer()
+
+  try {
+    const image = await uploadTenantCreativeImage(
+      c.env.ASSETS,
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      body,
+      c.var.userId!
+    )
+    return c.json({ image }, 201)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    if (message === 'Run not found') {
+      return c.json({ error: message }, 404)
+    }
+    return c.json({ error: message }, message.startsWith('Image exceeds') ? 413 : 400)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/creative-images/:imageId
+ * アップロード画像の記録（寸法・R2 キー）
+ */
+creativeImages.get('/:imageId', requirePermission('creative:read'), async (c) => {
+  const image = await c.var.repositories.creativeImages(c.req.param('tenantId')!).findById(c.req.param('imageId'))
+  if (!image || image.runId !== c.req.param('runId')) {
+    return c.json({ error: 'Creative image not found' }, 404)
+  }
+  return c.json({ image })
+})
+
+export default creativeImages
@@ -0,0 +1,272 @@
+/**
+ * Creative Variants API
+ * クリエイティブバリアントのテンプレートと版管理（/tenants/:tenantId/runs/:runId/creative-variants）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import { getCreativeSafeAreaWarnings, type CreativeContent } from '../domain/creative-variant'
+import { requirePermission } from '../middleware/rbac'
+import { lintTenantCreativeVariant } from '../services/copy-lint'
+import {
+  approveTenantCreativeVersion,
+  createTenantCreativeVariant,
+  publishTenantCreativeVersion,
+  rewordTenantCreative,
+  rollbackTenantCreativeVariant,
+  saveTenantCreativeDraft,
+  submitTenantCreativeVariant,
+} from '../services/creative-variant'
+
+// バリアント作成リクエスト
+interface CreateBody {
+  name: string
+  appeal?: string
+  content?: CreativeContent
+}
+
+const creativeVariants = new Hono<AppEnv>()
+
+/**
+ * 版番号パラメータを解釈（不正なら null）
+ */
+function parseVersion(value: string | undefined): number | null {
+  const version = Number(value)
+  return Number.isInteger(version) && version > 0 ? version : null
+}
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/creative-variants
+ * Run のクリエイティブバリアント一覧（最新版の内容）
+ */
+creativeVariants.get('/', requirePermission('creative:read'), async (c) => {
+  const variants = await c.var.repositories.creativeVariants(c.req.param('tenantId')!).listByRun(c.req.param('runId')!)
+  return c.json({ variants })
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/creative-variants
+ * クリエイティブバリアントを作成（版1の下書き）
+ */
+creativeVariants.post('/', requirePermission('creative:write'), async (c) => {
+  const body = await c.req.json<CreateBody>().catch(() => null)
+  if (!body?.name?.trim()) {
+    return c.json({ error: 'Name is required' }, 400)
+  }
+
+  try {
+    const { variant, version } = await createTenantCreativeVariant(c.var.repositories, {
+      tenantId: c.req.param('tenantId')!,
+      runId: c.req.param('runId')!,
+      name: body.name,
+      appeal: body.appeal,
+      content: body.content,
+      createdBy: c.var.userId!,
+    })
+    return c.json({ variant, version, warnings: getCreativeSafeAreaWarnings(variant.content) }, 201)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, message === 'Run not found' ? 404 : 400)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/creative-variants/:variantId
+ * クリエイティブバリアントと全版（最新版のセーフエリア警告を含む）
+ */
+creativeVariants.get('/:variantId', requirePermission('creative:read'), async (c) => {
+  const repository = c.var.repositories.creativeVariants(c.req.param('tenantId')!)
+  const variant = await repository.findById(c.req.param('variantId'))
+  if (!variant || variant.runId !== c.req.param('runId')) {
+    return c.json({ error: 'Creative variant not found' }, 404)
+  }
+  const versions = await repository.listVersions(variant.id)
+  return c.json({ variant, versions, warnings: getCreativeSafeAreaWarnings(variant.content) })
+})
+
+/**
+ * PUT /tenants/:tenantId/runs/:runId/creative-variants/:variantId/content
+ * 下書きを保存（最新版が下書きでなければ新しい版を作成）。セーフエリア警告を返す
+ */
+creativeVariants.put('/:variantId/content', requirePermission('creative:write'), async (c) => {
+  const body = await c.req.json<{ content: CreativeContent }>().catch(() => null)
+  if (!body?.content) {
+    return c.json({ error: 'content is required' }, 400)
+  }
+
+  try {
+    const change = await saveTenantCreativeDraft(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      body.content,
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'Creative variant not found' }, 404)
+    }
+    return c.json({ ...change, warnings: getCreativeSafeAreaWarnings(change.version.content) })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+  }
+})
+
+/**
+ * PATCH /tenants/:tenantId/runs/:runId/creative-variants/:variantId/copy
+ * 文言だけを差し替えた下書きを保存（レイヤー配置はそのまま）
+ */
+creativeVariants.patch('/:variantId/copy', requirePermission('creative:write'), async (c) => {
+  const body = await c.req.json<{ copy: Record<string, string> }>().catch(() => null)
+  if (!body?.copy || typeof body.copy !== 'object') {
+    return c.json({ error: 'copy is required' }, 400)
+  }
+
+  try {
+    const change = await rewordTenantCreative(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      body.copy,
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'Creative variant not found' }, 404)
+    }
+    return c.json(change)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/creative-variants/:variantId/submit
+ * 最新の下書きを提出
+ */
+creativeVariants.post('/:variantId/submit', requirePermission('creative:write'), async (c) => {
+  try {
+    const change = await submitTenantCreativeVariant(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'Creative variant not found' }, 404)
+    }
+    return c.json(change)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/creative-variants/:variantId/versions/:version/approve
+ * 提出済みの版を承認
+ */
+creativeVariants.post('/:variantId/versions/:version/approve', requirePermission('approval:review'), async (c) => {
+  const version = parseVersion(c.req.param('version'))
+  if (!version) {
+    return c.json({ error: 'Invalid version' }, 400)
+  }
+
+  try {
+    const change = await approveTenantCreativeVersion(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      version,
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'Creative variant not found' }, 404)
+    }
+    return c.json(change)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/creative-variants/:variantId/versions/:version/publish
+ * 承認済みの版を公開
+ */
+creativeVariants.post('/:variantId/versions/:version/publish', requirePermission('deployment:publish'), async (c) => {
+  const version = parseVersion(c.req.param('version'))
+  if (!version) {
+    return c.json({ error: 'Invalid version' }, 400)
+  }
+
+  try {
+    const change = await publishTenantCreativeVersion(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      version,
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'Creative variant not found' }, 404)
+    }
+    return c.json(change)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/creative-variants/:variantId/rollback
+ * 過去の版の内容で新しい下書きを作成
+ */
+creativeVariants.post('/:variantId/rollback', requirePermission('creative:write'), async (c) => {
+  const body = await c.req.json<{ version: number }>().catch(() => null)
+  if (!body || !Number.isInteger(body.version) || body.version < 1) {
+    return c.json({ error: 'version is required' }, 400)
+  }
+
+  try {
+    const change = await rollbackTenantCreativeVariant(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      body.version,
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'Creative variant not found' }, 404)
+    }
+    return c.json(change, 201)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/creative-variants/:variantId/lint?version=2
+ * 版の文言チェック（禁則表現・断定・No.1・薬機法/景表法系の表現。version を省略すると最新版）
+ */
+creativeVariants.get('/:variantId/lint', requirePermission('creative:read'), async (c) => {
+  const version = c.req.query('version') === undefined ? undefined : parseVersion(c.req.query('version'))
+  if (version === null) {
+    return c.json({ error: 'Invalid version' }, 400)
+  }
+
+  const report = await lintTenantCreativeVariant(
+    c.var.repositories,
+    c.req.param('tenantId')!,
+    c.req.param('runId')!,
+    c.req.param('variantId'),
+    version
+  )
+  if (!report) {
+    return c.json({ error: 'Creative variant not found' }, 404)
+  }
+  return c.json(report)
+})
+
+export default creativeVariants
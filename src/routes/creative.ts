@@ -0,0 +1,35 @@
+/**
+ * Creative Runtime
+ * 公開クリエイティブの描画ファイルの配信（/creative/:tenantId/:runId/:variantId/:name、認証不要）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import { loadPublishedCreativeRender } from '../services/creative-renderer'
+
+const creative = new Hono<AppEnv>()
+
+/**
+ * GET /creative/:tenantId/:runId/:variantId/:name
+ * 公開中の版の PNG（1x1 など）または SVG（1x1.svg など）を返す
+ */
+creative.get('/:tenantId/:runId/:variantId/:name', async (c) => {
+  const file = await loadPublishedCreativeRender(
+    c.env.ASSETS,
+    c.var.repositories,
+    c.req.param('tenantId'),
+    c.req.param('runId'),
+    c.req.param('variantId'),
+    c.req.param('name')
+  )
+  if (!file) {
+    return c.text('Not Found', 404)
+  }
+
+  c.header('Cache-Control', 'public, max-age=60')
+  c.header('Content-Type', file.contentType)
+  c.header('X-Content-Type-Options', 'nosniff')
+  return c.body(file.body)
+})
+
+export default creative
@@ -0,0 +1,189 @@
+/**
+ * Deployments API
+ * Runの公開とロールバック（/tenants/:tenantId/runs/:runId/deployments）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import {
+  completeDeployment,
+  createDeployment,
+  executeRollback,
+  startDeployment,
+  type DeploymentEnvironment,
+} from '../domain/publishing'
+import { requirePermission } from '../middleware/rbac'
+import { recordAudit } from '../services/audit'
+import { createCreativeRenderDeps, renderPublishedCreatives } from '../services/creative-renderer'
+import {
+  assertDeploymentPublishable,
+  createDeploymentSnapshotDeps,
+  restoreDeploymentSnapshot,
+  snapshotDeployment,
+  type SnapshotRestoreOutcome,
+} from '../services/deployment-snapshot'
+import { createLpRuntimeDeps } from '../services/lp-runtime'
+
+// 公開リクエスト
+interface PublishRequest {
+  environment: DeploymentEnvironment
+  lpVariantIds?: string[]
+  creativeVariantIds?: string[]
+}
+
+// ロールバックリクエスト
+interface RollbackBody {
+  targetVersion: number
+  reason: string
+}
+
+const ENVIRONMENTS: DeploymentEnvironment[] = ['preview', 'staging', 'production']
+
+const deployments = new Hono<AppEnv>()
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/deployments
+ * デプロイ履歴（?environment= で絞り込み）
+ */
+deployments.get('/', requirePermission('deployment:read'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const runId = c.req.param('runId')!
+  const environment = c.req.query('environment') as DeploymentEnvironment | undefined
+  if (environment && !ENVIRONMENTS.includes(environment)) {
+    return c.json({ error: 'Invalid environment' }, 400)
+  }
+
+  const list = await c.var.repositories.deployments(tenantId).listByRun(runId, environment)
+  return c.json({ deployments: list })
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/deployments
+ * デプロイメントを作成（公開）。公開中のクリエイティブを描画し、配信物のスナップショットを R2 に保存
+ * （本番は必須の注意文が欠けた LP があれば 409）
+ */
+deployments.post('/', requirePermission('deployment:publish'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const runId = c.req.param('runId')!
+  const body = await c.req.json<PublishRequest>().catch(() => null)
+  if (!body || !ENVIRONMENTS.includes(body.environment)) {
+    return c.json({ error: 'Invalid environment' }, 400)
+  }
+
+  const run = await c.var.repositories.runs(tenantId).findById(runId)
+  if (!run) {
+    return c.json({ error: 'Run not found' }, 404)
+  }
+
+  const repository = c.var.repositories.deployments(tenantId)
+  const created = {
+    ...createDeployment({
+      runId,
+      tenantId,
+      environment: body.environment,
+      deployedBy: c.var.userId!,
+      lpVariantIds: body.lpVariantIds,
+      creativeVariantIds: body.creativeVariantIds,
+    }),
+    version: await repository.getNextVersion(runId, body.environment),
+  }
+
+  // クリエイティブの配信 URL はこの API と同じホスト（/creative/...）
+  const origin = new URL(c.req.url)
+  const urlConfig = { baseDomain: origin.host, useHttps: origin.protocol === 'https:' }
+
+  const snapshotDeps = createDeploymentSnapshotDeps(c.env)
+  const selection = { lpVariantIds: body.lpVariantIds, creativeVariantIds: body.creativeVariantIds }
+  let deployment
+  try {
+    // 描画は配信中の /creative のファイルを上書きするため、失敗する公開では描画しない
+    await assertDeploymentPublishable(snapshotDeps, c.var.repositories, created, selection)
+    // スナップショットが描画ファイルを含められるよう、先にクリエイティブを描画する
+    const rendered = await renderPublishedCreatives(
+      createCreativeRenderDeps(c.env),
+      c.var.repositories,
+      startDeployment(created),
+      urlConfig,
+      body.creativeVariantIds
+    )
+    const snapshotted = await snapshotDeployment(snapshotDeps, c.var.repositories, rendered, selection)
+    // スナップショットが揃った時点で公開済み（ロールバックの対象になる）
+    deployment = completeDeployment(snapshotted, snapshotted.assets, snapshotted.urls)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+  await repository.create(deployment)
+  await recordAudit(c.var.repositories, {
+    tenantId,
+    actorId: c.var.userId!,
+    action: 'deployment.publish',
+    targetType: 'deployment',
+    targetId: deployment.id,
+    after: deployment,
+    metadata: { runId },
+  })
+
+  return c.json({ deployment }, 201)
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/deployments/:deploymentId/rollback
+ * 指定バージョンへロールバック（対象版のスナップショットがあれば検証して LP の公開版を戻す）
+ */
+deployments.post('/:deploymentId/rollback', requirePermission('deployment:rollback'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const runId = c.req.param('runId')!
+  const body = await c.req.json<RollbackBody>().catch(() => null)
+  if (!body?.reason || !Number.isInteger(body.targetVersion)) {
+    return c.json({ error: 'targetVersion and reason are required' }, 400)
+  }
+
+  const repository = c.var.repositories.deployments(tenantId)
+  const deployment = await repository.findById(c.req.param('deploymentId'))
+  if (!deployment || deployment.runId !== runId) {
+    return c.json({ error: 'Deployment not found' }, 404)
+  }
+
+  try {
+    const rolledBack = executeRollback(deployment, {
+      deploymentId: deployment.id,
+      targetVersion: body.targetVersion,
+      reason: body.reason,
+      requestedBy: c.var.userId!,
+    })
+
+    const target = (await repository.listByRun(runId, deployment.environment)).find(
+      (candidate) => candidate.version === body.targetVersion
+    )
+    let restore: SnapshotRestoreOutcome | null = null
+    if (target?.metadata.snapshot) {
+      restore = await restoreDeploymentSnapshot(
+        createDeploymentSnapshotDeps(c.env),
+        c.var.repositories,
+        target,
+        c.var.userId!
+      )
+      const runtime = createLpRuntimeDeps(c.env, c.var.repositories)
+      for (const { variantId } of restore.restored) {
+        await runtime.invalidate(tenantId, runId, variantId)
+      }
+    }
+
+    await repository.update(rolledBack)
+    await recordAudit(c.var.repositories, {
+      tenantId,
+      actorId: c.var.userId!,
+      action: 'deployment.rollback',
+      targetType: 'deployment',
+      targetId: deployment.id,
+      before: deployment,
+      after: rolledBack,
+      metadata: { runId, snapshot: restore?.manifest.hash, restored: restore?.restored },
+    })
+    return c.json({ deployment: rolledBack, restored: restore?.restored ?? [] })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+export default deployments
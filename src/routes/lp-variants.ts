@@ -0,0 +1,312 @@
+/**
+ * LP Variants API
+ * LP バリアントの構成と版管理（/tenants/:tenantId/runs/:runId/lp-variants）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import type { LpContent } from '../domain/lp-variant'
+import { requirePermission } from '../middleware/rbac'
+import { lintTenantLpVariant } from '../services/copy-lint'
+import { exportTenantLpVersion } from '../services/lp-export'
+import { createLpRuntimeDeps } from '../services/lp-runtime'
+import {
+  approveTenantLpVersion,
+  createTenantLpVariant,
+  diffTenantLpVersions,
+  publishTenantLpVersion,
+  rollbackTenantLpVariant,
+  saveTenantLpDraft,
+  submitTenantLpVariant,
+} from '../services/lp-variant'
+
+// バリアント作成リクエスト
+interface CreateBody {
+  name: string
+  appeal?: string
+  layoutType?: string
+  offer?: string
+  content?: LpContent
+}
+
+const lpVariants = new Hono<AppEnv>()
+
+/**
+ * 版番号パラメータを解釈（不正なら null）
+ */
+function parseVersion(value: string | undefined): number | null {
+  const version = Number(value)
+  return Number.isInteger(version) && version > 0 ? version : null
+}
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/lp-variants
+ * Run の LP バリアント一覧（最新版の内容）
+ */
+lpVariants.get('/', requirePermission('lp:read'), async (c) => {
+  const variants = await c.var.repositories.lpVariants(c.req.param('tenantId')!).listByRun(c.req.param('runId')!)
+  return c.json({ variants })
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/lp-variants
+ * LP バリアントを作成（版1の下書き）
+ */
+lpVariants.post('/', requirePermission('lp:write'), async (c) => {
+  const body = await c.req.json<CreateBody>().catch(() => null)
+  if (!body?.name?.trim()) {
+    return c.json({ error: 'Name is required' }, 400)
+  }
+
+  try {
+    const { variant, version } = await createTenantLpVariant(c.var.repositories, {
+      tenantId: c.req.param('tenantId')!,
+      runId: c.req.param('runId')!,
+      name: body.name,
+      appeal: body.appeal,
+      layoutType: body.layoutType,
+      offer: body.offer,
+      content: body.content,
+      createdBy: c.var.userId!,
+    })
+    return c.json({ variant, version }, 201)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, message === 'Run not found' ? 404 : 400)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/lp-variants/:variantId
+ * LP バリアントと全版
+ */
+lpVariants.get('/:variantId', requirePermission('lp:read'), async (c) => {
+  const repository = c.var.repositories.lpVariants(c.req.param('tenantId')!)
+  const variant = await repository.findById(c.req.param('variantId'))
+  if (!variant || variant.runId !== c.req.param('runId')) {
+    return c.json({ error: 'LP variant not found' }, 404)
+  }
+  return c.json({ variant, versions: await repository.listVersions(variant.id) })
+})
+
+/**
+ * PUT /tenants/:tenantId/runs/:runId/lp-variants/:variantId/content
+ * 下書きを保存（最新版が下書きでなければ新しい版を作成）
+ */
+lpVariants.put('/:variantId/content', requirePermission('lp:write'), async (c) => {
+  const body = await c.req.json<{ content: LpContent }>().catch(() => null)
+  if (!body?.content) {
+    return c.json({ error: 'content is required' }, 400)
+  }
+
+  try {
+    const change = await saveTenantLpDraft(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      body.content,
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'LP variant not found' }, 404)
+    }
+    return c.json(change)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/lp-variants/:variantId/submit
+ * 最新の下書きを提出
+ */
+lpVariants.post('/:variantId/submit', requirePermission('lp:write'), async (c) => {
+  try {
+    const change = await submitTenantLpVariant(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'LP variant not found' }, 404)
+    }
+    return c.json(change)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/lp-variants/:variantId/versions/:version/approve
+ * 提出済みの版を承認
+ */
+lpVariants.post('/:variantId/versions/:version/approve', requirePermission('approval:review'), async (c) => {
+  const version = parseVersion(c.req.param('version'))
+  if (!version) {
+    return c.json({ error: 'Invalid version' }, 400)
+  }
+
+  try {
+    const change = await approveTenantLpVersion(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      version,
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'LP variant not found' }, 404)
+    }
+    return c.json(change)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/lp-variants/:variantId/versions/:version/publish
+ * 承認済みの版を公開
+ */
+lpVariants.post('/:variantId/versions/:version/publish', requirePermission('deployment:publish'), async (c) => {
+  const version = parseVersion(c.req.param('version'))
+  if (!version) {
+    return c.json({ error: 'Invalid version' }, 400)
+  }
+
+  try {
+    const change = await publishTenantLpVersion(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      version,
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'LP variant not found' }, 404)
+    }
+    // 公開 URL のキャッシュを破棄して新しい版を配信する
+    const { variant } = change
+    await createLpRuntimeDeps(c.env, c.var.repositories).invalidate(variant.tenantId, variant.runId, variant.id)
+    return c.json(change)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/lp-variants/:variantId/versions/:version/export
+ * 公開済みの版を HTML・JSON・印刷用 HTML で R2 に書き出し、デプロイメントに記録
+ */
+lpVariants.post('/:variantId/versions/:version/export', requirePermission('deployment:publish'), async (c) => {
+  const version = parseVersion(c.req.param('version'))
+  if (!version) {
+    return c.json({ error: 'Invalid version' }, 400)
+  }
+  const body = await c.req.json<{ deploymentId: string }>().catch(() => null)
+  if (!body?.deploymentId) {
+    return c.json({ error: 'deploymentId is required' }, 400)
+  }
+
+  try {
+    const outcome = await exportTenantLpVersion(
+      c.env.ASSETS,
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      version,
+      body.deploymentId,
+      c.var.userId!
+    )
+    if (!outcome) {
+      return c.json({ error: 'LP variant not found' }, 404)
+    }
+    return c.json(outcome, 201)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return c.json({ error: message }, message === 'Deployment not found' ? 404 : 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/lp-variants/:variantId/rollback
+ * 過去の版の内容で新しい下書きを作成
+ */
+lpVariants.post('/:variantId/rollback', requirePermission('lp:write'), async (c) => {
+  const body = await c.req.json<{ version: number }>().catch(() => null)
+  if (!body || !Number.isInteger(body.version) || body.version < 1) {
+    return c.json({ error: 'version is required' }, 400)
+  }
+
+  try {
+    const change = await rollbackTenantLpVariant(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId')!,
+      c.req.param('variantId'),
+      body.version,
+      c.var.userId!
+    )
+    if (!change) {
+      return c.json({ error: 'LP variant not found' }, 404)
+    }
+    return c.json(change, 201)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/lp-variants/:variantId/diff?from=1&to=2
+ * 2つの版の構成差分（to を省略すると最新版）
+ */
+lpVariants.get('/:variantId/diff', requirePermission('lp:read'), async (c) => {
+  const from = parseVersion(c.req.query('from'))
+  const to = c.req.query('to') === undefined ? undefined : parseVersion(c.req.query('to'))
+  if (!from || to === null) {
+    return c.json({ error: 'Invalid version' }, 400)
+  }
+
+  const result = await diffTenantLpVersions(
+    c.var.repositories,
+    c.req.param('tenantId')!,
+    c.req.param('runId')!,
+    c.req.param('variantId'),
+    from,
+    to
+  )
+  if (!result) {
+    return c.json({ error: 'LP variant not found' }, 404)
+  }
+  return c.json(result)
+})
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/lp-variants/:variantId/lint?version=2
+ * 版の文言チェック（禁則表現・断定・No.1・薬機法/景表法系の表現。version を省略すると最新版）
+ */
+lpVariants.get('/:variantId/lint', requirePermission('lp:read'), async (c) => {
+  const version = c.req.query('version') === undefined ? undefined : parseVersion(c.req.query('version'))
+  if (version === null) {
+    return c.json({ error: 'Invalid version' }, 400)
+  }
+
+  const report = await lintTenantLpVariant(
+    c.var.repositories,
+    c.req.param('tenantId')!,
+    c.req.param('runId')!,
+    c.req.param('variantId'),
+    version
+  )
+  if (!report) {
+    return c.json({ error: 'LP variant not found' }, 404)
+  }
+  return c.json(report)
+})
+
+export default lpVariants
@@ -0,0 +1,32 @@
+/**
+ * LP Runtime
+ * 公開 LP の配信（/lp/:tenantId/:runId/:variantId、認証不要）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import { createLpRuntimeDeps, renderPublishedLp } from '../services/lp-runtime'
+
+const lp = new Hono<AppEnv>()
+
+/**
+ * GET /lp/:tenantId/:runId/:variantId
+ * 公開中の版を HTML で返す
+ */
+lp.get('/:tenantId/:runId/:variantId', async (c) => {
+  const html = await renderPublishedLp(
+    createLpRuntimeDeps(c.env, c.var.repositories),
+    c.req.param('tenantId'),
+    c.req.param('runId'),
+    c.req.param('variantId')
+  )
+  if (!html) {
+    return c.text('Not Found', 404)
+  }
+
+  c.header('Cache-Control', 'public, max-age=60')
+  c.header('X-Content-Type-Options', 'nosniff')
+  return c.html(html)
+})
+
+export default lp
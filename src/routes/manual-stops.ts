@@ -0,0 +1,56 @@
+/**
+ * Manual Stops API
+ * API停止に失敗した広告の手動停止タスク（/tenants/:tenantId/manual-stops）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import type { ManualStopStatus } from '../domain/manual-stop'
+import { requirePermission } from '../middleware/rbac'
+import { confirmManualStopTask, createManualStopDeps } from '../services/manual-stop'
+
+const manualStops = new Hono<AppEnv>()
+
+/**
+ * GET /tenants/:tenantId/manual-stops
+ * 手動停止タスク一覧（?status=pending|confirmed）
+ */
+manualStops.get('/', requirePermission('manual_stop:read'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const status = c.req.query('status') as ManualStopStatus | undefined
+  if (status && status !== 'pending' && status !== 'confirmed') {
+    return c.json({ error: 'Invalid status' }, 400)
+  }
+  const limit = Math.min(Number(c.req.query('limit')) || 100, 500)
+
+  const tasks = await c.var.repositories.manualStopTasks(tenantId).list(status, limit)
+  return c.json({ tasks })
+})
+
+/**
+ * POST /tenants/:tenantId/manual-stops/:taskId/confirm
+ * Ads Managerで停止したことを記録（呼び出し元を確認者とする）
+ */
+manualStops.post('/:taskId/confirm', requirePermission('manual_stop:confirm'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const taskId = c.req.param('taskId')
+  const body = await c.req.json<{ note?: string }>().catch(() => ({ note: undefined }))
+
+  try {
+    const task = await confirmManualStopTask(
+      createManualStopDeps(c.env, c.var.repositories),
+      tenantId,
+      taskId,
+      c.var.userId!,
+      body.note
+    )
+    if (!task) {
+      return c.json({ error: 'Manual stop task not found' }, 404)
+    }
+    return c.json({ task })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+export default manualStops
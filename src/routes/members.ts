@@ -0,0 +1,175 @@
+/**
+ * Members API
+ * テナントのメンバーと招待（/tenants/:tenantId/members）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import { ROLES, type Invitation, type InvitationStatus, type Role } from '../domain/tenancy'
+import { requireUser } from '../middleware/auth'
+import { requirePermission } from '../middleware/rbac'
+import {
+  acceptInvitationToken,
+  issueInvitation,
+  removeMember,
+  revokeTenantInvitation,
+  updateMemberRole,
+} from '../services/tenancy'
+
+// 招待リクエスト
+interface InviteRequest {
+  email: string
+  role: Role
+}
+
+const INVITATION_STATUSES: InvitationStatus[] = ['pending', 'accepted', 'revoked']
+
+// レスポンスからトークンハッシュを除く
+function toInvitationView(invitation: Invitation): Omit<Invitation, 'tokenHash'> {
+  const { tokenHash: _tokenHash, ...view } = invitation
+  return view
+}
+
+const members = new Hono<AppEnv>()
+
+/**
+ * GET /tenants/:tenantId/members
+ * メンバー一覧
+ */
+members.get('/', requirePermission('member:read'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const list = await c.var.repositories.memberships(tenantId).list()
+  return c.json({ members: list })
+})
+
+/**
+ * PATCH /tenants/:tenantId/members/:membershipId
+ * ロールを変更
+ */
+members.patch('/:membershipId', requirePermission('member:manage'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const body = await c.req.json<{ role: Role }>().catch(() => null)
+  if (!body || !ROLES.includes(body.role)) {
+    return c.json({ error: 'Invalid role' }, 400)
+  }
+
+  try {
+    const membership = await updateMemberRole(
+      c.var.repositories,
+      tenantId,
+      c.req.param('membershipId'),
+      body.role,
+      c.var.userId!
+    )
+    if (!membership) {
+      return c.json({ error: 'Member not found' }, 404)
+    }
+    return c.json({ membership })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * DELETE /tenants/:tenantId/members/:membershipId
+ * メンバーを削除
+ */
+members.delete('/:membershipId', requirePermission('member:manage'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+
+  try {
+    const removed = await removeMember(c.var.repositories, tenantId, c.req.param('membershipId'), c.var.userId!)
+    if (!removed) {
+      return c.json({ error: 'Member not found' }, 404)
+    }
+    return c.json({ removed })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId/members/invitations
+ * 招待一覧（?status=pending|accepted|revoked）
+ */
+members.get('/invitations', requirePermission('member:manage'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const status = c.req.query('status') as InvitationStatus | undefined
+  if (status && !INVITATION_STATUSES.includes(status)) {
+    return c.json({ error: 'Invalid status' }, 400)
+  }
+
+  const invitations = await c.var.repositories.invitations(tenantId).list(status)
+  return c.json({ invitations: invitations.map(toInvitationView) })
+})
+
+/**
+ * POST /tenants/:tenantId/members/invitations
+ * 招待を発行（トークンはこのレスポンスでのみ返す）
+ */
+members.post('/invitations', requirePermission('member:manage'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const body = await c.req.json<InviteRequest>().catch(() => null)
+  if (!body || !ROLES.includes(body.role)) {
+    return c.json({ error: 'Invalid role' }, 400)
+  }
+
+  try {
+    const { invitation, token } = await issueInvitation(c.var.repositories, {
+      tenantId,
+      email: body.email,
+      role: body.role,
+      invitedBy: c.var.userId!,
+    })
+    return c.json({ invitation: toInvitationView(invitation), token }, 201)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/members/invitations/accept
+ * 招待トークンを承諾してメンバーになる（まだメンバーではないためロール検証なし）
+ */
+members.post('/invitations/accept', requireUser, async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const body = await c.req.json<{ token: string }>().catch(() => null)
+  if (!body?.token) {
+    return c.json({ error: 'token is required' }, 400)
+  }
+
+  try {
+    const result = await acceptInvitationToken(c.var.repositories, tenantId, body.token, c.var.userId!)
+    if (!result) {
+      return c.json({ error: 'Invitation not found' }, 404)
+    }
+    return c.json({ invitation: toInvitationView(result.invitation), membership: result.membership })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+/**
+ * POST /tenants/:tenantId/members/invitations/:invitationId/revoke
+ * 招待を取り消し
+ */
+members.post('/invitations/:invitationId/revoke', requirePermission('member:manage'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+
+  try {
+    const invitation = await revokeTenantInvitation(
+      c.var.repositories,
+      tenantId,
+      c.req.param('invitationId'),
+      c.var.userId!
+    )
+    if (!invitation) {
+      return c.json({ error: 'Invitation not found' }, 404)
+    }
+    return c.json({ invitation: toInvitationView(invitation) })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+export default members
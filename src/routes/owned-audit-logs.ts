@@ -0,0 +1,83 @@
+/**
+ * Owned Audit Logs API
+ * Owner であるすべてのテナントを横断した監査ログの検索とエクスポート（/audit-logs）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import { requiresMfa } from '../domain/auth'
+import {
+  AUDIT_EXPORT_FORMATS,
+  AUDIT_SEARCH_DEFAULT_LIMIT,
+  AUDIT_SEARCH_MAX_LIMIT,
+  decodeAuditTenantsCursor,
+  normalizeAuditLogFilter,
+  parseAuditLogFilter,
+  validateAuditLogFilter,
+  type AuditExportFormat,
+} from '../domain/audit'
+import { checkPermission } from '../domain/rbac'
+import { requireUser } from '../middleware/auth'
+import { exportAuditLogsAcrossTenants, searchAuditLogsAcrossTenants } from '../services/audit'
+
+const ownedAuditLogs = new Hono<AppEnv>()
+
+/**
+ * GET /audit-logs
+ * 監査ログを閲覧できるテナントを横断して検索（?actorId=&action=&targetType=&targetId=&from=&to=&cursor=&limit=）
+ * ?format=csv|jsonl で条件に一致する全件をエクスポート
+ */
+ownedAuditLogs.get('/', requireUser, async (c) => {
+  const memberships = (await c.var.repositories.listMembershipsByUser(c.var.userId!)).filter(
+    (m) => checkPermission(m.role, 'audit_log:read').allowed
+  )
+  if (memberships.length === 0) {
+    return c.json({ error: 'Forbidden', reason: 'Audit logs are only available to tenant owners' }, 403)
+  }
+  if (memberships.some((m) => requiresMfa(m.role)) && !c.var.session?.mfaVerified) {
+    return c.json({ error: 'MFA required' }, 403)
+  }
+  const tenantIds = memberships.map((m) => m.tenantId)
+
+  const filter = parseAuditLogFilter(c.req.query())
+  const validation = validateAuditLogFilter(filter)
+  if (!validation.valid) {
+    return c.json({ error: 'Invalid filter', details: validation.errors }, 400)
+  }
+
+  const format = c.req.query('format')
+  if (format && format !== 'json') {
+    if (!AUDIT_EXPORT_FORMATS.includes(format as AuditExportFormat)) {
+      return c.json({ error: 'Invalid format' }, 400)
+    }
+    try {
+      const exported = await exportAuditLogsAcrossTenants(
+        c.var.repositories,
+        tenantIds,
+        normalizeAuditLogFilter(filter),
+        format as AuditExportFormat
+      )
+      return c.body(exported.body, 200, {
+        'Content-Type': exported.contentType,
+        'Content-Disposition': `attachment; filename="${exported.filename}"`,
+      })
+    } catch (error) {
+      return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+    }
+  }
+
+  const cursor = c.req.query('cursor')
+  const positions = cursor ? decodeAuditTenantsCursor(cursor) : undefined
+  if (positions === null) {
+    return c.json({ error: 'Invalid cursor' }, 400)
+  }
+  const limit = Math.min(Number(c.req.query('limit')) || AUDIT_SEARCH_DEFAULT_LIMIT, AUDIT_SEARCH_MAX_LIMIT)
+
+  const page = await searchAuditLogsAcrossTenants(c.var.repositories, tenantIds, normalizeAuditLogFilter(filter), {
+    positions,
+    limit,
+  })
+  return c.json(page)
+})
+
+export default ownedAuditLogs
@@ -0,0 +1,109 @@
+/**
+ * Projects API
+ * テナント内のプロジェクト管理（/tenants/:tenantId/projects）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import { archiveProject, createProject, type ProjectCreateRequest } from '../domain/tenancy'
+import { requirePermission } from '../middleware/rbac'
+import { recordAudit } from '../services/audit'
+
+const projects = new Hono<AppEnv>()
+
+/**
+ * GET /tenants/:tenantId/projects
+ * プロジェクト一覧（?includeArchived=true でアーカイブ済みも含む）
+ */
+projects.get('/', requirePermission('project:read'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const includeArchived = c.req.query('includeArchived') === 'true'
+
+  const list = await c.var.repositories.projects(tenantId).list(includeArchived)
+  return c.json({ projects: list })
+})
+
+/**
+ * POST /tenants/:tenantId/projects
+ * プロジェクトを作成
+ */
+projects.post('/', requirePermission('project:write'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const body = await c.req.json<Omit<ProjectCreateRequest, 'tenantId' | 'createdBy'>>().catch(() => null)
+  if (!body) {
+    return c.json({ error: 'Invalid request body' }, 400)
+  }
+
+  try {
+    const project = createProject({ ...body, tenantId, createdBy: c.var.userId! })
+    await c.var.repositories.projects(tenantId).create(project)
+    await recordAudit(c.var.repositories, {
+      tenantId,
+      actorId: c.var.userId!,
+      action: 'project.create',
+      targetType: 'project',
+      targetId: project.id,
+      after: project,
+    })
+    return c.json({ project }, 201)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId/projects/:projectId
+ * プロジェクトを取得
+ */
+projects.get('/:projectId', requirePermission('project:read'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const project = await c.var.repositories.projects(tenantId).findById(c.req.param('projectId'))
+  if (!project) {
+    return c.json({ error: 'Project not found' }, 404)
+  }
+  return c.json({ project })
+})
+
+/**
+ * GET /tenants/:tenantId/projects/:projectId/runs
+ * プロジェクトに属するRun一覧
+ */
+projects.get('/:projectId/runs', requirePermission('run:read'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const limit = Math.min(Number(c.req.query('limit')) || 100, 500)
+
+  const runs = await c.var.repositories.runs(tenantId).listByProject(c.req.param('projectId'), limit)
+  return c.json({ runs })
+})
+
+/**
+ * POST /tenants/:tenantId/projects/:projectId/archive
+ * プロジェクトをアーカイブ
+ */
+projects.post('/:projectId/archive', requirePermission('project:archive'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const repository = c.var.repositories.projects(tenantId)
+  const project = await repository.findById(c.req.param('projectId'))
+  if (!project) {
+    return c.json({ error: 'Project not found' }, 404)
+  }
+
+  try {
+    const archived = archiveProject(project)
+    await repository.update(archived)
+    await recordAudit(c.var.repositories, {
+      tenantId,
+      actorId: c.var.userId!,
+      action: 'project.archive',
+      targetType: 'project',
+      targetId: project.id,
+      before: project,
+      after: archived,
+    })
+    return c.json({ project: archived })
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 409)
+  }
+})
+
+export default projects
@@ -0,0 +1,229 @@
+/**
+ * Runs API
+ * Run単位のエンドポイント（/tenants/:tenantId/runs）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import { createRun, type RunCreateRequest, type RunSettingsUpdate, type RunStatus } from '../domain/run'
+import { requirePermission } from '../middleware/rbac'
+import { recordAudit } from '../services/audit'
+import { createLpRuntimeDeps } from '../services/lp-runtime'
+import { createRunLaunchDeps, startRun, transitionTenantRun } from '../services/run-launch'
+import { updateTenantRunSettings } from '../services/run-settings'
+
+// 状態遷移リクエスト
+interface TransitionBody {
+  to: RunStatus
+  reason?: string
+}
+
+const runs = new Hono<AppEnv>()
+
+/**
+ * POST /tenants/:tenantId/runs
+ * Run を作成（下書き）
+ */
+runs.post('/', requirePermission('run:write'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const body = await c.req.json<Omit<RunCreateRequest, 'tenantId' | 'createdBy'>>().catch(() => null)
+  if (!body) {
+    return c.json({ error: 'Invalid request body' }, 400)
+  }
+
+  const project = body.projectId ? await c.var.repositories.projects(tenantId).findById(body.projectId) : null
+  if (!project) {
+    return c.json({ error: 'Project not found' }, 404)
+  }
+  if (project.archivedAt) {
+    return c.json({ error: 'Project is archived' }, 409)
+  }
+
+  try {
+    const run = createRun({
+      tenantId,
+      projectId: project.id,
+      name: body.name,
+      description: body.description,
+      stopRules: body.stopRules,
+      destinationUrl: body.destinationUrl,
+      createdBy: c.var.userId!,
+    })
+    await c.var.repositories.runs(tenantId).create(run)
+    await recordAudit(c.var.repositories, {
+      tenantId,
+      actorId: c.var.userId!,
+      action: 'run.create',
+      targetType: 'run',
+      targetId: run.id,
+      after: run,
+      metadata: { projectId: project.id },
+    })
+    return c.json({ run }, 201)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId/runs/:runId
+ * Run を取得
+ */
+runs.get('/:runId', requirePermission('run:read'), async (c) => {
+  const run = await c.var.repositories.runs(c.req.param('tenantId')!).findById(c.req.param('runId'))
+  if (!run) {
+    return c.json({ error: 'Run not found' }, 404)
+  }
+  return c.json({ run })
+})
+
+/**
+ * PATCH /tenants/:tenantId/runs/:runId
+ * 停止条件・配信先URL・計測タグを変更（承認済みの内容が変わった承認は承認待ちへ戻る）
+ */
+runs.patch('/:runId', requirePermission('run:write'), async (c) => {
+  const body = await c.req.json<RunSettingsUpdate>().catch(() => null)
+  if (!body || (body.stopRules === undefined && body.destinationUrl === undefined && body.pixels === undefined)) {
+    return c.json({ error: 'stopRules, destinationUrl or pixels is required' }, 400)
+  }
+
+  try {
+    const result = await updateTenantRunSettings(
+      c.var.repositories,
+      c.req.param('tenantId')!,
+      c.req.param('runId'),
+      { stopRules: body.stopRules, destinationUrl: body.destinationUrl, pixels: body.pixels },
+      c.var.userId!
+    )
+    if (!result) {
+      return c.json({ error: 'Run not found' }, 404)
+    }
+    // 遷移の基準になる DO の Run にも設定を反映する（状態は DO の値を残す）
+    const { stopRules, destinationUrl, pixels } = result.run
+    await createRunLaunchDeps(c.env, c.var.repositories)
+      .runState(result.run.id)
+      .updateSettings({ stopRules, destinationUrl, pixels })
+    if (body.pixels !== undefined) {
+      // 計測タグは公開 LP に埋め込まれるため、キャッシュ済みの LP を破棄する
+      const runtime = createLpRuntimeDeps(c.env, c.var.repositories)
+      const variants = await c.var.repositories.lpVariants(result.run.tenantId).listByRun(result.run.id)
+      await Promise.all(variants.map((v) => runtime.invalidate(v.tenantId, v.runId, v.id)))
+    }
+    return c.json(result)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId/runs/:runId/stop-events
+ * 停止イベント（新しい順）
+ */
+runs.get('/:runId/stop-events', requirePermission('run:read'), async (c) => {
+  const tenantId = c.req.param('tenantId')!
+  const runId = c.req.param('runId')
+  const limit = Math.min(Number(c.req.query('limit')) || 100, 500)
+
+  const events = await c.var.repositories.stopEvents(tenantId).listByRun(runId, limit)
+  return c.json({ events })
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/start
+ * 配信開始（全承認対象が Approved でなければ 409）
+ */
+runs.post('/:runId/start', requirePermission('run:write'), async (c) => {
+  const body = await c.req.json<{ reason?: string }>().catch(() => ({ reason: undefined }))
+
+  const result = await startRun(createRunLaunchDeps(c.env, c.var.repositories), {
+    tenantId: c.req.param('tenantId')!,
+    runId: c.req.param('runId'),
+    actorId: c.var.userId!,
+    actorRole: c.var.membership!.role,
+    reason: body.reason,
+  })
+  if (!result.started) {
+    return c.json({ error: result.error, gate: result.gate }, result.status)
+  }
+  return c.json({ run: result.run, gate: result.gate })
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/transitions
+ * 設計〜公開・アーカイブの状態遷移（承認は /approve、配信開始は /start）
+ */
+runs.post('/:runId/transitions', requirePermission('run:write'), async (c) => {
+  const body = await c.req.json<TransitionBody>().catch(() => null)
+  if (!body?.to) {
+    return c.json({ error: 'to is required' }, 400)
+  }
+  if (body.to === 'approved') {
+    return c.json({ error: 'Use the approve endpoint to approve a run' }, 403)
+  }
+
+  const result = await transitionTenantRun(createRunLaunchDeps(c.env, c.var.repositories), {
+    tenantId: c.req.param('tenantId')!,
+    runId: c.req.param('runId'),
+    actorId: c.var.userId!,
+    actorRole: c.var.membership!.role,
+    to: body.to,
+    reason: body.reason,
+  })
+  if (!result.run) {
+    return c.json({ error: result.error }, result.status)
+  }
+  return c.json({ run: result.run })
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/approve
+ * レビュー待ちの Run を承認（Reviewer / Owner のみ）
+ */
+runs.post('/:runId/approve', requirePermission('run:approve'), async (c) => {
+  const body = await c.req.json<{ reason?: string }>().catch(() => ({ reason: undefined }))
+
+  const result = await transitionTenantRun(createRunLaunchDeps(c.env, c.var.repositories), {
+    tenantId: c.req.param('tenantId')!,
+    runId: c.req.param('runId'),
+    actorId: c.var.userId!,
+    actorRole: c.var.membership!.role,
+    to: 'approved',
+    reason: body.reason,
+  })
+  if (!result.run) {
+    return c.json({ error: result.error }, result.status)
+  }
+  return c.json({ run: result.run })
+})
+
+/**
+ * POST /tenants/:tenantId/runs/:runId/send-back
+ * レビュー待ちの Run を設計へ差し戻す（理由必須）
+ */
+runs.post('/:runId/send-back', requirePermission('run:approve'), async (c) => {
+  const body = await c.req.json<{ reason?: string }>().catch(() => null)
+  if (!body?.reason?.trim()) {
+    return c.json({ error: 'Reason is required to send back a run' }, 400)
+  }
+
+  const tenantId = c.req.param('tenantId')!
+  const run = await c.var.repositories.runs(tenantId).findById(c.req.param('runId'))
+  if (run && run.status !== 'ready_for_review') {
+    return c.json({ error: `Run is not ready for review: ${run.status}` }, 409)
+  }
+
+  const result = await transitionTenantRun(createRunLaunchDeps(c.env, c.var.repositories), {
+    tenantId,
+    runId: c.req.param('runId'),
+    actorId: c.var.userId!,
+    actorRole: c.var.membership!.role,
+    to: 'designing',
+    reason: body.reason,
+  })
+  if (!result.run) {
+    return c.json({ error: result.error }, result.status)
+  }
+  return c.json({ run: result.run })
+})
+
+export default runs
@@ -0,0 +1,47 @@
+/**
+ * Stop Rules API
+ * 停止条件の評価エンドポイント
+ */
+
+import { Hono, type Context } from 'hono'
+import type { AppEnv } from '../env'
+import { requirePermission } from '../middleware/rbac'
+import { createAutoStopDeps, evaluateAndEnforce } from '../services/auto-stop'
+
+// 評価リクエスト
+interface EvaluateRequest {
+  tenantId: string
+  runId: string
+  dryRun?: boolean
+}
+
+const stopRules = new Hono<AppEnv>()
+
+// 権限チェック対象のテナントはリクエストボディから取得
+const tenantIdFromBody = async (c: Context<AppEnv>) =>
+  (await c.req.json<Partial<EvaluateRequest>>().catch(() => null))?.tenantId
+
+/**
+ * POST /stop-rules/evaluate
+ * dryRun=true の場合は停止を実行せず、発火する条件のみ返す
+ */
+stopRules.post('/evaluate', requirePermission('stop_rule:evaluate', tenantIdFromBody), async (c) => {
+  const body = await c.req.json<EvaluateRequest>().catch(() => null)
+  if (!body?.tenantId || !body?.runId) {
+    return c.json({ error: 'tenantId and runId are required' }, 400)
+  }
+
+  const deps = createAutoStopDeps(c.env, c.var.repositories)
+  const run = await deps.getRun(body.tenantId, body.runId)
+  if (!run) {
+    return c.json({ error: 'Run not found' }, 404)
+  }
+
+  const outcome = await evaluateAndEnforce(deps, run, {
+    dryRun: body.dryRun ?? false,
+    source: 'api',
+  })
+  return c.json(outcome)
+})
+
+export default stopRules
@@ -0,0 +1,45 @@
+/**
+ * Tenants API
+ * テナントの作成と参照（/tenants）
+ */
+
+import { Hono } from 'hono'
+import type { AppEnv } from '../env'
+import type { TenantCreateRequest } from '../domain/tenancy'
+import { requireUser } from '../middleware/auth'
+import { requirePermission } from '../middleware/rbac'
+import { createTenantWithOwner } from '../services/tenancy'
+
+const tenants = new Hono<AppEnv>()
+
+/**
+ * POST /tenants
+ * テナントを作成（呼び出し元がオーナーになる）
+ */
+tenants.post('/', requireUser, async (c) => {
+  const body = await c.req.json<Omit<TenantCreateRequest, 'ownerId'>>().catch(() => null)
+  if (!body) {
+    return c.json({ error: 'Invalid request body' }, 400)
+  }
+
+  try {
+    const result = await createTenantWithOwner(c.var.repositories, { ...body, ownerId: c.var.userId! })
+    return c.json(result, 201)
+  } catch (error) {
+    return c.json({ error: error instanceof Error ? error.message : 'Unknown error' }, 400)
+  }
+})
+
+/**
+ * GET /tenants/:tenantId
+ * テナントを取得
+ */
+tenants.get('/:tenantId', requirePermission('tenant:read'), async (c) => {
+  const tenant = await c.var.repositories.tenants().findById(c.req.param('tenantId'))
+  if (!tenant) {
+    return c.json({ error: 'Tenant not found' }, 404)
+  }
+  return c.json({ tenant })
+})
+
+export default tenants
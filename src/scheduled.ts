@@ -0,0 +1,98 @@
+/**
+ * Scheduled Handlers
+ * Cron Triggers（wrangler.toml の triggers.crons と対応）
+ */
+
+import type { Bindings } from './env'
+import { createD1Repositories } from './repositories/d1'
+import type { Repositories } from './repositories/types'
+import { snapshotAuditLogs } from './services/audit'
+import { createAutoStopDeps, runHourlyAutoStop } from './services/auto-stop'
+import { createManualStopDeps, escalateManualStops } from './services/manual-stop'
+
+export const CRON_SCHEDULES = {
+  hourly: '0 * * * *',
+  daily: '0 0 * * *',
+  weekly: '0 9 * * 1',
+} as const
+
+// Cron の処理結果（件数と失敗を呼び出し元に返す）
+export interface ScheduledSummary {
+  cron: string
+  autoStop?: { evaluated: number; paused: number; errors: { runId: string; error: string }[] }
+  manualStop?: { escalated: number; errors: { taskId: string; error: string }[] }
+  auditSnapshots?: { tenants: number; brokenTenantIds: string[] }
+}
+
+/**
+ * Cronイベントを処理
+ */
+export async function handleScheduled(
+  controller: ScheduledController,
+  env: Bindings,
+  _ctx: ExecutionContext,
+  repositories: Repositories = createD1Repositories(env.DB)
+): Promise<ScheduledSummary> {
+  const now = new Date(controller.scheduledTime)
+  const summary: ScheduledSummary = { cron: controller.cron }
+
+  switch (controller.cron) {
+    case CRON_SCHEDULES.hourly: {
+      const outcomes = await runHourlyAutoStop(createAutoStopDeps(env, repositories), now)
+      summary.autoStop = {
+        evaluated: outcomes.length,
+        paused: outcomes.filter((o) => o.decision?.action === 'pause').length,
+        errors: outcomes.flatMap((o) => (o.error ? [{ runId: o.runId, error: o.error }] : [])),
+      }
+
+      const escalations = await escalateManualStops(createManualStopDeps(env, repositories), now)
+      summary.manualStop = {
+        escalated: escalations.filter((e) => !e.error).length,
+        errors: escalations.flatMap((e) => (e.error ? [{ taskId: e.taskId, error: e.error }] : [])),
+      }
+      break
+    }
+
+    case CRON_SCHEDULES.daily: {
+      // 0時に前日分を確定させて保存
+      const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000)
+      const snapshots = await snapshotAuditLogs(env.ASSETS, repositories, yesterday)
+      summary.auditSnapshots = {
+        tenants: snapshots.length,
+        brokenTenantIds: snapshots.filter((s) => !s.verification.valid).map((s) => s.tenantId),
+      }
+      break
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Cron の失敗（自動停止・手動停止の再通知の失敗と、改ざんを検知した監査ログ）の要約（失敗が無ければ null）
+ */
+export function formatScheduledFailures(summary: ScheduledSummary): string | null {
+  const failures = [
+    ...(summary.autoStop?.errors ?? []).map((e) => `auto stop failed for ${e.runId}: ${e.error}`),
+    ...(summary.manualStop?.errors ?? []).map((e) => `manual stop escalation failed for ${e.taskId}: ${e.error}`),
+    ...(summary.auditSnapshots?.brokenTenantIds ?? []).map((id) => `audit log chain is broken for ${id}`),
+  ]
+  return failures.length > 0 ? `Cron ${summary.cron} failed: ${failures.join('; ')}` : null
+}
+
+/**
+ * Cron を処理し、失敗があれば例外にする（Workers のログに残り、Cron の実行が失敗として記録される）
+ */
+export async function runScheduled(
+  controller: ScheduledController,
+  env: Bindings,
+  ctx: ExecutionContext,
+  repositories?: Repositories
+): Promise<ScheduledSummary> {
+  const summary = await handleScheduled(controller, env, ctx, repositories)
+  const failures = formatScheduledFailures(summary)
+  if (failures) {
+    throw new Error(failures)
+  }
+  return summary
+}
@@ -0,0 +1,414 @@
+/**
+ * Approval Service
+ * 承認依頼・チェックリスト・コメント・承認記録と承認ゲートの評価、承認後の内容変更の検知
+ */
+
+import {
+  addApprovalComment,
+  APPROVAL_TARGETS,
+  checkApprovalGate,
+  computeApprovalContentHash,
+  createApproval,
+  createApprovalCompletedNotification,
+  createApprovalInvalidatedNotification,
+  createApprovalRequestedNotification,
+  getRunApprovalContent,
+  invalidateApproval,
+  isVariantApproved,
+  resubmitApproval,
+  setChecklistItem,
+  signOffApproval,
+  type Approval,
+  type ApprovalDecision,
+  type ApprovalGateResult,
+  type ApprovalGateVariant,
+  type ApprovalRequest,
+  type ApprovalTargetType,
+} from '../domain/approval'
+import { getMissingCreativeSizes } from '../domain/creative-variant'
+import type { Run } from '../domain/run'
+import type { Repositories } from '../repositories/types'
+import { recordAudit } from './audit'
+import { assertCopyLintPassed, lintCreativeContent, lintLpContent } from './copy-lint'
+
+// 内容を同期する承認対象（targetId 指定時は一致するものだけ）
+export interface ApprovalContentTarget {
+  targetType: ApprovalTargetType
+  targetId?: string
+}
+
+/**
+ * 通知先（Owner と Reviewer）
+ */
+async function listReviewerRecipients(repositories: Repositories, tenantId: string) {
+  const reviewerIds = await repositories.memberships(tenantId).listUserIdsByRoles(['owner', 'reviewer'])
+  return reviewerIds.map((userId) => ({ type: 'user' as const, target: userId }))
+}
+
+/**
+ * 承認対象の現在の内容（LP・クリエイティブはバリアントの最新版、Run の外にある対象は undefined）
+ */
+async function resolveApprovalContent(
+  repositories: Repositories,
+  run: Run,
+  request: ApprovalRequest
+): Promise<unknown> {
+  if (request.targetType === 'lp' && request.targetId) {
+    const variant = await repositories.lpVariants(run.tenantId).findById(request.targetId)
+    if (!variant || variant.runId !== run.id) {
+      throw new Error('LP variant not found')
+    }
+    return variant.content
+  }
+  if (request.targetType === 'creative' && request.targetId) {
+    const variant = await repositories.creativeVariants(run.tenantId).findById(request.targetId)
+    if (!variant || variant.runId !== run.id) {
+      throw new Error('Creative variant not found')
+    }
+    return variant.content
+  }
+  return getRunApprovalContent(run, request.targetType)
+}
+
+/**
+ * 承認を依頼し、Reviewer と Owner に通知（内容を特定できる対象は内容ハッシュを記録）
+ */
+export async function requestApproval(
+  repositories: Repositories,
+  request: ApprovalRequest,
+  now = new Date()
+): Promise<Approval> {
+  const run = await repositories.runs(request.tenantId).findById(request.runId)
+  if (!run) {
+    throw new Error('Run not found')
+  }
+
+  const content = await resolveApprovalContent(repositories, run, request)
+  const contentHash = content === undefined ? request.contentHash : await computeApprovalContentHash(content)
+  const approval = createApproval({ ...request, contentHash }, now)
+  await repositories.approvals(request.tenantId).create(approval)
+
+  const recipients = await listReviewerRecipients(repositories, request.tenantId)
+  await repositories
+    .notifications(request.tenantId)
+    .create(createApprovalRequestedNotification(approval, recipients))
+
+  await recordAudit(
+    repositories,
+    {
+      tenantId: request.tenantId,
+      actorId: request.requestedBy,
+      action: 'approval.request',
+      targetType: 'approval',
+      targetId: approval.id,
+      after: approval,
+      metadata: { runId: request.runId },
+    },
+    now
+  )
+  return approval
+}
+
+/**
+ * チェックリスト項目を更新（見つからなければ null）
+ */
+export async function updateApprovalChecklist(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  approvalId: string,
+  itemId: string,
+  checked: boolean,
+  actorId: string,
+  now = new Date()
+): Promise<Approval | null> {
+  const approvals = repositories.approvals(tenantId)
+  const approval = await approvals.findById(approvalId)
+  if (!approval || approval.runId !== runId) {
+    return null
+  }
+
+  const updated = setChecklistItem(approval, itemId, checked, actorId, now)
+  await approvals.update(updated)
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId,
+      action: 'approval.checklist',
+      targetType: 'approval',
+      targetId: approval.id,
+      before: approval,
+      after: updated,
+      metadata: { runId: approval.runId, itemId, checked },
+    },
+    now
+  )
+  return updated
+}
+
+/**
+ * コメントを追加（見つからなければ null）
+ */
+export async function commentOnApproval(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  approvalId: string,
+  body: string,
+  actorId: string,
+  now = new Date()
+): Promise<Approval | null> {
+  const approvals = repositories.approvals(tenantId)
+  const approval = await approvals.findById(approvalId)
+  if (!approval || approval.runId !== runId) {
+    return null
+  }
+
+  const updated = addApprovalComment(approval, actorId, body, now)
+  await approvals.update(updated)
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId,
+      action: 'approval.comment',
+      targetType: 'approval',
+      targetId: approval.id,
+      before: approval,
+      after: updated,
+      metadata: { runId: approval.runId },
+    },
+    now
+  )
+  return updated
+}
+
+/**
+ * 承認または差し戻しを記録（見つからなければ null。クリエイティブは必須サイズが揃うまで、
+ * LP・クリエイティブは文言チェックの error が無くなるまで承認できない）
+ */
+export async function signOffTenantApproval(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  approvalId: string,
+  decision: ApprovalDecision,
+  actorId: string,
+  comment?: string,
+  now = new Date()
+): Promise<Approval | null> {
+  const approvals = repositories.approvals(tenantId)
+  const approval = await approvals.findById(approvalId)
+  if (!approval || approval.runId !== runId) {
+    return null
+  }
+
+  if (decision === 'approved' && approval.targetType === 'lp' && approval.targetId) {
+    const variant = await repositories.lpVariants(tenantId).findById(approval.targetId)
+    if (variant) {
+      assertCopyLintPassed(await lintLpContent(repositories, tenantId, runId, variant.content))
+    }
+  }
+  if (decision === 'approved' && approval.targetType === 'creative' && approval.targetId) {
+    const variant = await repositories.creativeVariants(tenantId).findById(approval.targetId)
+    const missing = variant ? getMissingCreativeSizes(variant.content) : []
+    if (missing.length > 0) {
+      throw new Error(`Missing required sizes: ${missing.join(', ')}`)
+    }
+    if (variant) {
+      assertCopyLintPassed(await lintCreativeContent(repositories, tenantId, runId, variant.content))
+    }
+  }
+
+  const signed = signOffApproval(approval, actorId, decision, comment, now)
+  await approvals.update(signed)
+  if (decision === 'approved') {
+    await repositories.notifications(tenantId).create(createApprovalCompletedNotification(signed))
+  }
+
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId,
+      action: decision === 'approved' ? 'approval.approve' : 'approval.reject',
+      targetType: 'approval',
+      targetId: approval.id,
+      before: approval,
+      after: signed,
+      metadata: { runId: approval.runId },
+    },
+    now
+  )
+  return signed
+}
+
+/**
+ * 差し戻された承認を再提出（見つからなければ null）
+ */
+export async function resubmitTenantApproval(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  approvalId: string,
+  actorId: string,
+  now = new Date()
+): Promise<Approval | null> {
+  const approvals = repositories.approvals(tenantId)
+  const approval = await approvals.findById(approvalId)
+  if (!approval || approval.runId !== runId) {
+    return null
+  }
+
+  const resubmitted = resubmitApproval(approval, now)
+  await approvals.update(resubmitted)
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId,
+      action: 'approval.resubmit',
+      targetType: 'approval',
+      targetId: approval.id,
+      before: approval,
+      after: resubmitted,
+      metadata: { runId: approval.runId },
+    },
+    now
+  )
+  return resubmitted
+}
+
+/**
+ * 対象の現在の内容と承認時の内容を比較し、変わっていれば承認待ちへ戻して Reviewer に通知
+ * 戻した承認（差し戻し中の内容更新は含まない）を返す
+ */
+export async function syncApprovalContent(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  target: ApprovalContentTarget,
+  content: unknown,
+  actorId: string,
+  now = new Date()
+): Promise<Approval[]> {
+  const approvals = repositories.approvals(tenantId)
+  const contentHash = await computeApprovalContentHash(content)
+  const targets = (await approvals.listByRun(runId)).filter(
+    (approval) =>
+      approval.targetType === target.targetType &&
+      (target.targetId === undefined || approval.targetId === target.targetId)
+  )
+
+  const invalidated: Approval[] = []
+  for (const approval of targets) {
+    const updated = invalidateApproval(approval, contentHash, now)
+    if (updated === approval) continue
+
+    await approvals.update(updated)
+    if (approval.status === 'rejected') continue
+
+    invalidated.push(updated)
+    await recordAudit(
+      repositories,
+      {
+        tenantId,
+        actorId,
+        action: 'approval.invalidate',
+        targetType: 'approval',
+        targetId: approval.id,
+        before: approval,
+        after: updated,
+        metadata: { runId, reason: 'content_changed' },
+      },
+      now
+    )
+  }
+
+  if (invalidated.length > 0) {
+    const recipients = await listReviewerRecipients(repositories, tenantId)
+    for (const approval of invalidated) {
+      await repositories
+        .notifications(tenantId)
+        .create(createApprovalInvalidatedNotification(approval, actorId, recipients))
+    }
+  }
+  return invalidated
+}
+
+/**
+ * Run が持つ承認対象（停止条件・予算上限・配信先URL）の内容を同期
+ */
+export async function syncRunApprovals(
+  repositories: Repositories,
+  run: Run,
+  actorId: string,
+  now = new Date()
+): Promise<Approval[]> {
+  const invalidated: Approval[] = []
+  for (const targetType of APPROVAL_TARGETS) {
+    const content = getRunApprovalContent(run, targetType)
+    if (content === undefined) continue
+    invalidated.push(
+      ...(await syncApprovalContent(repositories, run.tenantId, run.id, { targetType }, content, actorId, now))
+    )
+  }
+  return invalidated
+}
+
+/**
+ * 承認ゲートで確認する Run の全 LP・クリエイティブバリアント（最新版の内容ハッシュ）
+ */
+export async function listApprovalGateVariants(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string
+): Promise<ApprovalGateVariant[]> {
+  const [lpVariants, creativeVariants] = await Promise.all([
+    repositories.lpVariants(tenantId).listByRun(runId),
+    repositories.creativeVariants(tenantId).listByRun(runId),
+  ])
+  const variants: ApprovalGateVariant[] = []
+  for (const variant of lpVariants) {
+    const contentHash = await computeApprovalContentHash(variant.content)
+    variants.push({ targetType: 'lp', id: variant.id, contentHash })
+  }
+  for (const variant of creativeVariants) {
+    const contentHash = await computeApprovalContentHash(variant.content)
+    variants.push({ targetType: 'creative', id: variant.id, contentHash })
+  }
+  return variants
+}
+
+/**
+ * LP・クリエイティブの版の内容に承認済みの承認があることを確認（無ければ版の承認・公開はできない）
+ */
+export async function assertVariantApproved(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  targetType: ApprovalGateVariant['targetType'],
+  targetId: string,
+  content: unknown
+): Promise<void> {
+  const contentHash = await computeApprovalContentHash(content)
+  const approvals = await repositories.approvals(tenantId).listByRun(runId)
+  if (!isVariantApproved(approvals, { targetType, id: targetId, contentHash })) {
+    throw new Error('Version content has no approved approval')
+  }
+}
+
+/**
+ * Run の承認ゲートを評価
+ */
+export async function evaluateApprovalGate(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string
+): Promise<ApprovalGateResult> {
+  return checkApprovalGate(
+    await repositories.approvals(tenantId).listByRun(runId),
+    await listApprovalGateVariants(repositories, tenantId, runId)
+  )
+}
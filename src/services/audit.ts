@@ -0,0 +1,263 @@
+/**
+ * Audit Service
+ * 監査ログの追記、チェーン検証、R2 への日次スナップショット
+ */
+
+import {
+  AUDIT_EXPORT_MAX_ROWS,
+  createAuditLog,
+  createAuditSnapshot,
+  encodeAuditCursor,
+  encodeAuditTenantsCursor,
+  toAuditCsv,
+  toAuditJsonl,
+  verifyAuditChain,
+  type AuditChainVerification,
+  type AuditExportFormat,
+  type AuditLog,
+  type AuditLogFilter,
+  type AuditLogInput,
+} from '../domain/audit'
+import type { Repositories } from '../repositories/types'
+
+// 同時追記で連番が衝突した場合の再試行回数
+const APPEND_ATTEMPTS = 3
+
+// 検証時の1回の読み込み件数
+const VERIFY_PAGE_SIZE = 1000
+
+// エクスポート時の1回の読み込み件数
+const EXPORT_PAGE_SIZE = 1000
+
+// テナント横断で新しい順（同時刻はテナントID、sequence の順）
+const byNewest = (a: AuditLog, b: AuditLog) =>
+  b.createdAt.localeCompare(a.createdAt) || a.tenantId.localeCompare(b.tenantId) || b.sequence - a.sequence
+
+// 検索結果の1ページ（nextCursor が無ければ最終ページ）
+export interface AuditLogPage {
+  logs: AuditLog[]
+  nextCursor: string | null
+}
+
+// エクスポート結果
+export interface AuditLogExport {
+  body: string
+  count: number
+  contentType: string
+  filename: string
+}
+
+// スナップショットの実行結果
+export interface AuditSnapshotOutcome {
+  tenantId: string
+  key?: string
+  count: number
+  verification: AuditChainVerification
+  error?: string
+}
+
+/**
+ * 監査ログを追記（テナント内の直前のエントリにチェーン）
+ */
+export async function recordAudit(
+  repositories: Repositories,
+  input: AuditLogInput,
+  now = new Date()
+): Promise<AuditLog> {
+  const logs = repositories.auditLogs(input.tenantId)
+
+  for (let attempt = 1; ; attempt++) {
+    const log = await createAuditLog(input, await logs.findLatest(), now)
+    try {
+      return await logs.append(log)
+    } catch (error) {
+      if (attempt >= APPEND_ATTEMPTS) {
+        throw error
+      }
+    }
+  }
+}
+
+/**
+ * テナントの監査ログ全体のチェーンを検証
+ */
+export async function verifyTenantAuditLog(
+  repositories: Repositories,
+  tenantId: string
+): Promise<AuditChainVerification> {
+  const logs = repositories.auditLogs(tenantId)
+  let anchor: AuditLog | null = null
+  let checked = 0
+
+  for (;;) {
+    const page = await logs.listAfter(anchor?.sequence ?? 0, VERIFY_PAGE_SIZE)
+    const result = await verifyAuditChain(page, anchor)
+    checked += result.checked
+    if (!result.valid) {
+      return { ...result, checked }
+    }
+    if (page.length < VERIFY_PAGE_SIZE) {
+      return { valid: true, checked }
+    }
+    anchor = page[page.length - 1]
+  }
+}
+
+/**
+ * 監査ログを検索（新しい順、before は前ページの cursor を解析した sequence）
+ */
+export async function searchAuditLogs(
+  repositories: Repositories,
+  tenantId: string,
+  filter: AuditLogFilter,
+  page: { before?: number; limit: number }
+): Promise<AuditLogPage> {
+  const rows = await repositories.auditLogs(tenantId).search({ ...filter, ...page, limit: page.limit + 1 })
+  const logs = rows.slice(0, page.limit)
+  const hasMore = rows.length > page.limit
+
+  return { logs, nextCursor: hasMore ? encodeAuditCursor(logs[logs.length - 1].sequence) : null }
+}
+
+/**
+ * 複数テナントの監査ログを横断検索（新しい順、positions は前ページの cursor を解析したテナントごとの sequence）
+ */
+export async function searchAuditLogsAcrossTenants(
+  repositories: Repositories,
+  tenantIds: string[],
+  filter: AuditLogFilter,
+  page: { positions?: Record<string, number>; limit: number }
+): Promise<AuditLogPage> {
+  const positions = page.positions ?? {}
+  const pages = await Promise.all(
+    tenantIds.map((tenantId) =>
+      repositories.auditLogs(tenantId).search({ ...filter, before: positions[tenantId], limit: page.limit + 1 })
+    )
+  )
+  const rows = pages.flat().sort(byNewest)
+  const logs = rows.slice(0, page.limit)
+  if (rows.length <= page.limit) {
+    return { logs, nextCursor: null }
+  }
+
+  const next = { ...positions }
+  for (const log of logs) {
+    next[log.tenantId] = Math.min(next[log.tenantId] ?? log.sequence, log.sequence)
+  }
+  return { logs, nextCursor: encodeAuditTenantsCursor(next) }
+}
+
+/**
+ * 条件に一致する監査ログ全件を CSV / JSONL に変換（sequence 昇順）
+ */
+export async function exportAuditLogs(
+  repositories: Repositories,
+  tenantId: string,
+  filter: AuditLogFilter,
+  format: AuditExportFormat,
+  now = new Date()
+): Promise<AuditLogExport> {
+  const logs = await collectAuditLogs(repositories, tenantId, filter, AUDIT_EXPORT_MAX_ROWS)
+
+  logs.reverse()
+  return toAuditExport(logs, format, `audit-logs-${tenantId}-${now.toISOString().slice(0, 10)}.${format}`)
+}
+
+/**
+ * 複数テナントの条件に一致する監査ログ全件を CSV / JSONL に変換（日時昇順）
+ */
+export async function exportAuditLogsAcrossTenants(
+  repositories: Repositories,
+  tenantIds: string[],
+  filter: AuditLogFilter,
+  format: AuditExportFormat,
+  now = new Date()
+): Promise<AuditLogExport> {
+  const logs: AuditLog[] = []
+  for (const tenantId of tenantIds) {
+    logs.push(...(await collectAuditLogs(repositories, tenantId, filter, AUDIT_EXPORT_MAX_ROWS - logs.length)))
+  }
+
+  logs.sort(byNewest).reverse()
+  return toAuditExport(logs, format, `audit-logs-${now.toISOString().slice(0, 10)}.${format}`)
+}
+
+/**
+ * 条件に一致するテナントの監査ログを新しい順に全件読み込み（maxRows を超えたらエラー）
+ */
+async function collectAuditLogs(
+  repositories: Repositories,
+  tenantId: string,
+  filter: AuditLogFilter,
+  maxRows: number
+): Promise<AuditLog[]> {
+  const store = repositories.auditLogs(tenantId)
+  const logs: AuditLog[] = []
+
+  for (let before: number | undefined; ; ) {
+    const page = await store.search({ ...filter, before, limit: EXPORT_PAGE_SIZE })
+    logs.push(...page)
+    if (logs.length > maxRows) {
+      throw new Error(`Export is limited to ${AUDIT_EXPORT_MAX_ROWS} entries, narrow the date range`)
+    }
+    if (page.length < EXPORT_PAGE_SIZE) return logs
+    before = page[page.length - 1].sequence
+  }
+}
+
+function toAuditExport(logs: AuditLog[], format: AuditExportFormat, filename: string): AuditLogExport {
+  return format === 'csv'
+    ? { body: toAuditCsv(logs), count: logs.length, contentType: 'text/csv; charset=utf-8', filename }
+    : { body: toAuditJsonl(logs), count: logs.length, contentType: 'application/x-ndjson', filename }
+}
+
+/**
+ * 指定日（UTC）の監査ログ区間をテナントごとに R2 へ保存（日次Cron）
+ */
+export async function snapshotAuditLogs(
+  bucket: R2Bucket,
+  repositories: Repositories,
+  day: Date
+): Promise<AuditSnapshotOutcome[]> {
+  const date = day.toISOString().slice(0, 10)
+  const from = `${date}T00:00:00.000Z`
+  const to = new Date(new Date(from).getTime() + 24 * 60 * 60 * 1000).toISOString()
+
+  const tenantIds = await repositories.listAuditLogTenantIds(from, to)
+  const outcomes: AuditSnapshotOutcome[] = []
+
+  for (const tenantId of tenantIds) {
+    try {
+      const store = repositories.auditLogs(tenantId)
+      const logs = await store.listBetween(from, to)
+      const anchor = logs.length > 0 ? await store.findBySequence(logs[0].sequence - 1) : null
+      const verification = await verifyAuditChain(logs, anchor)
+
+      const snapshot = createAuditSnapshot(tenantId, date, logs)
+      if (!snapshot) {
+        outcomes.push({ tenantId, count: 0, verification })
+        continue
+      }
+
+      await bucket.put(snapshot.key, snapshot.body, {
+        httpMetadata: { contentType: 'application/x-ndjson' },
+        customMetadata: {
+          firstSequence: String(snapshot.firstSequence),
+          lastSequence: String(snapshot.lastSequence),
+          lastHash: snapshot.lastHash,
+          verified: String(verification.valid),
+        },
+      })
+      outcomes.push({ tenantId, key: snapshot.key, count: snapshot.count, verification })
+    } catch (error) {
+      outcomes.push({
+        tenantId,
+        count: 0,
+        verification: { valid: false, checked: 0 },
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return outcomes
+}
@@ -0,0 +1,274 @@
+/**
+ * Auth Service
+ * マジックリンクのログイン、セッション管理、TOTP MFA の登録と検証
+ */
+
+import type { Bindings } from '../env'
+import {
+  buildOtpauthUri,
+  createSession,
+  findTotpStep,
+  generateAuthToken,
+  generateTotpSecret,
+  hashAuthToken,
+  isMfaEnabled,
+  isMfaLocked,
+  isSessionExpired,
+  MAGIC_LINK_TTL_SECONDS,
+  MFA_LOCKOUT_SECONDS,
+  normalizeEmail,
+  recordMfaFailure,
+  SESSION_TTL_SECONDS,
+  type MagicLinkRecord,
+  type MfaAttempts,
+  type Session,
+  type User,
+} from '../domain/auth'
+import { createD1Repositories } from '../repositories/d1'
+import type { Repositories } from '../repositories/types'
+
+// 認証の依存関係
+export interface AuthDeps {
+  findUserByEmail(email: string): Promise<User | null>
+  findUser(userId: string): Promise<User | null>
+  updateUser(user: User): Promise<void>
+  saveMagicLink(tokenHash: string, record: MagicLinkRecord): Promise<void>
+  consumeMagicLink(tokenHash: string): Promise<MagicLinkRecord | null>
+  saveSession(tokenHash: string, session: Session): Promise<void>
+  findSession(tokenHash: string): Promise<Session | null>
+  deleteSession(tokenHash: string): Promise<void>
+  getMfaAttempts(userId: string): Promise<MfaAttempts | null>
+  saveMfaAttempts(userId: string, attempts: MfaAttempts): Promise<void>
+  clearMfaAttempts(userId: string): Promise<void>
+  sendMagicLink(email: string, url: string): Promise<void>
+}
+
+// マジックリンクのメール送信ジョブ
+export interface MagicLinkJob {
+  type: 'magic_link_email'
+  email: string
+  url: string
+}
+
+// ログイン結果（sessionToken は Cookie にのみ設定する）
+export interface LoginResult {
+  user: User
+  session: Session
+  sessionToken: string
+}
+
+// MFA のロック中に返すエラー
+export const MFA_LOCKED_ERROR = 'Too many MFA attempts, try again later'
+
+// MFA 登録開始の結果
+export interface MfaEnrollment {
+  secret: string
+  otpauthUri: string
+}
+
+/**
+ * マジックリンクを発行して送信（未登録のメールには何もしない。ユーザーは招待時に作成される）
+ */
+export async function requestMagicLink(
+  deps: AuthDeps,
+  email: string,
+  verifyUrl: string,
+  now = new Date()
+): Promise<void> {
+  const user = await deps.findUserByEmail(normalizeEmail(email))
+  if (!user) {
+    return
+  }
+
+  const token = generateAuthToken()
+  await deps.saveMagicLink(await hashAuthToken(token), {
+    userId: user.id,
+    email: user.email,
+    createdAt: now.toISOString(),
+  })
+
+  const url = new URL(verifyUrl)
+  url.searchParams.set('token', token)
+  await deps.sendMagicLink(user.email, url.toString())
+}
+
+/**
+ * マジックリンクを検証してセッションを開始（無効なら null、リンクは一度きり）
+ */
+export async function verifyMagicLink(
+  deps: AuthDeps,
+  token: string,
+  now = new Date()
+): Promise<LoginResult | null> {
+  const record = await deps.consumeMagicLink(await hashAuthToken(token))
+  if (!record) {
+    return null
+  }
+
+  const user = await deps.findUser(record.userId)
+  if (!user) {
+    return null
+  }
+
+  const session = createSession(user, now)
+  const sessionToken = generateAuthToken()
+  await deps.saveSession(await hashAuthToken(sessionToken), session)
+
+  return { user, session, sessionToken }
+}
+
+/**
+ * セッショントークンからセッションを取得（期限切れなら null）
+ */
+export async function resolveSession(
+  deps: AuthDeps,
+  sessionToken: string,
+  now = new Date()
+): Promise<Session | null> {
+  const session = await deps.findSession(await hashAuthToken(sessionToken))
+  if (!session || isSessionExpired(session, now)) {
+    return null
+  }
+  return session
+}
+
+/**
+ * ログアウト
+ */
+export async function logout(deps: AuthDeps, sessionToken: string): Promise<void> {
+  await deps.deleteSession(await hashAuthToken(sessionToken))
+}
+
+/**
+ * MFA の登録を開始（シークレットを発行、初回コード検証で有効化）
+ */
+export async function enrollMfa(deps: AuthDeps, session: Session, now = new Date()): Promise<MfaEnrollment> {
+  const user = await deps.findUser(session.userId)
+  if (!user) {
+    throw new Error('User not found')
+  }
+  if (isMfaEnabled(user)) {
+    throw new Error('MFA is already enabled')
+  }
+
+  const secret = generateTotpSecret()
+  await deps.updateUser({ ...user, mfaSecret: secret, updatedAt: now.toISOString() })
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email) }
+}
+
+/**
+ * TOTP コードを検証してセッションを MFA 済みにする（登録中なら有効化）
+ * 連続して失敗するとロックし、一度受け付けた時間ステップ以前のコードは拒否する
+ */
+export async function verifyMfa(
+  deps: AuthDeps,
+  sessionToken: string,
+  session: Session,
+  code: string,
+  now = new Date()
+): Promise<Session> {
+  const user = await deps.findUser(session.userId)
+  if (!user?.mfaSecret) {
+    throw new Error('MFA is not enrolled')
+  }
+
+  const attempts = await deps.getMfaAttempts(user.id)
+  if (isMfaLocked(attempts, now)) {
+    throw new Error(MFA_LOCKED_ERROR)
+  }
+  const step = await findTotpStep(user.mfaSecret, code, now)
+  if (step === null || (user.mfaLastUsedStep !== undefined && step <= user.mfaLastUsedStep)) {
+    await deps.saveMfaAttempts(user.id, recordMfaFailure(attempts, now))
+    throw new Error('Invalid MFA code')
+  }
+
+  if (attempts) {
+    await deps.clearMfaAttempts(user.id)
+  }
+  await deps.updateUser({
+    ...user,
+    mfaEnabledAt: user.mfaEnabledAt ?? now.toISOString(),
+    mfaLastUsedStep: step,
+    updatedAt: now.toISOString(),
+  })
+
+  const verified: Session = { ...session, mfaVerified: true }
+  await deps.saveSession(await hashAuthToken(sessionToken), verified)
+  return verified
+}
+
+/**
+ * 認証の依存関係を作成（マジックリンクとセッションは KV、ユーザーは D1）
+ */
+export function createAuthDeps(
+  env: Bindings,
+  repositories: Repositories = createD1Repositories(env.DB)
+): AuthDeps {
+  const magicLinkKey = (tokenHash: string) => `auth:magic:${tokenHash}`
+  const sessionKey = (tokenHash: string) => `auth:session:${tokenHash}`
+  const mfaAttemptsKey = (userId: string) => `auth:mfa-attempts:${userId}`
+
+  return {
+    findUserByEmail(email) {
+      return repositories.users().findByEmail(email)
+    },
+
+    findUser(userId) {
+      return repositories.users().findById(userId)
+    },
+
+    async updateUser(user) {
+      await repositories.users().update(user)
+    },
+
+    async saveMagicLink(tokenHash, record) {
+      await env.CACHE.put(magicLinkKey(tokenHash), JSON.stringify(record), {
+        expirationTtl: MAGIC_LINK_TTL_SECONDS,
+      })
+    },
+
+    async consumeMagicLink(tokenHash) {
+      const record = await env.CACHE.get<MagicLinkRecord>(magicLinkKey(tokenHash), 'json')
+      if (record) {
+        await env.CACHE.delete(magicLinkKey(tokenHash))
+      }
+      return record
+    },
+
+    async saveSession(tokenHash, session) {
+      const remaining = Math.floor((new Date(session.expiresAt).getTime() - Date.now()) / 1000)
+      await env.CACHE.put(sessionKey(tokenHash), JSON.stringify(session), {
+        // KV の最小TTLは60秒
+        expirationTtl: Math.max(60, Math.min(remaining, SESSION_TTL_SECONDS)),
+      })
+    },
+
+    findSession(tokenHash) {
+      return env.CACHE.get<Session>(sessionKey(tokenHash), 'json')
+    },
+
+    async deleteSession(tokenHash) {
+      await env.CACHE.delete(sessionKey(tokenHash))
+    },
+
+    getMfaAttempts(userId) {
+      return env.CACHE.get<MfaAttempts>(mfaAttemptsKey(userId), 'json')
+    },
+
+    async saveMfaAttempts(userId, attempts) {
+      await env.CACHE.put(mfaAttemptsKey(userId), JSON.stringify(attempts), {
+        expirationTtl: MFA_LOCKOUT_SECONDS,
+      })
+    },
+
+    async clearMfaAttempts(userId) {
+      await env.CACHE.delete(mfaAttemptsKey(userId))
+    },
+
+    async sendMagicLink(email, url) {
+      const job: MagicLinkJob = { type: 'magic_link_email', email, url }
+      await env.JOBS_QUEUE.send(job)
+    },
+  }
+}
@@ -0,0 +1,496 @@
+/**
+ * Auto Stop Service
+ * 停止条件の評価と停止実行（API/Cron共通）
+ */
+
+import type { Bindings } from '../env'
+import type { AuditLogInput } from '../domain/audit'
+import {
+  createManualStopNotifications,
+  createManualStopTask,
+  escalateManualStopTask,
+  type ManualStopTask,
+} from '../domain/manual-stop'
+import type { HourlyMetrics, DailyMetrics } from '../domain/measurement'
+import {
+  calculateRetryDelay,
+  isRetryableError,
+  updateEntityStatus,
+  type MetaAdSet,
+  type MetaApiError,
+  type MetaCampaign,
+} from '../domain/meta-api'
+import {
+  applyTemplate,
+  createNotification,
+  getDefaultTemplate,
+  type Notification,
+  type NotificationRecipient,
+} from '../domain/notification'
+import { applyRunLifecycle, type Run } from '../domain/run'
+import {
+  createStopEvent,
+  type EntityPauseFailure,
+  type PausedEntity,
+  type StopEvent,
+  type StopEventSource,
+} from '../domain/stop-event'
+import {
+  evaluateStopRules,
+  formatStopCondition,
+  type HealthCheckResult,
+  type StopDecision,
+} from '../domain/stop-rules'
+import { createRunStateClient, type RunStateClient } from '../durable-objects/run-state'
+import { createD1Repositories } from '../repositories/d1'
+import type { Repositories } from '../repositories/types'
+import { recordAudit } from './audit'
+
+// 自動停止を実行するシステムアクター
+export const AUTO_STOP_ACTOR_ID = 'system:auto-stop'
+
+// 評価対象とする時間単位メトリクスの期間
+const HOURLY_LOOKBACK_HOURS = 72
+
+// 一時的なエラー（レート制限・通信障害）で停止APIを試す回数と、待機時間の上限
+const PAUSE_ATTEMPTS = 3
+const PAUSE_RETRY_MAX_DELAY_MS = 10000
+
+// 自動停止の依存関係
+export interface AutoStopDeps {
+  listRunningRuns(): Promise<Run[]>
+  getRun(tenantId: string, runId: string): Promise<Run | null>
+  saveRun(run: Run): Promise<void>
+  listHourlyMetrics(tenantId: string, runId: string, since: string): Promise<HourlyMetrics[]>
+  listDailyMetrics(tenantId: string, runId: string): Promise<DailyMetrics[]>
+  listMetaEntities(
+    tenantId: string,
+    runId: string
+  ): Promise<{ campaigns: MetaCampaign[]; adSets: MetaAdSet[] }>
+  saveMetaEntityStatus(tenantId: string, entityId: string, status: MetaCampaign['status']): Promise<void>
+  getMetaAccessToken(tenantId: string): Promise<string | null>
+  listNotificationRecipients(tenantId: string): Promise<NotificationRecipient[]>
+  saveNotification(notification: Notification): Promise<void>
+  saveStopEvent(event: StopEvent): Promise<void>
+  saveManualStopTask(task: ManualStopTask): Promise<void>
+  findPendingManualStopTask(tenantId: string, runId: string): Promise<ManualStopTask | null>
+  recordAudit(input: AuditLogInput): Promise<void>
+  runState(runId: string): RunStateClient
+  sleep(ms: number): Promise<void>
+}
+
+// 自動停止の実行結果
+export interface AutoStopOutcome {
+  runId: string
+  tenantId: string
+  dryRun: boolean
+  decision?: StopDecision
+  skipped?: string
+  pausedEntityIds: string[]
+  failedEntities: EntityPauseFailure[]
+  runStatus?: Run['status']
+  notificationId?: string
+  stopEventId?: string
+  manualStopTaskId?: string
+  error?: string
+}
+
+/**
+ * Runの停止条件を評価（副作用なし）
+ */
+export async function evaluateRun(
+  deps: AutoStopDeps,
+  run: Run,
+  now = new Date()
+): Promise<StopDecision> {
+  const since = new Date(now.getTime() - HOURLY_LOOKBACK_HOURS * 60 * 60 * 1000).toISOString()
+
+  const [hourlyMetrics, dailyMetrics, healthChecks] = await Promise.all([
+    deps.listHourlyMetrics(run.tenantId, run.id, since),
+    deps.listDailyMetrics(run.tenantId, run.id),
+    deps
+      .runState(run.id)
+      .listHealthChecks()
+      .then((res) => (res.ok ? res.data : ([] as HealthCheckResult[]))),
+  ])
+
+  return evaluateStopRules(run.stopRules, {
+    runId: run.id,
+    hourlyMetrics,
+    dailyMetrics,
+    healthChecks,
+    runStartedAt: run.startedAt,
+    now,
+  })
+}
+
+/**
+ * 配信中のMetaエンティティを一時停止
+ */
+export async function pauseMetaEntities(
+  deps: AutoStopDeps,
+  run: Run
+): Promise<{ pausedEntities: PausedEntity[]; failedEntities: EntityPauseFailure[] }> {
+  const { campaigns, adSets } = await deps.listMetaEntities(run.tenantId, run.id)
+  const targets = [
+    ...campaigns.map((e) => ({ entity: e, entityType: 'campaign' as const })),
+    ...adSets.map((e) => ({ entity: e, entityType: 'adset' as const })),
+  ].filter(({ entity }) => entity.status === 'ACTIVE')
+
+  const pausedEntities: PausedEntity[] = []
+  const failedEntities: EntityPauseFailure[] = []
+  const accessToken = await deps.getMetaAccessToken(run.tenantId)
+  const runState = deps.runState(run.id)
+
+  for (const { entity, entityType } of targets) {
+    const fail = (error: MetaApiError) =>
+      failedEntities.push({ entityId: entity.id, entityType, metaId: entity.metaId, error })
+
+    if (!entity.metaId || !accessToken) {
+      fail({
+        code: -1,
+        type: 'ConfigurationError',
+        message: !entity.metaId ? 'Entity is not synced with Meta' : 'No active Meta connection',
+        isTransient: false,
+      })
+      continue
+    }
+
+    const error = await pauseWithRetry(deps, runState, accessToken, entity.metaId)
+    if (error) {
+      fail(error)
+      continue
+    }
+
+    await deps.saveMetaEntityStatus(run.tenantId, entity.id, 'PAUSED')
+    pausedEntities.push({ entityId: entity.id, entityType, metaId: entity.metaId })
+  }
+
+  return { pausedEntities, failedEntities }
+}
+
+/**
+ * 停止APIを呼び出し、一時的なエラーはバックオフして再試行（最後のエラーを返す。成功なら null）
+ */
+async function pauseWithRetry(
+  deps: AutoStopDeps,
+  runState: RunStateClient,
+  accessToken: string,
+  metaId: string
+): Promise<MetaApiError | null> {
+  let error: MetaApiError | null = null
+  let retryAfterMs = 0
+
+  for (let attempt = 0; attempt < PAUSE_ATTEMPTS; attempt++) {
+    if (attempt > 0) {
+      await deps.sleep(Math.min(Math.max(calculateRetryDelay(attempt - 1), retryAfterMs), PAUSE_RETRY_MAX_DELAY_MS))
+    }
+
+    const quota = await runState.consumeMetaQuota()
+    if (!quota.ok) {
+      retryAfterMs = quota.data.retryAfterMs
+      error = {
+        code: 17,
+        type: 'RateLimited',
+        message: `Run rate limit exceeded, retry after ${retryAfterMs}ms`,
+        isTransient: true,
+      }
+      continue
+    }
+    retryAfterMs = 0
+
+    const result = await updateEntityStatus(accessToken, metaId, 'PAUSED')
+    if (result.success) {
+      return null
+    }
+    error = result.error!
+    if (!isRetryableError(error)) {
+      break
+    }
+  }
+
+  return error
+}
+
+/**
+ * 自動停止通知を作成
+ */
+export function createAutoStopNotification(
+  run: Run,
+  decision: StopDecision,
+  recipients: NotificationRecipient[],
+  failedEntities: EntityPauseFailure[]
+): Notification {
+  const template = getDefaultTemplate('auto_stop_triggered', 'in_app')
+  const variables = {
+    runName: run.name,
+    condition: formatStopCondition(decision),
+  }
+
+  return createNotification(
+    run.tenantId,
+    'auto_stop_triggered',
+    'in_app',
+    recipients,
+    applyTemplate(template.subject, variables),
+    applyTemplate(template.body, variables),
+    {
+      data: {
+        runId: run.id,
+        reason: decision.reason,
+        ruleId: decision.triggeredRule?.ruleId,
+        ruleType: decision.triggeredRule?.ruleType,
+        threshold: decision.triggeredRule?.threshold,
+        observedValue: decision.triggeredRule?.observedValue,
+        failedEntityIds: failedEntities.map((f) => f.entityId).join(','),
+      },
+    }
+  )
+}
+
+/**
+ * 停止条件を評価し、必要なら停止を実行
+ */
+export async function evaluateAndEnforce(
+  deps: AutoStopDeps,
+  run: Run,
+  options: { dryRun: boolean; source: StopEventSource; now?: Date }
+): Promise<AutoStopOutcome> {
+  const outcome: AutoStopOutcome = {
+    runId: run.id,
+    tenantId: run.tenantId,
+    dryRun: options.dryRun,
+    pausedEntityIds: [],
+    failedEntities: [],
+    runStatus: run.status,
+  }
+
+  if (options.dryRun) {
+    outcome.decision = await evaluateRun(deps, run, options.now)
+    return outcome
+  }
+
+  if (run.status !== 'running') {
+    outcome.decision = await evaluateRun(deps, run, options.now)
+    outcome.skipped = `Run is not running (${run.status})`
+    return outcome
+  }
+
+  // 手動停止の完了確認待ちの間は、確認時に Run を停止するため重ねて停止しない
+  const pendingTask = await deps.findPendingManualStopTask(run.tenantId, run.id)
+  if (pendingTask) {
+    outcome.skipped = `Manual stop is pending (${pendingTask.id})`
+    return outcome
+  }
+
+  const runState = deps.runState(run.id)
+  const lease = await runState.acquireLease(AUTO_STOP_ACTOR_ID, 'auto_stop_evaluation')
+  if (!lease.ok || !lease.data.lease) {
+    outcome.skipped = `Run is locked by ${lease.data.heldBy}`
+    return outcome
+  }
+  const leaseId = lease.data.lease.id
+
+  try {
+    const decision = await evaluateRun(deps, run, options.now)
+    outcome.decision = decision
+
+    if (decision.action !== 'pause') {
+      return outcome
+    }
+
+    const paused = await pauseMetaEntities(deps, run)
+    outcome.pausedEntityIds = paused.pausedEntities.map((p) => p.entityId)
+    outcome.failedEntities = paused.failedEntities
+
+    // 配信が止まったことを確認できるまで Run は running のまま（手動停止の確認時に停止する）
+    if (paused.failedEntities.length === 0) {
+      const transitioned = await pauseRunState(deps, run, formatStopCondition(decision), leaseId)
+      if (transitioned.ok) {
+        outcome.runStatus = transitioned.run.status
+      } else {
+        outcome.error = transitioned.error
+      }
+    }
+
+    // 停止理由と時刻をRunログとして保存
+    const stopEvent = createStopEvent(
+      run,
+      decision,
+      options.source,
+      paused.pausedEntities,
+      paused.failedEntities,
+      outcome.runStatus
+    )
+    await deps.saveStopEvent(stopEvent)
+    outcome.stopEventId = stopEvent.id
+    await deps.recordAudit({
+      tenantId: run.tenantId,
+      actorId: AUTO_STOP_ACTOR_ID,
+      action: 'run.auto_stop',
+      targetType: 'run',
+      targetId: run.id,
+      before: { status: run.status },
+      after: { status: outcome.runStatus },
+      metadata: {
+        reason: stopEvent.reason,
+        condition: stopEvent.condition,
+        stoppedAt: stopEvent.occurredAt,
+        source: options.source,
+        stopEventId: stopEvent.id,
+        pauseResult: stopEvent.pauseResult,
+      },
+    })
+
+    const recipients = await deps.listNotificationRecipients(run.tenantId)
+    const notification = createAutoStopNotification(run, decision, recipients, outcome.failedEntities)
+    await deps.saveNotification(notification)
+    outcome.notificationId = notification.id
+
+    // API停止できなかった広告は、確認されるまで手動停止を依頼し続ける
+    if (paused.failedEntities.length > 0) {
+      const now = options.now ?? new Date()
+      const task = escalateManualStopTask(createManualStopTask(stopEvent, now), now)
+      await deps.saveManualStopTask(task)
+      for (const n of createManualStopNotifications(task, run.name, recipients)) {
+        await deps.saveNotification(n)
+      }
+      outcome.manualStopTaskId = task.id
+    }
+
+    return outcome
+  } finally {
+    await runState.releaseLease(leaseId)
+  }
+}
+
+/**
+ * Durable Object と D1 の Run を停止中にする（D1 には最新の Run へ遷移後の状態だけを反映し、設定は戻さない）
+ */
+export async function pauseRunState(
+  deps: Pick<AutoStopDeps, 'getRun' | 'saveRun' | 'runState'>,
+  run: Run,
+  reason: string,
+  leaseId?: string
+): Promise<{ ok: true; run: Run } | { ok: false; error: string }> {
+  const runState = deps.runState(run.id)
+  await runState.initRun(run)
+
+  const transitioned = await runState.transition(
+    { to: 'paused', actorId: AUTO_STOP_ACTOR_ID, actorRole: 'operator', reason },
+    leaseId
+  )
+  if (!transitioned.ok) {
+    return { ok: false, error: (transitioned.data as { error: string }).error }
+  }
+
+  const latest = (await deps.getRun(run.tenantId, run.id)) ?? run
+  const updated = applyRunLifecycle(latest, transitioned.data as Run)
+  await deps.saveRun(updated)
+  return { ok: true, run: updated }
+}
+
+/**
+ * 配信中の全Runを評価（毎時Cron）
+ */
+export async function runHourlyAutoStop(
+  deps: AutoStopDeps,
+  now = new Date()
+): Promise<AutoStopOutcome[]> {
+  const runs = await deps.listRunningRuns()
+  const outcomes: AutoStopOutcome[] = []
+
+  for (const run of runs) {
+    try {
+      outcomes.push(await evaluateAndEnforce(deps, run, { dryRun: false, source: 'cron', now }))
+    } catch (error) {
+      outcomes.push({
+        runId: run.id,
+        tenantId: run.tenantId,
+        dryRun: false,
+        pausedEntityIds: [],
+        failedEntities: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return outcomes
+}
+
+/**
+ * リポジトリ/Durable Objectを用いた依存関係を作成
+ */
+export function createAutoStopDeps(
+  env: Bindings,
+  repositories: Repositories = createD1Repositories(env.DB)
+): AutoStopDeps {
+  return {
+    listRunningRuns() {
+      return repositories.listRunningRuns()
+    },
+
+    getRun(tenantId, runId) {
+      return repositories.runs(tenantId).findById(runId)
+    },
+
+    async saveRun(run) {
+      await repositories.runs(run.tenantId).update(run)
+    },
+
+    listHourlyMetrics(tenantId, runId, since) {
+      return repositories.metrics(tenantId).listHourly(runId, since)
+    },
+
+    listDailyMetrics(tenantId, runId) {
+      return repositories.metrics(tenantId).listDaily(runId)
+    },
+
+    listMetaEntities(tenantId, runId) {
+      return repositories.metaEntities(tenantId).listByRun(runId)
+    },
+
+    saveMetaEntityStatus(tenantId, entityId, status) {
+      return repositories.metaEntities(tenantId).updateStatus(entityId, status)
+    },
+
+    async getMetaAccessToken(tenantId) {
+      const connection = await repositories.metaConnections(tenantId).findActive()
+      return connection?.token.accessToken || null
+    },
+
+    async listNotificationRecipients(tenantId) {
+      const userIds = await repositories.memberships(tenantId).listUserIdsByRoles(['owner', 'operator'])
+      return userIds.map((userId) => ({ type: 'user' as const, target: userId }))
+    },
+
+    async saveNotification(notification) {
+      await repositories.notifications(notification.tenantId).create(notification)
+    },
+
+    async saveStopEvent(event) {
+      await repositories.stopEvents(event.tenantId).create(event)
+    },
+
+    async saveManualStopTask(task) {
+      await repositories.manualStopTasks(task.tenantId).create(task)
+    },
+
+    async findPendingManualStopTask(tenantId, runId) {
+      const tasks = await repositories.manualStopTasks(tenantId).list('pending')
+      return tasks.find((task) => task.runId === runId) ?? null
+    },
+
+    async recordAudit(input) {
+      await recordAudit(repositories, input)
+    },
+
+    runState(runId) {
+      return createRunStateClient(env.RUN_STATE, runId)
+    },
+
+    sleep(ms) {
+      return new Promise((resolve) => setTimeout(resolve, ms))
+    },
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Copy Lint Service
+ * プロジェクトの禁則表現を読み込んで LP・クリエイティブの版を検査し、error があれば承認を止める
+ */
+
+import {
+  buildCopyLintRules,
+  extractCreativeTexts,
+  extractLpTexts,
+  formatCopyLintErrors,
+  lintCopy,
+  type CopyLintResult,
+  type CopyLintRule,
+} from '../domain/copy-lint'
+import type { CreativeContent } from '../domain/creative-variant'
+import type { LpContent } from '../domain/lp-variant'
+import type { Repositories } from '../repositories/types'
+
+// 検査に使うプロジェクトの設定（ルールと、検査しない注意文テンプレート）
+export interface CopyLintContext {
+  rules: CopyLintRule[]
+  disclaimers: string[]
+}
+
+// 検査結果（対象の版）
+export interface CopyLintReport extends CopyLintResult {
+  variantId: string
+  version: number
+}
+
+/**
+ * Run のプロジェクトの禁則表現を含むルールと注意文テンプレート（プロジェクトが無ければ組み込みルールのみ）
+ */
+export async function loadCopyLintContext(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string
+): Promise<CopyLintContext> {
+  const run = await repositories.runs(tenantId).findById(runId)
+  const project = run ? await repositories.projects(tenantId).findById(run.projectId) : null
+  return {
+    rules: buildCopyLintRules(project?.bannedExpressions ?? []),
+    disclaimers: (project?.disclaimerTemplates ?? []).map((template) => template.text),
+  }
+}
+
+/**
+ * LP の内容を検査
+ */
+export async function lintLpContent(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  content: LpContent
+): Promise<CopyLintResult> {
+  const { rules, disclaimers } = await loadCopyLintContext(repositories, tenantId, runId)
+  return lintCopy(extractLpTexts(content), rules, disclaimers)
+}
+
+/**
+ * クリエイティブの内容を検査
+ */
+export async function lintCreativeContent(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  content: CreativeContent
+): Promise<CopyLintResult> {
+  const { rules, disclaimers } = await loadCopyLintContext(repositories, tenantId, runId)
+  return lintCopy(extractCreativeTexts(content), rules, disclaimers)
+}
+
+/**
+ * error があれば承認を止める
+ */
+export function assertCopyLintPassed(result: CopyLintResult): void {
+  if (!result.passed) {
+    throw new Error(formatCopyLintErrors(result))
+  }
+}
+
+/**
+ * LP バリアントの版を検査（version を省略すると最新版。見つからなければ null）
+ */
+export async function lintTenantLpVariant(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  version?: number
+): Promise<CopyLintReport | null> {
+  const variants = repositories.lpVariants(tenantId)
+  const variant = await variants.findById(variantId)
+  if (!variant || variant.runId !== runId) {
+    return null
+  }
+  const target = await variants.findVersion(variantId, version ?? variant.version)
+  if (!target) {
+    return null
+  }
+
+  const result = await lintLpContent(repositories, tenantId, runId, target.content)
+  return { variantId, version: target.version, ...result }
+}
+
+/**
+ * クリエイティブバリアントの版を検査（version を省略すると最新版。見つからなければ null）
+ */
+export async function lintTenantCreativeVariant(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  version?: number
+): Promise<CopyLintReport | null> {
+  const variants = repositories.creativeVariants(tenantId)
+  const variant = await variants.findById(variantId)
+  if (!variant || variant.runId !== runId) {
+    return null
+  }
+  const target = await variants.findVersion(variantId, version ?? variant.version)
+  if (!target) {
+    return null
+  }
+
+  const result = await lintCreativeContent(repositories, tenantId, runId, target.content)
+  return { variantId, version: target.version, ...result }
+}
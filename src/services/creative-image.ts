@@ -0,0 +1,70 @@
+/**
+ * Creative Image Service
+ * クリエイティブ用画像のアップロード（形式・寸法を読み取り R2 に保存して記録）
+ */
+
+import { sha256Hex } from '../domain/audit'
+import {
+  CREATIVE_IMAGE_MAX_SIZE,
+  CREATIVE_IMAGE_TYPES,
+  createCreativeImage,
+  readImageDimensions,
+  type CreativeImage,
+} from '../domain/creative-image'
+import type { Repositories } from '../repositories/types'
+import { recordAudit } from './audit'
+
+/**
+ * 画像を R2 に保存し、寸法とハッシュを記録
+ */
+export async function uploadTenantCreativeImage(
+  bucket: R2Bucket,
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  body: ArrayBuffer,
+  actorId: string,
+  now = new Date()
+): Promise<CreativeImage> {
+  const run = await repositories.runs(tenantId).findById(runId)
+  if (!run) {
+    throw new Error('Run not found')
+  }
+  if (body.byteLength === 0) {
+    throw new Error('Image is empty')
+  }
+  if (body.byteLength > CREATIVE_IMAGE_MAX_SIZE) {
+    throw new Error(`Image exceeds ${CREATIVE_IMAGE_MAX_SIZE / 1024 / 1024} MB`)
+  }
+
+  const dimensions = readImageDimensions(body)
+  if (!dimensions) {
+    throw new Error(`Unsupported image type (allowed: ${Object.keys(CREATIVE_IMAGE_TYPES).join(', ')})`)
+  }
+
+  const image = createCreativeImage(
+    { tenantId, runId, ...dimensions, size: body.byteLength, hash: await sha256Hex(body), uploadedBy: actorId },
+    now
+  )
+  await bucket.put(image.key, body, {
+    httpMetadata: { contentType: image.contentType },
+    customMetadata: { sha256: image.hash, width: String(image.width), height: String(image.height) },
+  })
+  await repositories.creativeImages(tenantId).create(image)
+
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId,
+      action: 'creative_image.upload',
+      targetType: 'creative_image',
+      targetId: image.id,
+      after: { key: image.key, contentType: image.contentType, width: image.width, height: image.height },
+      metadata: { runId, hash: image.hash, size: image.size },
+    },
+    now
+  )
+
+  return image
+}
@@ -0,0 +1,64 @@
+/**
+ * Creative Rasterizer
+ * resvg（WASM）で SVG を PNG に変換（Workers にはシステムフォントが無いため R2 の fonts/ から読み込む）
+ */
+
+import { initWasm, Resvg } from '@resvg/resvg-wasm'
+import { CREATIVE_FALLBACK_FONTS } from '../domain/creative-renderer'
+
+// SVG → PNG 変換
+export interface CreativeRasterizer {
+  toPng(svg: string, width: number): Promise<ArrayBuffer>
+}
+
+// フォントファイルの保存先
+export const CREATIVE_FONT_PREFIX = 'fonts/'
+
+// WASM の初期化は isolate ごとに1回
+let ready: Promise<void> | null = null
+
+/**
+ * resvg を用いたラスタライザを作成（WASM とフォントは初回変換時に読み込む）
+ */
+export function createResvgRasterizer(
+  loadWasm: () => Promise<WebAssembly.Module>,
+  loadFonts: () => Promise<Uint8Array[]>
+): CreativeRasterizer {
+  let fonts: Promise<Uint8Array[]> | null = null
+
+  return {
+    async toPng(svg, width) {
+      ready ??= loadWasm()
+        .then((module) => initWasm(module))
+        .catch((error) => {
+          ready = null
+          throw error
+        })
+      await ready
+      fonts ??= loadFonts()
+
+      const resvg = new Resvg(svg, {
+        fitTo: { mode: 'width', value: width },
+        font: { fontBuffers: await fonts, defaultFontFamily: CREATIVE_FALLBACK_FONTS[0] },
+      })
+      try {
+        return resvg.render().asPng().slice().buffer
+      } finally {
+        resvg.free()
+      }
+    },
+  }
+}
+
+/**
+ * R2 の fonts/ 以下のフォントファイルを読み込む
+ */
+export async function loadR2Fonts(bucket: R2Bucket): Promise<Uint8Array[]> {
+  const listed = await bucket.list({ prefix: CREATIVE_FONT_PREFIX })
+  const fonts: Uint8Array[] = []
+  for (const object of listed.objects) {
+    const file = await bucket.get(object.key)
+    if (file) fonts.push(new Uint8Array(await file.arrayBuffer()))
+  }
+  return fonts
+}
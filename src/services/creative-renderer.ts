@@ -0,0 +1,181 @@
+/**
+ * Creative Render Service
+ * 公開時に公開中の版をサイズごとに SVG・PNG へ描画して R2 に保存し、配信パスで返す
+ */
+
+import type { Bindings } from '../env'
+import { isCreativeImageKey, readImageDimensions } from '../domain/creative-image'
+import {
+  createCreativeRenderFile,
+  creativeRenderKey,
+  getCreativeRenderContentType,
+  parseCreativeRenderName,
+  renderCreativeSvg,
+  toImageDataUri,
+  type CreativeRenderFile,
+  type CreativeRenderOptions,
+} from '../domain/creative-renderer'
+import type { CreativeContent, CreativeVariantVersion } from '../domain/creative-variant'
+import { generateCreativeUrl, type CreativeUrl, type Deployment, type UrlConfig } from '../domain/publishing'
+import type { Repositories } from '../repositories/types'
+import { createResvgRasterizer, loadR2Fonts, type CreativeRasterizer } from './creative-rasterizer'
+
+// 描画の依存関係
+export interface CreativeRenderDeps {
+  bucket: R2Bucket
+  fetchAsset(key: string): Promise<ArrayBuffer | null> // アップロード画像の R2 キー
+  rasterizer: CreativeRasterizer
+}
+
+// 配信する描画ファイル
+export interface CreativeRenderObject {
+  body: ArrayBuffer
+  contentType: string
+}
+
+/**
+ * 画像レイヤーの画像を取得して data URI と寸法を得る（同じ Run のアップロード画像のみ。他テナント・外部 URL は読まない）
+ */
+async function embedImages(
+  deps: CreativeRenderDeps,
+  tenantId: string,
+  runId: string,
+  content: CreativeContent
+): Promise<Required<CreativeRenderOptions>> {
+  const embedded: Required<CreativeRenderOptions> = { images: {}, imageSizes: {} }
+  for (const template of content.templates) {
+    for (const layer of template.layers) {
+      if (layer.type !== 'image' || embedded.images[layer.src]) continue
+      const bytes = isCreativeImageKey(layer.src, tenantId, runId) ? await deps.fetchAsset(layer.src) : null
+      const dimensions = bytes ? readImageDimensions(bytes) : null
+      if (!bytes || !dimensions) {
+        throw new Error(`Creative image not available: ${layer.src}`)
+      }
+      embedded.images[layer.src] = toImageDataUri(bytes, dimensions.contentType)
+      embedded.imageSizes[layer.src] = { width: dimensions.width, height: dimensions.height }
+    }
+  }
+  return embedded
+}
+
+/**
+ * 版を全サイズ SVG・PNG に描画して R2 に保存（キーは版・サイズごとに固定）
+ */
+async function renderCreativeVersion(
+  deps: CreativeRenderDeps,
+  runId: string,
+  target: CreativeVariantVersion
+): Promise<CreativeRenderFile[]> {
+  const { copy, templates } = target.content
+  const embedded = await embedImages(deps, target.tenantId, runId, target.content)
+  const files: CreativeRenderFile[] = []
+  for (const template of templates) {
+    const { aspectRatio, width, height } = template
+    const file = { aspectRatio, width, height }
+    // 画像の R2 キーは配信先から読めないため、SVG・PNG とも画像を埋め込んだ SVG から作る
+    const svg = renderCreativeSvg(template, copy, embedded)
+    files.push(
+      await createCreativeRenderFile({
+        ...file,
+        format: 'svg',
+        key: creativeRenderKey(target, runId, aspectRatio, 'svg'),
+        body: svg,
+      })
+    )
+    files.push(
+      await createCreativeRenderFile({
+        ...file,
+        format: 'png',
+        key: creativeRenderKey(target, runId, aspectRatio, 'png'),
+        body: await deps.rasterizer.toPng(svg, width),
+      })
+    )
+  }
+
+  for (const file of files) {
+    await deps.bucket.put(file.key, file.body, {
+      httpMetadata: { contentType: file.contentType },
+      customMetadata: { sha256: file.hash, version: String(target.version) },
+    })
+  }
+  return files
+}
+
+/**
+ * 公開中のクリエイティブを全サイズ描画して R2 に保存し、配信 URL を記録したデプロイメントを返す
+ * （公開時にスナップショットより前に呼ぶ。描画ファイルはスナップショットがアセットとして記録する）
+ */
+export async function renderPublishedCreatives(
+  deps: CreativeRenderDeps,
+  repositories: Repositories,
+  deployment: Deployment,
+  urlConfig: UrlConfig,
+  creativeVariantIds?: string[]
+): Promise<Deployment> {
+  const { tenantId, runId } = deployment
+  const variants = repositories.creativeVariants(tenantId)
+  const creativeUrls: CreativeUrl[] = []
+  for (const variant of await variants.listByRun(runId)) {
+    if (variant.publishedVersion === undefined) continue
+    if (creativeVariantIds && !creativeVariantIds.includes(variant.id)) continue
+    const target = await variants.findVersion(variant.id, variant.publishedVersion)
+    if (!target) continue
+
+    for (const file of await renderCreativeVersion(deps, runId, target)) {
+      if (file.format !== 'png') continue
+      const url = generateCreativeUrl(urlConfig, tenantId, runId, variant.id, file.aspectRatio)
+      creativeUrls.push({ variantId: variant.id, aspectRatio: file.aspectRatio, url })
+    }
+  }
+
+  return { ...deployment, urls: { ...deployment.urls, creativeUrls } }
+}
+
+/**
+ * 配信パス（/creative/:tenantId/:runId/:variantId/:name）の描画ファイルを取得
+ * （公開中の版のみ。未公開・アーカイブ済み Run・描画されていなければ null）
+ */
+export async function loadPublishedCreativeRender(
+  bucket: R2Bucket,
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  name: string
+): Promise<CreativeRenderObject | null> {
+  const file = parseCreativeRenderName(name)
+  const variants = repositories.creativeVariants(tenantId)
+  const variant = file ? await variants.findById(variantId) : null
+  if (!file || !variant || variant.runId !== runId || variant.publishedVersion === undefined) {
+    return null
+  }
+
+  const run = await repositories.runs(tenantId).findById(runId)
+  const version = await variants.findVersion(variantId, variant.publishedVersion)
+  if (!run || run.status === 'archived' || !version) {
+    return null
+  }
+
+  const object = await bucket.get(creativeRenderKey(version, runId, file.aspectRatio, file.format))
+  return object ? { body: await object.arrayBuffer(), contentType: getCreativeRenderContentType(file.format) } : null
+}
+
+/**
+ * R2・resvg を用いた依存関係を作成
+ */
+export function createCreativeRenderDeps(env: Bindings): CreativeRenderDeps {
+  return {
+    bucket: env.ASSETS,
+
+    // アップロード画像は R2 から直接読む（外部 URL は取得しない）
+    async fetchAsset(key) {
+      const object = await env.ASSETS.get(key)
+      return object ? object.arrayBuffer() : null
+    },
+
+    rasterizer: createResvgRasterizer(
+      async () => (await import('@resvg/resvg-wasm/index_bg.wasm')).default,
+      () => loadR2Fonts(env.ASSETS)
+    ),
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Creative Variant Service
+ * クリエイティブバリアントの作成・編集・文言差し替え・提出・承認・公開・ロールバック
+ */
+
+import {
+  approveCreativeVersion,
+  createCreativeVariant,
+  publishCreativeVersion,
+  rewordCreative,
+  rollbackCreativeVariant,
+  saveCreativeDraft,
+  submitCreativeVersion,
+  type CreativeContent,
+  type CreativeVariant,
+  type CreativeVariantChange,
+  type CreativeVariantCreateRequest,
+  type CreativeVariantVersion,
+} from '../domain/creative-variant'
+import type { Repositories } from '../repositories/types'
+import { assertVariantApproved, syncApprovalContent } from './approval'
+import { recordAudit } from './audit'
+import { assertCopyLintPassed, lintCreativeContent } from './copy-lint'
+
+// 監査ログに残す版の項目
+const auditableVersion = ({ version, status, content, restoredFrom }: CreativeVariantVersion) => ({
+  version,
+  status,
+  content,
+  restoredFrom,
+})
+
+/**
+ * Run に属する クリエイティブバリアントを取得
+ */
+async function findRunVariant(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string
+): Promise<CreativeVariant | null> {
+  const variant = await repositories.creativeVariants(tenantId).findById(variantId)
+  return variant && variant.runId === runId ? variant : null
+}
+
+/**
+ * 変更を保存して監査ログに記録
+ */
+async function saveChange(
+  repositories: Repositories,
+  action: string,
+  before: CreativeVariantVersion | null,
+  change: CreativeVariantChange,
+  actorId: string,
+  now: Date
+): Promise<CreativeVariantChange> {
+  await repositories.creativeVariants(change.variant.tenantId).update(change)
+  await recordAudit(
+    repositories,
+    {
+      tenantId: change.variant.tenantId,
+      actorId,
+      action,
+      targetType: 'creative_variant',
+      targetId: change.variant.id,
+      before: before ? auditableVersion(before) : undefined,
+      after: auditableVersion(change.version),
+      metadata: { runId: change.variant.runId },
+    },
+    now
+  )
+  return change
+}
+
+/**
+ * 下書きを保存し、承認済みのクリエイティブと内容が変われば承認待ちへ戻す
+ */
+async function saveDraftChange(
+  repositories: Repositories,
+  action: string,
+  before: CreativeVariantVersion | null,
+  change: CreativeVariantChange,
+  actorId: string,
+  now: Date
+): Promise<CreativeVariantChange> {
+  const { variant } = change
+  await saveChange(repositories, action, before, change, actorId, now)
+  await syncApprovalContent(
+    repositories,
+    variant.tenantId,
+    variant.runId,
+    { targetType: 'creative', targetId: variant.id },
+    variant.content,
+    actorId,
+    now
+  )
+  return change
+}
+
+/**
+ * クリエイティブバリアントを作成（版1の下書き）
+ */
+export async function createTenantCreativeVariant(
+  repositories: Repositories,
+  request: CreativeVariantCreateRequest,
+  now = new Date()
+): Promise<CreativeVariantChange> {
+  if (!(await repositories.runs(request.tenantId).findById(request.runId))) {
+    throw new Error('Run not found')
+  }
+
+  const change = createCreativeVariant(request, now)
+  await repositories.creativeVariants(request.tenantId).create(change)
+  await recordAudit(
+    repositories,
+    {
+      tenantId: request.tenantId,
+      actorId: request.createdBy,
+      action: 'creative_variant.create',
+      targetType: 'creative_variant',
+      targetId: change.variant.id,
+      after: auditableVersion(change.version),
+      metadata: { runId: request.runId },
+    },
+    now
+  )
+  return change
+}
+
+/**
+ * 下書きを保存し、承認済みのクリエイティブ と内容が変われば承認待ちへ戻す（見つからなければ null）
+ */
+export async function saveTenantCreativeDraft(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  content: CreativeContent,
+  actorId: string,
+  now = new Date()
+): Promise<CreativeVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const latest = variant && (await repositories.creativeVariants(tenantId).findVersion(variantId, variant.version))
+  if (!variant || !latest) {
+    return null
+  }
+
+  const change = saveCreativeDraft(variant, latest, content, actorId, now)
+  return saveDraftChange(repositories, 'creative_variant.update', latest, change, actorId, now)
+}
+
+/**
+ * 文言だけを差し替えた下書きを保存（見つからなければ null）
+ */
+export async function rewordTenantCreative(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  copy: Record<string, string>,
+  actorId: string,
+  now = new Date()
+): Promise<CreativeVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const latest = variant && (await repositories.creativeVariants(tenantId).findVersion(variantId, variant.version))
+  if (!variant || !latest) {
+    return null
+  }
+
+  const change = rewordCreative(variant, latest, copy, actorId, now)
+  return saveDraftChange(repositories, 'creative_variant.reword', latest, change, actorId, now)
+}
+
+/**
+ * 最新の下書きを提出（見つからなければ null）
+ */
+export async function submitTenantCreativeVariant(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  actorId: string,
+  now = new Date()
+): Promise<CreativeVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const latest = variant && (await repositories.creativeVariants(tenantId).findVersion(variantId, variant.version))
+  if (!variant || !latest) {
+    return null
+  }
+
+  const change = submitCreativeVersion(variant, latest, actorId, now)
+  return saveChange(repositories, 'creative_variant.submit', latest, change, actorId, now)
+}
+
+/**
+ * 提出済みの版を承認（見つからなければ null。文言チェックに error が無く、
+ * 版の内容に対する承認（Approval）が承認済みの場合のみ承認できる）
+ */
+export async function approveTenantCreativeVersion(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  version: number,
+  actorId: string,
+  now = new Date()
+): Promise<CreativeVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const target = variant && (await repositories.creativeVariants(tenantId).findVersion(variantId, version))
+  if (!variant || !target) {
+    return null
+  }
+
+  assertCopyLintPassed(await lintCreativeContent(repositories, tenantId, runId, target.content))
+  await assertVariantApproved(repositories, tenantId, runId, 'creative', variantId, target.content)
+  const change = approveCreativeVersion(variant, target, actorId, now)
+  return saveChange(repositories, 'creative_variant.approve', target, change, actorId, now)
+}
+
+/**
+ * 承認済みの版を公開（見つからなければ null。初回の公開は版の内容に対する承認（Approval）が必要）
+ */
+export async function publishTenantCreativeVersion(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  version: number,
+  actorId: string,
+  now = new Date()
+): Promise<CreativeVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const target = variant && (await repositories.creativeVariants(tenantId).findVersion(variantId, version))
+  if (!variant || !target) {
+    return null
+  }
+
+  if (target.status !== 'published') {
+    await assertVariantApproved(repositories, tenantId, runId, 'creative', variantId, target.content)
+  }
+  const change = publishCreativeVersion(variant, target, now)
+  return saveChange(repositories, 'creative_variant.publish', target, change, actorId, now)
+}
+
+/**
+ * 過去の版の内容で新しい下書きを作成し、承認との差分を同期（見つからなければ null）
+ */
+export async function rollbackTenantCreativeVariant(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  version: number,
+  actorId: string,
+  now = new Date()
+): Promise<CreativeVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const target = variant && (await repositories.creativeVariants(tenantId).findVersion(variantId, version))
+  if (!variant || !target) {
+    return null
+  }
+
+  const change = rollbackCreativeVariant(variant, target, actorId, now)
+  return saveDraftChange(repositories, 'creative_variant.rollback', null, change, actorId, now)
+}
@@ -0,0 +1,290 @@
+/**
+ * Deployment Snapshot Service
+ * 公開時に配信物を R2 へ固定保存し、ロールバック時はハッシュを検証してその版へ戻す
+ */
+
+import type { Bindings } from '../env'
+import { canonicalJson, sha256Hex } from '../domain/audit'
+import {
+  createSnapshotEntry,
+  createSnapshotManifest,
+  getSnapshotRef,
+  isSnapshotManifestIntact,
+  snapshotCreativePath,
+  snapshotKey,
+  snapshotLpPaths,
+  SNAPSHOT_MANIFEST,
+  toDeploymentConfigJson,
+  toSnapshotAssets,
+  type DeploymentSnapshotManifest,
+  type SnapshotEntry,
+} from '../domain/deployment-snapshot'
+import {
+  creativeRenderKey,
+  creativeRenderPath,
+  CREATIVE_RENDER_FORMATS,
+  getCreativeRenderContentType,
+} from '../domain/creative-renderer'
+import { renderLpHtml, type PublishedLp } from '../domain/lp-renderer'
+import { findDeploymentDisclaimerErrors, validateDeployment, type Deployment } from '../domain/publishing'
+import type { Repositories } from '../repositories/types'
+import { loadPublishedLp } from './lp-runtime'
+import { publishTenantLpVersion } from './lp-variant'
+
+// スナップショットの依存関係
+export interface DeploymentSnapshotDeps {
+  bucket: R2Bucket
+}
+
+// スナップショットに含めるバリアント（省略時は Run の公開中の全バリアント）
+export interface SnapshotSelection {
+  lpVariantIds?: string[]
+  creativeVariantIds?: string[]
+}
+
+// 復元結果（restored は公開版を戻した LP）
+export interface SnapshotRestoreOutcome {
+  manifest: DeploymentSnapshotManifest
+  restored: { variantId: string; version: number }[]
+}
+
+// 保存するファイル
+interface SnapshotFile {
+  entry: SnapshotEntry
+  body: string | ArrayBuffer
+}
+
+/**
+ * 公開中の LP・設定・クリエイティブを R2 に保存し、アセットとマニフェスト参照を記録したデプロイメントを返す
+ * クリエイティブは公開中の版の描画ファイルを R2 から読む（描画ファイルが無いクリエイティブや
+ * 本番で必須の注意文が欠けた LP があるなど、検証に通らなければ何も保存せずにエラー）
+ */
+export async function snapshotDeployment(
+  deps: DeploymentSnapshotDeps,
+  repositories: Repositories,
+  deployment: Deployment,
+  selection: SnapshotSelection = {},
+  now = new Date()
+): Promise<Deployment> {
+  const { lpVariantIds, creativeVariantIds } = selection
+  const { tenantId, runId } = deployment
+  const run = await repositories.runs(tenantId).findById(runId)
+  if (!run) {
+    throw new Error('Run not found')
+  }
+
+  const manifestKey = snapshotKey(deployment, SNAPSHOT_MANIFEST)
+  if (await deps.bucket.get(manifestKey)) {
+    throw new Error('Snapshot already exists')
+  }
+
+  const pages = await loadSnapshotPages(repositories, deployment, lpVariantIds)
+
+  const files: SnapshotFile[] = []
+  const add = async (file: Omit<SnapshotEntry, 'hash' | 'size'>, body: string | ArrayBuffer) => {
+    files.push({ entry: await createSnapshotEntry(file, body), body })
+  }
+
+  for (const page of pages) {
+    const paths = snapshotLpPaths(page.variantId)
+    const sourceUrl = `/lp/${tenantId}/${runId}/${page.variantId}`
+    const html = { type: 'lp' as const, variantId: page.variantId, sourceUrl, contentType: 'text/html; charset=utf-8' }
+    await add({ ...html, path: paths.html }, renderLpHtml(page))
+    await add(
+      { type: 'config', variantId: page.variantId, sourceUrl, path: paths.config, contentType: 'application/json' },
+      canonicalJson(page)
+    )
+  }
+  await add(
+    { type: 'config', sourceUrl: `/runs/${runId}`, path: 'config.json', contentType: 'application/json' },
+    toDeploymentConfigJson(deployment, run, pages)
+  )
+
+  // クリエイティブは公開中の版の描画ファイルを R2 のキーで読む
+  const creativeVariants = repositories.creativeVariants(tenantId)
+  for (const variant of await creativeVariants.listByRun(runId)) {
+    if (variant.publishedVersion === undefined) continue
+    if (creativeVariantIds && !creativeVariantIds.includes(variant.id)) continue
+    const version = await creativeVariants.findVersion(variant.id, variant.publishedVersion)
+    if (!version) continue
+    for (const { aspectRatio } of version.content.templates) {
+      for (const format of CREATIVE_RENDER_FORMATS) {
+        const key = creativeRenderKey(version, runId, aspectRatio, format)
+        const object = await deps.bucket.get(key)
+        if (!object) {
+          throw new Error(`Creative render not available: ${key}`)
+        }
+        await add(
+          {
+            type: 'creative',
+            variantId: variant.id,
+            sourceUrl: creativeRenderPath(tenantId, runId, variant.id, aspectRatio, format),
+            path: snapshotCreativePath(variant.id, aspectRatio, format),
+            contentType: getCreativeRenderContentType(format),
+          },
+          await object.arrayBuffer()
+        )
+      }
+    }
+  }
+
+  const manifest = await createSnapshotManifest(
+    deployment,
+    files.map((file) => file.entry),
+    now
+  )
+
+  const snapshotted: Deployment = {
+    ...deployment,
+    assets: [...deployment.assets, ...toSnapshotAssets(deployment, manifest)],
+    metadata: { ...deployment.metadata, snapshot: { key: manifestKey, hash: manifest.hash } },
+    updatedAt: now.toISOString(),
+  }
+
+  // 検証は R2 への書き込み前に行う（失敗した公開が同じ版のスナップショットを残さないように）
+  const project = await repositories.projects(tenantId).findById(run.projectId)
+  const validation = validateDeployment(snapshotted, {
+    lpPages: pages.map(({ variantId, content }) => ({ variantId, content })),
+    disclaimerTemplates: project?.disclaimerTemplates,
+  })
+  if (!validation.valid) {
+    throw new Error(`Invalid deployment: ${validation.errors.join(', ')}`)
+  }
+
+  for (const { entry, body } of files) {
+    await deps.bucket.put(snapshotKey(deployment, entry.path), body, {
+      httpMetadata: { contentType: entry.contentType },
+      customMetadata: { sha256: entry.hash },
+    })
+  }
+
+  // マニフェストは最後に書き込む（存在すればスナップショットは完結している）
+  await deps.bucket.put(manifestKey, JSON.stringify(manifest), {
+    httpMetadata: { contentType: 'application/json' },
+    customMetadata: { sha256: manifest.hash },
+  })
+
+  return snapshotted
+}
+
+/**
+ * 公開前に配信物を検証（クリエイティブの描画など R2 への書き込みより前に呼ぶ。
+ * スナップショット済みの版や、本番で必須の注意文が欠けた LP があればエラー）
+ */
+export async function assertDeploymentPublishable(
+  deps: DeploymentSnapshotDeps,
+  repositories: Repositories,
+  deployment: Deployment,
+  selection: SnapshotSelection = {}
+): Promise<void> {
+  const { tenantId, runId } = deployment
+  const run = await repositories.runs(tenantId).findById(runId)
+  if (!run) {
+    throw new Error('Run not found')
+  }
+  if (await deps.bucket.get(snapshotKey(deployment, SNAPSHOT_MANIFEST))) {
+    throw new Error('Snapshot already exists')
+  }
+
+  const pages = await loadSnapshotPages(repositories, deployment, selection.lpVariantIds)
+  const project = await repositories.projects(tenantId).findById(run.projectId)
+  const errors = findDeploymentDisclaimerErrors(deployment, {
+    lpPages: pages.map(({ variantId, content }) => ({ variantId, content })),
+    disclaimerTemplates: project?.disclaimerTemplates,
+  })
+  if (errors.length > 0) {
+    throw new Error(`Invalid deployment: ${errors.join(', ')}`)
+  }
+}
+
+/**
+ * スナップショットを読み込み、全ファイルのハッシュを検証
+ */
+export async function loadVerifiedSnapshot(
+  deps: DeploymentSnapshotDeps,
+  deployment: Deployment
+): Promise<DeploymentSnapshotManifest> {
+  const ref = getSnapshotRef(deployment)
+  if (!ref) {
+    throw new Error('Deployment has no snapshot')
+  }
+
+  const object = await deps.bucket.get(ref.key)
+  const manifest = object ? await object.json<DeploymentSnapshotManifest>() : null
+  if (!manifest || manifest.hash !== ref.hash || !(await isSnapshotManifestIntact(manifest))) {
+    throw new Error('Snapshot manifest is corrupted')
+  }
+
+  for (const entry of manifest.entries) {
+    const file = await deps.bucket.get(snapshotKey(deployment, entry.path))
+    if (!file || (await sha256Hex(await file.arrayBuffer())) !== entry.hash) {
+      throw new Error(`Snapshot file does not match its hash: ${entry.path}`)
+    }
+  }
+  return manifest
+}
+
+/**
+ * 検証済みスナップショットの LP の版を公開版に戻す（LP 以外の設定は変更しない）
+ */
+export async function restoreDeploymentSnapshot(
+  deps: DeploymentSnapshotDeps,
+  repositories: Repositories,
+  deployment: Deployment,
+  actorId: string,
+  now = new Date()
+): Promise<SnapshotRestoreOutcome> {
+  const manifest = await loadVerifiedSnapshot(deps, deployment)
+  const restored: SnapshotRestoreOutcome['restored'] = []
+
+  for (const entry of manifest.entries) {
+    if (!entry.variantId || entry.path !== snapshotLpPaths(entry.variantId).config) continue
+
+    const file = await deps.bucket.get(snapshotKey(deployment, entry.path))
+    const page = await file!.json<PublishedLp>()
+    const variant = await repositories.lpVariants(deployment.tenantId).findById(page.variantId)
+    if (!variant || variant.publishedVersion === page.version) continue
+
+    const change = await publishTenantLpVersion(
+      repositories,
+      deployment.tenantId,
+      deployment.runId,
+      page.variantId,
+      page.version,
+      actorId,
+      now
+    )
+    if (change) {
+      restored.push({ variantId: page.variantId, version: page.version })
+    }
+  }
+
+  return { manifest, restored }
+}
+
+/**
+ * スナップショットに含める公開中の LP を読み込み
+ */
+async function loadSnapshotPages(
+  repositories: Repositories,
+  deployment: Deployment,
+  lpVariantIds?: string[]
+): Promise<PublishedLp[]> {
+  const { tenantId, runId } = deployment
+  const variants = (await repositories.lpVariants(tenantId).listByRun(runId)).filter(
+    (variant) => variant.publishedVersion !== undefined && (!lpVariantIds || lpVariantIds.includes(variant.id))
+  )
+  const pages: PublishedLp[] = []
+  for (const variant of variants) {
+    const page = await loadPublishedLp(repositories, tenantId, runId, variant.id)
+    if (page) pages.push(page)
+  }
+  return pages
+}
+
+/**
+ * R2 を用いた依存関係を作成
+ */
+export function createDeploymentSnapshotDeps(env: Bindings): DeploymentSnapshotDeps {
+  return { bucket: env.ASSETS }
+}
@@ -0,0 +1,105 @@
+/**
+ * LP Export Service
+ * 公開済みの版を R2 に書き出し、デプロイメントのアセットとして記録
+ */
+
+import { buildCreativeAssetUrls, createLpExport, type LpExportFile } from '../domain/lp-export'
+import type { PublishedLp } from '../domain/lp-renderer'
+import { createDeployedAsset, type DeployedAsset, type Deployment } from '../domain/publishing'
+import type { Repositories } from '../repositories/types'
+import { recordAudit } from './audit'
+
+// エクスポート結果（本文は R2 のみに保存）
+export interface LpExportOutcome {
+  deployment: Deployment
+  assets: DeployedAsset[]
+  files: Omit<LpExportFile, 'body'>[]
+}
+
+/**
+ * 公開済みの版を HTML・JSON・印刷用 HTML で R2 に保存し、デプロイメントに記録（見つからなければ null）
+ */
+export async function exportTenantLpVersion(
+  bucket: R2Bucket,
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  version: number,
+  deploymentId: string,
+  actorId: string,
+  now = new Date()
+): Promise<LpExportOutcome | null> {
+  const variants = repositories.lpVariants(tenantId)
+  const variant = await variants.findById(variantId)
+  const target = variant?.runId === runId ? await variants.findVersion(variantId, version) : null
+  if (!target) {
+    return null
+  }
+  if (!target.publishedAt) {
+    throw new Error('Version has not been published')
+  }
+
+  const deployments = repositories.deployments(tenantId)
+  const deployment = await deployments.findById(deploymentId)
+  if (!deployment || deployment.runId !== runId) {
+    throw new Error('Deployment not found')
+  }
+
+  const page: PublishedLp = {
+    tenantId,
+    runId,
+    variantId,
+    version,
+    content: target.content,
+    pixels: [],
+    publishedAt: target.publishedAt,
+  }
+  const files = await createLpExport(page, buildCreativeAssetUrls(deployment))
+  const lpUrl = deployment.urls.lpUrls.find((entry) => entry.variantId === variantId)
+  const sourceUrl = lpUrl?.url ?? `/lp/${tenantId}/${runId}/${variantId}`
+
+  for (const file of files) {
+    await bucket.put(file.key, file.body, {
+      httpMetadata: { contentType: file.contentType },
+      customMetadata: { sha256: file.hash, deploymentId, version: String(version) },
+    })
+  }
+
+  // 同じ版を再エクスポートした場合は前回のアセット記録を置き換える
+  const keys = new Set(files.map((file) => file.key))
+  const assets = files.map((file) =>
+    createDeployedAsset(file.format === 'json' ? 'config' : 'lp', sourceUrl, file.key, {
+      variantId,
+      hash: file.hash,
+      size: file.size,
+      contentType: file.contentType,
+    })
+  )
+  const updated: Deployment = {
+    ...deployment,
+    assets: [...deployment.assets.filter((asset) => !keys.has(asset.deployedUrl)), ...assets],
+    updatedAt: now.toISOString(),
+  }
+  await deployments.update(updated)
+
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId,
+      action: 'lp_variant.export',
+      targetType: 'lp_variant',
+      targetId: variantId,
+      after: { version, files: files.map(({ format, key, hash }) => ({ format, key, hash })) },
+      metadata: { runId, deploymentId },
+    },
+    now
+  )
+
+  return {
+    deployment: updated,
+    assets,
+    files: files.map(({ format, key, contentType, hash, size }) => ({ format, key, contentType, hash, size })),
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * LP Runtime Service
+ * 公開 URL（/lp/:tenantId/:runId/:variantId）の配信。KV のホットキャッシュ、なければ D1 から構成を取得して描画
+ */
+
+import type { Bindings } from '../env'
+import { renderLpHtml, type PublishedLp } from '../domain/lp-renderer'
+import { createD1Repositories } from '../repositories/d1'
+import type { Repositories } from '../repositories/types'
+
+// KV キャッシュの保持期間（公開・再公開時は明示的に削除する）
+export const LP_CACHE_TTL_SECONDS = 300
+
+// LP ランタイムの依存関係
+export interface LpRuntimeDeps {
+  getCached(tenantId: string, runId: string, variantId: string): Promise<PublishedLp | null>
+  putCached(page: PublishedLp): Promise<void>
+  invalidate(tenantId: string, runId: string, variantId: string): Promise<void>
+  loadPublished(tenantId: string, runId: string, variantId: string): Promise<PublishedLp | null>
+}
+
+/**
+ * KV キャッシュのキー
+ */
+export function lpCacheKey(tenantId: string, runId: string, variantId: string): string {
+  return `lp:${tenantId}:${runId}:${variantId}`
+}
+
+/**
+ * 公開中の版を D1 から取得（未公開・アーカイブ済み Run は null）
+ */
+export async function loadPublishedLp(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string
+): Promise<PublishedLp | null> {
+  const variants = repositories.lpVariants(tenantId)
+  const variant = await variants.findById(variantId)
+  if (!variant || variant.runId !== runId || variant.publishedVersion === undefined) {
+    return null
+  }
+
+  const run = await repositories.runs(tenantId).findById(runId)
+  const version = await variants.findVersion(variantId, variant.publishedVersion)
+  if (!run || run.status === 'archived' || !version) {
+    return null
+  }
+
+  return {
+    tenantId,
+    runId,
+    variantId,
+    version: version.version,
+    content: version.content,
+    pixels: run.pixels ?? [],
+    publishedAt: version.publishedAt ?? version.updatedAt,
+  }
+}
+
+/**
+ * 公開中の LP の HTML を取得（見つからなければ null）
+ */
+export async function renderPublishedLp(
+  deps: LpRuntimeDeps,
+  tenantId: string,
+  runId: string,
+  variantId: string
+): Promise<string | null> {
+  const cached = await deps.getCached(tenantId, runId, variantId)
+  if (cached) {
+    return renderLpHtml(cached)
+  }
+
+  const page = await deps.loadPublished(tenantId, runId, variantId)
+  if (!page) {
+    return null
+  }
+  await deps.putCached(page)
+  return renderLpHtml(page)
+}
+
+/**
+ * KV/D1 を用いた依存関係を作成
+ */
+export function createLpRuntimeDeps(
+  env: Bindings,
+  repositories: Repositories = createD1Repositories(env.DB)
+): LpRuntimeDeps {
+  return {
+    getCached(tenantId, runId, variantId) {
+      return env.CACHE.get<PublishedLp>(lpCacheKey(tenantId, runId, variantId), 'json')
+    },
+
+    async putCached(page) {
+      await env.CACHE.put(lpCacheKey(page.tenantId, page.runId, page.variantId), JSON.stringify(page), {
+        expirationTtl: LP_CACHE_TTL_SECONDS,
+      })
+    },
+
+    async invalidate(tenantId, runId, variantId) {
+      await env.CACHE.delete(lpCacheKey(tenantId, runId, variantId))
+    },
+
+    loadPublished(tenantId, runId, variantId) {
+      return loadPublishedLp(repositories, tenantId, runId, variantId)
+    },
+  }
+}
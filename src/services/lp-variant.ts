@@ -0,0 +1,293 @@
+/**
+ * LP Variant Service
+ * LP バリアントの作成・編集・提出・承認・公開・ロールバックと版の差分
+ */
+
+import {
+  approveLpVersion,
+  createLpVariant,
+  diffLpContent,
+  publishLpVersion,
+  rollbackLpVariant,
+  saveLpDraft,
+  submitLpVersion,
+  type LpContent,
+  type LpContentDiff,
+  type LpVariant,
+  type LpVariantChange,
+  type LpVariantCreateRequest,
+  type LpVariantVersion,
+} from '../domain/lp-variant'
+import { findMissingDisclaimers } from '../domain/publishing'
+import type { Repositories } from '../repositories/types'
+import { assertVariantApproved, syncApprovalContent } from './approval'
+import { recordAudit } from './audit'
+import { assertCopyLintPassed, lintLpContent } from './copy-lint'
+
+// 版の差分
+export interface LpVersionDiff {
+  from: number
+  to: number
+  diff: LpContentDiff
+}
+
+// 監査ログに残す版の項目
+const auditableVersion = ({ version, status, content, restoredFrom }: LpVariantVersion) => ({
+  version,
+  status,
+  content,
+  restoredFrom,
+})
+
+/**
+ * Run に属する LP バリアントを取得
+ */
+async function findRunVariant(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string
+): Promise<LpVariant | null> {
+  const variant = await repositories.lpVariants(tenantId).findById(variantId)
+  return variant && variant.runId === runId ? variant : null
+}
+
+/**
+ * 変更を保存して監査ログに記録
+ */
+async function saveChange(
+  repositories: Repositories,
+  action: string,
+  before: LpVariantVersion | null,
+  change: LpVariantChange,
+  actorId: string,
+  now: Date
+): Promise<LpVariantChange> {
+  await repositories.lpVariants(change.variant.tenantId).update(change)
+  await recordAudit(
+    repositories,
+    {
+      tenantId: change.variant.tenantId,
+      actorId,
+      action,
+      targetType: 'lp_variant',
+      targetId: change.variant.id,
+      before: before ? auditableVersion(before) : undefined,
+      after: auditableVersion(change.version),
+      metadata: { runId: change.variant.runId },
+    },
+    now
+  )
+  return change
+}
+
+/**
+ * プロジェクトの必須の注意文が LP に含まれていること（/lp は公開中の版をそのまま配信するため公開時に確認する）
+ */
+async function assertRequiredDisclaimers(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  content: LpContent
+): Promise<void> {
+  const run = await repositories.runs(tenantId).findById(runId)
+  const project = run ? await repositories.projects(tenantId).findById(run.projectId) : null
+  const missing = findMissingDisclaimers(content, project?.disclaimerTemplates ?? [])
+  if (missing.length > 0) {
+    throw new Error(`LP is missing required disclaimers: ${missing.map((template) => template.name).join(', ')}`)
+  }
+}
+
+/**
+ * LP バリアントを作成（版1の下書き）
+ */
+export async function createTenantLpVariant(
+  repositories: Repositories,
+  request: LpVariantCreateRequest,
+  now = new Date()
+): Promise<LpVariantChange> {
+  if (!(await repositories.runs(request.tenantId).findById(request.runId))) {
+    throw new Error('Run not found')
+  }
+
+  const change = createLpVariant(request, now)
+  await repositories.lpVariants(request.tenantId).create(change)
+  await recordAudit(
+    repositories,
+    {
+      tenantId: request.tenantId,
+      actorId: request.createdBy,
+      action: 'lp_variant.create',
+      targetType: 'lp_variant',
+      targetId: change.variant.id,
+      after: auditableVersion(change.version),
+      metadata: { runId: request.runId },
+    },
+    now
+  )
+  return change
+}
+
+/**
+ * 下書きを保存し、承認済みの LP と内容が変われば承認待ちへ戻す（見つからなければ null）
+ */
+export async function saveTenantLpDraft(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  content: LpContent,
+  actorId: string,
+  now = new Date()
+): Promise<LpVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const latest = variant && (await repositories.lpVariants(tenantId).findVersion(variantId, variant.version))
+  if (!variant || !latest) {
+    return null
+  }
+
+  const change = saveLpDraft(variant, latest, content, actorId, now)
+  await saveChange(repositories, 'lp_variant.update', latest, change, actorId, now)
+  await syncApprovalContent(
+    repositories,
+    tenantId,
+    runId,
+    { targetType: 'lp', targetId: variantId },
+    change.variant.content,
+    actorId,
+    now
+  )
+  return change
+}
+
+/**
+ * 最新の下書きを提出（見つからなければ null）
+ */
+export async function submitTenantLpVariant(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  actorId: string,
+  now = new Date()
+): Promise<LpVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const latest = variant && (await repositories.lpVariants(tenantId).findVersion(variantId, variant.version))
+  if (!variant || !latest) {
+    return null
+  }
+
+  const change = submitLpVersion(variant, latest, actorId, now)
+  return saveChange(repositories, 'lp_variant.submit', latest, change, actorId, now)
+}
+
+/**
+ * 提出済みの版を承認（見つからなければ null。文言チェックに error が無く、
+ * 版の内容に対する承認（Approval）が承認済みの場合のみ承認できる）
+ */
+export async function approveTenantLpVersion(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  version: number,
+  actorId: string,
+  now = new Date()
+): Promise<LpVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const target = variant && (await repositories.lpVariants(tenantId).findVersion(variantId, version))
+  if (!variant || !target) {
+    return null
+  }
+
+  assertCopyLintPassed(await lintLpContent(repositories, tenantId, runId, target.content))
+  await assertVariantApproved(repositories, tenantId, runId, 'lp', variantId, target.content)
+  const change = approveLpVersion(variant, target, actorId, now)
+  return saveChange(repositories, 'lp_variant.approve', target, change, actorId, now)
+}
+
+/**
+ * 承認済みの版を公開（見つからなければ null。初回の公開は版の内容に対する承認（Approval）が必要）
+ */
+export async function publishTenantLpVersion(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  version: number,
+  actorId: string,
+  now = new Date()
+): Promise<LpVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const target = variant && (await repositories.lpVariants(tenantId).findVersion(variantId, version))
+  if (!variant || !target) {
+    return null
+  }
+
+  if (target.status !== 'published') {
+    await assertVariantApproved(repositories, tenantId, runId, 'lp', variantId, target.content)
+  }
+  await assertRequiredDisclaimers(repositories, tenantId, runId, target.content)
+  const change = publishLpVersion(variant, target, now)
+  return saveChange(repositories, 'lp_variant.publish', target, change, actorId, now)
+}
+
+/**
+ * 過去の版の内容で新しい下書きを作成し、承認との差分を同期（見つからなければ null）
+ */
+export async function rollbackTenantLpVariant(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  version: number,
+  actorId: string,
+  now = new Date()
+): Promise<LpVariantChange | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  const target = variant && (await repositories.lpVariants(tenantId).findVersion(variantId, version))
+  if (!variant || !target) {
+    return null
+  }
+
+  const change = rollbackLpVariant(variant, target, actorId, now)
+  await saveChange(repositories, 'lp_variant.rollback', null, change, actorId, now)
+  await syncApprovalContent(
+    repositories,
+    tenantId,
+    runId,
+    { targetType: 'lp', targetId: variantId },
+    change.variant.content,
+    actorId,
+    now
+  )
+  return change
+}
+
+/**
+ * 2つの版の差分（to を省略すると最新版、見つからなければ null）
+ */
+export async function diffTenantLpVersions(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  variantId: string,
+  from: number,
+  to?: number
+): Promise<LpVersionDiff | null> {
+  const variant = await findRunVariant(repositories, tenantId, runId, variantId)
+  if (!variant) {
+    return null
+  }
+
+  const versions = repositories.lpVariants(tenantId)
+  const target = to ?? variant.version
+  const [before, after] = await Promise.all([
+    versions.findVersion(variantId, from),
+    versions.findVersion(variantId, target),
+  ])
+  if (!before || !after) {
+    return null
+  }
+  return { from, to: target, diff: diffLpContent(before.content, after.content) }
+}
@@ -0,0 +1,35 @@
+/**
+ * Mailer
+ * メール送信 API への送信（Queue のコンシューマーから呼び出す）
+ */
+
+import type { MailMessage } from '../domain/auth'
+import type { Bindings } from '../env'
+
+// メール送信の依存関係
+export interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
+
+/**
+ * 環境変数のメール送信 API を用いた Mailer を作成（送信に失敗したらエラー）
+ */
+export function createMailer(env: Bindings): Mailer {
+  return {
+    async send(message) {
+      const response = await fetch(env.MAIL_API_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${env.MAIL_API_KEY}` },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: message.to }] }],
+          from: { email: env.MAIL_FROM },
+          subject: message.subject,
+          content: [{ type: 'text/plain', value: message.text }],
+        }),
+      })
+      if (!response.ok) {
+        throw new Error(`Mail API responded with ${response.status}`)
+      }
+    },
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Manual Stop Service
+ * 手動停止タスクの再通知と完了確認
+ */
+
+import type { Bindings } from '../env'
+import type { AuditLogInput } from '../domain/audit'
+import {
+  confirmManualStop,
+  createManualStopNotifications,
+  escalateManualStopTask,
+  shouldEscalate,
+  type ManualStopTask,
+} from '../domain/manual-stop'
+import { createD1Repositories } from '../repositories/d1'
+import type { Repositories } from '../repositories/types'
+import { recordAudit } from './audit'
+import { createAutoStopDeps, pauseRunState, type AutoStopDeps } from './auto-stop'
+
+// 手動停止の依存関係
+export interface ManualStopDeps
+  extends Pick<
+    AutoStopDeps,
+    'getRun' | 'saveRun' | 'saveMetaEntityStatus' | 'listNotificationRecipients' | 'saveNotification' | 'runState'
+  > {
+  listDueTasks(now: Date): Promise<ManualStopTask[]>
+  getTask(tenantId: string, taskId: string): Promise<ManualStopTask | null>
+  updateTask(task: ManualStopTask): Promise<void>
+  recordAudit(input: AuditLogInput): Promise<void>
+}
+
+// 再通知の実行結果
+export interface ManualStopEscalationOutcome {
+  taskId: string
+  tenantId: string
+  escalationLevel?: number
+  notificationIds: string[]
+  error?: string
+}
+
+/**
+ * 期限を過ぎた手動停止タスクを再通知（毎時Cron）
+ */
+export async function escalateManualStops(
+  deps: ManualStopDeps,
+  now = new Date()
+): Promise<ManualStopEscalationOutcome[]> {
+  const tasks = await deps.listDueTasks(now)
+  const outcomes: ManualStopEscalationOutcome[] = []
+
+  for (const task of tasks) {
+    if (!shouldEscalate(task, now)) {
+      continue
+    }
+
+    try {
+      const escalated = escalateManualStopTask(task, now)
+      const [run, recipients] = await Promise.all([
+        deps.getRun(task.tenantId, task.runId),
+        deps.listNotificationRecipients(task.tenantId),
+      ])
+      const notifications = createManualStopNotifications(escalated, run?.name ?? task.runId, recipients)
+      for (const notification of notifications) {
+        await deps.saveNotification(notification)
+      }
+      await deps.updateTask(escalated)
+
+      outcomes.push({
+        taskId: task.id,
+        tenantId: task.tenantId,
+        escalationLevel: escalated.escalationLevel,
+        notificationIds: notifications.map((n) => n.id),
+      })
+    } catch (error) {
+      outcomes.push({
+        taskId: task.id,
+        tenantId: task.tenantId,
+        notificationIds: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return outcomes
+}
+
+/**
+ * Ads Managerでの停止完了を記録
+ */
+export async function confirmManualStopTask(
+  deps: ManualStopDeps,
+  tenantId: string,
+  taskId: string,
+  confirmedBy: string,
+  note?: string,
+  now = new Date()
+): Promise<ManualStopTask | null> {
+  const task = await deps.getTask(tenantId, taskId)
+  if (!task) {
+    return null
+  }
+
+  const confirmed = confirmManualStop(task, confirmedBy, note, now)
+
+  // 全広告の停止を確認できたので Run を停止中にする
+  const run = await deps.getRun(tenantId, task.runId)
+  if (run?.status === 'running') {
+    const paused = await pauseRunState(deps, run, `Manual stop confirmed by ${confirmedBy}`)
+    if (!paused.ok) {
+      throw new Error(paused.error)
+    }
+  }
+
+  for (const entity of confirmed.entities) {
+    await deps.saveMetaEntityStatus(tenantId, entity.entityId, 'PAUSED')
+  }
+  await deps.updateTask(confirmed)
+  await deps.recordAudit({
+    tenantId,
+    actorId: confirmedBy,
+    action: 'manual_stop_task.confirm',
+    targetType: 'manual_stop_task',
+    targetId: task.id,
+    before: task,
+    after: confirmed,
+  })
+
+  return confirmed
+}
+
+/**
+ * リポジトリを用いた依存関係を作成
+ */
+export function createManualStopDeps(
+  env: Bindings,
+  repositories: Repositories = createD1Repositories(env.DB)
+): ManualStopDeps {
+  const autoStop = createAutoStopDeps(env, repositories)
+
+  return {
+    getRun: autoStop.getRun,
+    saveRun: autoStop.saveRun,
+    runState: autoStop.runState,
+    saveMetaEntityStatus: autoStop.saveMetaEntityStatus,
+    listNotificationRecipients: autoStop.listNotificationRecipients,
+    saveNotification: autoStop.saveNotification,
+
+    listDueTasks(now) {
+      return repositories.listDueManualStopTasks(now)
+    },
+
+    getTask(tenantId, taskId) {
+      return repositories.manualStopTasks(tenantId).findById(taskId)
+    },
+
+    async updateTask(task) {
+      await repositories.manualStopTasks(task.tenantId).update(task)
+    },
+
+    async recordAudit(input) {
+      await recordAudit(repositories, input)
+    },
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Run Launch Service
+ * Run の状態遷移（Durable Object で排他し D1 へ保存）。配信開始は承認ゲートを通過した Run のみ
+ */
+
+import type { Bindings } from '../env'
+import {
+  checkApprovalGate,
+  type Approval,
+  type ApprovalGateResult,
+  type ApprovalGateVariant,
+} from '../domain/approval'
+import type { AuditLogInput } from '../domain/audit'
+import { applyRunLifecycle, type Run, type RunStatus } from '../domain/run'
+import type { Role } from '../domain/tenancy'
+import { createRunStateClient } from '../durable-objects/run-state'
+import { createD1Repositories } from '../repositories/d1'
+import type { Repositories } from '../repositories/types'
+import { listApprovalGateVariants } from './approval'
+import { recordAudit } from './audit'
+import type { AutoStopDeps } from './auto-stop'
+
+// 配信開始の依存関係
+export interface RunLaunchDeps extends Pick<AutoStopDeps, 'getRun' | 'saveRun' | 'runState'> {
+  listApprovals(tenantId: string, runId: string): Promise<Approval[]>
+  listApprovalGateVariants(tenantId: string, runId: string): Promise<ApprovalGateVariant[]>
+  recordAudit(input: AuditLogInput): Promise<void>
+}
+
+// 配信開始リクエスト
+export interface RunLaunchRequest {
+  tenantId: string
+  runId: string
+  actorId: string
+  actorRole: Role
+  reason?: string
+}
+
+// 状態遷移リクエスト
+export interface RunTransitionCommand extends RunLaunchRequest {
+  to: RunStatus
+}
+
+// 遷移 API で変更できるステータス（配信・停止は広告の配信状態と揃える必要があるため専用の処理で行う）
+export const LIFECYCLE_TARGETS: RunStatus[] = [
+  'draft',
+  'designing',
+  'generating',
+  'ready_for_review',
+  'approved',
+  'publishing',
+  'live',
+  'archived',
+]
+
+// 状態遷移の結果（失敗時は error と HTTP ステータス）
+export interface RunTransitionResult {
+  run?: Run
+  error?: string
+  status: 200 | 404 | 409 | 422
+}
+
+// 配信開始の結果
+export interface RunLaunchResult {
+  started: boolean
+  run?: Run
+  gate?: ApprovalGateResult
+  error?: string
+  status: 200 | 404 | 409 | 422
+}
+
+/**
+ * 承認ゲートを確認して Run を Running に遷移
+ */
+export async function startRun(deps: RunLaunchDeps, request: RunLaunchRequest): Promise<RunLaunchResult> {
+  const run = await deps.getRun(request.tenantId, request.runId)
+  if (!run) {
+    return { started: false, error: 'Run not found', status: 404 }
+  }
+
+  const gate = checkApprovalGate(
+    await deps.listApprovals(request.tenantId, request.runId),
+    await deps.listApprovalGateVariants(request.tenantId, request.runId)
+  )
+  if (!gate.allowed) {
+    return { started: false, gate, error: gate.reason, status: 409 }
+  }
+
+  const result = await applyTransition(deps, run, { ...request, to: 'running' }, 'run.start')
+  return { ...result, started: result.run !== undefined, gate }
+}
+
+/**
+ * 設計〜公開・アーカイブの範囲で Run を遷移（配信開始は startRun を使う）
+ */
+export async function transitionTenantRun(
+  deps: RunLaunchDeps,
+  request: RunTransitionCommand
+): Promise<RunTransitionResult> {
+  if (!LIFECYCLE_TARGETS.includes(request.to)) {
+    return { error: `Run cannot be moved to ${request.to} here`, status: 422 }
+  }
+
+  const run = await deps.getRun(request.tenantId, request.runId)
+  if (!run) {
+    return { error: 'Run not found', status: 404 }
+  }
+  return applyTransition(deps, run, request, 'run.transition')
+}
+
+/**
+ * DO の Run を遷移し、遷移後の状態を D1 へ保存して監査ログに記録
+ */
+async function applyTransition(
+  deps: RunLaunchDeps,
+  run: Run,
+  request: RunTransitionCommand,
+  action: string
+): Promise<RunTransitionResult> {
+  // 遷移は DO が保持する Run を基準に排他して行う（未初期化のときだけ D1 の Run で初期化）
+  const runState = deps.runState(run.id)
+  await runState.initRun(run)
+
+  const transitioned = await runState.transition({
+    to: request.to,
+    actorId: request.actorId,
+    actorRole: request.actorRole,
+    reason: request.reason,
+  })
+  if (!transitioned.ok) {
+    const status = transitioned.status === 409 ? 409 : 422
+    return { error: (transitioned.data as { error: string }).error, status }
+  }
+
+  const updated = applyRunLifecycle(run, transitioned.data as Run)
+  await deps.saveRun(updated)
+  await deps.recordAudit({
+    tenantId: run.tenantId,
+    actorId: request.actorId,
+    action,
+    targetType: 'run',
+    targetId: run.id,
+    before: { status: run.status, startedAt: run.startedAt, approvedBy: run.approvedBy },
+    after: { status: updated.status, startedAt: updated.startedAt, approvedBy: updated.approvedBy },
+    metadata: request.reason ? { reason: request.reason } : {},
+  })
+
+  return { run: updated, status: 200 }
+}
+
+/**
+ * リポジトリ/Durable Objectを用いた依存関係を作成
+ */
+export function createRunLaunchDeps(
+  env: Bindings,
+  repositories: Repositories = createD1Repositories(env.DB)
+): RunLaunchDeps {
+  return {
+    getRun(tenantId, runId) {
+      return repositories.runs(tenantId).findById(runId)
+    },
+
+    async saveRun(run) {
+      await repositories.runs(run.tenantId).update(run)
+    },
+
+    listApprovals(tenantId, runId) {
+      return repositories.approvals(tenantId).listByRun(runId)
+    },
+
+    listApprovalGateVariants(tenantId, runId) {
+      return listApprovalGateVariants(repositories, tenantId, runId)
+    },
+
+    async recordAudit(input) {
+      await recordAudit(repositories, input)
+    },
+
+    runState(runId) {
+      return createRunStateClient(env.RUN_STATE, runId)
+    },
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Run Settings Service
+ * 停止条件・配信先URL・計測タグの変更。承認済みの内容が変わった承認は承認待ちへ戻す
+ */
+
+import type { Approval } from '../domain/approval'
+import { updateRunSettings, type Run, type RunSettingsUpdate } from '../domain/run'
+import type { Repositories } from '../repositories/types'
+import { recordAudit } from './audit'
+import { syncRunApprovals } from './approval'
+
+// 設定変更の結果
+export interface RunSettingsResult {
+  run: Run
+  invalidatedApprovals: Approval[]
+}
+
+/**
+ * Run の設定を更新し、承認との差分を同期（Run が見つからなければ null）
+ */
+export async function updateTenantRunSettings(
+  repositories: Repositories,
+  tenantId: string,
+  runId: string,
+  update: RunSettingsUpdate,
+  actorId: string,
+  now = new Date()
+): Promise<RunSettingsResult | null> {
+  const runs = repositories.runs(tenantId)
+  const run = await runs.findById(runId)
+  if (!run) {
+    return null
+  }
+
+  const updated = updateRunSettings(run, update, now)
+  await runs.update(updated)
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId,
+      action: 'run.update',
+      targetType: 'run',
+      targetId: run.id,
+      before: { stopRules: run.stopRules, destinationUrl: run.destinationUrl, pixels: run.pixels },
+      after: { stopRules: updated.stopRules, destinationUrl: updated.destinationUrl, pixels: updated.pixels },
+    },
+    now
+  )
+
+  const invalidatedApprovals = await syncRunApprovals(repositories, updated, actorId, now)
+  return { run: updated, invalidatedApprovals }
+}
@@ -0,0 +1,237 @@
+/**
+ * Tenancy Service
+ * テナント作成・招待・メンバー管理のフロー
+ */
+
+import { createUser } from '../domain/auth'
+import {
+  acceptInvitation,
+  assertCanRemoveMember,
+  changeMemberRole,
+  createInvitation,
+  createTenant,
+  generateInviteToken,
+  hashInviteToken,
+  revokeInvitation,
+  type Invitation,
+  type InvitationRequest,
+  type Membership,
+  type Role,
+  type Tenant,
+  type TenantCreateRequest,
+} from '../domain/tenancy'
+import type { Repositories } from '../repositories/types'
+import { recordAudit } from './audit'
+
+// 監査ログにはトークンハッシュを残さない
+const auditableInvitation = ({ tokenHash: _tokenHash, ...rest }: Invitation) => rest
+
+// 招待の発行結果（token は発行時のみ返す）
+export interface IssuedInvitation {
+  invitation: Invitation
+  token: string
+}
+
+/**
+ * テナントを作成し、作成者をオーナーとして登録
+ */
+export async function createTenantWithOwner(
+  repositories: Repositories,
+  request: TenantCreateRequest,
+  now = new Date()
+): Promise<{ tenant: Tenant; ownerMembership: Membership }> {
+  if (await repositories.tenants().findBySlug(request.slug)) {
+    throw new Error('Slug is already taken')
+  }
+
+  const { tenant, ownerMembership } = createTenant(request, now)
+  await repositories.tenants().create(tenant)
+  await repositories.memberships(tenant.id).create(ownerMembership)
+  await recordAudit(
+    repositories,
+    {
+      tenantId: tenant.id,
+      actorId: request.ownerId,
+      action: 'tenant.create',
+      targetType: 'tenant',
+      targetId: tenant.id,
+      after: tenant,
+    },
+    now
+  )
+
+  return { tenant, ownerMembership }
+}
+
+/**
+ * 招待を発行（保存するのはトークンのハッシュのみ。未登録のメールはマジックリンクでログインできるようユーザーを作成）
+ */
+export async function issueInvitation(
+  repositories: Repositories,
+  request: InvitationRequest,
+  now = new Date()
+): Promise<IssuedInvitation> {
+  const token = generateInviteToken()
+  const invitation = createInvitation(request, await hashInviteToken(token), now)
+  await repositories.invitations(request.tenantId).create(invitation)
+  if (!(await repositories.users().findByEmail(invitation.email))) {
+    await repositories.users().create(createUser(invitation.email, now))
+  }
+  await recordAudit(
+    repositories,
+    {
+      tenantId: request.tenantId,
+      actorId: request.invitedBy,
+      action: 'invitation.create',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      after: auditableInvitation(invitation),
+    },
+    now
+  )
+
+  return { invitation, token }
+}
+
+/**
+ * 招待トークンを承諾してメンバーに追加（トークンが無効なら null）
+ */
+export async function acceptInvitationToken(
+  repositories: Repositories,
+  tenantId: string,
+  token: string,
+  userId: string,
+  now = new Date()
+): Promise<{ invitation: Invitation; membership: Membership } | null> {
+  const invitations = repositories.invitations(tenantId)
+  const invitation = await invitations.findByTokenHash(await hashInviteToken(token))
+  if (!invitation) {
+    return null
+  }
+
+  const memberships = repositories.memberships(tenantId)
+  if (await memberships.findByUserId(userId)) {
+    throw new Error('User is already a member')
+  }
+
+  const accepted = acceptInvitation(invitation, userId, now)
+  await memberships.create(accepted.membership)
+  await invitations.update(accepted.invitation)
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId: userId,
+      action: 'invitation.accept',
+      targetType: 'membership',
+      targetId: accepted.membership.id,
+      after: accepted.membership,
+      metadata: { invitationId: invitation.id },
+    },
+    now
+  )
+
+  return accepted
+}
+
+/**
+ * 招待を取り消し（見つからなければ null）
+ */
+export async function revokeTenantInvitation(
+  repositories: Repositories,
+  tenantId: string,
+  invitationId: string,
+  actorId: string,
+  now = new Date()
+): Promise<Invitation | null> {
+  const invitations = repositories.invitations(tenantId)
+  const invitation = await invitations.findById(invitationId)
+  if (!invitation) {
+    return null
+  }
+
+  const revoked = revokeInvitation(invitation)
+  await invitations.update(revoked)
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId,
+      action: 'invitation.revoke',
+      targetType: 'invitation',
+      targetId: invitation.id,
+      before: auditableInvitation(invitation),
+      after: auditableInvitation(revoked),
+    },
+    now
+  )
+  return revoked
+}
+
+/**
+ * メンバーのロールを変更（見つからなければ null）
+ */
+export async function updateMemberRole(
+  repositories: Repositories,
+  tenantId: string,
+  membershipId: string,
+  role: Role,
+  actorId: string,
+  now = new Date()
+): Promise<Membership | null> {
+  const memberships = repositories.memberships(tenantId)
+  const membership = await memberships.findById(membershipId)
+  if (!membership) {
+    return null
+  }
+
+  const updated = changeMemberRole(membership, role, await memberships.list(), now)
+  await memberships.update(updated)
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId,
+      action: 'membership.role_change',
+      targetType: 'membership',
+      targetId: membership.id,
+      before: membership,
+      after: updated,
+    },
+    now
+  )
+  return updated
+}
+
+/**
+ * メンバーを削除（見つからなければ false）
+ */
+export async function removeMember(
+  repositories: Repositories,
+  tenantId: string,
+  membershipId: string,
+  actorId: string,
+  now = new Date()
+): Promise<boolean> {
+  const memberships = repositories.memberships(tenantId)
+  const membership = await memberships.findById(membershipId)
+  if (!membership) {
+    return false
+  }
+
+  assertCanRemoveMember(membership, await memberships.list())
+  await memberships.delete(membership.id)
+  await recordAudit(
+    repositories,
+    {
+      tenantId,
+      actorId,
+      action: 'membership.remove',
+      targetType: 'membership',
+      targetId: membership.id,
+      before: membership,
+    },
+    now
+  )
+  return true
+}
@@ -0,0 +1,7 @@
+/**
+ * WASM モジュールの import（wrangler が WebAssembly.Module として読み込む）
+ */
+declare module '*.wasm' {
+  const module: WebAssembly.Module
+  export default module
+}
@@ -0,0 +1,251 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addApprovalComment,
+  APPROVAL_CHECKLISTS,
+  APPROVAL_TARGETS,
+  checkApprovalGate,
+  computeApprovalContentHash,
+  createApproval,
+  createApprovalCompletedNotification,
+  createApprovalInvalidatedNotification,
+  createApprovalRequestedNotification,
+  getApprovalStatusLabel,
+  getApprovalTargetLabel,
+  getRunApprovalContent,
+  invalidateApproval,
+  isChecklistComplete,
+  resubmitApproval,
+  setChecklistItem,
+  signOffApproval,
+  type Approval,
+  type ApprovalTargetType,
+} from '../../src/domain/approval'
+import { createRun } from '../../src/domain/run'
+import { createStopRule } from '../../src/domain/stop-rules'
+
+const NOW = new Date('2025-01-15T12:00:00.000Z')
+
+function request(targetType: ApprovalTargetType = 'lp') {
+  return { tenantId: 'tenant_1', runId: 'run_1', targetType, targetId: 'lpv_1', requestedBy: 'operator_1' }
+}
+
+function checkAll(approval: Approval): Approval {
+  return approval.checklist.reduce((a, item) => setChecklistItem(a, item.id, true, 'reviewer_1', NOW), approval)
+}
+
+function approved(targetType: ApprovalTargetType): Approval {
+  return signOffApproval(checkAll(createApproval(request(targetType), NOW)), 'reviewer_1', 'approved', undefined, NOW)
+}
+
+describe('Approval System', () => {
+  describe('createApproval', () => {
+    it('should start pending with an unchecked checklist for the target', () => {
+      const approval = createApproval(request('measurement'), NOW)
+
+      expect(approval.id).toMatch(/^appr_/)
+      expect(approval.status).toBe('pending')
+      expect(approval.checklist.map((i) => i.label)).toEqual(APPROVAL_CHECKLISTS.measurement)
+      expect(approval.checklist.every((i) => !i.checked)).toBe(true)
+    })
+
+    it('should define a checklist for every target', () => {
+      for (const target of APPROVAL_TARGETS) {
+        expect(APPROVAL_CHECKLISTS[target].length).toBeGreaterThan(0)
+      }
+    })
+
+    it('should reject unknown targets', () => {
+      expect(() => createApproval(request('price' as ApprovalTargetType))).toThrow('Invalid approval target')
+    })
+  })
+
+  describe('setChecklistItem', () => {
+    it('should record who checked an item and clear it when unchecked', () => {
+      const approval = createApproval(request(), NOW)
+      const itemId = approval.checklist[0].id
+
+      const checked = setChecklistItem(approval, itemId, true, 'reviewer_1', NOW)
+      expect(checked.checklist[0]).toMatchObject({ checked: true, checkedBy: 'reviewer_1' })
+
+      const unchecked = setChecklistItem(checked, itemId, false, 'reviewer_1', NOW)
+      expect(unchecked.checklist[0]).toEqual({ id: itemId, label: approval.checklist[0].label, checked: false })
+    })
+
+    it('should reject unknown items and decided approvals', () => {
+      const approval = createApproval(request(), NOW)
+
+      expect(() => setChecklistItem(approval, 'lp_99', true, 'reviewer_1')).toThrow('Checklist item not found')
+      expect(() => setChecklistItem(approved('lp'), 'lp_1', false, 'reviewer_1')).toThrow('Approval is approved')
+    })
+  })
+
+  describe('addApprovalComment', () => {
+    it('should append trimmed comments and reject empty ones', () => {
+      const approval = addApprovalComment(createApproval(request(), NOW), 'reviewer_1', '  CTA is unclear ', NOW)
+
+      expect(approval.comments).toHaveLength(1)
+      expect(approval.comments[0]).toMatchObject({ authorId: 'reviewer_1', body: 'CTA is unclear' })
+      expect(() => addApprovalComment(approval, 'reviewer_1', '   ')).toThrow('Comment is required')
+    })
+  })
+
+  describe('signOffApproval', () => {
+    it('should require a complete checklist to approve', () => {
+      const approval = createApproval(request(), NOW)
+
+      expect(isChecklistComplete(approval)).toBe(false)
+      expect(() => signOffApproval(approval, 'reviewer_1', 'approved')).toThrow('Checklist is incomplete')
+    })
+
+    it('should record the reviewer and time of approval', () => {
+      const result = approved('lp')
+
+      expect(result.status).toBe('approved')
+      expect(result.approvedBy).toBe('reviewer_1')
+      expect(result.approvedAt).toBe(NOW.toISOString())
+      expect(result.signOffs).toEqual([{ reviewerId: 'reviewer_1', decision: 'approved', signedAt: NOW.toISOString() }])
+    })
+
+    it('should require a comment to reject and allow resubmission', () => {
+      const approval = createApproval(request(), NOW)
+      expect(() => signOffApproval(approval, 'reviewer_1', 'rejected')).toThrow('Comment is required to reject')
+
+      const rejected = signOffApproval(checkAll(approval), 'reviewer_1', 'rejected', 'Fix the price', NOW)
+      expect(rejected.status).toBe('rejected')
+      expect(rejected.approvedBy).toBeUndefined()
+      expect(() => signOffApproval(rejected, 'reviewer_1', 'approved')).toThrow('Approval is rejected')
+
+      const resubmitted = resubmitApproval(rejected, NOW)
+      expect(resubmitted.status).toBe('pending')
+      expect(isChecklistComplete(resubmitted)).toBe(false)
+      expect(resubmitted.signOffs).toHaveLength(1)
+      expect(() => resubmitApproval(resubmitted)).toThrow('Only rejected approvals can be resubmitted')
+    })
+  })
+
+  describe('checkApprovalGate', () => {
+    it('should refuse when a target has no approval', () => {
+      const gate = checkApprovalGate([approved('lp'), approved('creative')])
+
+      expect(gate.allowed).toBe(false)
+      expect(gate.missingTargets).toEqual(['measurement', 'stop_rules', 'budget_cap', 'destination_url'])
+    })
+
+    it('should refuse when any approval is not approved', () => {
+      const pending = createApproval(request('lp'), NOW)
+      const gate = checkApprovalGate([...APPROVAL_TARGETS.map(approved), pending])
+
+      expect(gate.allowed).toBe(false)
+      expect(gate.unapprovedIds).toEqual([pending.id])
+    })
+
+    it('should allow when every target is approved', () => {
+      expect(checkApprovalGate(APPROVAL_TARGETS.map(approved))).toEqual({
+        allowed: true,
+        missingTargets: [],
+        unapprovedIds: [],
+        unapprovedVariantIds: [],
+      })
+    })
+
+    it('should require a current approval for every LP and creative variant', () => {
+      const approvals = APPROVAL_TARGETS.map((targetType) => ({ ...approved(targetType), contentHash: 'hash_1' }))
+      const variants = [
+        { targetType: 'lp' as const, id: 'lpv_1', contentHash: 'hash_1' },
+        { targetType: 'lp' as const, id: 'lpv_2', contentHash: 'hash_1' },
+        { targetType: 'creative' as const, id: 'lpv_1', contentHash: 'hash_2' },
+      ]
+
+      const gate = checkApprovalGate(approvals, variants)
+      expect(gate.allowed).toBe(false)
+      // 承認の無い LP と、承認後に内容が変わったクリエイティブ
+      expect(gate.unapprovedVariantIds).toEqual(['lpv_2', 'lpv_1'])
+      expect(gate.reason).toBe('Variants are not approved in their current content: lpv_2, lpv_1')
+      expect(checkApprovalGate(approvals, variants.slice(0, 1)).allowed).toBe(true)
+    })
+  })
+
+  describe('content binding', () => {
+    it('should hash content independently of key order', async () => {
+      const hash = await computeApprovalContentHash({ a: 1, b: [1, 2] })
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/)
+      expect(await computeApprovalContentHash({ b: [1, 2], a: 1 })).toBe(hash)
+      expect(await computeApprovalContentHash({ a: 1, b: [2, 1] })).not.toBe(hash)
+    })
+
+    it('should derive budget caps and destination URL from the run', () => {
+      const cpa = createStopRule('cpa_cap', 5000)
+      const total = createStopRule('total_budget', 100000)
+      const run = {
+        ...createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' }),
+        stopRules: [cpa, total],
+      }
+
+      expect(getRunApprovalContent(run, 'stop_rules')).toEqual([cpa, total])
+      expect(getRunApprovalContent(run, 'budget_cap')).toEqual([total])
+      expect(getRunApprovalContent(run, 'destination_url')).toBeNull()
+      expect(getRunApprovalContent(run, 'lp')).toBeUndefined()
+    })
+
+    it('should keep the approval when the content is unchanged', () => {
+      const approval = { ...approved('stop_rules'), contentHash: 'hash_1' }
+
+      expect(invalidateApproval(approval, 'hash_1', NOW)).toBe(approval)
+    })
+
+    it('should return an approved target to pending review when the content changes', () => {
+      const later = new Date('2025-01-16T09:00:00.000Z')
+      const result = invalidateApproval({ ...approved('stop_rules'), contentHash: 'hash_1' }, 'hash_2', later)
+
+      expect(result.status).toBe('pending')
+      expect(result.contentHash).toBe('hash_2')
+      expect(result.invalidatedAt).toBe(later.toISOString())
+      expect(result.approvedBy).toBeUndefined()
+      expect(isChecklistComplete(result)).toBe(false)
+      expect(result.signOffs).toHaveLength(1)
+    })
+
+    it('should only track the new content of a rejected approval', () => {
+      const pending = { ...checkAll(createApproval(request('lp'), NOW)), contentHash: 'hash_1' }
+      const rejected = signOffApproval(pending, 'reviewer_1', 'rejected', 'Fix the price', NOW)
+      const result = invalidateApproval(rejected, 'hash_2', NOW)
+
+      expect(result.status).toBe('rejected')
+      expect(result.contentHash).toBe('hash_2')
+      expect(result.invalidatedAt).toBeUndefined()
+    })
+  })
+
+  describe('notifications', () => {
+    it('should notify reviewers on request and the requester on approval', () => {
+      const requested = createApprovalRequestedNotification(createApproval(request(), NOW), [
+        { type: 'user', target: 'reviewer_1' },
+      ])
+      expect(requested.type).toBe('approval_required')
+      expect(requested.subject).toBe('承認が必要です: LP（lpv_1）')
+
+      const completed = createApprovalCompletedNotification(approved('budget_cap'))
+      expect(completed.type).toBe('approval_completed')
+      expect(completed.recipients).toEqual([{ type: 'user', target: 'operator_1' }])
+      expect(completed.message).toContain('reviewer_1')
+    })
+
+    it('should tell reviewers why an approval needs another review', () => {
+      const notification = createApprovalInvalidatedNotification(approved('stop_rules'), 'operator_1', [
+        { type: 'user', target: 'reviewer_1' },
+      ])
+
+      expect(notification.type).toBe('approval_required')
+      expect(notification.message).toContain('承認後に内容が変更されたため')
+      expect(notification.data).toMatchObject({ reason: 'content_changed', targetType: 'stop_rules' })
+    })
+  })
+
+  describe('labels', () => {
+    it('should label targets and statuses', () => {
+      expect(getApprovalTargetLabel('destination_url')).toBe('配信先URL')
+      expect(getApprovalStatusLabel('rejected')).toBe('差し戻し')
+    })
+  })
+})
@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest'
+import {
+  AUDIT_GENESIS_HASH,
+  canonicalJson,
+  computeAuditHash,
+  createAuditLog,
+  createAuditSnapshot,
+  decodeAuditCursor,
+  decodeAuditTenantsCursor,
+  diffObjects,
+  encodeAuditCursor,
+  encodeAuditTenantsCursor,
+  matchesAuditAction,
+  toAuditCsv,
+  validateAuditLogFilter,
+  verifyAuditChain,
+  type AuditLog,
+  type AuditLogInput,
+} from '../../src/domain/audit'
+import { createDeployment, executeRollback, type Deployment } from '../../src/domain/publishing'
+
+const NOW = new Date('2025-01-15T12:00:00.000Z')
+
+function liveDeployment(): Deployment {
+  return {
+    ...createDeployment({ runId: 'run_1', tenantId: 'tenant_1', environment: 'production', deployedBy: 'user_1' }),
+    status: 'deployed',
+    version: 3,
+  }
+}
+
+async function buildChain(count: number): Promise<AuditLog[]> {
+  const logs: AuditLog[] = []
+  for (let i = 0; i < count; i++) {
+    const input: AuditLogInput = {
+      tenantId: 'tenant_1',
+      actorId: 'user_1',
+      action: 'project.create',
+      targetType: 'project',
+      targetId: `proj_${i}`,
+      after: { name: `Project ${i}` },
+    }
+    logs.push(await createAuditLog(input, logs[logs.length - 1] ?? null, NOW))
+  }
+  return logs
+}
+
+describe('Audit Domain', () => {
+  describe('canonicalJson', () => {
+    it('should sort keys and drop undefined values', () => {
+      expect(canonicalJson({ b: 1, a: { d: undefined, c: [2, 1] } })).toBe('{"a":{"c":[2,1]},"b":1}')
+    })
+  })
+
+  describe('diffObjects', () => {
+    it('should record the before/after of a deployment rollback', () => {
+      const before = liveDeployment()
+      const after = executeRollback(before, {
+        deploymentId: before.id,
+        targetVersion: 2,
+        reason: 'Broken CTA',
+        requestedBy: 'user_1',
+      })
+
+      const changes = diffObjects(before, after)
+      const paths = changes.map((c) => c.path)
+
+      expect(changes).toContainEqual({ path: 'status', before: 'deployed', after: 'rollback' })
+      expect(changes.find((c) => c.path === 'metadata.rollback')?.after).toMatchObject({
+        targetVersion: 2,
+        reason: 'Broken CTA',
+      })
+      expect(paths).not.toContain('version')
+      expect(paths).not.toContain('runId')
+    })
+
+    it('should record creations and deletions at the root path', () => {
+      expect(diffObjects(undefined, { name: 'A' })).toEqual([{ path: '', after: { name: 'A' } }])
+      expect(diffObjects({ name: 'A' }, undefined)).toEqual([{ path: '', before: { name: 'A' } }])
+    })
+
+    it('should compare arrays as whole values', () => {
+      expect(diffObjects({ ids: [1, 2] }, { ids: [1, 2] })).toEqual([])
+      expect(diffObjects({ ids: [1, 2] }, { ids: [2, 1] })).toEqual([{ path: 'ids', before: [1, 2], after: [2, 1] }])
+    })
+  })
+
+  describe('createAuditLog', () => {
+    it('should chain entries to the previous hash', async () => {
+      const [first, second] = await buildChain(2)
+
+      expect(first.sequence).toBe(1)
+      expect(first.prevHash).toBe(AUDIT_GENESIS_HASH)
+      expect(second.sequence).toBe(2)
+      expect(second.prevHash).toBe(first.hash)
+      expect(first.hash).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it('should require an actor and the same tenant as the previous entry', async () => {
+      const [first] = await buildChain(1)
+      const input: AuditLogInput = { tenantId: 'tenant_1', actorId: '', action: 'x', targetType: 'tenant' }
+
+      await expect(createAuditLog(input, first)).rejects.toThrow('Actor is required')
+      await expect(createAuditLog({ ...input, actorId: 'user_1', tenantId: 'tenant_2' }, first)).rejects.toThrow(
+        'Tenant mismatch'
+      )
+    })
+  })
+
+  describe('verifyAuditChain', () => {
+    it('should accept an intact chain', async () => {
+      expect(await verifyAuditChain(await buildChain(3))).toEqual({ valid: true, checked: 3 })
+    })
+
+    it('should detect a tampered entry', async () => {
+      const logs = await buildChain(3)
+      logs[1] = { ...logs[1], changes: [{ path: '', after: { name: 'Forged' } }] }
+
+      const result = await verifyAuditChain(logs)
+      expect(result.valid).toBe(false)
+      expect(result.brokenAt).toEqual({ id: logs[1].id, sequence: 2, reason: 'hash_mismatch' })
+    })
+
+    it('should detect a removed entry', async () => {
+      const logs = await buildChain(3)
+      logs.splice(1, 1)
+
+      expect((await verifyAuditChain(logs)).brokenAt?.reason).toBe('sequence_gap')
+    })
+
+    it('should detect a rehashed entry that no longer matches the next prevHash', async () => {
+      const logs = await buildChain(3)
+      const { hash: _hash, ...entry } = { ...logs[1], actorId: 'intruder' }
+      logs[1] = { ...entry, hash: await computeAuditHash(entry) }
+
+      const result = await verifyAuditChain(logs)
+      expect(result.brokenAt).toEqual({ id: logs[2].id, sequence: 3, reason: 'prev_hash_mismatch' })
+      expect(result.checked).toBe(2)
+    })
+
+    it('should verify a segment from its anchor', async () => {
+      const logs = await buildChain(4)
+
+      expect((await verifyAuditChain(logs.slice(2), logs[1])).valid).toBe(true)
+      expect((await verifyAuditChain(logs.slice(2))).brokenAt?.reason).toBe('sequence_gap')
+    })
+  })
+
+  describe('createAuditSnapshot', () => {
+    it('should serialize a day of entries as JSONL', async () => {
+      const logs = await buildChain(2)
+      const snapshot = createAuditSnapshot('tenant_1', '2025-01-15', logs)
+
+      expect(snapshot?.key).toBe('audit-snapshots/tenant_1/2025-01-15.jsonl')
+      expect(snapshot?.body.trim().split('\n').map((line) => JSON.parse(line))).toEqual(logs)
+      expect(snapshot).toMatchObject({ count: 2, firstSequence: 1, lastSequence: 2, lastHash: logs[1].hash })
+    })
+
+    it('should return null for an empty day', () => {
+      expect(createAuditSnapshot('tenant_1', '2025-01-15', [])).toBeNull()
+    })
+  })
+
+  describe('validateAuditLogFilter', () => {
+    it('should accept an empty filter and a valid date range', () => {
+      expect(validateAuditLogFilter({}).valid).toBe(true)
+      expect(validateAuditLogFilter({ from: '2025-01-01', to: '2025-02-01', targetType: 'run' }).valid).toBe(true)
+    })
+
+    it('should reject unknown target types, bad dates and reversed ranges', () => {
+      expect(validateAuditLogFilter({ targetType: 'secret' as never }).errors).toContain('Invalid target type')
+      expect(validateAuditLogFilter({ targetId: 'run_1' }).errors).toContain(
+        'targetType is required when filtering by targetId'
+      )
+      expect(validateAuditLogFilter({ from: 'yesterday' }).errors).toContain('Invalid from date')
+      expect(validateAuditLogFilter({ from: '2025-02-01', to: '2025-01-01' }).errors).toContain(
+        'from must be before to'
+      )
+    })
+  })
+
+  describe('matchesAuditAction', () => {
+    it('should match exactly or by prefix wildcard', () => {
+      expect(matchesAuditAction('deployment.rollback', 'deployment.rollback')).toBe(true)
+      expect(matchesAuditAction('deployment.rollback', 'deployment.*')).toBe(true)
+      expect(matchesAuditAction('deployment.rollback', 'deployment')).toBe(false)
+      expect(matchesAuditAction('deploymentx.rollback', 'deployment.*')).toBe(false)
+    })
+  })
+
+  describe('audit cursor', () => {
+    it('should round-trip a sequence and reject garbage', () => {
+      expect(decodeAuditCursor(encodeAuditCursor(42))).toBe(42)
+      expect(decodeAuditCursor('not-a-cursor')).toBeNull()
+      expect(decodeAuditCursor(btoa('seq:abc'))).toBeNull()
+    })
+
+    it('should round-trip per-tenant positions and reject garbage', () => {
+      const positions = { tenant_1: 3, tenant_2: 17 }
+      expect(decodeAuditTenantsCursor(encodeAuditTenantsCursor(positions))).toEqual(positions)
+      expect(decodeAuditTenantsCursor(encodeAuditTenantsCursor({}))).toEqual({})
+      expect(decodeAuditTenantsCursor(encodeAuditCursor(42))).toBeNull()
+      expect(decodeAuditTenantsCursor(btoa('tenants:tenant_1=abc'))).toBeNull()
+    })
+  })
+
+  describe('toAuditCsv', () => {
+    it('should write a header and escape commas, quotes and newlines', async () => {
+      const [log] = await buildChain(1)
+      const csv = toAuditCsv([{ ...log, metadata: { reason: 'Broken "CTA", line\nbreak' } }])
+      const [header, row] = csv.split('\r\n')
+
+      expect(header).toBe(
+        'tenant_id,sequence,created_at,actor_id,action,target_type,target_id,changes,metadata,prev_hash,hash'
+      )
+      expect(row.startsWith('tenant_1,1,2025-01-15T12:00:00.000Z,user_1,project.create,project,proj_0,')).toBe(true)
+      expect(csv).toContain('"{""reason"":""Broken \\""CTA\\"", line\\nbreak""}"')
+    })
+  })
+})
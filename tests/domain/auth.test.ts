@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import {
+  base32Encode,
+  base32Decode,
+  buildOtpauthUri,
+  createSession,
+  createUser,
+  findTotpStep,
+  generateAuthToken,
+  generateTotp,
+  generateTotpSecret,
+  hashAuthToken,
+  isMfaEnabled,
+  isMfaLocked,
+  isSessionExpired,
+  MFA_MAX_FAILED_ATTEMPTS,
+  normalizeEmail,
+  recordMfaFailure,
+  requiresMfa,
+  verifyTotp,
+  SESSION_TTL_SECONDS,
+} from '../../src/domain/auth'
+
+// RFC 6238 付録B のシークレット（ASCII "12345678901234567890"）
+const RFC_SECRET = base32Encode(new TextEncoder().encode('12345678901234567890'))
+
+describe('Auth System', () => {
+  describe('Tokens', () => {
+    it('should generate random hex tokens and hash them', async () => {
+      const token = generateAuthToken()
+      expect(token).toMatch(/^[0-9a-f]{64}$/)
+      expect(generateAuthToken()).not.toBe(token)
+      expect(await hashAuthToken(token)).toMatch(/^[0-9a-f]{64}$/)
+    })
+  })
+
+  describe('Users and sessions', () => {
+    it('should normalize email', () => {
+      expect(normalizeEmail(' Owner@Example.COM ')).toBe('owner@example.com')
+      expect(() => normalizeEmail('nope')).toThrow('Invalid email address')
+    })
+
+    it('should create a session without MFA that expires after the TTL', () => {
+      const now = new Date('2025-01-15T00:00:00.000Z')
+      const session = createSession(createUser('owner@example.com', now), now)
+
+      expect(session.mfaVerified).toBe(false)
+      expect(isSessionExpired(session, now)).toBe(false)
+      expect(isSessionExpired(session, new Date(now.getTime() + SESSION_TTL_SECONDS * 1000))).toBe(true)
+    })
+
+    it('should require MFA for owner and operator only', () => {
+      expect(requiresMfa('owner')).toBe(true)
+      expect(requiresMfa('operator')).toBe(true)
+      expect(requiresMfa('reviewer')).toBe(false)
+      expect(requiresMfa('viewer')).toBe(false)
+    })
+
+    it('should treat MFA as enabled only after verification', () => {
+      const user = createUser('owner@example.com')
+      expect(isMfaEnabled({ ...user, mfaSecret: 'ABC' })).toBe(false)
+      expect(isMfaEnabled({ ...user, mfaSecret: 'ABC', mfaEnabledAt: '2025-01-15T00:00:00.000Z' })).toBe(true)
+    })
+  })
+
+  describe('Base32', () => {
+    it('should match RFC 4648 vectors', () => {
+      expect(base32Encode(new TextEncoder().encode('foobar'))).toBe('MZXW6YTBOI')
+      expect(new TextDecoder().decode(base32Decode('MZXW6YTBOI======'))).toBe('foobar')
+    })
+
+    it('should round-trip generated secrets', () => {
+      const secret = generateTotpSecret()
+      expect(secret).toHaveLength(32)
+      expect(base32Decode(secret)).toHaveLength(20)
+    })
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('MZ1')).toThrow('Invalid base32 character')
+    })
+  })
+
+  describe('TOTP', () => {
+    it('should match RFC 6238 SHA-1 vectors (last 6 digits)', async () => {
+      expect(await generateTotp(RFC_SECRET, new Date(59 * 1000))).toBe('287082')
+      expect(await generateTotp(RFC_SECRET, new Date(1111111109 * 1000))).toBe('081804')
+      expect(await generateTotp(RFC_SECRET, new Date(2000000000 * 1000))).toBe('279037')
+    })
+
+    it('should accept one step of clock drift', async () => {
+      const now = new Date(1111111109 * 1000)
+      const code = await generateTotp(RFC_SECRET, now)
+
+      expect(await verifyTotp(RFC_SECRET, code, new Date(now.getTime() + 30 * 1000))).toBe(true)
+      expect(await verifyTotp(RFC_SECRET, code, new Date(now.getTime() + 90 * 1000))).toBe(false)
+    })
+
+    it('should return the matched time step', async () => {
+      const now = new Date(1111111109 * 1000)
+      const code = await generateTotp(RFC_SECRET, now)
+
+      expect(await findTotpStep(RFC_SECRET, code, new Date(now.getTime() + 30 * 1000))).toBe(37037036)
+      expect(await findTotpStep(RFC_SECRET, '000000', now)).toBeNull()
+    })
+
+    it('should lock after repeated failures until the lockout ends', () => {
+      const now = new Date('2025-01-15T12:00:00.000Z')
+      let attempts = null
+      for (let i = 1; i < MFA_MAX_FAILED_ATTEMPTS; i++) {
+        attempts = recordMfaFailure(attempts, now)
+        expect(attempts).toEqual({ failures: i })
+      }
+
+      attempts = recordMfaFailure(attempts, now)
+      expect(attempts).toEqual({ failures: 0, lockedUntil: '2025-01-15T12:15:00.000Z' })
+      expect(isMfaLocked(attempts, now)).toBe(true)
+      expect(isMfaLocked(attempts, new Date('2025-01-15T12:15:00.000Z'))).toBe(false)
+    })
+
+    it('should reject malformed codes', async () => {
+      expect(await verifyTotp(RFC_SECRET, '12345')).toBe(false)
+      expect(await verifyTotp(RFC_SECRET, 'abcdef')).toBe(false)
+    })
+
+    it('should build an otpauth URI', () => {
+      const uri = buildOtpauthUri('ABC', 'owner@example.com')
+      expect(uri).toMatch(/^otpauth:\/\/totp\/Launch%20Test%20System%3Aowner%40example\.com\?/)
+      expect(uri).toContain('secret=ABC')
+      expect(uri).toContain('digits=6')
+    })
+  })
+})
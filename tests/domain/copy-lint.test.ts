@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildCopyLintRules,
+  extractCreativeTexts,
+  extractLpTexts,
+  formatCopyLintErrors,
+  getCopyLintCategoryLabel,
+  lintCopy,
+  toBannedExpressionRules,
+} from '../../src/domain/copy-lint'
+import { createCreativeTemplate } from '../../src/domain/creative-variant'
+
+const lint = (text: string, rules = buildCopyLintRules()) => lintCopy([{ path: 'title', text }], rules)
+
+describe('Copy Lint', () => {
+  describe('built-in rules', () => {
+    it('should flag absolute and ranking claims without evidence as errors', () => {
+      const result = lint('絶対に痩せたい人へ。満足度No.1のサービス')
+
+      expect(result).toMatchObject({ passed: false, errorCount: 2, warningCount: 0 })
+      expect(result.findings.map((finding) => [finding.ruleId, finding.match, finding.index])).toEqual([
+        ['absolute-claim', '絶対に', 0],
+        ['ranking-claim', 'No.1', 13],
+      ])
+    })
+
+    it('should accept absolute and ranking claims that carry a note or source', () => {
+      expect(lint('満足度No.1※2025年 当社調べ').passed).toBe(true)
+      expect(lint('必ず届く（出典: 配送実績）').passed).toBe(true)
+    })
+
+    it('should only accept evidence in the same sentence as the claim', () => {
+      const result = lint('満足度No.1※当社調べ。絶対に届く※配送実績より！業界一の品揃え')
+
+      expect(result.findings.map((finding) => [finding.ruleId, finding.match])).toEqual([
+        ['ranking-claim', '業界一'],
+      ])
+      expect(lint('満足度No.1のサービス。※2025年 当社調べ').errorCount).toBe(1)
+    })
+
+    it('should match full-width and other compatibility forms at their original position', () => {
+      const result = lint('業界Ｎｏ．１、効果１００％')
+
+      expect(result.findings.map((finding) => [finding.ruleId, finding.match, finding.index])).toEqual([
+        ['ranking-claim', 'Ｎｏ．１', 2],
+        ['absolute-claim', '１００％', 9],
+      ])
+      expect(lint('ﾅﾝﾊﾞｰﾜﾝの品質').findings[0]).toMatchObject({ match: 'ﾅﾝﾊﾞｰﾜﾝ', index: 0 })
+    })
+
+    it('should skip disclaimer texts and the parts matching disclaimer templates', () => {
+      const template = '※効果には個人差があり、必ず痩せるものではありません'
+      const texts = [
+        { path: 'sections.sec_hero.headline', text: `日本一の品揃え。${template.normalize('NFKC')}` },
+        { path: 'sections.sec_note.text', text: '必ず痩せるとは限りません', disclaimer: true },
+      ]
+
+      const result = lintCopy(texts, buildCopyLintRules(), [template])
+      expect(result.findings.map((finding) => [finding.path, finding.match])).toEqual([
+        ['sections.sec_hero.headline', '日本一'],
+      ])
+      // テンプレートが無ければ注意文の中も検査する（※ があっても薬機法の表現は指摘する）
+      expect(lintCopy(texts, buildCopyLintRules()).findings.map((finding) => finding.match)).toEqual(['日本一', '痩せる'])
+    })
+
+    it('should flag medical efficacy claims even with a note', () => {
+      const result = lint('飲むだけで治る※個人の感想です')
+
+      expect(result.findings).toEqual([expect.objectContaining({ ruleId: 'pharma-efficacy', category: 'pharma' })])
+      expect(lint('医師も推奨するサプリ').findings[0]).toMatchObject({ ruleId: 'pharma-endorsement' })
+    })
+
+    it('should report hype and pricing pressure as warnings only', () => {
+      const result = lint('最強の激安セール、今だけ')
+
+      expect(result).toMatchObject({ passed: true, errorCount: 0, warningCount: 3 })
+      expect(result.findings.map((finding) => finding.match)).toEqual(['最強', '激安', '今だけ'])
+    })
+
+    it('should pass plain copy', () => {
+      expect(lint('春の特別価格でお届けします')).toEqual({ passed: true, errorCount: 0, warningCount: 0, findings: [] })
+    })
+  })
+
+  describe('project banned expressions', () => {
+    it('should match literal and regex patterns and skip invalid ones', () => {
+      const rules = toBannedExpressionRules([
+        { pattern: '激安.com', isRegex: false, reason: '競合名' },
+        { pattern: '無料(体験|お試し)', isRegex: true },
+        { pattern: '(', isRegex: true },
+      ])
+
+      expect(rules.map((rule) => rule.id)).toEqual(['project-banned-1', 'project-banned-2'])
+      expect(lintCopy([{ path: 'title', text: '激安xcom' }], rules).findings).toHaveLength(0)
+
+      const result = lintCopy([{ path: 'title', text: '激安.comより安い。無料体験あり' }], rules)
+      expect(result.findings.map((finding) => [finding.match, finding.message])).toEqual([
+        ['激安.com', 'Banned expression: 激安.com (競合名)'],
+        ['無料体験', 'Banned expression: 無料(体験|お試し)'],
+      ])
+      const fullWidth = toBannedExpressionRules([{ pattern: '激安．ＣＯＭ', isRegex: false }])
+      expect(lintCopy([{ path: 'title', text: '激安.COM' }], fullWidth).findings[0]).toMatchObject({ match: '激安.COM' })
+    })
+
+    it('should skip regex patterns that may backtrack catastrophically', () => {
+      const rules = toBannedExpressionRules([
+        { pattern: '(a+)+$', isRegex: true },
+        { pattern: '((ab)*c)+', isRegex: true },
+        { pattern: '(.)\\1', isRegex: true },
+        { pattern: `${'a'.repeat(100)}b`, isRegex: true },
+        { pattern: '(?:無料|お試し)+[(+]', isRegex: true },
+      ])
+
+      expect(rules.map((rule) => rule.id)).toEqual(['project-banned-5'])
+    })
+  })
+
+  describe('text extraction', () => {
+    it('should walk every LP text field except URLs and field names', () => {
+      const texts = extractLpTexts({
+        title: 'Spring',
+        sections: [
+          { id: 'sec_hero', type: 'hero', props: { headline: '見出し', imageUrl: 'https://example.com/a.png' } },
+          { id: 'sec_faq', type: 'faq', props: { items: [{ question: '質問', answer: '回答' }] } },
+          {
+            id: 'sec_form',
+            type: 'form',
+            props: { fields: [{ name: 'email', label: 'メール', type: 'email', required: true }], submitLabel: '送信' },
+          },
+          { id: 'sec_cta', type: 'cta', props: { label: '申し込む', url: 'https://example.com/apply' } },
+          { id: 'sec_note', type: 'disclaimer', props: { text: '※個人の感想です' } },
+        ],
+      })
+
+      expect(texts.filter((text) => text.disclaimer).map((text) => text.path)).toEqual(['sections.sec_note.text'])
+      expect(texts.map((text) => [text.path, text.text])).toEqual([
+        ['title', 'Spring'],
+        ['sections.sec_hero.headline', '見出し'],
+        ['sections.sec_faq.items.0.question', '質問'],
+        ['sections.sec_faq.items.0.answer', '回答'],
+        ['sections.sec_form.fields.0.label', 'メール'],
+        ['sections.sec_form.submitLabel', '送信'],
+        ['sections.sec_cta.label', '申し込む'],
+        ['sections.sec_note.text', '※個人の感想です'],
+      ])
+    })
+
+    it('should locate creative copy on the text layers that show it', () => {
+      const layer = {
+        id: 'lyr_headline',
+        type: 'text' as const,
+        copyKey: 'headline',
+        fontSize: 64,
+        color: '#000000',
+        align: 'left' as const,
+        x: 0,
+        y: 0,
+        width: 1000,
+        height: 200,
+      }
+      const texts = extractCreativeTexts({
+        copy: { headline: '日本一の品揃え', unused: '' },
+        templates: [createCreativeTemplate('1:1', [layer]), createCreativeTemplate('9:16', [layer])],
+      })
+
+      expect(texts).toEqual([
+        {
+          path: 'copy.headline',
+          text: '日本一の品揃え',
+          layers: [
+            { aspectRatio: '1:1', layerId: 'lyr_headline' },
+            { aspectRatio: '9:16', layerId: 'lyr_headline' },
+          ],
+        },
+      ])
+      expect(lintCopy(texts, buildCopyLintRules()).findings[0]).toMatchObject({
+        path: 'copy.headline',
+        match: '日本一',
+        layers: texts[0].layers,
+      })
+    })
+  })
+
+  it('should summarize errors for the approval message', () => {
+    expect(formatCopyLintErrors(lint('必ず治る最強サプリ'))).toBe(
+      'Copy lint failed: title: Absolute claim without evidence "必ず"; title: Medical efficacy claim (薬機法) "治る"'
+    )
+    expect(getCopyLintCategoryLabel('pharma')).toBe('薬機法')
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createCreativeImage,
+  detectImageType,
+  isCreativeImageKey,
+  readImageDimensions,
+  resolveImageCrop,
+} from '../../src/domain/creative-image'
+import type { CreativeImageLayer } from '../../src/domain/creative-variant'
+
+const NOW = new Date('2025-01-15T12:00:00.000Z')
+
+function bytes(values: number[], length = values.length): ArrayBuffer {
+  const buffer = new Uint8Array(length)
+  buffer.set(values)
+  return buffer.buffer
+}
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0))
+
+// 各形式のヘッダー（寸法 1200x800）
+const PNG = bytes([0x89, ...ascii('PNG\r\n\x1a\n'), 0, 0, 0, 13, ...ascii('IHDR'), 0, 0, 0x04, 0xb0, 0, 0, 0x03, 0x20])
+const GIF = bytes([...ascii('GIF89a'), 0xb0, 0x04, 0x20, 0x03])
+const JPEG = bytes([0xff, 0xd8, 0xff, 0xe0, 0, 4, 0, 0, 0xff, 0xc0, 0, 17, 8, 0x03, 0x20, 0x04, 0xb0], 24)
+const WEBP = bytes(
+  [...ascii('RIFF'), 0, 0, 0, 0, ...ascii('WEBPVP8X'), 10, 0, 0, 0, 0, 0, 0, 0, 0xaf, 0x04, 0, 0x1f, 0x03],
+  30
+)
+
+function layer(overrides: Partial<CreativeImageLayer> = {}): CreativeImageLayer {
+  return { id: 'lyr_1', type: 'image', src: 's', fit: 'cover', x: 0, y: 0, width: 1080, height: 1920, ...overrides }
+}
+
+describe('Creative Image', () => {
+  it('should read the type and size of PNG, GIF, JPEG and WebP images', () => {
+    for (const [image, contentType] of [
+      [PNG, 'image/png'],
+      [GIF, 'image/gif'],
+      [JPEG, 'image/jpeg'],
+      [WEBP, 'image/webp'],
+    ] as const) {
+      expect(readImageDimensions(image)).toEqual({ contentType, width: 1200, height: 800 })
+    }
+  })
+
+  it('should reject unknown or truncated images', () => {
+    expect(detectImageType(new TextEncoder().encode('<html>').buffer)).toBeNull()
+    expect(readImageDimensions(new TextEncoder().encode('<svg></svg>').buffer)).toBeNull()
+    expect(readImageDimensions(PNG.slice(0, 16))).toBeNull()
+  })
+
+  it('should store uploads under the run with an extension for the type', () => {
+    const image = createCreativeImage(
+      {
+        tenantId: 'tenant_1',
+        runId: 'run_1',
+        contentType: 'image/jpeg',
+        width: 1200,
+        height: 800,
+        size: 24,
+        hash: 'h',
+        uploadedBy: 'op_1',
+      },
+      NOW
+    )
+
+    expect(image.id).toMatch(/^cimg_/)
+    expect(image.key).toBe(`uploads/creatives/tenant_1/run_1/${image.id}.jpg`)
+    expect(isCreativeImageKey(image.key, 'tenant_1', 'run_1')).toBe(true)
+    expect(isCreativeImageKey(image.key, 'tenant_2', 'run_1')).toBe(false)
+    expect(isCreativeImageKey(image.key, 'tenant_1', 'run_2')).toBe(false)
+    expect(isCreativeImageKey('https://cdn.example.com/a.png', 'tenant_1', 'run_1')).toBe(false)
+  })
+
+  describe('resolveImageCrop', () => {
+    const image = { width: 2000, height: 1000 }
+
+    it('should use an explicit crop as a share of the image', () => {
+      expect(resolveImageCrop(image, layer({ crop: { x: 0.5, y: 0, width: 0.25, height: 1 } }))).toEqual({
+        x: 1000,
+        y: 0,
+        width: 500,
+        height: 1000,
+      })
+    })
+
+    it('should cut the layer aspect around the focal point and keep it inside the image', () => {
+      const centred = resolveImageCrop(image, layer({ width: 1000, height: 1000 }))
+      expect(centred).toEqual({ x: 500, y: 0, width: 1000, height: 1000 })
+
+      const focused = resolveImageCrop(image, layer({ width: 1000, height: 1000, focalPoint: { x: 0.9, y: 0.5 } }))
+      expect(focused).toEqual({ x: 1000, y: 0, width: 1000, height: 1000 })
+    })
+
+    it('should show the whole image for contain without a crop', () => {
+      expect(resolveImageCrop(image, layer({ fit: 'contain' }))).toEqual({ x: 0, y: 0, width: 2000, height: 1000 })
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest'
+import { sha256Hex } from '../../src/domain/audit'
+import {
+  buildFontFamily,
+  createCreativeRenderFile,
+  creativeRenderKey,
+  creativeRenderPath,
+  fitText,
+  measureText,
+  parseCreativeRenderName,
+  renderCreativeSvg,
+  toImageDataUri,
+  wrapText,
+} from '../../src/domain/creative-renderer'
+import { createCreativeTemplate, type CreativeTextLayer } from '../../src/domain/creative-variant'
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]).buffer
+
+function textLayer(overrides: Partial<CreativeTextLayer> = {}): CreativeTextLayer {
+  return {
+    id: 'lyr_text',
+    type: 'text',
+    copyKey: 'headline',
+    fontSize: 100,
+    color: '#ffffff',
+    align: 'center',
+    x: 40,
+    y: 100,
+    width: 1000,
+    height: 260,
+    ...overrides,
+  }
+}
+
+describe('Creative Renderer', () => {
+  it('should key files by variant version and size', () => {
+    expect(creativeRenderKey({ tenantId: 'tenant_1', variantId: 'crv_1', version: 2 }, 'run_1', '9:16', 'png')).toBe(
+      'creatives/tenant_1/run_1/crv_1/v2/9x16.png'
+    )
+    expect(creativeRenderPath('tenant_1', 'run_1', 'crv_1', '9:16', 'png')).toBe('/creative/tenant_1/run_1/crv_1/9x16')
+    expect(creativeRenderPath('tenant_1', 'run_1', 'crv_1', '9:16', 'svg')).toBe(
+      '/creative/tenant_1/run_1/crv_1/9x16.svg'
+    )
+    expect(parseCreativeRenderName('9x16.svg')).toEqual({ aspectRatio: '9:16', format: 'svg' })
+    expect(parseCreativeRenderName('4x5')).toEqual({ aspectRatio: '4:5', format: 'png' })
+    expect(parseCreativeRenderName('2x1')).toBeNull()
+    expect(parseCreativeRenderName('1x1.png')).toBeNull()
+  })
+
+  it('should append the Japanese fallback fonts to the requested family', () => {
+    expect(buildFontFamily('M PLUS 1p')).toBe("'M PLUS 1p', 'Noto Sans JP', 'Noto Sans', sans-serif")
+    expect(buildFontFamily()).toBe("'Noto Sans JP', 'Noto Sans', sans-serif")
+  })
+
+  describe('wrapText', () => {
+    it('should break Japanese per character and Latin per word', () => {
+      expect(measureText('春の', 50)).toBe(100)
+      expect(wrapText('春の特別価格', 200, 50)).toEqual(['春の特別', '価格'])
+      expect(wrapText('spring sale now', 240, 40)).toEqual(['spring sale', 'now'])
+      expect(wrapText('一行目\n二行目', 1000, 50)).toEqual(['一行目', '二行目'])
+    })
+  })
+
+  describe('fitText', () => {
+    it('should keep the font size when the copy fits', () => {
+      expect(fitText(textLayer(), '春の特別価格')).toEqual({
+        fontSize: 100,
+        lineHeight: 130,
+        lines: ['春の特別価格'],
+        truncated: false,
+      })
+    })
+
+    it('should shrink the font until the copy fits the box and line limit', () => {
+      const fitted = fitText(textLayer({ maxLines: 2 }), '今だけ全品半額、さらに送料無料でお届けします')
+
+      expect(fitted.fontSize).toBeLessThan(100)
+      expect(fitted.lines.length).toBeLessThanOrEqual(2)
+      expect(fitted.lines.length * fitted.lineHeight).toBeLessThanOrEqual(260)
+      expect(fitted.truncated).toBe(false)
+    })
+
+    it('should truncate with an ellipsis when even the minimum size overflows', () => {
+      const fitted = fitText(textLayer({ width: 120, height: 20, maxLines: 1 }), '春の特別価格'.repeat(5))
+
+      expect(fitted).toMatchObject({ fontSize: 12, truncated: true })
+      expect(fitted.lines).toHaveLength(1)
+      expect(fitted.lines[0].endsWith('…')).toBe(true)
+      expect(measureText(fitted.lines[0], 12)).toBeLessThanOrEqual(120)
+    })
+  })
+
+  describe('renderCreativeSvg', () => {
+    const template = {
+      ...createCreativeTemplate('1:1', [
+        {
+          id: 'lyr_image',
+          type: 'image',
+          src: 'https://cdn.example.com/a.png',
+          fit: 'cover',
+          x: 0,
+          y: 0,
+          width: 1080,
+          height: 1080,
+        },
+        textLayer({ opacity: 0.5 }),
+      ]),
+      background: '#000000',
+    }
+
+    it('should stack background, image and fitted text', () => {
+      const svg = renderCreativeSvg(template, { headline: '<春> & 夏' })
+
+      expect(svg).toContain('width="1080" height="1080" viewBox="0 0 1080 1080"')
+      expect(svg.indexOf('<rect')).toBeLessThan(svg.indexOf('<image'))
+      expect(svg.indexOf('<image')).toBeLessThan(svg.indexOf('<text'))
+      expect(svg).toContain('href="https://cdn.example.com/a.png" preserveAspectRatio="xMidYMid slice"')
+      expect(svg).toContain('<g opacity="0.5"><text')
+      expect(svg).toContain('text-anchor="middle"')
+      expect(svg).toContain('&lt;春&gt; &amp; 夏</tspan>')
+    })
+
+    it('should embed images passed as data URIs', () => {
+      const dataUri = toImageDataUri(PNG_BYTES, 'image/png')
+      const images = { 'https://cdn.example.com/a.png': dataUri }
+      const svg = renderCreativeSvg(template, { headline: 'x' }, { images })
+
+      expect(dataUri).toMatch(/^data:image\/png;base64,iVBORw0KGgo/)
+      expect(svg).toContain(`href="${dataUri}"`)
+    })
+
+    it('should frame cropped images through a viewBox once their size is known', () => {
+      const cropped = createCreativeTemplate('9:16', [
+        {
+          id: 'lyr_image',
+          type: 'image',
+          src: 'uploads/creatives/t/r/cimg_1.png',
+          fit: 'cover',
+          crop: { x: 0.25, y: 0, width: 0.5, height: 1 },
+          x: 0,
+          y: 0,
+          width: 1080,
+          height: 1920,
+        },
+      ])
+
+      expect(renderCreativeSvg(cropped, {})).toContain('<image x="0" y="0" width="1080" height="1920"')
+      const imageSizes = { 'uploads/creatives/t/r/cimg_1.png': { width: 2000, height: 2000 } }
+      const svg = renderCreativeSvg(cropped, {}, { imageSizes })
+      expect(svg).toContain('<svg x="0" y="0" width="1080" height="1920" viewBox="500 0 1000 2000"')
+      expect(svg).toContain('<image width="2000" height="2000" href="uploads/creatives/t/r/cimg_1.png"/></svg>')
+    })
+  })
+
+  it('should hash and size text and binary files', async () => {
+    const base = { aspectRatio: '1:1' as const, key: 'k', width: 1080, height: 1080 }
+    const svg = await createCreativeRenderFile({ ...base, format: 'svg', body: '<svg/>' })
+    const png = await createCreativeRenderFile({ ...base, format: 'png', body: PNG_BYTES })
+
+    expect(svg).toMatchObject({ contentType: 'image/svg+xml', size: 6, hash: await sha256Hex('<svg/>') })
+    expect(png).toMatchObject({ contentType: 'image/png', size: 12, hash: await sha256Hex(PNG_BYTES) })
+  })
+})
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest'
+import {
+  approveCreativeVersion,
+  createCreativeTemplate,
+  createCreativeVariant,
+  getCreativeAspectRatioLabel,
+  getCreativeSafeAreaWarnings,
+  getCreativeVersionStatusLabel,
+  getMissingCreativeSizes,
+  publishCreativeVersion,
+  rewordCreative,
+  rollbackCreativeVariant,
+  saveCreativeDraft,
+  submitCreativeVersion,
+  validateCreativeContent,
+  type CreativeAspectRatio,
+  type CreativeContent,
+  type CreativeLayer,
+  type CreativeVariantChange,
+} from '../../src/domain/creative-variant'
+
+const NOW = new Date('2025-01-15T12:00:00.000Z')
+
+function layers(ratio: CreativeAspectRatio): CreativeLayer[] {
+  return [
+    {
+      id: `img_${ratio}`,
+      type: 'image',
+      src: 'https://cdn.example.com/a.png',
+      fit: 'cover',
+      x: 0,
+      y: 0,
+      width: 1080,
+      height: 1080,
+    },
+    {
+      id: `txt_${ratio}`,
+      type: 'text',
+      copyKey: 'headline',
+      fontSize: 64,
+      color: '#ffffff',
+      align: 'center',
+      x: 80,
+      y: 80,
+      width: 920,
+      height: 200,
+    },
+  ]
+}
+
+function content(ratios: CreativeAspectRatio[] = ['1:1', '4:5', '9:16']): CreativeContent {
+  return {
+    copy: { headline: '春の特別価格' },
+    templates: ratios.map((ratio) => createCreativeTemplate(ratio, layers(ratio))),
+  }
+}
+
+function create(page = content()): CreativeVariantChange {
+  return createCreativeVariant(
+    { tenantId: 'tenant_1', runId: 'run_1', name: 'Banner A', appeal: 'price', content: page, createdBy: 'op_1' },
+    NOW
+  )
+}
+
+describe('Creative Variant', () => {
+  describe('createCreativeVariant', () => {
+    it('should start with a draft version 1 mirrored on the variant', () => {
+      const { variant, version } = create()
+
+      expect(variant.id).toMatch(/^crv_/)
+      expect(variant).toMatchObject({ version: 1, status: 'draft', appeal: 'price' })
+      expect(version).toMatchObject({ variantId: variant.id, version: 1, status: 'draft', createdBy: 'op_1' })
+    })
+
+    it('should default to empty templates for every mandatory size', () => {
+      const { variant } = createCreativeVariant({ tenantId: 't', runId: 'r', name: 'B', createdBy: 'op_1' })
+
+      expect(variant.content.templates.map((t) => [t.aspectRatio, t.width, t.height])).toEqual([
+        ['1:1', 1080, 1080],
+        ['4:5', 1080, 1350],
+        ['9:16', 1080, 1920],
+      ])
+    })
+  })
+
+  describe('validateCreativeContent', () => {
+    it('should require every mandatory size on submit only', () => {
+      const partial = content(['1:1'])
+
+      expect(validateCreativeContent(partial, 'draft').valid).toBe(true)
+      expect(validateCreativeContent(partial).errors).toEqual(['Missing required sizes: 4:5, 9:16'])
+      expect(getMissingCreativeSizes(content())).toEqual([])
+    })
+
+    it('should reject unknown ratios, duplicates and undefined copy', () => {
+      const page = content(['1:1'])
+      page.templates.push({ ...createCreativeTemplate('1:1'), aspectRatio: '2:3' as CreativeAspectRatio })
+      page.templates.push(createCreativeTemplate('1:1'))
+      page.templates[0].layers[1] = { ...page.templates[0].layers[1], copyKey: 'missing' } as CreativeLayer
+
+      expect(validateCreativeContent(page, 'draft').errors).toEqual([
+        'Layer txt_1:1 (1:1): copy missing is not defined',
+        'Unknown aspect ratio: 2:3',
+        'Duplicate template: 1:1',
+      ])
+    })
+
+    it('should require layers, image sources and non-empty copy on submit', () => {
+      const page = content()
+      page.copy.headline = ' '
+      page.templates[1].layers = []
+      page.templates[2].layers[0] = { ...page.templates[2].layers[0], src: '' } as CreativeLayer
+
+      expect(validateCreativeContent(page).errors).toEqual([
+        'Template 4:5: at least one layer is required',
+        'Layer img_9:16 (9:16): src is required',
+        'Copy headline is empty',
+      ])
+    })
+  })
+
+  describe('image framing', () => {
+    it('should reject crops outside the image and focal points out of range', () => {
+      const page = content()
+      page.templates[0].layers[0] = {
+        ...page.templates[0].layers[0],
+        crop: { x: 0.5, y: 0, width: 0.6, height: 1 },
+        focalPoint: { x: 1.2, y: 0.5 },
+      } as CreativeLayer
+
+      expect(validateCreativeContent(page, 'draft').errors).toEqual([
+        'Layer img_1:1 (1:1): crop must be within the image',
+        'Layer img_1:1 (1:1): focalPoint must be between 0 and 1',
+      ])
+    })
+  })
+
+  describe('getCreativeSafeAreaWarnings', () => {
+    it('should warn about 9:16 text layers under the Stories/Reels interface only', () => {
+      const page = content()
+      expect(getCreativeSafeAreaWarnings(page)).toEqual([
+        {
+          aspectRatio: '9:16',
+          layerId: 'txt_9:16',
+          message: 'Text layer txt_9:16 is outside the Stories/Reels safe area (9:16)',
+        },
+      ])
+
+      page.templates[2].layers[1] = { ...page.templates[2].layers[1], y: 300 }
+      expect(getCreativeSafeAreaWarnings(page)).toEqual([])
+    })
+  })
+
+  describe('version lifecycle', () => {
+    it('should submit, approve and publish like LP variants', () => {
+      const { variant, version } = create()
+      const submitted = submitCreativeVersion(variant, version, 'op_1', NOW)
+      const approved = approveCreativeVersion(submitted.variant, submitted.version, 'reviewer_1', NOW)
+      const published = publishCreativeVersion(approved.variant, approved.version, NOW)
+
+      expect(published.variant).toMatchObject({ status: 'published', publishedVersion: 1, approvedBy: 'reviewer_1' })
+
+      const partial = create(content(['1:1']))
+      expect(() => submitCreativeVersion(partial.variant, partial.version, 'op_1')).toThrow(
+        'Missing required sizes: 4:5, 9:16'
+      )
+    })
+
+    it('should reword a submitted version into a new draft without moving layers', () => {
+      const { variant, version } = create()
+      const submitted = submitCreativeVersion(variant, version, 'op_1', NOW)
+
+      const reworded = rewordCreative(submitted.variant, submitted.version, { headline: '今だけ半額' }, 'op_2', NOW)
+      expect(reworded.version).toMatchObject({ version: 2, status: 'draft', createdBy: 'op_2' })
+      expect(reworded.version.content.copy).toEqual({ headline: '今だけ半額' })
+      expect(reworded.version.content.templates).toEqual(version.content.templates)
+      expect(() => rewordCreative(reworded.variant, reworded.version, { cta: 'Go' }, 'op_2')).toThrow(
+        'Unknown copy keys: cta'
+      )
+    })
+
+    it('should roll back to an earlier version as a new draft', () => {
+      const { variant, version } = create()
+      const edited = saveCreativeDraft(variant, version, content(['1:1', '4:5', '9:16']), 'op_1', NOW)
+      const submitted = submitCreativeVersion(edited.variant, edited.version, 'op_1', NOW)
+      const next = rewordCreative(submitted.variant, submitted.version, { headline: 'v2' }, 'op_1', NOW)
+
+      const rolledBack = rollbackCreativeVariant(next.variant, submitted.version, 'op_1', NOW)
+      expect(rolledBack.version).toMatchObject({ version: 3, restoredFrom: 1, status: 'draft' })
+      expect(rolledBack.variant.content.copy.headline).toBe('春の特別価格')
+    })
+  })
+
+  describe('labels', () => {
+    it('should label aspect ratios and version statuses', () => {
+      expect(getCreativeAspectRatioLabel('9:16')).toBe('ストーリーズ（9:16）')
+      expect(getCreativeVersionStatusLabel('approved')).toBe('承認済み')
+    })
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { sha256Hex } from '../../src/domain/audit'
+import {
+  createSnapshotEntry,
+  createSnapshotManifest,
+  getSnapshotRef,
+  isSnapshotManifestIntact,
+  snapshotKey,
+  toSnapshotAssets,
+} from '../../src/domain/deployment-snapshot'
+import { createDeployment } from '../../src/domain/publishing'
+
+const NOW = new Date('2025-01-15T12:00:00.000Z')
+
+const deployment = {
+  ...createDeployment({ runId: 'run_1', tenantId: 'tenant_1', environment: 'production', deployedBy: 'owner_1' }),
+  version: 3,
+}
+
+const LP_FILE = {
+  path: 'lp/lpv_1.html',
+  type: 'lp' as const,
+  variantId: 'lpv_1',
+  sourceUrl: '/lp/x',
+  contentType: 'text/html; charset=utf-8',
+}
+
+const CONFIG_FILE = {
+  path: 'config.json',
+  type: 'config' as const,
+  sourceUrl: '/runs/run_1',
+  contentType: 'application/json',
+}
+
+describe('Deployment Snapshot', () => {
+  it('should key files by tenant, run, environment and version', () => {
+    expect(snapshotKey(deployment, 'lp/lpv_1.html')).toBe('snapshots/tenant_1/run_1/production/v3/lp/lpv_1.html')
+  })
+
+  it('should hash text and binary bodies by their bytes', async () => {
+    const bytes = new TextEncoder().encode('{"a":"あ"}')
+    const text = await createSnapshotEntry(CONFIG_FILE, '{"a":"あ"}')
+    const binary = await createSnapshotEntry(CONFIG_FILE, bytes.slice().buffer)
+
+    expect(text.size).toBe(bytes.byteLength)
+    expect(binary.hash).toBe(text.hash)
+    expect(text.hash).toBe(await sha256Hex('{"a":"あ"}'))
+  })
+
+  it('should sort entries and detect tampering of the manifest', async () => {
+    const entries = [
+      await createSnapshotEntry(LP_FILE, '<html></html>'),
+      await createSnapshotEntry(CONFIG_FILE, '{}'),
+    ]
+    const manifest = await createSnapshotManifest(deployment, entries, NOW)
+
+    expect(manifest.entries.map((entry) => entry.path)).toEqual(['config.json', 'lp/lpv_1.html'])
+    expect(manifest).toMatchObject({ deploymentId: deployment.id, version: 3, createdAt: NOW.toISOString() })
+    expect(await isSnapshotManifestIntact(manifest)).toBe(true)
+
+    manifest.entries[1] = { ...manifest.entries[1], hash: 'f'.repeat(64) }
+    expect(await isSnapshotManifestIntact(manifest)).toBe(false)
+  })
+
+  it('should describe snapshot files as deployed assets', async () => {
+    const entry = await createSnapshotEntry(LP_FILE, '<html></html>')
+    const [asset] = toSnapshotAssets(deployment, await createSnapshotManifest(deployment, [entry], NOW))
+
+    expect(asset).toMatchObject({
+      type: 'lp',
+      variantId: 'lpv_1',
+      sourceUrl: '/lp/x',
+      deployedUrl: 'snapshots/tenant_1/run_1/production/v3/lp/lpv_1.html',
+      hash: entry.hash,
+      size: 13,
+    })
+  })
+
+  it('should read the snapshot reference from metadata', () => {
+    expect(getSnapshotRef(deployment)).toBeNull()
+    expect(getSnapshotRef({ ...deployment, metadata: { snapshot: { key: 'k', hash: 'h' } } })).toEqual({
+      key: 'k',
+      hash: 'h',
+    })
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import { sha256Hex } from '../../src/domain/audit'
+import { buildCreativeAssetUrls, createLpExport, lpExportKey, toLpExportJson } from '../../src/domain/lp-export'
+import type { PublishedLp } from '../../src/domain/lp-renderer'
+import { createPixelConfig } from '../../src/domain/measurement'
+import { createDeployedAsset, createDeployment } from '../../src/domain/publishing'
+
+const CREATIVE_PATH = '/creative/tenant_1/run_1/crv_1/1x1'
+
+const PAGE: PublishedLp = {
+  tenantId: 'tenant_1',
+  runId: 'run_1',
+  variantId: 'lpv_1',
+  version: 2,
+  content: {
+    title: 'Spring Sale',
+    sections: [
+      { id: 'hero', type: 'hero', props: { headline: '春の特別価格', imageUrl: CREATIVE_PATH } },
+      { id: 'faq', type: 'faq', props: { items: [{ question: '解約は？', answer: 'いつでも可能です' }] } },
+      { id: 'cta', type: 'cta', props: { label: '申し込む', url: 'https://example.com/apply' } },
+    ],
+  },
+  pixels: [createPixelConfig('run_1', 'meta', '1234567890')],
+  publishedAt: '2025-01-15T12:00:00.000Z',
+}
+
+const CREATIVE_URL = 'https://cdn.example.com/creative/tenant_1/run_1/crv_1/1x1'
+
+function deployment() {
+  const base = createDeployment({ runId: 'run_1', tenantId: 'tenant_1', environment: 'production', deployedBy: 'u' })
+  return {
+    ...base,
+    assets: [
+      createDeployedAsset('creative', CREATIVE_PATH, 'snapshots/a', { variantId: 'crv_1' }),
+      createDeployedAsset('creative', `${CREATIVE_PATH}.svg`, 'snapshots/b', { variantId: 'crv_1' }),
+      createDeployedAsset('creative', '/creative/tenant_1/run_1/crv_2/1x1', 'snapshots/c', { variantId: 'crv_2' }),
+    ],
+    urls: {
+      ...base.urls,
+      creativeUrls: [
+        { variantId: 'crv_1', aspectRatio: '1:1', url: CREATIVE_URL },
+        { variantId: 'crv_1', aspectRatio: '4:5', url: 'https://cdn.example.com/creative/tenant_1/run_1/crv_1/4x5' },
+      ],
+    },
+  }
+}
+
+describe('LP Export', () => {
+  it('should map the served path of each rendered creative size to its CreativeUrl', () => {
+    expect(buildCreativeAssetUrls(deployment())).toEqual({ [CREATIVE_PATH]: CREATIVE_URL })
+  })
+
+  it('should write html, json and print files under a versioned key', async () => {
+    const files = await createLpExport(PAGE, buildCreativeAssetUrls(deployment()))
+
+    expect(files.map((file) => [file.format, file.key])).toEqual([
+      ['html', 'exports/lp/tenant_1/run_1/lpv_1/v2/index.html'],
+      ['json', 'exports/lp/tenant_1/run_1/lpv_1/v2/lp.json'],
+      ['print', 'exports/lp/tenant_1/run_1/lpv_1/v2/print.html'],
+    ])
+    for (const file of files) {
+      expect(file.hash).toBe(await sha256Hex(file.body))
+      expect(file.size).toBe(new TextEncoder().encode(file.body).length)
+    }
+    expect(lpExportKey(PAGE, 'json')).toBe(files[1].key)
+  })
+
+  it('should inline styles, rewrite asset URLs and leave out pixels', async () => {
+    const [html, json, print] = await createLpExport(PAGE, buildCreativeAssetUrls(deployment()))
+
+    expect(html.body).toContain('<style>')
+    expect(html.body).toContain(`<img src="${CREATIVE_URL}"`)
+    expect(html.body).not.toContain('fbq(')
+    expect(html.body).toContain('<details>')
+    expect(JSON.parse(json.body)).not.toHaveProperty('pixels')
+    expect(json.body).toBe(toLpExportJson(PAGE))
+    expect(print.body).toContain('@page{size:A4')
+    expect(print.body).toContain('<details open>')
+    expect(print.body).toContain('<span class="lp-link-url">https://example.com/apply</span>')
+    expect(print.body).toContain('lpv_1 v2')
+  })
+
+  it('should produce the same JSON regardless of key order', () => {
+    const reordered = { ...PAGE, content: { sections: PAGE.content.sections, title: PAGE.content.title } }
+
+    expect(toLpExportJson(reordered)).toBe(toLpExportJson(PAGE))
+  })
+})
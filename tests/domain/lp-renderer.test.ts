@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import {
+  escapeHtml,
+  renderLpHtml,
+  renderPixelTags,
+  safeImageUrl,
+  safeUrl,
+  type PublishedLp,
+} from '../../src/domain/lp-renderer'
+import type { LpContent, LpSection } from '../../src/domain/lp-variant'
+import { createPixelConfig } from '../../src/domain/measurement'
+
+function page(content: LpContent, pixels = [createPixelConfig('run_1', 'meta', '1234567890')]): PublishedLp {
+  return {
+    tenantId: 'tenant_1',
+    runId: 'run_1',
+    variantId: 'lpv_1',
+    version: 1,
+    content,
+    pixels,
+    publishedAt: '2025-01-15T12:00:00.000Z',
+  }
+}
+
+const CONTENT: LpContent = {
+  title: 'Spring Sale',
+  description: '春の特別価格',
+  sections: [
+    { id: 'hero', type: 'hero', props: { headline: '春の特別価格', ctaLabel: '今すぐ申し込む' } },
+    { id: 'benefits', type: 'benefits', props: { items: [{ title: '送料無料', body: '全国\n一律' }] } },
+    { id: 'faq', type: 'faq', props: { items: [{ question: '解約は？', answer: 'いつでも可能です' }] } },
+    {
+      id: 'form',
+      type: 'form',
+      props: {
+        fields: [
+          { name: 'email', label: 'メール', type: 'email', required: true },
+          { name: 'plan', label: 'プラン', type: 'select', required: false, options: ['A', 'B'] },
+        ],
+        submitLabel: '送信',
+        action: 'https://forms.example.com/spring',
+      },
+    },
+    { id: 'cta', type: 'cta', props: { label: '申し込む', url: '#form' } },
+    { id: 'note', type: 'disclaimer', props: { text: '※個人の感想です' } },
+  ],
+}
+
+describe('LP Renderer', () => {
+  it('should render every section into one page', () => {
+    const html = renderLpHtml(page(CONTENT))
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true)
+    expect(html).toContain('<title>Spring Sale</title>')
+    expect(html).toContain('<meta name="description" content="春の特別価格">')
+    expect(html).toContain('<h1>春の特別価格</h1>')
+    expect(html).toContain('<a class="lp-button" href="#form">今すぐ申し込む</a>')
+    expect(html).toContain('<p>全国<br>一律</p>')
+    expect(html).toContain('<summary>解約は？</summary>')
+    expect(html).toContain('<form class="lp-form" method="post" action="https://forms.example.com/spring">')
+    expect(html).toContain('<input id="form-email" type="email" name="email" required>')
+    expect(html).toContain('<option value="B">B</option>')
+    expect(html).toContain('<aside id="note" class="lp-disclaimer">※個人の感想です</aside>')
+  })
+
+  it('should leave out forms without an https submission endpoint', () => {
+    for (const action of [undefined, 'http://forms.example.com/spring', 'javascript:alert(1)', '#form']) {
+      const form = { ...CONTENT.sections[3], props: { ...CONTENT.sections[3].props, action } } as LpSection
+      const html = renderLpHtml(page({ ...CONTENT, sections: [form] }))
+
+      expect(html).not.toContain('<form')
+      expect(html).not.toContain('name="email"')
+    }
+  })
+
+  it('should escape user content', () => {
+    const html = renderLpHtml(
+      page({
+        title: '</title><script>alert(1)</script>',
+        sections: [
+          { id: '"><img src=x>', type: 'hero', props: { headline: '<b>Sale</b> & "more"' } },
+          { id: 'faq', type: 'faq', props: { items: [{ question: "it's <ok>", answer: '<script>x</script>' }] } },
+        ],
+      })
+    )
+
+    expect(html).not.toContain('<script>alert(1)</script>')
+    expect(html).not.toContain('<script>x</script>')
+    expect(html).toContain('<title>&lt;/title&gt;&lt;script&gt;alert(1)&lt;/script&gt;</title>')
+    expect(html).toContain('<section id="&quot;&gt;&lt;img src=x&gt;" class="lp-hero">')
+    expect(html).toContain('<h1>&lt;b&gt;Sale&lt;/b&gt; &amp; &quot;more&quot;</h1>')
+    expect(html).toContain('<summary>it&#39;s &lt;ok&gt;</summary>')
+  })
+
+  it('should drop links and images that are not https', () => {
+    expect(safeUrl('javascript:alert(1)')).toBeNull()
+    expect(safeUrl('http://example.com')).toBeNull()
+    expect(safeUrl('#form')).toBe('#form')
+    expect(safeUrl('#form', false)).toBeNull()
+    expect(safeUrl('https://example.com/a?b=1')).toBe('https://example.com/a?b=1')
+    // 画像は同じホストのクリエイティブの配信パスも使える
+    expect(safeImageUrl('/creative/tenant_1/run_1/crv_1/1x1')).toBe('/creative/tenant_1/run_1/crv_1/1x1')
+    expect(safeImageUrl('/creative/../admin')).toBeNull()
+    expect(safeImageUrl('//evil.example.com/a.png')).toBeNull()
+    expect(safeImageUrl('#form')).toBeNull()
+
+    const html = renderLpHtml(
+      page({
+        title: 'Links',
+        sections: [
+          { id: 'hero', type: 'hero', props: { headline: 'Hi', imageUrl: 'javascript:alert(1)' } },
+          { id: 'cta', type: 'cta', props: { label: 'Go', url: 'javascript:alert(1)' } },
+        ],
+      })
+    )
+    expect(html).not.toContain('javascript:')
+    expect(html).not.toContain('<img')
+  })
+
+  it('should inject enabled Meta and Google tags only', () => {
+    const pixels = [
+      createPixelConfig('run_1', 'meta', '1234567890'),
+      createPixelConfig('run_1', 'google', 'G-ABC1234'),
+      { ...createPixelConfig('run_1', 'meta', '999999'), enabled: false },
+      createPixelConfig('run_1', 'meta', "1');alert(1);//"),
+      createPixelConfig('run_1', 'custom', 'tag_1'),
+    ]
+
+    const tags = renderPixelTags(pixels)
+    expect(tags).toContain("fbq('init', '1234567890');")
+    expect(tags).toContain("gtag('config', 'G-ABC1234');")
+    expect(tags).not.toContain('999999')
+    expect(tags).not.toContain('alert(1)')
+    expect(renderLpHtml(page(CONTENT)).indexOf('<!-- Meta Pixel Code -->')).toBeLessThan(
+      renderLpHtml(page(CONTENT)).indexOf('</head>')
+    )
+  })
+
+  it('should escape every HTML special character', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;')
+    expect(escapeHtml(undefined)).toBe('')
+  })
+})
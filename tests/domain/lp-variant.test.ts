@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest'
+import {
+  approveLpVersion,
+  createLpSection,
+  createLpVariant,
+  diffLpContent,
+  getLpSectionLabel,
+  getLpVersionStatusLabel,
+  publishLpVersion,
+  rollbackLpVariant,
+  saveLpDraft,
+  submitLpVersion,
+  validateLpContent,
+  type LpContent,
+  type LpVariantChange,
+} from '../../src/domain/lp-variant'
+
+const NOW = new Date('2025-01-15T12:00:00.000Z')
+
+function content(): LpContent {
+  return {
+    title: 'Spring Sale',
+    sections: [
+      { id: 'sec_hero', type: 'hero', props: { headline: '春の特別価格' } },
+      { id: 'sec_faq', type: 'faq', props: { items: [{ question: '送料は？', answer: '無料です' }] } },
+      { id: 'sec_cta', type: 'cta', props: { label: '申し込む', url: '#form' } },
+    ],
+  }
+}
+
+function create(): LpVariantChange {
+  return createLpVariant(
+    { tenantId: 'tenant_1', runId: 'run_1', name: 'Variant A', appeal: 'price', content: content(), createdBy: 'op_1' },
+    NOW
+  )
+}
+
+function approved(): LpVariantChange {
+  const { variant, version } = create()
+  const submitted = submitLpVersion(variant, version, 'op_1', NOW)
+  return approveLpVersion(submitted.variant, submitted.version, 'reviewer_1', NOW)
+}
+
+describe('LP Variant', () => {
+  describe('createLpVariant', () => {
+    it('should start with a draft version 1 mirrored on the variant', () => {
+      const { variant, version } = create()
+
+      expect(variant.id).toMatch(/^lpv_/)
+      expect(variant).toMatchObject({ version: 1, status: 'draft', appeal: 'price' })
+      expect(version).toMatchObject({ variantId: variant.id, version: 1, status: 'draft', createdBy: 'op_1' })
+      expect(variant.content).toEqual(version.content)
+    })
+
+    it('should default to an empty page titled after the variant', () => {
+      const { variant } = createLpVariant({ tenantId: 't', runId: 'r', name: ' B ', createdBy: 'op_1' })
+
+      expect(variant.content).toEqual({ title: 'B', sections: [] })
+      expect(() => createLpVariant({ tenantId: 't', runId: 'r', name: ' ', createdBy: 'op_1' })).toThrow(
+        'Name is required'
+      )
+    })
+  })
+
+  describe('validateLpContent', () => {
+    it('should only check structure for drafts', () => {
+      const draft = { title: '', sections: [createLpSection('hero', { headline: '' })] }
+
+      expect(validateLpContent(draft, 'draft').valid).toBe(true)
+      expect(validateLpContent(draft).errors).toContain('Title is required')
+    })
+
+    it('should require hero and CTA sections and their fields on submit', () => {
+      const result = validateLpContent({
+        title: 'Page',
+        sections: [
+          { id: 's1', type: 'hero', props: { headline: '' } },
+          { id: 's2', type: 'form', props: { fields: [], submitLabel: '', action: 'http://forms.example.com' } },
+        ],
+      })
+
+      expect(result.errors).toEqual([
+        'Section cta is required',
+        'Section s1 (hero): headline is required',
+        'Section s2 (form): at least one field is required',
+        'Section s2 (form): submitLabel is required',
+        'Section s2 (form): action must be an https URL',
+      ])
+    })
+
+    it('should reject unknown types, duplicate ids and non-https CTA links', () => {
+      const page = content()
+      expect(
+        validateLpContent({ ...page, sections: [...page.sections, { ...page.sections[0] }] }, 'draft').errors
+      ).toEqual(['Duplicate section id: sec_hero'])
+      expect(
+        validateLpContent({ ...page, sections: [{ id: 'x', type: 'video', props: {} } as never] }, 'draft').errors
+      ).toEqual(['Unknown section type: video'])
+
+      page.sections[2] = { id: 'sec_cta', type: 'cta', props: { label: 'Go', url: 'http://example.com' } }
+      expect(validateLpContent(page).errors).toEqual([
+        'Section sec_cta (cta): url must be an https URL or an in-page link',
+      ])
+    })
+  })
+
+  describe('version lifecycle', () => {
+    it('should edit the draft in place and start a new version after submission', () => {
+      const { variant, version } = create()
+      const edited = saveLpDraft(variant, version, { ...content(), title: 'Edited' }, 'op_1', NOW)
+      expect(edited.version.version).toBe(1)
+
+      const submitted = submitLpVersion(edited.variant, edited.version, 'op_1', NOW)
+      expect(submitted.variant.status).toBe('submitted')
+
+      const next = saveLpDraft(submitted.variant, submitted.version, content(), 'op_2', NOW)
+      expect(next.version).toMatchObject({ version: 2, status: 'draft', createdBy: 'op_2' })
+      expect(next.variant).toMatchObject({ version: 2, status: 'draft' })
+    })
+
+    it('should assign ids to new sections', () => {
+      const { variant, version } = create()
+      const page = content()
+      const added = { type: 'disclaimer', props: { text: '個人の感想です' } } as LpContent['sections'][number]
+      const saved = saveLpDraft(variant, version, { ...page, sections: [...page.sections, { ...added, id: '' }] })
+
+      expect(saved.version.content.sections[3].id).toMatch(/^sec_/)
+    })
+
+    it('should validate on submit and only allow submitted versions to be approved', () => {
+      const { variant, version } = createLpVariant({ tenantId: 't', runId: 'r', name: 'Empty', createdBy: 'op_1' })
+
+      expect(() => submitLpVersion(variant, version, 'op_1')).toThrow('Section hero is required')
+      expect(() => approveLpVersion(variant, version, 'reviewer_1')).toThrow('Version is draft')
+    })
+
+    it('should publish approved versions and record the live version', () => {
+      const { variant, version } = approved()
+      expect(version).toMatchObject({ status: 'approved', approvedBy: 'reviewer_1' })
+
+      const published = publishLpVersion(variant, version, NOW)
+      expect(published.variant).toMatchObject({ status: 'published', publishedVersion: 1 })
+      expect(published.version.publishedAt).toBe(NOW.toISOString())
+    })
+
+    it('should not move the latest status when publishing an older version', () => {
+      const { variant, version } = approved()
+      const next = saveLpDraft(variant, version, { ...content(), title: 'v2' }, 'op_1', NOW)
+
+      const published = publishLpVersion(next.variant, version, NOW)
+      expect(published.variant).toMatchObject({ version: 2, status: 'draft', publishedVersion: 1 })
+      expect(published.variant.content.title).toBe('v2')
+    })
+  })
+
+  describe('rollbackLpVariant', () => {
+    it('should copy an earlier version into a new draft', () => {
+      const { variant, version } = approved()
+      const next = saveLpDraft(variant, version, { ...content(), title: 'v2' }, 'op_1', NOW)
+
+      const rolledBack = rollbackLpVariant(next.variant, version, 'op_2', NOW)
+      expect(rolledBack.version).toMatchObject({ version: 3, status: 'draft', restoredFrom: 1, createdBy: 'op_2' })
+      expect(rolledBack.variant.content).toEqual(version.content)
+      expect(() => rollbackLpVariant(rolledBack.variant, rolledBack.version, 'op_2')).toThrow(
+        'Rollback target must be an earlier version'
+      )
+    })
+  })
+
+  describe('diffLpContent', () => {
+    it('should report field, added, removed and moved sections', () => {
+      const before = content()
+      const after: LpContent = {
+        title: 'Spring Sale 2',
+        sections: [
+          before.sections[2],
+          { id: 'sec_hero', type: 'hero', props: { headline: '春の特別価格', subheadline: '今だけ' } },
+          { id: 'sec_note', type: 'disclaimer', props: { text: '個人の感想です' } },
+        ],
+      }
+
+      const diff = diffLpContent(before, after)
+      expect(diff.changed).toBe(true)
+      expect(diff.meta).toEqual([{ path: 'title', before: 'Spring Sale', after: 'Spring Sale 2' }])
+      expect(diff.sections).toEqual([
+        { sectionId: 'sec_faq', type: 'faq', change: 'removed', fromIndex: 1, fields: [] },
+        { sectionId: 'sec_cta', type: 'cta', change: 'moved', fromIndex: 2, toIndex: 0, fields: [] },
+        {
+          sectionId: 'sec_hero',
+          type: 'hero',
+          change: 'modified',
+          fromIndex: 0,
+          toIndex: 1,
+          fields: [{ path: 'subheadline', after: '今だけ' }],
+        },
+        { sectionId: 'sec_note', type: 'disclaimer', change: 'added', toIndex: 2, fields: [] },
+      ])
+    })
+
+    it('should diff list items by position', () => {
+      const before = content()
+      const after = content()
+      after.sections[1] = {
+        id: 'sec_faq',
+        type: 'faq',
+        props: { items: [{ question: '送料は？', answer: '全国一律無料です' }] },
+      }
+
+      expect(diffLpContent(before, after).sections[0].fields).toEqual([
+        { path: 'items[0].answer', before: '無料です', after: '全国一律無料です' },
+      ])
+      expect(diffLpContent(before, content())).toEqual({ changed: false, meta: [], sections: [] })
+    })
+  })
+
+  describe('labels', () => {
+    it('should label sections and version statuses', () => {
+      expect(getLpSectionLabel('hero')).toBe('ファーストビュー')
+      expect(getLpVersionStatusLabel('submitted')).toBe('提出済み')
+    })
+  })
+})
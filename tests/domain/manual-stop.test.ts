@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generateManualStopTaskId,
+  createManualStopTask,
+  shouldEscalate,
+  escalateManualStopTask,
+  confirmManualStop,
+  getEscalationChannels,
+  createManualStopNotifications,
+  getManualStopStatusLabel,
+} from '../../src/domain/manual-stop'
+import type { StopEvent } from '../../src/domain/stop-event'
+
+const NOW = new Date('2025-01-15T12:00:00.000Z')
+
+const stopEvent: StopEvent = {
+  id: 'stop_1',
+  tenantId: 'tenant_1',
+  runId: 'run_1',
+  source: 'cron',
+  reason: 'rule_triggered',
+  condition: 'CPA上限（閾値: 5000 / 実績: 6200）',
+  ambiguities: [],
+  affectedEntities: [
+    { entityId: 'camp_1', entityType: 'campaign', metaId: '1201', paused: true },
+    {
+      entityId: 'adset_1',
+      entityType: 'adset',
+      metaId: '1202',
+      paused: false,
+      errorCode: 100,
+      errorMessage: 'Invalid parameter',
+      isTransient: false,
+    },
+  ],
+  pauseResult: 'manual_fallback_required',
+  runStatusBefore: 'running',
+  runStatusAfter: 'paused',
+  occurredAt: NOW.toISOString(),
+}
+
+describe('Manual Stop System', () => {
+  describe('generateManualStopTaskId', () => {
+    it('should generate unique task IDs', () => {
+      const id1 = generateManualStopTaskId()
+      const id2 = generateManualStopTaskId()
+
+      expect(id1).toMatch(/^mstop_/)
+      expect(id1).not.toBe(id2)
+    })
+  })
+
+  describe('createManualStopTask', () => {
+    it('should include only entities that were not paused', () => {
+      const task = createManualStopTask(stopEvent, NOW)
+
+      expect(task.status).toBe('pending')
+      expect(task.stopEventId).toBe('stop_1')
+      expect(task.entities.map((e) => e.entityId)).toEqual(['adset_1'])
+      expect(task.escalationLevel).toBe(0)
+      expect(task.nextEscalationAt).toBe(NOW.toISOString())
+    })
+
+    it('should throw when every entity was paused', () => {
+      const event: StopEvent = {
+        ...stopEvent,
+        affectedEntities: [stopEvent.affectedEntities[0]],
+        pauseResult: 'api_paused',
+      }
+
+      expect(() => createManualStopTask(event, NOW)).toThrow('no entities requiring manual stop')
+    })
+  })
+
+  describe('escalateManualStopTask', () => {
+    it('should increment level and schedule next escalation', () => {
+      const task = escalateManualStopTask(createManualStopTask(stopEvent, NOW), NOW)
+
+      expect(task.escalationLevel).toBe(1)
+      expect(task.lastNotifiedAt).toBe(NOW.toISOString())
+      expect(task.nextEscalationAt).toBe('2025-01-15T13:00:00.000Z')
+    })
+
+    it('should not escalate confirmed tasks', () => {
+      const task = confirmManualStop(createManualStopTask(stopEvent, NOW), 'user_1')
+
+      expect(() => escalateManualStopTask(task, NOW)).toThrow('Only pending')
+    })
+  })
+
+  describe('shouldEscalate', () => {
+    it('should escalate pending tasks once due', () => {
+      const task = escalateManualStopTask(createManualStopTask(stopEvent, NOW), NOW)
+
+      expect(shouldEscalate(task, new Date('2025-01-15T12:30:00.000Z'))).toBe(false)
+      expect(shouldEscalate(task, new Date('2025-01-15T13:00:00.000Z'))).toBe(true)
+    })
+
+    it('should stop escalating after confirmation', () => {
+      const task = confirmManualStop(createManualStopTask(stopEvent, NOW), 'user_1')
+
+      expect(shouldEscalate(task, new Date('2025-01-16T00:00:00.000Z'))).toBe(false)
+    })
+  })
+
+  describe('confirmManualStop', () => {
+    it('should record who confirmed', () => {
+      const task = confirmManualStop(createManualStopTask(stopEvent, NOW), 'user_2', 'Paused in Ads Manager', NOW)
+
+      expect(task.status).toBe('confirmed')
+      expect(task.confirmedBy).toBe('user_2')
+      expect(task.confirmedAt).toBe(NOW.toISOString())
+      expect(task.confirmationNote).toBe('Paused in Ads Manager')
+    })
+
+    it('should reject double confirmation', () => {
+      const task = confirmManualStop(createManualStopTask(stopEvent, NOW), 'user_2')
+
+      expect(() => confirmManualStop(task, 'user_3')).toThrow('already confirmed')
+    })
+
+    it('should require a confirmer', () => {
+      expect(() => confirmManualStop(createManualStopTask(stopEvent, NOW), '')).toThrow(
+        'Confirmer is required'
+      )
+    })
+  })
+
+  describe('getEscalationChannels', () => {
+    it('should add Slack at higher escalation levels', () => {
+      expect(getEscalationChannels(1)).toEqual(['in_app', 'email'])
+      expect(getEscalationChannels(3)).toEqual(['in_app', 'email', 'slack'])
+    })
+  })
+
+  describe('createManualStopNotifications', () => {
+    it('should create urgent notifications per channel', () => {
+      const task = escalateManualStopTask(createManualStopTask(stopEvent, NOW), NOW)
+      const notifications = createManualStopNotifications(task, 'Spring Campaign', [
+        { type: 'user', target: 'user_1' },
+      ])
+
+      expect(notifications.map((n) => n.channel)).toEqual(['in_app', 'email'])
+      expect(notifications[0].type).toBe('manual_stop_required')
+      expect(notifications[0].priority).toBe('urgent')
+      expect(notifications[0].subject).toBe('手動停止が必要です: Spring Campaign')
+      expect(notifications[0].message).toContain('adset:1202')
+      expect(notifications[0].message).toContain('1回目')
+      expect(notifications[0].data?.taskId).toBe(task.id)
+    })
+  })
+
+  describe('getManualStopStatusLabel', () => {
+    it('should return labels', () => {
+      expect(getManualStopStatusLabel('pending')).toBe('手動停止待ち')
+      expect(getManualStopStatusLabel('confirmed')).toBe('停止確認済み')
+    })
+  })
+})
@@ -24,6 +24,7 @@ import {
   generateDateRange,
   generateHourRange,
   createPixelConfig,
+  isValidPixelId,
   generateMetaPixelCode,
   generateGATag,
   getEventTypeLabel,
@@ -714,6 +715,15 @@ describe('Measurement & Tracking System', () => {
       })
     })
 
+    describe('isValidPixelId', () => {
+      it('should only accept ids that are safe to embed in a tag', () => {
+        expect(isValidPixelId('meta', '123456789')).toBe(true)
+        expect(isValidPixelId('meta', "1');alert(1);//")).toBe(false)
+        expect(isValidPixelId('google', 'G-12345678')).toBe(true)
+        expect(isValidPixelId('google', 'G-1234<script>')).toBe(false)
+      })
+    })
+
     describe('generateMetaPixelCode', () => {
       it('should generate Meta pixel code', () => {
         const code = generateMetaPixelCode('123456789')
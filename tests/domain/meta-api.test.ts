@@ -13,6 +13,7 @@ import {
   createCampaignPayload,
   createAdSetPayload,
   createAdPayload,
+  updateEntityStatus,
   convertTargetingToApiFormat,
   getInsightsFields,
   parseInsightData,
@@ -396,6 +397,37 @@ describe('Meta Marketing API Integration', () => {
         ])
       })
     })
+
+    describe('updateEntityStatus', () => {
+      beforeEach(() => {
+        vi.restoreAllMocks()
+      })
+
+      it('should post status update', async () => {
+        const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ success: true }),
+        } as Response)
+
+        const result = await updateEntityStatus('token', '120000000001', 'PAUSED')
+
+        expect(result.success).toBe(true)
+        expect(fetchSpy.mock.calls[0][0]).toBe(`${META_API_BASE_URL}/120000000001`)
+        expect(String(fetchSpy.mock.calls[0][1]?.body)).toContain('status=PAUSED')
+      })
+
+      it('should return parsed error on failure', async () => {
+        vi.spyOn(global, 'fetch').mockResolvedValueOnce({
+          ok: false,
+          json: () => Promise.resolve({ error: { code: 100, type: 'OAuthException', message: 'Invalid parameter' } }),
+        } as Response)
+
+        const result = await updateEntityStatus('token', '120000000001', 'PAUSED')
+
+        expect(result.success).toBe(false)
+        expect(result.error?.isTransient).toBe(false)
+      })
+    })
   })
 
   describe('Insights', () => {
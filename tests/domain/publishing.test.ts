@@ -23,6 +23,8 @@ import {
   canPromote,
   getNextEnvironment,
   validateDeployment,
+  findMissingDisclaimers,
+  normalizeDisclaimerText,
   isValidUrl,
   isPathSafe,
   generateCacheKey,
@@ -38,6 +40,8 @@ import {
   type DeployedAsset,
   type GeneratedUrls,
 } from '../../src/domain/publishing'
+import type { LpContent } from '../../src/domain/lp-variant'
+import type { DisclaimerTemplate } from '../../src/domain/tenancy'
 
 describe('Publishing System', () => {
   describe('ID Generation', () => {
@@ -514,6 +518,56 @@ describe('Publishing System', () => {
       })
     })
 
+    describe('disclaimers', () => {
+      const templates: DisclaimerTemplate[] = [
+        { id: 'disc_1', name: '個人差', text: '※効果には個人差があります。', required: true },
+        { id: 'disc_2', name: '価格表示', text: '価格はすべて税込です', required: true },
+        { id: 'disc_3', name: '任意', text: '詳しくはお問い合わせください', required: false },
+      ]
+      const content = (text: string): LpContent => ({
+        title: 'Spring Sale',
+        sections: [
+          { id: 'sec_hero', type: 'hero', props: { headline: '春の特別価格' } },
+          { id: 'sec_disclaimer', type: 'disclaimer', props: { text } },
+        ],
+      })
+
+      it('should normalize width and whitespace', () => {
+        expect(normalizeDisclaimerText(' ※効果には 個人差が\nあります。 ')).toBe('※効果には個人差があります。')
+        expect(normalizeDisclaimerText('ＡＢＣ　１２３')).toBe('ABC123')
+      })
+
+      it('should find required disclaimers missing from every text field', () => {
+        expect(findMissingDisclaimers(content('価格はすべて税込です'), templates).map((t) => t.id)).toEqual(['disc_1'])
+        expect(findMissingDisclaimers(content('※効果には 個人差があります。価格は すべて税込です'), templates)).toEqual([])
+      })
+
+      it('should treat required templates with empty text as missing', () => {
+        const empty: DisclaimerTemplate = { id: 'disc_4', name: '空', text: ' 　\n', required: true }
+        expect(findMissingDisclaimers(content('※効果には個人差があります。'), [empty])).toEqual([empty])
+      })
+
+      it('should fail production deployments listing the missing disclaimers per LP', () => {
+        const deployment: Deployment = {
+          ...createDeployment({ runId: 'run_1', tenantId: 'tenant_1', environment: 'production', deployedBy: 'u' }),
+          assets: [createDeployedAsset('config', '/runs/run_1', 'config.json', { hash: 'h', size: 1 })],
+        }
+        const context = {
+          lpPages: [
+            { variantId: 'lpv_1', content: content('') },
+            { variantId: 'lpv_2', content: content('※効果には個人差があります。価格はすべて税込です') },
+          ],
+          disclaimerTemplates: templates,
+        }
+
+        expect(validateDeployment(deployment, context)).toEqual({
+          valid: false,
+          errors: ['LP lpv_1 is missing required disclaimers: 個人差, 価格表示'],
+        })
+        expect(validateDeployment({ ...deployment, environment: 'staging' }, context).valid).toBe(true)
+      })
+    })
+
     describe('isValidUrl', () => {
       it('should validate correct URLs', () => {
         expect(isValidUrl('https://example.com')).toBe(true)
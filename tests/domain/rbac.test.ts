@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { can, checkPermission, getAllowedActions, PERMISSION_MATRIX, type Action } from '../../src/domain/rbac'
+import { ROLES, type Role } from '../../src/domain/tenancy'
+
+// 期待する権限表（O=owner, P=operator, R=reviewer, V=viewer）
+const EXPECTED: Record<Action, string> = {
+  'tenant:read': 'OPRV',
+  'member:read': 'OPRV',
+  'member:manage': 'O',
+  'project:read': 'OPRV',
+  'project:write': 'OP',
+  'project:archive': 'O',
+  'run:read': 'OPRV',
+  'run:write': 'OP',
+  'run:approve': 'OR',
+  'deployment:read': 'OPRV',
+  'deployment:publish': 'OP',
+  'deployment:rollback': 'OP',
+  'stop_rule:evaluate': 'OP',
+  'manual_stop:read': 'OPRV',
+  'manual_stop:confirm': 'OP',
+  'audit_log:read': 'O',
+  'approval:read': 'OPRV',
+  'approval:request': 'OP',
+  'approval:comment': 'OPR',
+  'approval:review': 'OR',
+  'lp:read': 'OPRV',
+  'lp:write': 'OP',
+  'creative:read': 'OPRV',
+  'creative:write': 'OP',
+}
+
+const CODES: Record<Role, string> = { owner: 'O', operator: 'P', reviewer: 'R', viewer: 'V' }
+
+describe('RBAC System', () => {
+  it('should cover every action in the expected table', () => {
+    expect(Object.keys(PERMISSION_MATRIX).sort()).toEqual(Object.keys(EXPECTED).sort())
+  })
+
+  describe.each(ROLES)('%s', (role) => {
+    it.each(Object.keys(EXPECTED) as Action[])('%s', (action) => {
+      expect(can(role, action)).toBe(EXPECTED[action].includes(CODES[role]))
+    })
+  })
+
+  it('should only let reviewer or owner approve', () => {
+    expect(ROLES.filter((role) => can(role, 'run:approve'))).toEqual(['owner', 'reviewer'])
+  })
+
+  it('should keep viewer read-only', () => {
+    expect(getAllowedActions('viewer').every((action) => action.endsWith(':read'))).toBe(true)
+  })
+
+  it('should explain denials', () => {
+    expect(checkPermission('owner', 'deployment:rollback')).toEqual({ allowed: true })
+    expect(checkPermission('reviewer', 'deployment:rollback').reason).toBe(
+      'Role reviewer is not allowed to deployment:rollback'
+    )
+  })
+})
@@ -0,0 +1,258 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generateRunId,
+  createRun,
+  isValidTransition,
+  checkTransition,
+  transitionRun,
+  getAvailableTransitions,
+  isRunDelivering,
+  isRunTerminal,
+  getLastTransition,
+  getRunStatusLabel,
+  updateRunSettings,
+  validateRunCreateRequest,
+  type Run,
+  type RunStatus,
+} from '../../src/domain/run'
+import { createStopRule } from '../../src/domain/stop-rules'
+import type { Role } from '../../src/domain/tenancy'
+
+function advance(run: Run, steps: [RunStatus, Role][]): Run {
+  return steps.reduce(
+    (current, [to, actorRole]) => transitionRun(current, { to, actorId: `user_${actorRole}`, actorRole }),
+    run
+  )
+}
+
+function createApprovedRun(): Run {
+  return advance(createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' }), [
+    ['designing', 'operator'],
+    ['generating', 'operator'],
+    ['ready_for_review', 'operator'],
+    ['approved', 'reviewer'],
+  ])
+}
+
+describe('Run State Machine', () => {
+  describe('ID Generation', () => {
+    describe('generateRunId', () => {
+      it('should generate unique run IDs', () => {
+        const id1 = generateRunId()
+        const id2 = generateRunId()
+
+        expect(id1).toMatch(/^run_/)
+        expect(id2).toMatch(/^run_/)
+        expect(id1).not.toBe(id2)
+      })
+    })
+  })
+
+  describe('createRun', () => {
+    it('should create run in draft status', () => {
+      const run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' })
+
+      expect(run.id).toMatch(/^run_/)
+      expect(run.tenantId).toBe('tenant_1')
+      expect(run.status).toBe('draft')
+      expect(run.history).toHaveLength(0)
+    })
+
+    it('should reject a blank name, a non-https destination and stop rules without budget caps', () => {
+      const base = { tenantId: 'tenant_1', projectId: 'proj_1', createdBy: 'user_1' }
+
+      expect(() => createRun({ ...base, name: ' ' })).toThrow('Run name is required')
+      expect(() => createRun({ ...base, name: 'Run 1', destinationUrl: 'http://example.com' })).toThrow(
+        'Destination URL must be an https URL'
+      )
+      const request = { ...base, name: 'Run 1', stopRules: [createStopRule('cpa_cap', 5000)] }
+      expect(validateRunCreateRequest(request)).toEqual({
+        valid: false,
+        errors: ['Total budget cap is required', 'Daily budget cap is required'],
+      })
+    })
+  })
+
+  describe('isValidTransition', () => {
+    it('should allow defined transitions', () => {
+      expect(isValidTransition('draft', 'designing')).toBe(true)
+      expect(isValidTransition('live', 'running')).toBe(true)
+    })
+
+    it('should reject undefined transitions', () => {
+      expect(isValidTransition('draft', 'running')).toBe(false)
+      expect(isValidTransition('archived', 'draft')).toBe(false)
+    })
+  })
+
+  describe('checkTransition', () => {
+    const readyRun = advance(createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' }), [
+      ['designing', 'operator'],
+      ['generating', 'operator'],
+      ['ready_for_review', 'operator'],
+    ])
+
+    it('should allow reviewer and owner to approve', () => {
+      expect(checkTransition(readyRun, { to: 'approved', actorId: 'u', actorRole: 'reviewer' }).allowed).toBe(true)
+      expect(checkTransition(readyRun, { to: 'approved', actorId: 'u', actorRole: 'owner' }).allowed).toBe(true)
+    })
+
+    it('should reject approval by operator', () => {
+      const check = checkTransition(readyRun, { to: 'approved', actorId: 'u', actorRole: 'operator' })
+
+      expect(check.allowed).toBe(false)
+      expect(check.reason).toContain('reviewer or owner')
+    })
+
+    it('should reject any transition by viewer', () => {
+      const check = checkTransition(readyRun, { to: 'designing', actorId: 'u', actorRole: 'viewer' })
+
+      expect(check.allowed).toBe(false)
+    })
+
+    it('should restrict reviewer to review transitions', () => {
+      const approved = createApprovedRun()
+      const check = checkTransition(approved, { to: 'publishing', actorId: 'u', actorRole: 'reviewer' })
+
+      expect(check.allowed).toBe(false)
+    })
+
+    it('should reject running without approval', () => {
+      const run: Run = {
+        ...createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' }),
+        status: 'live',
+      }
+      const check = checkTransition(run, { to: 'running', actorId: 'u', actorRole: 'operator' })
+
+      expect(check.allowed).toBe(false)
+      expect(check.reason).toContain('approved')
+    })
+
+    it('should require reason to resume paused run', () => {
+      const paused = advance(createApprovedRun(), [
+        ['publishing', 'operator'],
+        ['live', 'operator'],
+        ['running', 'operator'],
+        ['paused', 'operator'],
+      ])
+
+      expect(checkTransition(paused, { to: 'running', actorId: 'u', actorRole: 'operator' }).allowed).toBe(false)
+      expect(
+        checkTransition(paused, { to: 'running', actorId: 'u', actorRole: 'operator', reason: 'Budget raised' }).allowed
+      ).toBe(true)
+    })
+  })
+
+  describe('transitionRun', () => {
+    it('should record transition history', () => {
+      const run = createApprovedRun()
+
+      expect(run.status).toBe('approved')
+      expect(run.history).toHaveLength(4)
+      expect(run.history[3]).toMatchObject({
+        from: 'ready_for_review',
+        to: 'approved',
+        actorRole: 'reviewer',
+      })
+    })
+
+    it('should set approval fields', () => {
+      const run = createApprovedRun()
+
+      expect(run.approvedBy).toBe('user_reviewer')
+      expect(run.approvedAt).toBeDefined()
+    })
+
+    it('should clear approval when sent back to review', () => {
+      const run = transitionRun(createApprovedRun(), {
+        to: 'ready_for_review',
+        actorId: 'user_1',
+        actorRole: 'operator',
+      })
+
+      expect(run.approvedAt).toBeUndefined()
+    })
+
+    it('should set startedAt and completedAt', () => {
+      const running = advance(createApprovedRun(), [
+        ['publishing', 'operator'],
+        ['live', 'operator'],
+        ['running', 'operator'],
+      ])
+      const completed = transitionRun(running, { to: 'completed', actorId: 'u', actorRole: 'operator' })
+
+      expect(running.startedAt).toBeDefined()
+      expect(completed.completedAt).toBeDefined()
+    })
+
+    it('should throw for illegal transition', () => {
+      const run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' })
+
+      expect(() =>
+        transitionRun(run, { to: 'running', actorId: 'u', actorRole: 'owner' })
+      ).toThrow('Invalid transition: draft -> running')
+    })
+  })
+
+  describe('updateRunSettings', () => {
+    const budget = [createStopRule('total_budget', 100000), createStopRule('daily_budget', 10000)]
+
+    it('should replace stop rules and destination URL', () => {
+      const run = createApprovedRun()
+      const updated = updateRunSettings(run, { stopRules: budget, destinationUrl: 'https://example.com/lp' })
+
+      expect(updated.stopRules).toEqual(budget)
+      expect(updated.destinationUrl).toBe('https://example.com/lp')
+      expect(updateRunSettings(updated, { destinationUrl: 'https://example.com/v2' }).stopRules).toEqual(budget)
+    })
+
+    it('should reject invalid stop rules, non-https URLs and archived runs', () => {
+      const run = createApprovedRun()
+
+      expect(() => updateRunSettings(run, { stopRules: [] })).toThrow('Total budget cap is required')
+      expect(() => updateRunSettings(run, { destinationUrl: 'http://example.com' })).toThrow(
+        'Destination URL must be an https URL'
+      )
+      const archived = advance(run, [['archived', 'owner']])
+      expect(() => updateRunSettings(archived, { stopRules: budget })).toThrow('Archived run cannot be edited')
+    })
+  })
+
+  describe('getAvailableTransitions', () => {
+    it('should list transitions allowed for role', () => {
+      const run = advance(createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' }), [
+        ['designing', 'operator'],
+        ['generating', 'operator'],
+        ['ready_for_review', 'operator'],
+      ])
+
+      expect(getAvailableTransitions(run, 'reviewer')).toEqual(['approved', 'designing'])
+      expect(getAvailableTransitions(run, 'operator')).toEqual(['designing', 'archived'])
+      expect(getAvailableTransitions(run, 'viewer')).toEqual([])
+    })
+  })
+
+  describe('Status Helpers', () => {
+    it('should detect delivering and terminal runs', () => {
+      const run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' })
+
+      expect(isRunDelivering({ ...run, status: 'running' })).toBe(true)
+      expect(isRunDelivering({ ...run, status: 'paused' })).toBe(false)
+      expect(isRunTerminal({ ...run, status: 'archived' })).toBe(true)
+    })
+
+    it('should return last transition', () => {
+      const run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' })
+
+      expect(getLastTransition(run)).toBeNull()
+      expect(getLastTransition(createApprovedRun())?.to).toBe('approved')
+    })
+  })
+
+  describe('Labels', () => {
+    it('should return status labels', () => {
+      expect(getRunStatusLabel('ready_for_review')).toBe('レビュー待ち')
+      expect(getRunStatusLabel('running')).toBe('配信中')
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generateStopEventId,
+  determinePauseResult,
+  createStopEvent,
+  getUnpausedEntities,
+  getPauseResultLabel,
+  type EntityPauseFailure,
+  type PausedEntity,
+} from '../../src/domain/stop-event'
+import { createRun, type Run } from '../../src/domain/run'
+import type { StopDecision } from '../../src/domain/stop-rules'
+
+const run: Run = {
+  ...createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' }),
+  status: 'running',
+}
+
+const decision: StopDecision = {
+  runId: run.id,
+  action: 'pause',
+  reason: 'rule_triggered',
+  triggeredRule: {
+    ruleId: 'rule_1',
+    ruleType: 'cpa_cap',
+    threshold: 5000,
+    observedValue: 6200,
+    message: 'CPA 6200 exceeded cap 5000',
+  },
+  triggers: [],
+  ambiguities: [],
+  notify: true,
+  evaluatedAt: '2025-01-15T12:00:00.000Z',
+}
+
+const paused: PausedEntity[] = [{ entityId: 'camp_1', entityType: 'campaign', metaId: '1201' }]
+const failed: EntityPauseFailure[] = [
+  {
+    entityId: 'adset_1',
+    entityType: 'adset',
+    metaId: '1202',
+    error: { code: 100, type: 'OAuthException', message: 'Invalid parameter', isTransient: false },
+  },
+]
+
+describe('Stop Events', () => {
+  describe('generateStopEventId', () => {
+    it('should generate unique stop event IDs', () => {
+      const id1 = generateStopEventId()
+      const id2 = generateStopEventId()
+
+      expect(id1).toMatch(/^stop_/)
+      expect(id1).not.toBe(id2)
+    })
+  })
+
+  describe('determinePauseResult', () => {
+    it('should report API pause when all succeeded', () => {
+      expect(determinePauseResult(paused, [])).toBe('api_paused')
+    })
+
+    it('should require manual fallback when any failed', () => {
+      expect(determinePauseResult(paused, failed)).toBe('manual_fallback_required')
+    })
+
+    it('should report no active entities', () => {
+      expect(determinePauseResult([], [])).toBe('no_active_entities')
+    })
+  })
+
+  describe('createStopEvent', () => {
+    it('should capture rule, threshold and observed value', () => {
+      const event = createStopEvent(run, decision, 'cron', paused, failed, 'paused')
+
+      expect(event.id).toMatch(/^stop_/)
+      expect(event.tenantId).toBe('tenant_1')
+      expect(event.ruleId).toBe('rule_1')
+      expect(event.threshold).toBe(5000)
+      expect(event.observedValue).toBe(6200)
+      expect(event.condition).toContain('CPA上限')
+      expect(event.runStatusBefore).toBe('running')
+      expect(event.runStatusAfter).toBe('paused')
+      expect(event.occurredAt).toBe('2025-01-15T12:00:00.000Z')
+    })
+
+    it('should record paused and failed entities', () => {
+      const event = createStopEvent(run, decision, 'cron', paused, failed)
+
+      expect(event.affectedEntities).toHaveLength(2)
+      expect(event.pauseResult).toBe('manual_fallback_required')
+      expect(getUnpausedEntities(event)).toEqual([
+        {
+          entityId: 'adset_1',
+          entityType: 'adset',
+          metaId: '1202',
+          paused: false,
+          errorCode: 100,
+          errorMessage: 'Invalid parameter',
+          isTransient: false,
+        },
+      ])
+    })
+  })
+
+  describe('getPauseResultLabel', () => {
+    it('should return labels', () => {
+      expect(getPauseResultLabel('api_paused')).toBe('API停止済み')
+      expect(getPauseResultLabel('manual_fallback_required')).toBe('手動停止が必要')
+    })
+  })
+})
@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generateStopRuleId,
+  createStopRule,
+  createStopRuleTemplate,
+  validateStopRules,
+  detectAmbiguities,
+  getTodaySpend,
+  getTotalSpend,
+  getTotalConversions,
+  getHoursWithoutConversion,
+  getMaxConsecutiveFailures,
+  evaluateStopRule,
+  evaluateStopRules,
+  formatStopCondition,
+  getStopRuleTypeLabel,
+  type StopRuleContext,
+  type HealthCheckResult,
+} from '../../src/domain/stop-rules'
+import {
+  createDailyMetrics,
+  type HourlyMetrics,
+  type DailyMetrics,
+} from '../../src/domain/measurement'
+
+const NOW = new Date('2025-01-15T12:30:00.000Z')
+
+function hourly(hour: string, spend: number, conversions = 0): HourlyMetrics {
+  return {
+    runId: 'run_1',
+    variantId: 'var_1',
+    hour,
+    impressions: 1000,
+    clicks: 10,
+    spend,
+    conversions,
+    revenue: 0,
+  }
+}
+
+function daily(date: string, spend: number, conversions = 0): DailyMetrics {
+  return {
+    ...createDailyMetrics('run_1', 'var_1', new Date(date)),
+    date,
+    impressions: 10000,
+    clicks: 100,
+    spend,
+    conversions,
+  }
+}
+
+function context(overrides: Partial<StopRuleContext> = {}): StopRuleContext {
+  return {
+    runId: 'run_1',
+    hourlyMetrics: [hourly('2025-01-15T11:00:00.000Z', 100, 1), hourly('2025-01-15T12:00:00.000Z', 100, 1)],
+    dailyMetrics: [daily('2025-01-14', 1000, 5)],
+    healthChecks: [],
+    now: NOW,
+    ...overrides,
+  }
+}
+
+const budgetRules = () => [createStopRule('total_budget', 100000), createStopRule('daily_budget', 10000)]
+
+describe('Stop Rules', () => {
+  describe('ID Generation', () => {
+    it('should generate unique rule IDs', () => {
+      const id1 = generateStopRuleId()
+      const id2 = generateStopRuleId()
+
+      expect(id1).toMatch(/^rule_/)
+      expect(id1).not.toBe(id2)
+    })
+  })
+
+  describe('createStopRuleTemplate', () => {
+    it('should create recommended rules', () => {
+      const rules = createStopRuleTemplate({ totalBudget: 100000, dailyBudget: 10000, targetCpa: 5000 })
+      const types = rules.map((r) => r.type)
+
+      expect(types).toEqual(['total_budget', 'daily_budget', 'zero_conversion', 'consecutive_errors', 'cpa_cap'])
+      expect(rules.find((r) => r.type === 'cpa_cap')?.threshold).toBe(7500)
+    })
+
+    it('should omit CPA cap without target CPA', () => {
+      const rules = createStopRuleTemplate({ totalBudget: 100000, dailyBudget: 10000 })
+
+      expect(rules.some((r) => r.type === 'cpa_cap')).toBe(false)
+    })
+  })
+
+  describe('validateStopRules', () => {
+    it('should require budget caps', () => {
+      const result = validateStopRules([createStopRule('zero_conversion', 24)])
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Total budget cap is required')
+      expect(result.errors).toContain('Daily budget cap is required')
+    })
+
+    it('should reject non-positive thresholds', () => {
+      const result = validateStopRules([...budgetRules(), createStopRule('cpa_cap', 0)])
+
+      expect(result.valid).toBe(false)
+    })
+  })
+
+  describe('Spend Calculation', () => {
+    it('should use larger of daily and hourly spend for today', () => {
+      const ctx = context({ dailyMetrics: [daily('2025-01-15', 150)] })
+
+      expect(getTodaySpend(ctx)).toBe(200)
+    })
+
+    it('should not double count today in total spend', () => {
+      const ctx = context({ dailyMetrics: [daily('2025-01-14', 1000), daily('2025-01-15', 150)] })
+
+      expect(getTotalSpend(ctx)).toBe(1200)
+    })
+
+    it('should use smaller of today conversions', () => {
+      const ctx = context({ dailyMetrics: [daily('2025-01-14', 1000, 5), daily('2025-01-15', 200, 1)] })
+
+      expect(getTotalConversions(ctx)).toBe(6)
+    })
+  })
+
+  describe('getHoursWithoutConversion', () => {
+    it('should count hours since last conversion', () => {
+      const ctx = context({
+        hourlyMetrics: [
+          hourly('2025-01-15T06:00:00.000Z', 100, 1),
+          hourly('2025-01-15T07:00:00.000Z', 100),
+          hourly('2025-01-15T12:00:00.000Z', 100),
+        ],
+      })
+
+      expect(getHoursWithoutConversion(ctx)).toEqual({ hours: 5, spend: 200 })
+    })
+
+    it('should count from first hour when no conversions', () => {
+      const ctx = context({ hourlyMetrics: [hourly('2025-01-14T12:00:00.000Z', 100)] })
+
+      expect(getHoursWithoutConversion(ctx).hours).toBe(24)
+    })
+  })
+
+  describe('getMaxConsecutiveFailures', () => {
+    it('should count trailing failures per type', () => {
+      const checks: HealthCheckResult[] = [
+        { type: 'lp_fetch', success: false, checkedAt: '2025-01-15T09:00:00.000Z' },
+        { type: 'lp_fetch', success: true, checkedAt: '2025-01-15T10:00:00.000Z' },
+        { type: 'lp_fetch', success: false, checkedAt: '2025-01-15T11:00:00.000Z' },
+        { type: 'insights_fetch', success: false, checkedAt: '2025-01-15T10:00:00.000Z' },
+        { type: 'insights_fetch', success: false, checkedAt: '2025-01-15T11:00:00.000Z' },
+      ]
+
+      expect(getMaxConsecutiveFailures(checks)).toEqual({ count: 2, type: 'insights_fetch' })
+    })
+  })
+
+  describe('evaluateStopRule', () => {
+    it('should trigger total budget cap', () => {
+      const trigger = evaluateStopRule(createStopRule('total_budget', 1200), context())
+
+      expect(trigger?.ruleType).toBe('total_budget')
+      expect(trigger?.observedValue).toBe(1200)
+    })
+
+    it('should trigger daily budget cap', () => {
+      expect(evaluateStopRule(createStopRule('daily_budget', 200), context())).not.toBeNull()
+      expect(evaluateStopRule(createStopRule('daily_budget', 201), context())).toBeNull()
+    })
+
+    it('should skip CPA cap below minimum sample', () => {
+      const rule = createStopRule('cpa_cap', 100, { minConversions: 10 })
+
+      expect(evaluateStopRule(rule, context())).toBeNull()
+    })
+
+    it('should trigger CPA cap after minimum sample', () => {
+      const rule = createStopRule('cpa_cap', 100, { minConversions: 3 })
+      const trigger = evaluateStopRule(rule, context())
+
+      expect(trigger?.observedValue).toBeCloseTo(1200 / 7)
+    })
+
+    it('should trigger zero conversion rule', () => {
+      const rule = createStopRule('zero_conversion', 24)
+      const ctx = context({ hourlyMetrics: [hourly('2025-01-14T10:00:00.000Z', 100)] })
+
+      expect(evaluateStopRule(rule, ctx)?.observedValue).toBe(26)
+    })
+
+    it('should ignore disabled rules', () => {
+      const rule = createStopRule('total_budget', 1, { enabled: false })
+
+      expect(evaluateStopRule(rule, context())).toBeNull()
+    })
+  })
+
+  describe('detectAmbiguities', () => {
+    it('should detect stale hourly metrics', () => {
+      const ctx = context({ hourlyMetrics: [hourly('2025-01-15T06:00:00.000Z', 100, 1)] })
+
+      expect(detectAmbiguities(ctx)[0]).toContain('stale')
+    })
+
+    it('should detect invalid values', () => {
+      const ctx = context({ hourlyMetrics: [hourly('2025-01-15T12:00:00.000Z', NaN)] })
+
+      expect(detectAmbiguities(ctx)).toContain('Metrics contain invalid values')
+    })
+
+    it('should tolerate missing metrics right after start', () => {
+      const ctx = context({ hourlyMetrics: [], runStartedAt: '2025-01-15T12:00:00.000Z' })
+
+      expect(detectAmbiguities(ctx)).toHaveLength(0)
+    })
+
+    it('should flag missing metrics after grace period', () => {
+      const ctx = context({ hourlyMetrics: [], runStartedAt: '2025-01-15T06:00:00.000Z' })
+
+      expect(detectAmbiguities(ctx)).toContain('No hourly metrics available')
+    })
+  })
+
+  describe('evaluateStopRules', () => {
+    it('should continue when nothing fires', () => {
+      const decision = evaluateStopRules(budgetRules(), context())
+
+      expect(decision.action).toBe('continue')
+      expect(decision.reason).toBe('no_trigger')
+      expect(decision.notify).toBe(false)
+    })
+
+    it('should pause and report first triggered rule', () => {
+      const rules = [createStopRule('total_budget', 1000), createStopRule('daily_budget', 100)]
+      const decision = evaluateStopRules(rules, context())
+
+      expect(decision.action).toBe('pause')
+      expect(decision.reason).toBe('rule_triggered')
+      expect(decision.triggeredRule?.ruleType).toBe('total_budget')
+      expect(decision.triggers).toHaveLength(2)
+    })
+
+    it('should pause and notify on ambiguous data', () => {
+      const decision = evaluateStopRules(budgetRules(), context({ hourlyMetrics: [] }))
+
+      expect(decision.action).toBe('pause')
+      expect(decision.reason).toBe('ambiguous_data')
+      expect(decision.notify).toBe(true)
+    })
+
+    it('should pause when budget caps are missing', () => {
+      const decision = evaluateStopRules([createStopRule('zero_conversion', 24)], context())
+
+      expect(decision.action).toBe('pause')
+      expect(decision.ambiguities).toContain('Total budget cap is required')
+    })
+  })
+
+  describe('Labels', () => {
+    it('should format stop condition', () => {
+      const decision = evaluateStopRules([createStopRule('total_budget', 1000), createStopRule('daily_budget', 10000)], context())
+
+      expect(formatStopCondition(decision)).toBe('総額上限（閾値: 1000 / 実績: 1200）')
+      expect(getStopRuleTypeLabel('zero_conversion')).toBe('CVゼロ継続')
+    })
+  })
+})
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generateTenantId,
+  generateInviteToken,
+  hashInviteToken,
+  validateTenantRequest,
+  createTenant,
+  changeTenantPlan,
+  validateBannedExpressions,
+  createProject,
+  archiveProject,
+  createMembership,
+  changeMemberRole,
+  assertCanRemoveMember,
+  createInvitation,
+  isInvitationActive,
+  acceptInvitation,
+  revokeInvitation,
+  getRoleLabel,
+  getTenantPlanLabel,
+  INVITATION_TTL_DAYS,
+} from '../../src/domain/tenancy'
+
+const NOW = new Date('2025-01-15T12:00:00.000Z')
+
+describe('Tenancy System', () => {
+  describe('IDs and tokens', () => {
+    it('should generate prefixed tenant IDs', () => {
+      expect(generateTenantId()).toMatch(/^tenant_/)
+    })
+
+    it('should generate 64-char hex invite tokens and stable hashes', async () => {
+      const token = generateInviteToken()
+      expect(token).toMatch(/^[0-9a-f]{64}$/)
+      expect(await hashInviteToken(token)).toBe(await hashInviteToken(token))
+      expect(await hashInviteToken(token)).not.toBe(token)
+    })
+  })
+
+  describe('Tenants', () => {
+    it('should validate slug format', () => {
+      expect(validateTenantRequest({ name: 'Acme', slug: 'acme-jp', ownerId: 'user_1' }).valid).toBe(true)
+      expect(validateTenantRequest({ name: 'Acme', slug: 'Acme JP', ownerId: 'user_1' }).valid).toBe(false)
+      expect(validateTenantRequest({ name: 'Acme', slug: '-acme', ownerId: 'user_1' }).valid).toBe(false)
+    })
+
+    it('should create a tenant with an owner membership', () => {
+      const { tenant, ownerMembership } = createTenant({ name: ' Acme ', slug: 'acme', ownerId: 'user_1' }, NOW)
+
+      expect(tenant.name).toBe('Acme')
+      expect(tenant.plan).toBe('free')
+      expect(tenant.settings.defaultTimezone).toBe('Asia/Tokyo')
+      expect(ownerMembership).toMatchObject({ tenantId: tenant.id, userId: 'user_1', role: 'owner' })
+    })
+
+    it('should reject invalid tenant requests', () => {
+      expect(() => createTenant({ name: '', slug: 'acme', ownerId: 'user_1' })).toThrow('Tenant name is required')
+    })
+
+    it('should change plan', () => {
+      const { tenant } = createTenant({ name: 'Acme', slug: 'acme', ownerId: 'user_1' }, NOW)
+      expect(changeTenantPlan(tenant, 'pro').plan).toBe('pro')
+    })
+  })
+
+  describe('Projects', () => {
+    it('should create a project with settings and defaults', () => {
+      const project = createProject(
+        {
+          tenantId: 'tenant_1',
+          name: 'Spring Launch',
+          createdBy: 'user_1',
+          conversionDefinitions: [
+            {
+              name: 'Lead',
+              eventType: 'lead',
+              eventName: 'Lead',
+              isRevenue: false,
+              attributionWindow: 7,
+              priority: 1,
+            },
+          ],
+          disclaimerTemplates: [{ name: '効果', text: '※効果には個人差があります', required: true }],
+          bannedExpressions: [{ pattern: '絶対', isRegex: false }],
+          brandSettings: { toneOfVoice: 'friendly' },
+        },
+        NOW
+      )
+
+      expect(project.conversionDefinitions[0].id).toMatch(/^cvdef_/)
+      expect(project.disclaimerTemplates[0].id).toMatch(/^disc_/)
+      expect(project.brandSettings).toMatchObject({ primaryColor: '#1a73e8', toneOfVoice: 'friendly' })
+    })
+
+    it('should reject invalid banned expression regex', () => {
+      expect(validateBannedExpressions([{ pattern: '(', isRegex: true }])).toHaveLength(1)
+      expect(validateBannedExpressions([{ pattern: '(', isRegex: false }])).toEqual([])
+      expect(validateBannedExpressions([{ pattern: '(a+)+$', isRegex: true }])).toEqual(['Unsafe regex: (a+)+$'])
+      expect(validateBannedExpressions([{ pattern: '(a+)+$', isRegex: false }])).toEqual([])
+    })
+
+    it('should archive once', () => {
+      const project = createProject({ tenantId: 'tenant_1', name: 'P', createdBy: 'user_1' })
+      const archived = archiveProject(project, NOW)
+
+      expect(archived.archivedAt).toBe(NOW.toISOString())
+      expect(() => archiveProject(archived)).toThrow('already archived')
+    })
+  })
+
+  describe('Memberships', () => {
+    const owner = createMembership('tenant_1', 'user_1', 'owner', NOW)
+    const operator = createMembership('tenant_1', 'user_2', 'operator', NOW)
+
+    it('should change roles', () => {
+      expect(changeMemberRole(operator, 'reviewer', [owner, operator]).role).toBe('reviewer')
+    })
+
+    it('should keep at least one owner', () => {
+      expect(() => changeMemberRole(owner, 'operator', [owner, operator])).toThrow('at least one owner')
+      expect(() => assertCanRemoveMember(owner, [owner, operator])).toThrow('at least one owner')
+      expect(() => assertCanRemoveMember(operator, [owner, operator])).not.toThrow()
+    })
+  })
+
+  describe('Invitations', () => {
+    const request = { tenantId: 'tenant_1', email: ' New@Example.com ', role: 'reviewer' as const, invitedBy: 'user_1' }
+
+    it('should create a pending invitation with expiry', () => {
+      const invitation = createInvitation(request, 'hash', NOW)
+
+      expect(invitation.email).toBe('new@example.com')
+      expect(invitation.status).toBe('pending')
+      expect(new Date(invitation.expiresAt).getTime() - NOW.getTime()).toBe(INVITATION_TTL_DAYS * 86400000)
+    })
+
+    it('should reject invalid email', () => {
+      expect(() => createInvitation({ ...request, email: 'nope' }, 'hash')).toThrow('Invalid email address')
+    })
+
+    it('should accept an active invitation into a membership', () => {
+      const invitation = createInvitation(request, 'hash', NOW)
+      const result = acceptInvitation(invitation, 'user_3', NOW)
+
+      expect(result.invitation.status).toBe('accepted')
+      expect(result.membership).toMatchObject({ tenantId: 'tenant_1', userId: 'user_3', role: 'reviewer' })
+      expect(() => acceptInvitation(result.invitation, 'user_4', NOW)).toThrow('Invitation is accepted')
+    })
+
+    it('should reject expired and revoked invitations', () => {
+      const invitation = createInvitation(request, 'hash', NOW)
+      const later = new Date(NOW.getTime() + (INVITATION_TTL_DAYS + 1) * 86400000)
+
+      expect(isInvitationActive(invitation, later)).toBe(false)
+      expect(() => acceptInvitation(invitation, 'user_3', later)).toThrow('Invitation has expired')
+      expect(() => acceptInvitation(revokeInvitation(invitation), 'user_3', NOW)).toThrow('Invitation is revoked')
+    })
+  })
+
+  describe('Labels', () => {
+    it('should return role and plan labels', () => {
+      expect(getRoleLabel('reviewer')).toBe('レビュアー')
+      expect(getTenantPlanLabel('enterprise')).toBeTruthy()
+    })
+  })
+})
@@ -0,0 +1,243 @@
+import { describe, it, expect } from 'vitest'
+import {
+  RunState,
+  acquireLease,
+  isLeaseActive,
+  refillTokens,
+  consumeTokens,
+  appendHealthCheck,
+  META_RATE_LIMIT,
+  type RunLease,
+} from '../../src/durable-objects/run-state'
+import { createRun, transitionRun, type Run } from '../../src/domain/run'
+
+function createFakeState(): DurableObjectState {
+  const data = new Map<string, unknown>()
+  const storage = {
+    get: async (key: string) => data.get(key),
+    put: async (key: string, value: unknown) => {
+      data.set(key, structuredClone(value))
+    },
+    delete: async (key: string) => data.delete(key),
+  }
+
+  return {
+    storage,
+    blockConcurrencyWhile: async <T>(fn: () => Promise<T>) => fn(),
+  } as unknown as DurableObjectState
+}
+
+function request(method: string, path: string, body?: unknown): Request {
+  return new Request(`https://run-state${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+function createApprovedLiveRun(): Run {
+  let run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' })
+  const steps: [Run['status'], 'operator' | 'reviewer'][] = [
+    ['designing', 'operator'],
+    ['generating', 'operator'],
+    ['ready_for_review', 'operator'],
+    ['approved', 'reviewer'],
+    ['publishing', 'operator'],
+    ['live', 'operator'],
+  ]
+  for (const [to, actorRole] of steps) {
+    run = transitionRun(run, { to, actorId: 'user_1', actorRole })
+  }
+  return run
+}
+
+describe('RunState Durable Object', () => {
+  describe('Lease', () => {
+    it('should acquire lease when none is held', () => {
+      const result = acquireLease(undefined, 'cron', 'auto_stop_evaluation', 1000, 0)
+
+      expect(result.acquired).toBe(true)
+      expect(result.lease?.expiresAt).toBe(1000)
+    })
+
+    it('should reject lease held by another holder', () => {
+      const { lease } = acquireLease(undefined, 'cron', 'auto_stop_evaluation', 1000, 0)
+      const result = acquireLease(lease, 'api', 'transition', 1000, 400)
+
+      expect(result.acquired).toBe(false)
+      expect(result.heldBy).toBe('cron')
+      expect(result.retryAfterMs).toBe(600)
+    })
+
+    it('should allow re-acquiring expired lease', () => {
+      const { lease } = acquireLease(undefined, 'cron', 'auto_stop_evaluation', 1000, 0)
+
+      expect(isLeaseActive(lease, 1500)).toBe(false)
+      expect(acquireLease(lease, 'api', 'transition', 1000, 1500).acquired).toBe(true)
+    })
+  })
+
+  describe('Rate Limit', () => {
+    it('should start with full bucket', () => {
+      expect(refillTokens(undefined, META_RATE_LIMIT, 0).tokens).toBe(META_RATE_LIMIT.capacity)
+    })
+
+    it('should refill tokens over time up to capacity', () => {
+      const state = refillTokens({ tokens: 0, updatedAt: 0 }, { capacity: 10, refillPerSecond: 1 }, 5000)
+
+      expect(state.tokens).toBe(5)
+      expect(refillTokens(state, { capacity: 10, refillPerSecond: 1 }, 60000).tokens).toBe(10)
+    })
+
+    it('should reject when bucket is empty', () => {
+      const config = { capacity: 1, refillPerSecond: 0.5 }
+      const first = consumeTokens(undefined, config, 1, 0)
+      const second = consumeTokens(first.state, config, 1, 0)
+
+      expect(first.result.allowed).toBe(true)
+      expect(second.result.allowed).toBe(false)
+      expect(second.result.retryAfterMs).toBe(2000)
+    })
+  })
+
+  describe('appendHealthCheck', () => {
+    it('should keep only latest checks per type', () => {
+      let checks = appendHealthCheck([], { type: 'insights_fetch', success: true, checkedAt: '2025-01-15T00:00:00.000Z' }, 2)
+      checks = appendHealthCheck(checks, { type: 'lp_fetch', success: true, checkedAt: '2025-01-15T00:00:00.000Z' }, 2)
+      checks = appendHealthCheck(checks, { type: 'insights_fetch', success: false, checkedAt: '2025-01-15T01:00:00.000Z' }, 2)
+      checks = appendHealthCheck(checks, { type: 'insights_fetch', success: false, checkedAt: '2025-01-15T02:00:00.000Z' }, 2)
+
+      expect(checks.filter((c) => c.type === 'insights_fetch').every((c) => !c.success)).toBe(true)
+      expect(checks).toHaveLength(3)
+    })
+  })
+
+  describe('fetch', () => {
+    it('should return 404 before initialization', async () => {
+      const state = new RunState(createFakeState(), {})
+      const response = await state.fetch(request('GET', '/run'))
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should store and return run', async () => {
+      const state = new RunState(createFakeState(), {})
+      const run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' })
+
+      await state.fetch(request('PUT', '/run', run))
+      const response = await state.fetch(request('GET', '/run'))
+      const body = (await response.json()) as Run
+
+      expect(body.id).toBe(run.id)
+    })
+
+    it('should initialize only once and merge settings into the stored run', async () => {
+      const state = new RunState(createFakeState(), {})
+      const live = createApprovedLiveRun()
+      await state.fetch(request('POST', '/run/init', live))
+      await state.fetch(
+        request('POST', '/transition', { request: { to: 'running', actorId: 'user_1', actorRole: 'operator' } })
+      )
+
+      // 保存済みの Run は古い Run で上書きされない
+      const init = await state.fetch(request('POST', '/run/init', live))
+      expect(((await init.json()) as Run).status).toBe('running')
+
+      const patched = await state.fetch(request('PATCH', '/run/settings', { destinationUrl: 'https://example.com/b' }))
+      expect((await patched.json()) as Run).toMatchObject({
+        status: 'running',
+        destinationUrl: 'https://example.com/b',
+      })
+      const missing = new RunState(createFakeState(), {})
+      expect((await missing.fetch(request('PATCH', '/run/settings', { pixels: [] }))).status).toBe(404)
+    })
+
+    it('should apply valid transition', async () => {
+      const state = new RunState(createFakeState(), {})
+      await state.fetch(request('PUT', '/run', createApprovedLiveRun()))
+
+      const response = await state.fetch(
+        request('POST', '/transition', {
+          request: { to: 'running', actorId: 'user_1', actorRole: 'operator' },
+        })
+      )
+      const body = (await response.json()) as Run
+
+      expect(response.status).toBe(200)
+      expect(body.status).toBe('running')
+    })
+
+    it('should reject illegal transition with 422', async () => {
+      const state = new RunState(createFakeState(), {})
+      const run = createRun({ tenantId: 't', projectId: 'proj_1', name: 'r', createdBy: 'u' })
+      await state.fetch(request('PUT', '/run', run))
+
+      const response = await state.fetch(
+        request('POST', '/transition', {
+          request: { to: 'running', actorId: 'user_1', actorRole: 'operator' },
+        })
+      )
+
+      expect(response.status).toBe(422)
+    })
+
+    it('should block transitions while another holder has the lease', async () => {
+      const state = new RunState(createFakeState(), {})
+      await state.fetch(request('PUT', '/run', createApprovedLiveRun()))
+
+      const leaseResponse = await state.fetch(
+        request('POST', '/lease/acquire', { holder: 'cron', purpose: 'auto_stop_evaluation' })
+      )
+      const { lease } = (await leaseResponse.json()) as { lease: RunLease }
+
+      const blocked = await state.fetch(
+        request('POST', '/transition', {
+          request: { to: 'running', actorId: 'user_1', actorRole: 'operator' },
+        })
+      )
+      const allowed = await state.fetch(
+        request('POST', '/transition', {
+          request: { to: 'running', actorId: 'user_1', actorRole: 'operator' },
+          leaseId: lease.id,
+        })
+      )
+
+      expect(blocked.status).toBe(409)
+      expect(allowed.status).toBe(200)
+    })
+
+    it('should release lease only with matching id', async () => {
+      const state = new RunState(createFakeState(), {})
+      const leaseResponse = await state.fetch(
+        request('POST', '/lease/acquire', { holder: 'cron', purpose: 'auto_stop_evaluation' })
+      )
+      const { lease } = (await leaseResponse.json()) as { lease: RunLease }
+
+      const wrong = await state.fetch(request('POST', '/lease/release', { leaseId: 'lease_other' }))
+      const right = await state.fetch(request('POST', '/lease/release', { leaseId: lease.id }))
+
+      expect(await wrong.json()).toEqual({ released: false })
+      expect(await right.json()).toEqual({ released: true })
+    })
+
+    it('should record health checks', async () => {
+      const state = new RunState(createFakeState(), {})
+      await state.fetch(
+        request('POST', '/health-checks', { type: 'lp_fetch', success: false, checkedAt: '2025-01-15T00:00:00.000Z' })
+      )
+      const response = await state.fetch(request('GET', '/health-checks'))
+
+      expect(await response.json()).toHaveLength(1)
+    })
+
+    it('should rate-limit Meta calls with 429', async () => {
+      const state = new RunState(createFakeState(), {})
+
+      const allowed = await state.fetch(request('POST', '/rate-limit/meta', { cost: META_RATE_LIMIT.capacity }))
+      const limited = await state.fetch(request('POST', '/rate-limit/meta', { cost: 1 }))
+
+      expect(allowed.status).toBe(200)
+      expect(limited.status).toBe(429)
+    })
+  })
+})
@@ -0,0 +1,322 @@
+import { createInMemoryRepositories, createInMemoryStore, type InMemoryStore } from '../../src/repositories/in-memory'
+import type { Repositories } from '../../src/repositories/types'
+import type { Bindings } from '../../src/env'
+import { RunState } from '../../src/durable-objects/run-state'
+import { hashAuthToken, SESSION_COOKIE_NAME, SESSION_TTL_SECONDS, type Session } from '../../src/domain/auth'
+import { createRun, transitionRun, type Run, type RunStatus } from '../../src/domain/run'
+import { createMembership, type Role } from '../../src/domain/tenancy'
+import type { StopRule } from '../../src/domain/stop-rules'
+import type { DailyMetrics, HourlyMetrics } from '../../src/domain/measurement'
+import type { MetaAdSet, MetaCampaign } from '../../src/domain/meta-api'
+
+// Runを目的のステータスまで進める遷移
+const LIFECYCLE: [RunStatus, Role][] = [
+  ['designing', 'operator'],
+  ['generating', 'operator'],
+  ['ready_for_review', 'operator'],
+  ['approved', 'reviewer'],
+  ['publishing', 'operator'],
+  ['live', 'operator'],
+  ['running', 'operator'],
+]
+
+/**
+ * Storage を Map で再現した DurableObjectState
+ */
+export function createFakeDurableObjectState(): DurableObjectState {
+  const data = new Map<string, unknown>()
+  const storage = {
+    get: async (key: string) => data.get(key),
+    put: async (key: string, value: unknown) => {
+      data.set(key, structuredClone(value))
+    },
+    delete: async (key: string) => data.delete(key),
+  }
+
+  return {
+    storage,
+    blockConcurrencyWhile: async <T>(fn: () => Promise<T>) => fn(),
+  } as unknown as DurableObjectState
+}
+
+/**
+ * RunState をプロセス内で動かす DurableObjectNamespace
+ */
+export function createInMemoryRunStateNamespace(): DurableObjectNamespace {
+  const instances = new Map<string, RunState>()
+
+  return {
+    idFromName: (name: string) => ({ toString: () => name, name }),
+    get: (id: DurableObjectId) => {
+      const key = id.toString()
+      if (!instances.has(key)) {
+        instances.set(key, new RunState(createFakeDurableObjectState(), {}))
+      }
+      const instance = instances.get(key)!
+      return {
+        fetch: (input: RequestInfo, init?: RequestInit) => instance.fetch(new Request(input, init)),
+      }
+    },
+  } as unknown as DurableObjectNamespace
+}
+
+/**
+ * 有効期限付きの Map で再現した KVNamespace（get/put/delete のみ）
+ */
+export function createInMemoryKV(): KVNamespace {
+  const data = new Map<string, { value: string; expiresAt?: number }>()
+  const read = (key: string) => {
+    const entry = data.get(key)
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      data.delete(key)
+      return undefined
+    }
+    return entry?.value
+  }
+
+  return {
+    get: async (key: string, type?: string) => {
+      const value = read(key)
+      if (value === undefined) return null
+      return type === 'json' ? JSON.parse(value) : value
+    },
+    put: async (key: string, value: string, options?: { expirationTtl?: number }) => {
+      data.set(key, {
+        value,
+        expiresAt: options?.expirationTtl ? Date.now() + options.expirationTtl * 1000 : undefined,
+      })
+    },
+    delete: async (key: string) => {
+      data.delete(key)
+    },
+  } as unknown as KVNamespace
+}
+
+/**
+ * 送信メッセージを記録する Queue
+ */
+export function createRecordingQueue(): Queue & { messages: unknown[] } {
+  const messages: unknown[] = []
+  return {
+    messages,
+    send: async (message: unknown) => {
+      messages.push(message)
+    },
+    sendBatch: async (batch: Iterable<{ body: unknown }>) => {
+      for (const { body } of batch) messages.push(body)
+    },
+  } as unknown as Queue & { messages: unknown[] }
+}
+
+/**
+ * 文字列・バイナリのオブジェクトを Map で保持する R2Bucket（put/get/delete/list のみ）
+ */
+export function createInMemoryR2(): R2Bucket {
+  const objects = new Map<string, { body: Uint8Array; options?: R2PutOptions }>()
+  const toObject = (key: string) => {
+    const object = objects.get(key)!
+    const text = () => new TextDecoder().decode(object.body)
+    return {
+      key,
+      size: object.body.byteLength,
+      httpMetadata: object.options?.httpMetadata ?? {},
+      customMetadata: object.options?.customMetadata ?? {},
+      text: async () => text(),
+      json: async () => JSON.parse(text()),
+      arrayBuffer: async () => object.body.slice().buffer,
+    }
+  }
+
+  return {
+    put: async (key: string, value: string | ArrayBuffer, options?: R2PutOptions) => {
+      const body = typeof value === 'string' ? new TextEncoder().encode(value) : new Uint8Array(value.slice(0))
+      objects.set(key, { body, options })
+      return toObject(key)
+    },
+    get: async (key: string) => (objects.has(key) ? toObject(key) : null),
+    delete: async (keys: string | string[]) => {
+      for (const key of Array.isArray(keys) ? keys : [keys]) objects.delete(key)
+    },
+    list: async (options?: R2ListOptions) => ({
+      objects: [...objects.keys()].filter((key) => key.startsWith(options?.prefix ?? '')).map(toObject),
+      truncated: false,
+      delimitedPrefixes: [],
+    }),
+  } as unknown as R2Bucket
+}
+
+/**
+ * KV にセッションを作成し、Cookie ヘッダーの値を返す
+ */
+export async function createSessionCookie(
+  env: Bindings,
+  userId: string,
+  options: { mfaVerified?: boolean } = {}
+): Promise<string> {
+  const token = `test_${userId}_${Math.random().toString(36).substring(2)}`
+  const now = new Date()
+  const session: Session = {
+    id: `sess_${userId}`,
+    userId,
+    email: `${userId}@example.com`,
+    mfaVerified: options.mfaVerified ?? true,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + SESSION_TTL_SECONDS * 1000).toISOString(),
+  }
+  await env.CACHE.put(`auth:session:${await hashAuthToken(token)}`, JSON.stringify(session))
+  return `${SESSION_COOKIE_NAME}=${token}`
+}
+
+/**
+ * テスト用 Bindings（DBはリポジトリ注入で置き換える）
+ */
+export function createTestEnv(): Bindings {
+  return {
+    DB: {} as D1Database,
+    ASSETS: createInMemoryR2(),
+    CACHE: createInMemoryKV(),
+    JOBS_QUEUE: createRecordingQueue(),
+    RUN_STATE: createInMemoryRunStateNamespace(),
+    ENVIRONMENT: 'test',
+    MAIL_API_URL: 'https://mail.test/send',
+    MAIL_API_KEY: 'test_mail_key',
+    MAIL_FROM: 'no-reply@example.com',
+  }
+}
+
+// 構築結果
+export interface Fixture {
+  store: InMemoryStore
+  repositories: Repositories
+  env: Bindings
+  runs: Record<string, Run>
+}
+
+/**
+ * シード済みインメモリ環境のビルダー
+ */
+export class FixtureBuilder {
+  private readonly store = createInMemoryStore()
+  private readonly runs: Record<string, Run> = {}
+  private metaIdSequence = 120000000000
+
+  member(tenantId: string, userId: string, role: Role): this {
+    const membership = createMembership(tenantId, userId, role)
+    this.store.memberships.set(membership.id, membership)
+    return this
+  }
+
+  metaConnection(tenantId: string, accessToken = 'test_token'): this {
+    const now = new Date().toISOString()
+    this.store.metaConnections.set(`conn_${tenantId}`, {
+      id: `conn_${tenantId}`,
+      tenantId,
+      adAccountId: 'act_1',
+      token: {
+        accessToken,
+        tokenType: 'long_lived',
+        expiresAt: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000),
+        scopes: ['ads_management'],
+      },
+      status: 'active',
+      createdAt: now,
+      updatedAt: now,
+    })
+    return this
+  }
+
+  /**
+   * 指定ステータスまで遷移済みのRunを追加（key でテストから参照）
+   */
+  run(
+    key: string,
+    options: { tenantId: string; projectId?: string; status?: RunStatus; name?: string; stopRules?: StopRule[] }
+  ): this {
+    let run = createRun({
+      tenantId: options.tenantId,
+      projectId: options.projectId ?? 'proj_1',
+      name: options.name ?? key,
+      createdBy: 'user_1',
+      stopRules: options.stopRules,
+    })
+    const target = options.status ?? 'draft'
+    for (const [to, actorRole] of LIFECYCLE) {
+      if (run.status === target) break
+      run = transitionRun(run, { to, actorId: 'user_1', actorRole })
+    }
+    this.runs[key] = run
+    this.store.runs.set(run.id, structuredClone(run))
+    return this
+  }
+
+  /**
+   * 配信中のキャンペーンと広告セットを追加
+   */
+  activeMetaEntities(key: string): this {
+    const run = this.runs[key]
+    const now = new Date().toISOString()
+    const campaign: MetaCampaign = {
+      id: `camp_${key}`,
+      metaId: String(++this.metaIdSequence),
+      runId: run.id,
+      name: `${run.name} Campaign`,
+      objective: 'OUTCOME_LEADS',
+      status: 'ACTIVE',
+      specialAdCategories: ['NONE'],
+    }
+    const adSet = {
+      id: `adset_${key}`,
+      metaId: String(++this.metaIdSequence),
+      campaignId: campaign.id,
+      name: `${run.name} AdSet`,
+      status: 'ACTIVE',
+    } as MetaAdSet
+
+    this.store.metaEntities.set(campaign.id, {
+      tenantId: run.tenantId,
+      runId: run.id,
+      entityType: 'campaign',
+      entity: campaign,
+      createdAt: now,
+    })
+    this.store.metaEntities.set(adSet.id, {
+      tenantId: run.tenantId,
+      runId: run.id,
+      entityType: 'adset',
+      entity: adSet,
+      createdAt: now,
+    })
+    return this
+  }
+
+  hourlyMetrics(key: string, metrics: Omit<HourlyMetrics, 'runId'>[]): this {
+    const run = this.runs[key]
+    for (const m of metrics) {
+      this.store.metricsHourly.set(`${run.id}:${m.variantId}:${m.hour}`, {
+        tenantId: run.tenantId,
+        value: { ...m, runId: run.id },
+      })
+    }
+    return this
+  }
+
+  dailyMetrics(key: string, metrics: Omit<DailyMetrics, 'runId'>[]): this {
+    const run = this.runs[key]
+    for (const m of metrics) {
+      this.store.metricsDaily.set(`${run.id}:${m.variantId}:${m.date}`, {
+        tenantId: run.tenantId,
+        value: { ...m, runId: run.id },
+      })
+    }
+    return this
+  }
+
+  build(): Fixture {
+    return {
+      store: this.store,
+      repositories: createInMemoryRepositories(this.store),
+      env: createTestEnv(),
+      runs: this.runs,
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { createApp } from '../../src/app'
+import { can, type Action } from '../../src/domain/rbac'
+import { createDeployment } from '../../src/domain/publishing'
+import { createProject, ROLES } from '../../src/domain/tenancy'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+// 操作ごとの代表エンドポイント
+interface RouteCase {
+  action: Action
+  method: string
+  path: (ids: { runId: string; projectId: string; deploymentId: string }) => string
+  body?: Record<string, unknown>
+}
+
+const ROUTES: RouteCase[] = [
+  { action: 'tenant:read', method: 'GET', path: () => '/tenants/tenant_1' },
+  { action: 'member:read', method: 'GET', path: () => '/tenants/tenant_1/members' },
+  {
+    action: 'member:manage',
+    method: 'POST',
+    path: () => '/tenants/tenant_1/members/invitations',
+    body: { email: 'new@example.com', role: 'viewer' },
+  },
+  { action: 'project:read', method: 'GET', path: () => '/tenants/tenant_1/projects' },
+  { action: 'project:write', method: 'POST', path: () => '/tenants/tenant_1/projects', body: { name: 'New' } },
+  {
+    action: 'project:archive',
+    method: 'POST',
+    path: ({ projectId }) => `/tenants/tenant_1/projects/${projectId}/archive`,
+  },
+  { action: 'run:read', method: 'GET', path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/stop-events` },
+  {
+    action: 'run:write',
+    method: 'PATCH',
+    path: ({ runId }) => `/tenants/tenant_1/runs/${runId}`,
+    body: { destinationUrl: 'https://example.com/lp' },
+  },
+  { action: 'run:approve', method: 'POST', path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/approve`, body: {} },
+  { action: 'deployment:read', method: 'GET', path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/deployments` },
+  {
+    action: 'deployment:publish',
+    method: 'POST',
+    path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/deployments`,
+    body: { environment: 'production' },
+  },
+  {
+    action: 'deployment:rollback',
+    method: 'POST',
+    path: ({ runId, deploymentId }) => `/tenants/tenant_1/runs/${runId}/deployments/${deploymentId}/rollback`,
+    body: { targetVersion: 1, reason: 'Broken LP' },
+  },
+  {
+    action: 'stop_rule:evaluate',
+    method: 'POST',
+    path: () => '/stop-rules/evaluate',
+    body: { tenantId: 'tenant_1', runId: '', dryRun: true },
+  },
+  { action: 'manual_stop:read', method: 'GET', path: () => '/tenants/tenant_1/manual-stops' },
+  {
+    action: 'manual_stop:confirm',
+    method: 'POST',
+    path: () => '/tenants/tenant_1/manual-stops/mstop_missing/confirm',
+    body: {},
+  },
+  { action: 'audit_log:read', method: 'GET', path: () => '/tenants/tenant_1/audit-logs' },
+  { action: 'approval:read', method: 'GET', path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/approvals` },
+  {
+    action: 'approval:request',
+    method: 'POST',
+    path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/approvals`,
+    body: { targetType: 'lp' },
+  },
+  {
+    action: 'approval:comment',
+    method: 'POST',
+    path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/approvals/appr_missing/comments`,
+    body: { body: 'Looks good' },
+  },
+  {
+    action: 'approval:review',
+    method: 'POST',
+    path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/approvals/appr_missing/approve`,
+    body: {},
+  },
+  { action: 'lp:read', method: 'GET', path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/lp-variants` },
+  {
+    action: 'lp:write',
+    method: 'POST',
+    path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/lp-variants`,
+    body: { name: 'Hero A' },
+  },
+  { action: 'creative:read', method: 'GET', path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/creative-variants` },
+  {
+    action: 'creative:write',
+    method: 'POST',
+    path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/creative-variants`,
+    body: { name: 'Banner A' },
+  },
+  { action: 'creative:read', method: 'GET', path: ({ runId }) => `/tenants/tenant_1/runs/${runId}/creative-images` },
+]
+
+function setup() {
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'owner_1', 'owner')
+    .member('tenant_1', 'operator_1', 'operator')
+    .member('tenant_1', 'reviewer_1', 'reviewer')
+    .member('tenant_1', 'viewer_1', 'viewer')
+    .run('spring', { tenantId: 'tenant_1', status: 'running' })
+    .build()
+  const runId = fixture.runs.spring.id
+
+  fixture.store.tenants.set('tenant_1', {
+    id: 'tenant_1',
+    name: 'Acme',
+    slug: 'acme',
+    plan: 'pro',
+    settings: { dataRetentionDays: 365, defaultTimezone: 'Asia/Tokyo' },
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  })
+  const project = createProject({ tenantId: 'tenant_1', name: 'Spring', createdBy: 'owner_1' })
+  fixture.store.projects.set(project.id, project)
+  const deployment = createDeployment({ runId, tenantId: 'tenant_1', environment: 'production', deployedBy: 'owner_1' })
+  fixture.store.deployments.set(deployment.id, deployment)
+
+  return {
+    ...fixture,
+    app: createApp(() => fixture.repositories),
+    ids: { runId, projectId: project.id, deploymentId: deployment.id },
+  }
+}
+
+async function send(
+  { app, env, ids }: ReturnType<typeof setup>,
+  route: RouteCase,
+  userId?: string,
+  options: { mfaVerified?: boolean } = {}
+): Promise<Response> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (userId) headers.Cookie = await createSessionCookie(env, userId, options)
+  const body = route.action === 'stop_rule:evaluate' ? { ...route.body, runId: ids.runId } : route.body
+
+  return app.request(
+    route.path(ids),
+    { method: route.method, headers, body: body ? JSON.stringify(body) : undefined },
+    env
+  )
+}
+
+describe('RBAC Middleware', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe.each(ROLES)('%s', (role) => {
+    it.each(ROUTES.map((route) => [route.action, route] as const))('%s', async (_action, route) => {
+      const context = setup()
+      const res = await send(context, route, `${role}_1`)
+
+      if (can(role, route.action)) {
+        expect(res.status).not.toBe(401)
+        expect(res.status).not.toBe(403)
+      } else {
+        expect(res.status).toBe(403)
+      }
+    })
+  })
+
+  it('should require an identified caller', async () => {
+    const context = setup()
+    for (const route of ROUTES) {
+      expect((await send(context, route)).status).toBe(401)
+    }
+  })
+
+  it('should reject members of another tenant', async () => {
+    const context = setup()
+    const res = await context.app.request(
+      '/tenants/tenant_2/members',
+      { headers: { Cookie: await createSessionCookie(context.env, 'owner_1') } },
+      context.env
+    )
+
+    expect(res.status).toBe(403)
+  })
+
+  it('should require MFA for owner and operator but not for reviewer and viewer', async () => {
+    const context = setup()
+    const read = ROUTES.find((r) => r.action === 'run:read')!
+
+    for (const role of ROLES) {
+      const res = await send(context, read, `${role}_1`, { mfaVerified: false })
+      expect(res.status, role).toBe(role === 'owner' || role === 'operator' ? 403 : 200)
+    }
+  })
+
+  it('should publish and roll back as the calling operator', async () => {
+    const context = setup()
+    const publish = ROUTES.find((r) => r.action === 'deployment:publish')!
+    const rollback = ROUTES.find((r) => r.action === 'deployment:rollback')!
+
+    await send(context, publish, 'operator_1')
+    const published = (await (await send(context, publish, 'operator_1')).json()) as {
+      deployment: { id: string; deployedBy: string; version: number }
+    }
+    expect(published.deployment).toMatchObject({ deployedBy: 'operator_1', version: 3 })
+
+    const ids = { ...context.ids, deploymentId: published.deployment.id }
+    const toPrevious = { ...rollback, body: { targetVersion: 2, reason: 'Broken LP' } }
+    const res = await send({ ...context, ids }, toPrevious, 'operator_1')
+    expect(res.status).toBe(200)
+    const stored = await context.repositories.deployments('tenant_1').findById(published.deployment.id)
+    expect(stored?.status).toBe('rollback')
+  })
+})
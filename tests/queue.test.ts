@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { handleQueue, type QueueJob } from '../src/queue'
+import { createApp } from '../src/app'
+import { createUser } from '../src/domain/auth'
+import { FixtureBuilder } from './fixtures/builder'
+
+function createBatch(bodies: QueueJob[]) {
+  const messages = bodies.map((body, i) => ({
+    id: `msg_${i + 1}`,
+    timestamp: new Date(),
+    attempts: 1,
+    body,
+    ack: vi.fn(),
+    retry: vi.fn(),
+  }))
+  const batch = {
+    queue: 'launch-test-system-jobs',
+    messages,
+    ackAll: vi.fn(),
+    retryAll: vi.fn(),
+  } as unknown as MessageBatch<QueueJob>
+  return { batch, messages }
+}
+
+describe('Queue Handlers (in-memory end to end)', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should deliver the magic link email queued by the login API', async () => {
+    const { env, repositories } = new FixtureBuilder().build()
+    await repositories.users().create(createUser('owner@example.com'))
+    const app = createApp(() => repositories)
+    await app.request(
+      '/auth/magic-link',
+      { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{"email":"owner@example.com"}' },
+      env
+    )
+    const [job] = (env.JOBS_QUEUE as unknown as { messages: QueueJob[] }).messages
+    const fetchSpy = vi.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 202 }))
+
+    const { batch, messages } = createBatch([job])
+    const summary = await handleQueue(batch, env, {} as ExecutionContext)
+
+    expect(summary).toEqual({ delivered: 1, retried: [], skipped: [] })
+    expect(messages[0].ack).toHaveBeenCalled()
+    const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit]
+    expect(url).toBe(env.MAIL_API_URL)
+    expect(new Headers(init.headers).get('Authorization')).toBe(`Bearer ${env.MAIL_API_KEY}`)
+    const mail = JSON.parse(init.body as string)
+    expect(mail.personalizations[0].to).toEqual([{ email: 'owner@example.com' }])
+    expect(mail.from).toEqual({ email: env.MAIL_FROM })
+    expect(mail.content[0].value).toContain(job.url)
+  })
+
+  it('should retry messages the mail API rejects and skip unknown jobs', async () => {
+    const { env } = new FixtureBuilder().build()
+    vi.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 503 }))
+
+    const { batch, messages } = createBatch([
+      { type: 'magic_link_email', email: 'owner@example.com', url: 'https://app.test/auth/magic-link/verify' },
+      { type: 'unknown' } as unknown as QueueJob,
+    ])
+    const summary = await handleQueue(batch, env, {} as ExecutionContext)
+
+    expect(summary).toEqual({
+      delivered: 0,
+      retried: [{ id: 'msg_1', error: 'Mail API responded with 503' }],
+      skipped: ['msg_2'],
+    })
+    expect(messages[0].retry).toHaveBeenCalled()
+    expect(messages[0].ack).not.toHaveBeenCalled()
+    expect(messages[1].ack).toHaveBeenCalled()
+  })
+})
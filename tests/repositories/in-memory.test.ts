@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest'
+import { createInMemoryRepositories, createInMemoryStore } from '../../src/repositories/in-memory'
+import { createRun } from '../../src/domain/run'
+import { createDeployment } from '../../src/domain/publishing'
+import { createNotification } from '../../src/domain/notification'
+import { createTestResult } from '../../src/domain/winner-learning'
+import type { MetaCampaign } from '../../src/domain/meta-api'
+
+function setup() {
+  const store = createInMemoryStore()
+  return { store, repositories: createInMemoryRepositories(store) }
+}
+
+describe('In-Memory Repositories', () => {
+  describe('runs', () => {
+    it('should round-trip runs without sharing references', async () => {
+      const { repositories } = setup()
+      const run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' })
+
+      await repositories.runs('tenant_1').create(run)
+      const found = await repositories.runs('tenant_1').findById(run.id)
+      found!.name = 'Mutated'
+
+      expect((await repositories.runs('tenant_1').findById(run.id))?.name).toBe('Run 1')
+    })
+
+    it('should hide runs of other tenants', async () => {
+      const { repositories } = setup()
+      const run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' })
+      await repositories.runs('tenant_1').create(run)
+
+      expect(await repositories.runs('tenant_2').findById(run.id)).toBeNull()
+      expect(await repositories.runs('tenant_2').list()).toEqual([])
+    })
+
+    it('should reject writes for another tenant', async () => {
+      const { repositories } = setup()
+      const run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' })
+
+      await expect(repositories.runs('tenant_2').create(run)).rejects.toThrow('Tenant mismatch')
+    })
+
+    it('should list running runs across tenants', async () => {
+      const { repositories } = setup()
+      const a = { ...createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'A', createdBy: 'u' }), status: 'running' as const }
+      const b = { ...createRun({ tenantId: 'tenant_2', projectId: 'proj_1', name: 'B', createdBy: 'u' }), status: 'running' as const }
+      await repositories.runs('tenant_1').create(a)
+      await repositories.runs('tenant_2').create(b)
+
+      expect((await repositories.listRunningRuns()).map((r) => r.name).sort()).toEqual(['A', 'B'])
+    })
+  })
+
+  describe('deployments', () => {
+    it('should compute next version per run and environment', async () => {
+      const { repositories } = setup()
+      const deployments = repositories.deployments('tenant_1')
+      const deployment = createDeployment({
+        runId: 'run_1',
+        tenantId: 'tenant_1',
+        environment: 'production',
+        deployedBy: 'user_1',
+      })
+      await deployments.create({ ...deployment, status: 'deployed' })
+
+      expect(await deployments.getNextVersion('run_1', 'production')).toBe(2)
+      expect(await deployments.getNextVersion('run_1', 'staging')).toBe(1)
+      expect((await deployments.findLatestDeployed('run_1', 'production'))?.id).toBe(deployment.id)
+    })
+  })
+
+  describe('metaEntities', () => {
+    it('should update status within tenant only', async () => {
+      const { repositories } = setup()
+      const campaign: MetaCampaign = {
+        id: 'camp_1',
+        runId: 'run_1',
+        name: 'Campaign',
+        objective: 'OUTCOME_LEADS',
+        status: 'ACTIVE',
+        specialAdCategories: ['NONE'],
+      }
+      await repositories.metaEntities('tenant_1').saveCampaign(campaign)
+
+      await repositories.metaEntities('tenant_2').updateStatus('camp_1', 'PAUSED')
+      expect((await repositories.metaEntities('tenant_1').listByRun('run_1')).campaigns[0].status).toBe('ACTIVE')
+
+      await repositories.metaEntities('tenant_1').updateStatus('camp_1', 'PAUSED')
+      expect((await repositories.metaEntities('tenant_1').listByRun('run_1')).campaigns[0].status).toBe('PAUSED')
+    })
+  })
+
+  describe('metrics', () => {
+    it('should upsert hourly metrics and filter by since', async () => {
+      const { repositories } = setup()
+      const metrics = repositories.metrics('tenant_1')
+      const base = { runId: 'run_1', variantId: 'var_1', impressions: 100, clicks: 1, conversions: 0, revenue: 0 }
+      await metrics.upsertHourly([
+        { ...base, hour: '2025-01-15T10:00:00.000Z', spend: 100 },
+        { ...base, hour: '2025-01-15T11:00:00.000Z', spend: 100 },
+      ])
+      await metrics.upsertHourly([{ ...base, hour: '2025-01-15T11:00:00.000Z', spend: 250 }])
+
+      const rows = await metrics.listHourly('run_1', '2025-01-15T11:00:00.000Z')
+      expect(rows).toHaveLength(1)
+      expect(rows[0].spend).toBe(250)
+      expect(await repositories.metrics('tenant_2').listHourly('run_1')).toEqual([])
+    })
+  })
+
+  describe('notifications', () => {
+    it('should filter by status', async () => {
+      const { repositories } = setup()
+      const notifications = repositories.notifications('tenant_1')
+      const notification = createNotification('tenant_1', 'info', 'in_app', [], 'Subject', 'Message')
+      await notifications.create(notification)
+      await notifications.update({ ...notification, status: 'sent', sentAt: '2025-01-15T00:00:00.000Z' })
+
+      expect(await notifications.list('pending')).toEqual([])
+      expect((await notifications.list('sent'))[0].sentAt).toBe('2025-01-15T00:00:00.000Z')
+    })
+  })
+
+  describe('testResults', () => {
+    it('should refuse results for runs of another tenant', async () => {
+      const { repositories } = setup()
+      const run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Run 1', createdBy: 'user_1' })
+      await repositories.runs('tenant_1').create(run)
+      const variant = (variantId: string, conversions: number) => ({
+        variantId,
+        variantName: variantId,
+        isControl: variantId === 'var_a',
+        sampleSize: 1000,
+        conversions,
+        clicks: 1000,
+        impressions: 20000,
+        spend: 50000,
+        revenue: 0,
+        metrics: { cvr: 0, ctr: 0, cpa: 0, roas: 0, cpc: 0, cpm: 0 },
+      })
+      const result = createTestResult(run.id, 'ab_test', '2025-01-01', '2025-01-14', 'cvr', [
+        variant('var_a', 20),
+        variant('var_b', 40),
+      ])
+
+      await expect(repositories.testResults('tenant_2').create(result)).rejects.toThrow('Run not found')
+      await repositories.testResults('tenant_1').create(result)
+      expect((await repositories.testResults('tenant_1').findLatestByRun(run.id))?.id).toBe(result.id)
+    })
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { formatScheduledFailures, handleScheduled, runScheduled, CRON_SCHEDULES } from '../src/scheduled'
+import { createApp } from '../src/app'
+import { createStopRule } from '../src/domain/stop-rules'
+import { createSessionCookie, FixtureBuilder } from './fixtures/builder'
+
+const NOW = new Date('2025-01-15T12:30:00.000Z')
+
+function hourlyCron(scheduledTime: Date): ScheduledController {
+  return {
+    cron: CRON_SCHEDULES.hourly,
+    scheduledTime: scheduledTime.getTime(),
+    noRetry: () => {},
+  }
+}
+
+function buildOverspentRun() {
+  return new FixtureBuilder()
+    .member('tenant_1', 'owner_1', 'owner')
+    .member('tenant_1', 'viewer_1', 'viewer')
+    .metaConnection('tenant_1')
+    .run('spring', {
+      tenantId: 'tenant_1',
+      status: 'running',
+      name: 'Spring Campaign',
+      stopRules: [createStopRule('total_budget', 1000), createStopRule('daily_budget', 50000)],
+    })
+    .activeMetaEntities('spring')
+    .hourlyMetrics('spring', [
+      { variantId: 'var_1', hour: '2025-01-15T12:00:00.000Z', impressions: 1000, clicks: 10, spend: 5000, conversions: 1, revenue: 0 },
+    ])
+    .build()
+}
+
+describe('Scheduled Handlers (in-memory end to end)', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should pause an overspent run on the hourly cron', async () => {
+    const { env, repositories, store, runs } = buildOverspentRun()
+    vi.spyOn(global, 'fetch').mockImplementation(async () =>
+      ({ ok: true, json: () => Promise.resolve({ success: true }) }) as Response
+    )
+
+    const summary = await handleScheduled(hourlyCron(NOW), env, {} as ExecutionContext, repositories)
+    expect(summary).toEqual({
+      cron: CRON_SCHEDULES.hourly,
+      autoStop: { evaluated: 1, paused: 1, errors: [] },
+      manualStop: { escalated: 0, errors: [] },
+    })
+
+    const run = await repositories.runs('tenant_1').findById(runs.spring.id)
+    expect(run?.status).toBe('paused')
+    expect(store.metaEntities.get('camp_spring')?.entity.status).toBe('PAUSED')
+
+    const events = await repositories.stopEvents('tenant_1').listByRun(runs.spring.id)
+    expect(events[0].pauseResult).toBe('api_paused')
+    const [audit] = await repositories.auditLogs('tenant_1').search({ action: 'run.auto_stop', limit: 1 })
+    expect(audit).toMatchObject({ actorId: 'system:auto-stop', targetId: runs.spring.id })
+    expect(audit.metadata).toMatchObject({ reason: events[0].reason, stoppedAt: events[0].occurredAt })
+
+    const notifications = await repositories.notifications('tenant_1').list()
+    expect(notifications[0].recipients).toEqual([{ type: 'user', target: 'owner_1' }])
+  })
+
+  it('should report failed runs after evaluating every run', async () => {
+    const { env, repositories, runs } = buildOverspentRun()
+    repositories.metrics = () => {
+      throw new Error('D1 unavailable')
+    }
+
+    await expect(runScheduled(hourlyCron(NOW), env, {} as ExecutionContext, repositories)).rejects.toThrow(
+      `Cron ${CRON_SCHEDULES.hourly} failed: auto stop failed for ${runs.spring.id}: D1 unavailable`
+    )
+    expect(
+      formatScheduledFailures({
+        cron: CRON_SCHEDULES.daily,
+        auditSnapshots: { tenants: 2, brokenTenantIds: ['tenant_2'] },
+      })
+    ).toBe(`Cron ${CRON_SCHEDULES.daily} failed: audit log chain is broken for tenant_2`)
+    const passed = { cron: CRON_SCHEDULES.hourly, autoStop: { evaluated: 1, paused: 0, errors: [] } }
+    expect(formatScheduledFailures(passed)).toBeNull()
+  })
+
+  it('should escalate and confirm a manual stop through the API', async () => {
+    const { env, repositories, runs } = buildOverspentRun()
+    vi.spyOn(global, 'fetch').mockImplementation(async () =>
+      ({
+        ok: false,
+        json: () => Promise.resolve({ error: { code: 100, type: 'OAuthException', message: 'Invalid' } }),
+      }) as Response
+    )
+
+    await handleScheduled(hourlyCron(NOW), env, {} as ExecutionContext, repositories)
+    const [task] = await repositories.manualStopTasks('tenant_1').list('pending')
+    expect(task.runId).toBe(runs.spring.id)
+    expect((await repositories.runs('tenant_1').findById(runs.spring.id))?.status).toBe('running')
+
+    await handleScheduled(hourlyCron(new Date('2025-01-15T13:30:00.000Z')), env, {} as ExecutionContext, repositories)
+    expect((await repositories.manualStopTasks('tenant_1').findById(task.id))?.escalationLevel).toBe(2)
+
+    const app = createApp(() => repositories)
+    const cookie = await createSessionCookie(env, 'owner_1')
+    const res = await app.request(
+      `/tenants/tenant_1/manual-stops/${task.id}/confirm`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: JSON.stringify({ note: 'Paused in Ads Manager' }),
+      },
+      env
+    )
+
+    expect(res.status).toBe(200)
+    const confirmed = await repositories.manualStopTasks('tenant_1').findById(task.id)
+    expect(confirmed?.confirmedBy).toBe('owner_1')
+    expect((await repositories.metaEntities('tenant_1').listByRun(runs.spring.id)).adSets[0].status).toBe('PAUSED')
+    expect(await repositories.manualStopTasks('tenant_1').list('pending')).toHaveLength(0)
+    expect((await repositories.runs('tenant_1').findById(runs.spring.id))?.status).toBe('paused')
+
+    const other = await app.request(`/tenants/tenant_2/manual-stops`, { headers: { Cookie: cookie } }, env)
+    expect(other.status).toBe(403)
+  })
+})
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import { APPROVAL_TARGETS, type Approval, type ApprovalGateResult } from '../../src/domain/approval'
+import type { Run } from '../../src/domain/run'
+import { createStopRule } from '../../src/domain/stop-rules'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+async function setup() {
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'owner_1', 'owner')
+    .member('tenant_1', 'operator_1', 'operator')
+    .member('tenant_1', 'reviewer_1', 'reviewer')
+    .run('spring', { tenantId: 'tenant_1', status: 'live' })
+    .build()
+  const app = createApp(() => fixture.repositories)
+  const base = `/tenants/tenant_1/runs/${fixture.runs.spring.id}`
+  const cookies = {
+    operator: await createSessionCookie(fixture.env, 'operator_1'),
+    reviewer: await createSessionCookie(fixture.env, 'reviewer_1'),
+  }
+
+  const send = (cookie: string, method: string, path: string, body?: unknown) =>
+    app.request(
+      `${base}${path}`,
+      {
+        method,
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      fixture.env
+    )
+
+  const approveAll = async (approval: Approval) => {
+    for (const item of approval.checklist) {
+      await send(cookies.reviewer, 'PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+    }
+    return send(cookies.reviewer, 'POST', `/approvals/${approval.id}/approve`, {})
+  }
+
+  return { ...fixture, app, send, cookies, approveAll }
+}
+
+async function requestAll({ send, cookies }: Awaited<ReturnType<typeof setup>>): Promise<Approval[]> {
+  const approvals: Approval[] = []
+  for (const targetType of APPROVAL_TARGETS) {
+    const res = await send(cookies.operator, 'POST', '/approvals', { targetType })
+    approvals.push((await res.json<{ approval: Approval }>()).approval)
+  }
+  return approvals
+}
+
+describe('Approval Service (API)', () => {
+  it('should refuse to start a run until every target is approved', async () => {
+    const context = await setup()
+    const { send, cookies, approveAll, repositories, runs } = context
+
+    const noApprovals = await send(cookies.operator, 'POST', '/start', {})
+    expect(noApprovals.status).toBe(409)
+    expect((await noApprovals.json<{ gate: ApprovalGateResult }>()).gate.missingTargets).toEqual(APPROVAL_TARGETS)
+
+    const approvals = await requestAll(context)
+    for (const approval of approvals.slice(0, -1)) {
+      expect((await approveAll(approval)).status).toBe(200)
+    }
+    const oneLeft = await send(cookies.operator, 'POST', '/start', {})
+    expect(oneLeft.status).toBe(409)
+    expect((await oneLeft.json<{ gate: ApprovalGateResult }>()).gate.unapprovedIds).toEqual([approvals[5].id])
+    expect((await repositories.runs('tenant_1').findById(runs.spring.id))?.status).toBe('live')
+
+    await approveAll(approvals[5])
+    const started = await send(cookies.operator, 'POST', '/start', {})
+    expect(started.status).toBe(200)
+    expect((await repositories.runs('tenant_1').findById(runs.spring.id))?.status).toBe('running')
+
+    const audit = await repositories.auditLogs('tenant_1').search({ action: 'run.start', limit: 1 })
+    expect(audit[0].actorId).toBe('operator_1')
+  })
+
+  it('should require an approval for every LP variant in the run', async () => {
+    const context = await setup()
+    const { send, cookies, approveAll } = context
+    const createLp = async (name: string) => {
+      const content = { title: name, sections: [{ id: 'sec_hero', type: 'hero', props: { headline: name } }] }
+      const res = await send(cookies.operator, 'POST', '/lp-variants', { name, content })
+      return (await res.json<{ variant: { id: string } }>()).variant.id
+    }
+    const [first, second] = [await createLp('Variant A'), await createLp('Variant B')]
+
+    for (const targetType of APPROVAL_TARGETS) {
+      const targetId = targetType === 'lp' ? first : undefined
+      const res = await send(cookies.operator, 'POST', '/approvals', { targetType, targetId })
+      await approveAll((await res.json<{ approval: Approval }>()).approval)
+    }
+
+    const blocked = await send(cookies.operator, 'POST', '/start', {})
+    expect(blocked.status).toBe(409)
+    expect((await blocked.json<{ gate: ApprovalGateResult }>()).gate.unapprovedVariantIds).toEqual([second])
+
+    const res = await send(cookies.operator, 'POST', '/approvals', { targetType: 'lp', targetId: second })
+    await approveAll((await res.json<{ approval: Approval }>()).approval)
+    expect((await send(cookies.operator, 'POST', '/start', {})).status).toBe(200)
+  })
+
+  it('should record checklist, comments and sign-off with notifications', async () => {
+    const context = await setup()
+    const { send, cookies, approveAll, repositories } = context
+    const [approval] = await requestAll(context)
+
+    const early = await send(cookies.reviewer, 'POST', `/approvals/${approval.id}/approve`, {})
+    expect(early.status).toBe(409)
+    expect((await early.json<{ error: string }>()).error).toBe('Checklist is incomplete')
+
+    await send(cookies.reviewer, 'POST', `/approvals/${approval.id}/comments`, { body: 'Price looks right' })
+    await approveAll(approval)
+
+    const stored = await repositories.approvals('tenant_1').findById(approval.id)
+    expect(stored?.status).toBe('approved')
+    expect(stored?.approvedBy).toBe('reviewer_1')
+    expect(stored?.comments.map((c) => c.body)).toEqual(['Price looks right'])
+    expect(stored?.checklist.every((i) => i.checkedBy === 'reviewer_1')).toBe(true)
+
+    const logs = await repositories.auditLogs('tenant_1').search({ targetId: approval.id, limit: 20 })
+    const actions = logs.map((log) => log.action)
+    expect(actions.filter((action) => action === 'approval.checklist')).toHaveLength(approval.checklist.length)
+    expect(logs.find((log) => log.action === 'approval.comment')).toMatchObject({ actorId: 'reviewer_1' })
+
+    const notifications = await repositories.notifications('tenant_1').list()
+    const required = notifications.find((n) => n.type === 'approval_required')
+    expect(required?.recipients.map((r) => r.target).sort()).toEqual(['owner_1', 'reviewer_1'])
+    expect(notifications.some((n) => n.type === 'approval_completed')).toBe(true)
+  })
+
+  it('should reject with a comment and allow resubmission', async () => {
+    const context = await setup()
+    const { send, cookies } = context
+    const [approval] = await requestAll(context)
+
+    expect((await send(cookies.reviewer, 'POST', `/approvals/${approval.id}/reject`, {})).status).toBe(400)
+    const rejected = await send(cookies.reviewer, 'POST', `/approvals/${approval.id}/reject`, { comment: 'Fix CTA' })
+    expect((await rejected.json<{ approval: Approval }>()).approval.status).toBe('rejected')
+
+    const resubmitted = await send(cookies.operator, 'POST', `/approvals/${approval.id}/resubmit`)
+    expect((await resubmitted.json<{ approval: Approval }>()).approval.status).toBe('pending')
+  })
+
+  it('should return approved settings to pending review when the run is edited', async () => {
+    const context = await setup()
+    const { send, cookies, approveAll, repositories } = context
+    const approvals = await requestAll(context)
+    for (const approval of approvals) {
+      await approveAll(approval)
+    }
+    const stopRules = [createStopRule('total_budget', 200000), createStopRule('daily_budget', 20000)]
+
+    const res = await send(cookies.operator, 'PATCH', '', { stopRules })
+    expect(res.status).toBe(200)
+    const body = await res.json<{ run: Run; invalidatedApprovals: Approval[] }>()
+    expect(body.run.stopRules).toEqual(stopRules)
+    expect(body.invalidatedApprovals.map((a) => a.targetType)).toEqual(['stop_rules', 'budget_cap'])
+
+    const stored = await repositories.approvals('tenant_1').findById(approvals[3].id)
+    expect(stored?.status).toBe('pending')
+    expect(stored?.invalidatedAt).toBeDefined()
+    expect((await repositories.approvals('tenant_1').findById(approvals[5].id))?.status).toBe('approved')
+
+    const blocked = await send(cookies.operator, 'POST', '/start', {})
+    expect((await blocked.json<{ gate: ApprovalGateResult }>()).gate.unapprovedIds).toEqual([
+      approvals[3].id,
+      approvals[4].id,
+    ])
+
+    const notifications = await repositories.notifications('tenant_1').list()
+    expect(notifications.filter((n) => n.data?.reason === 'content_changed')).toHaveLength(2)
+    const audit = await repositories.auditLogs('tenant_1').search({ action: 'approval.invalidate', limit: 10 })
+    expect(audit).toHaveLength(2)
+
+    const unchanged = await send(cookies.operator, 'PATCH', '', { stopRules })
+    expect((await unchanged.json<{ invalidatedApprovals: Approval[] }>()).invalidatedApprovals).toEqual([])
+  })
+
+  it('should not let an operator sign off or reach approvals through another run', async () => {
+    const context = await setup()
+    const { app, env, send, cookies } = context
+    const [approval] = await requestAll(context)
+
+    expect((await send(cookies.operator, 'POST', `/approvals/${approval.id}/approve`, {})).status).toBe(403)
+
+    const res = await app.request(
+      `/tenants/tenant_1/runs/run_other/approvals/${approval.id}/reject`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Cookie: cookies.reviewer },
+        body: JSON.stringify({ comment: 'Nope' }),
+      },
+      env
+    )
+    expect(res.status).toBe(404)
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect } from 'vitest'
+import {
+  exportAuditLogs,
+  exportAuditLogsAcrossTenants,
+  recordAudit,
+  searchAuditLogs,
+  searchAuditLogsAcrossTenants,
+  snapshotAuditLogs,
+  verifyTenantAuditLog,
+} from '../../src/services/audit'
+import { createInMemoryRepositories, createInMemoryStore } from '../../src/repositories/in-memory'
+import { encodeAuditTenantsCursor, type AuditLogInput } from '../../src/domain/audit'
+import { createApp } from '../../src/app'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+const DAY = new Date('2025-01-15T12:00:00.000Z')
+
+function input(tenantId: string, targetId: string): AuditLogInput {
+  return { tenantId, actorId: 'user_1', action: 'project.create', targetType: 'project', targetId }
+}
+
+async function seed() {
+  const store = createInMemoryStore()
+  const repositories = createInMemoryRepositories(store)
+  await recordAudit(repositories, input('tenant_1', 'proj_1'), new Date('2025-01-14T23:00:00.000Z'))
+  await recordAudit(repositories, input('tenant_1', 'proj_2'), new Date('2025-01-15T09:00:00.000Z'))
+  await recordAudit(repositories, input('tenant_1', 'proj_3'), new Date('2025-01-15T18:00:00.000Z'))
+  await recordAudit(repositories, input('tenant_2', 'proj_9'), new Date('2025-01-15T10:00:00.000Z'))
+  return { store, repositories }
+}
+
+describe('Audit Service', () => {
+  it('should chain entries per tenant', async () => {
+    const { repositories } = await seed()
+
+    const tenant1 = await repositories.auditLogs('tenant_1').listAfter()
+    const tenant2 = await repositories.auditLogs('tenant_2').listAfter()
+    expect(tenant1.map((l) => l.sequence)).toEqual([1, 2, 3])
+    expect(tenant1[1].prevHash).toBe(tenant1[0].hash)
+    expect(tenant2[0].sequence).toBe(1)
+  })
+
+  it('should detect an entry tampered with in storage', async () => {
+    const { store, repositories } = await seed()
+    expect(await verifyTenantAuditLog(repositories, 'tenant_1')).toEqual({ valid: true, checked: 3 })
+
+    const [, second] = await repositories.auditLogs('tenant_1').listAfter()
+    store.auditLogs.set(second.id, { ...second, actorId: 'intruder' })
+
+    const result = await verifyTenantAuditLog(repositories, 'tenant_1')
+    expect(result.valid).toBe(false)
+    expect(result.brokenAt).toMatchObject({ sequence: 2, reason: 'hash_mismatch' })
+  })
+
+  it('should snapshot each tenant day to R2 anchored on the previous entry', async () => {
+    const { repositories } = await seed()
+    const { env } = new FixtureBuilder().build()
+
+    const outcomes = await snapshotAuditLogs(env.ASSETS, repositories, DAY)
+
+    expect(outcomes.map((o) => [o.tenantId, o.count, o.verification.valid])).toEqual([
+      ['tenant_1', 2, true],
+      ['tenant_2', 1, true],
+    ])
+    const object = await env.ASSETS.get('audit-snapshots/tenant_1/2025-01-15.jsonl')
+    const lines = (await object!.text()).trim().split('\n').map((line) => JSON.parse(line))
+    expect(lines.map((l) => l.targetId)).toEqual(['proj_2', 'proj_3'])
+    expect(object!.customMetadata).toMatchObject({ firstSequence: '2', lastSequence: '3', verified: 'true' })
+  })
+
+  it('should record deployment publish and rollback through the API', async () => {
+    const { env, repositories, runs } = new FixtureBuilder()
+      .member('tenant_1', 'owner_1', 'owner')
+      .run('spring', { tenantId: 'tenant_1', status: 'running' })
+      .build()
+    const app = createApp(() => repositories)
+    const headers = { 'Content-Type': 'application/json', Cookie: await createSessionCookie(env, 'owner_1') }
+    const path = `/tenants/tenant_1/runs/${runs.spring.id}/deployments`
+
+    const publish = () =>
+      app.request(path, { method: 'POST', headers, body: JSON.stringify({ environment: 'production' }) }, env)
+    await publish()
+    const { deployment } = await (await publish()).json<{ deployment: { id: string } }>()
+
+    const rolledBack = await app.request(
+      `${path}/${deployment.id}/rollback`,
+      { method: 'POST', headers, body: JSON.stringify({ targetVersion: 1, reason: 'Broken CTA' }) },
+      env
+    )
+    expect(rolledBack.status).toBe(200)
+
+    const logs = await repositories.auditLogs('tenant_1').listAfter()
+    const rollback = logs.find((l) => l.action === 'deployment.rollback')
+    expect(logs.map((l) => l.action)).toEqual(['deployment.publish', 'deployment.publish', 'deployment.rollback'])
+    expect(rollback?.actorId).toBe('owner_1')
+    expect(rollback?.changes).toContainEqual({ path: 'status', before: 'deployed', after: 'rollback' })
+    expect((await verifyTenantAuditLog(repositories, 'tenant_1')).valid).toBe(true)
+  })
+
+  it('should page through search results newest first', async () => {
+    const { repositories } = await seed()
+
+    const first = await searchAuditLogs(repositories, 'tenant_1', {}, { limit: 2 })
+    expect(first.logs.map((l) => l.targetId)).toEqual(['proj_3', 'proj_2'])
+    expect(first.nextCursor).not.toBeNull()
+
+    const second = await searchAuditLogs(repositories, 'tenant_1', {}, { before: 2, limit: 2 })
+    expect(second.logs.map((l) => l.targetId)).toEqual(['proj_1'])
+    expect(second.nextCursor).toBeNull()
+  })
+
+  it('should export matching entries in chain order', async () => {
+    const { repositories } = await seed()
+
+    const filter = { from: '2025-01-15T00:00:00.000Z' }
+    const exported = await exportAuditLogs(repositories, 'tenant_1', filter, 'jsonl', DAY)
+    expect(exported.filename).toBe('audit-logs-tenant_1-2025-01-15.jsonl')
+    expect(exported.body.trim().split('\n').map((line) => JSON.parse(line).sequence)).toEqual([2, 3])
+  })
+
+  it('should page through search results across tenants newest first', async () => {
+    const { repositories } = await seed()
+    const tenantIds = ['tenant_1', 'tenant_2']
+
+    const first = await searchAuditLogsAcrossTenants(repositories, tenantIds, {}, { limit: 2 })
+    expect(first.logs.map((l) => l.targetId)).toEqual(['proj_3', 'proj_9'])
+    expect(first.nextCursor).toBe(encodeAuditTenantsCursor({ tenant_1: 3, tenant_2: 1 }))
+
+    const second = await searchAuditLogsAcrossTenants(repositories, tenantIds, {}, {
+      positions: { tenant_1: 3, tenant_2: 1 },
+      limit: 2,
+    })
+    expect(second.logs.map((l) => l.targetId)).toEqual(['proj_2', 'proj_1'])
+    expect(second.nextCursor).toBeNull()
+  })
+
+  it('should export matching entries across tenants in time order', async () => {
+    const { repositories } = await seed()
+
+    const filter = { from: '2025-01-15T00:00:00.000Z' }
+    const exported = await exportAuditLogsAcrossTenants(repositories, ['tenant_1', 'tenant_2'], filter, 'csv', DAY)
+    expect(exported.filename).toBe('audit-logs-2025-01-15.csv')
+    const rows = exported.body.trim().split('\r\n').slice(1)
+    expect(rows.map((row) => row.split(',').slice(0, 2).join(','))).toEqual(['tenant_1,2', 'tenant_2,1', 'tenant_1,3'])
+  })
+
+  it('should search and export through the API as an owner', async () => {
+    const { env, repositories } = new FixtureBuilder()
+      .member('tenant_1', 'owner_1', 'owner')
+      .member('tenant_1', 'operator_1', 'operator')
+      .build()
+    for (const [actorId, action, targetId] of [
+      ['owner_1', 'project.create', 'proj_1'],
+      ['operator_1', 'deployment.publish', 'deploy_1'],
+      ['owner_1', 'deployment.rollback', 'deploy_1'],
+      ['operator_1', 'deployment.publish', 'deploy_2'],
+    ]) {
+      await recordAudit(repositories, { tenantId: 'tenant_1', actorId, action, targetType: 'deployment', targetId })
+    }
+    const app = createApp(() => repositories)
+    const headers = { Cookie: await createSessionCookie(env, 'owner_1') }
+    const get = (query: string) => app.request(`/tenants/tenant_1/audit-logs?${query}`, { headers }, env)
+
+    type Page = { logs: { sequence: number; action: string }[]; nextCursor: string | null }
+    const page = await (await get('action=deployment.*&limit=2')).json<Page>()
+    expect(page.logs.map((l) => l.sequence)).toEqual([4, 3])
+    const next = await (await get(`action=deployment.*&limit=2&cursor=${page.nextCursor}`)).json<Page>()
+    expect(next).toEqual({ logs: [expect.objectContaining({ sequence: 2 })], nextCursor: null })
+
+    const byTarget = await (await get('targetType=deployment&targetId=deploy_1&actorId=owner_1')).json<Page>()
+    expect(byTarget.logs.map((l) => l.action)).toEqual(['deployment.rollback'])
+
+    const csv = await get('format=csv&actorId=operator_1')
+    expect(csv.headers.get('Content-Type')).toContain('text/csv')
+    expect(csv.headers.get('Content-Disposition')).toMatch(/^attachment; filename="audit-logs-tenant_1-.+\.csv"$/)
+    expect((await csv.text()).trim().split('\r\n')).toHaveLength(3)
+
+    expect((await get('cursor=bogus')).status).toBe(400)
+    expect((await get('from=2025-02-01&to=2025-01-01')).status).toBe(400)
+    expect((await get('format=xml')).status).toBe(400)
+  })
+
+  it('should search across the tenants the caller owns through the API', async () => {
+    const { env, repositories } = new FixtureBuilder()
+      .member('tenant_1', 'owner_1', 'owner')
+      .member('tenant_2', 'owner_1', 'owner')
+      .member('tenant_3', 'owner_1', 'operator')
+      .member('tenant_1', 'operator_1', 'operator')
+      .build()
+    for (const [tenantId, targetId] of [
+      ['tenant_1', 'proj_1'],
+      ['tenant_2', 'proj_2'],
+      ['tenant_3', 'proj_3'],
+      ['tenant_1', 'proj_4'],
+    ]) {
+      await recordAudit(repositories, input(tenantId, targetId))
+    }
+    const app = createApp(() => repositories)
+    const get = async (query: string, userId = 'owner_1', mfaVerified = true) => {
+      const headers = { Cookie: await createSessionCookie(env, userId, { mfaVerified }) }
+      return app.request(`/audit-logs?${query}`, { headers }, env)
+    }
+
+    type Page = { logs: { tenantId: string; targetId: string }[]; nextCursor: string | null }
+    const page = await (await get('limit=2')).json<Page>()
+    expect(page.logs).toHaveLength(2)
+    const next = await (await get(`limit=2&cursor=${page.nextCursor}`)).json<Page>()
+    expect(next.nextCursor).toBeNull()
+    const logs = [...page.logs, ...next.logs]
+    expect(logs.map((l) => l.targetId).sort()).toEqual(['proj_1', 'proj_2', 'proj_4'])
+    expect(new Set(logs.map((l) => l.tenantId))).toEqual(new Set(['tenant_1', 'tenant_2']))
+
+    const jsonl = await get('format=jsonl&targetType=project&targetId=proj_2')
+    expect((await jsonl.text()).trim().split('\n').map((line) => JSON.parse(line).tenantId)).toEqual(['tenant_2'])
+
+    expect((await get('cursor=bogus')).status).toBe(400)
+    expect((await get('', 'owner_1', false)).status).toBe(403)
+    expect((await get('', 'operator_1')).status).toBe(403)
+    expect((await app.request('/audit-logs', {}, env)).status).toBe(401)
+  })
+})
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import { createUser, generateTotp, MFA_MAX_FAILED_ATTEMPTS, TOTP_PERIOD_SECONDS } from '../../src/domain/auth'
+import type { MagicLinkJob } from '../../src/services/auth'
+import { FixtureBuilder } from '../fixtures/builder'
+
+async function setup() {
+  const fixture = new FixtureBuilder().build()
+  await fixture.repositories.users().create(createUser('owner@example.com'))
+  const app = createApp(() => fixture.repositories)
+  const queue = fixture.env.JOBS_QUEUE as unknown as { messages: MagicLinkJob[] }
+
+  const request = (path: string, init: RequestInit = {}, cookie?: string) =>
+    app.request(
+      path,
+      {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...(cookie ? { Cookie: cookie } : {}) },
+      },
+      fixture.env
+    )
+
+  return { ...fixture, request, queue }
+}
+
+async function login(context: Awaited<ReturnType<typeof setup>>, email: string) {
+  const sent = await context.request('/auth/magic-link', { method: 'POST', body: JSON.stringify({ email }) })
+  expect(sent.status).toBe(202)
+
+  const link = new URL(context.queue.messages.at(-1)!.url)
+  const verified = await context.request(`${link.pathname}${link.search}`)
+  expect(verified.status).toBe(200)
+
+  const cookie = verified.headers.get('Set-Cookie')!.split(';')[0]
+  return { link, cookie }
+}
+
+describe('Auth Service (magic link and MFA)', () => {
+  it('should log in with a one-time magic link', async () => {
+    const context = await setup()
+    const { link, cookie } = await login(context, 'Owner@Example.com')
+
+    expect(context.queue.messages[0]).toMatchObject({ type: 'magic_link_email', email: 'owner@example.com' })
+    const me = (await (await context.request('/auth/me', {}, cookie)).json()) as {
+      session: { email: string; mfaVerified: boolean }
+    }
+    expect(me.session).toMatchObject({ email: 'owner@example.com', mfaVerified: false })
+
+    const reused = await context.request(`${link.pathname}${link.search}`)
+    expect(reused.status).toBe(401)
+  })
+
+  it('should never store the raw link token', async () => {
+    const context = await setup()
+    const { link } = await login(context, 'owner@example.com')
+    const token = link.searchParams.get('token')!
+
+    expect(await context.env.CACHE.get(`auth:magic:${token}`)).toBeNull()
+  })
+
+  it('should enrol and verify TOTP, marking the session MFA-verified', async () => {
+    const context = await setup()
+    const { cookie } = await login(context, 'owner@example.com')
+
+    const enrolled = (await (
+      await context.request('/auth/mfa/enroll', { method: 'POST' }, cookie)
+    ).json()) as { secret: string; otpauthUri: string }
+    expect(enrolled.otpauthUri).toContain(enrolled.secret)
+
+    const verify = (code: string) =>
+      context.request('/auth/mfa/verify', { method: 'POST', body: JSON.stringify({ code }) }, cookie)
+    expect((await verify('000000')).status).toBe(401)
+    expect((await verify(await generateTotp(enrolled.secret))).status).toBe(200)
+
+    const user = await context.repositories.users().findByEmail('owner@example.com')
+    expect(user?.mfaEnabledAt).toBeDefined()
+    const me = (await (await context.request('/auth/me', {}, cookie)).json()) as { session: { mfaVerified: boolean } }
+    expect(me.session.mfaVerified).toBe(true)
+
+    const again = await context.request('/auth/mfa/enroll', { method: 'POST' }, cookie)
+    expect(again.status).toBe(409)
+  })
+
+  it('should not create users or send links for unknown emails', async () => {
+    const context = await setup()
+
+    const sent = await context.request('/auth/magic-link', {
+      method: 'POST',
+      body: JSON.stringify({ email: 'stranger@example.com' }),
+    })
+    expect(sent.status).toBe(202)
+    expect(context.queue.messages).toHaveLength(0)
+    expect(await context.repositories.users().findByEmail('stranger@example.com')).toBeNull()
+  })
+
+  it('should reject a TOTP code that was already accepted', async () => {
+    const context = await setup()
+    const { cookie } = await login(context, 'owner@example.com')
+    const { secret } = (await (await context.request('/auth/mfa/enroll', { method: 'POST' }, cookie)).json()) as {
+      secret: string
+    }
+    const verify = (code: string) =>
+      context.request('/auth/mfa/verify', { method: 'POST', body: JSON.stringify({ code }) }, cookie)
+
+    const code = await generateTotp(secret)
+    expect((await verify(code)).status).toBe(200)
+    expect((await verify(code)).status).toBe(401)
+    // 前のステップのコードも受け付けない
+    const previous = await generateTotp(secret, new Date(Date.now() - TOTP_PERIOD_SECONDS * 1000))
+    expect((await verify(previous)).status).toBe(401)
+  })
+
+  it('should lock MFA verification after repeated failures', async () => {
+    const context = await setup()
+    const { cookie } = await login(context, 'owner@example.com')
+    const { secret } = (await (await context.request('/auth/mfa/enroll', { method: 'POST' }, cookie)).json()) as {
+      secret: string
+    }
+    const verify = (code: string) =>
+      context.request('/auth/mfa/verify', { method: 'POST', body: JSON.stringify({ code }) }, cookie)
+
+    for (let i = 0; i < MFA_MAX_FAILED_ATTEMPTS; i++) {
+      expect((await verify('000000')).status).toBe(401)
+    }
+    const locked = await verify(await generateTotp(secret))
+    expect(locked.status).toBe(429)
+    expect((await locked.json<{ error: string }>()).error).toBe('Too many MFA attempts, try again later')
+  })
+
+  it('should end the session on logout', async () => {
+    const context = await setup()
+    const { cookie } = await login(context, 'owner@example.com')
+
+    await context.request('/auth/logout', { method: 'POST' }, cookie)
+    expect((await context.request('/auth/me', {}, cookie)).status).toBe(401)
+  })
+
+  it('should reject invalid emails and anonymous MFA calls', async () => {
+    const context = await setup()
+
+    const bad = await context.request('/auth/magic-link', { method: 'POST', body: JSON.stringify({ email: 'nope' }) })
+    expect(bad.status).toBe(400)
+    expect((await context.request('/auth/mfa/enroll', { method: 'POST' })).status).toBe(401)
+  })
+})
@@ -0,0 +1,397 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  evaluateAndEnforce,
+  runHourlyAutoStop,
+  createAutoStopNotification,
+  AUTO_STOP_ACTOR_ID,
+  type AutoStopDeps,
+} from '../../src/services/auto-stop'
+import type { AuditLogInput } from '../../src/domain/audit'
+import { createRun, transitionRun, type Run } from '../../src/domain/run'
+import { createStopRule } from '../../src/domain/stop-rules'
+import type { HourlyMetrics } from '../../src/domain/measurement'
+import type { MetaAdSet, MetaCampaign } from '../../src/domain/meta-api'
+import type { ManualStopTask } from '../../src/domain/manual-stop'
+import type { Notification } from '../../src/domain/notification'
+import type { StopEvent } from '../../src/domain/stop-event'
+import type { RunStateClient } from '../../src/durable-objects/run-state'
+
+const NOW = new Date('2025-01-15T12:30:00.000Z')
+
+function createRunningRun(totalBudget = 100000): Run {
+  let run = createRun({
+    tenantId: 'tenant_1',
+    projectId: 'proj_1',
+    name: 'Spring Campaign',
+    createdBy: 'user_1',
+    stopRules: [createStopRule('total_budget', totalBudget), createStopRule('daily_budget', 50000)],
+  })
+  const steps: [Run['status'], 'operator' | 'reviewer'][] = [
+    ['designing', 'operator'],
+    ['generating', 'operator'],
+    ['ready_for_review', 'operator'],
+    ['approved', 'reviewer'],
+    ['publishing', 'operator'],
+    ['live', 'operator'],
+    ['running', 'operator'],
+  ]
+  for (const [to, actorRole] of steps) {
+    run = transitionRun(run, { to, actorId: 'user_1', actorRole })
+  }
+  return run
+}
+
+function createFakeRunState(run: Run, options: { locked?: boolean } = {}): RunStateClient {
+  let current = run
+  return {
+    getRun: async () => ({ ok: true, status: 200, data: current }),
+    putRun: async (r: Run) => {
+      current = r
+      return { ok: true, status: 200, data: r }
+    },
+    initRun: async () => ({ ok: true, status: 200, data: current }),
+    updateSettings: async (update) => {
+      current = { ...current, ...update }
+      return { ok: true, status: 200, data: current }
+    },
+    transition: async (request) => {
+      current = transitionRun(current, request)
+      return { ok: true, status: 200, data: current }
+    },
+    acquireLease: async (holder, purpose) =>
+      options.locked
+        ? { ok: false, status: 409, data: { acquired: false, heldBy: 'api' } }
+        : {
+            ok: true,
+            status: 200,
+            data: { acquired: true, lease: { id: 'lease_1', holder, purpose, acquiredAt: 0, expiresAt: 1 } },
+          },
+    releaseLease: vi.fn(async () => ({ ok: true, status: 200, data: { released: true } })),
+    consumeMetaQuota: async () => ({ ok: true, status: 200, data: { allowed: true, remaining: 10, retryAfterMs: 0 } }),
+    listHealthChecks: async () => ({ ok: true, status: 200, data: [] }),
+    recordHealthCheck: async () => ({ ok: true, status: 200, data: [] }),
+  }
+}
+
+function createFakeDeps(
+  run: Run,
+  options: { locked?: boolean; token?: string | null; pendingTask?: ManualStopTask } = {}
+) {
+  const hourly: HourlyMetrics[] = [
+    { runId: run.id, variantId: 'var_1', hour: '2025-01-15T12:00:00.000Z', impressions: 1000, clicks: 10, spend: 5000, conversions: 1, revenue: 0 },
+  ]
+  const campaign: MetaCampaign = {
+    id: 'camp_1',
+    metaId: '120000000001',
+    runId: run.id,
+    name: 'Campaign',
+    objective: 'OUTCOME_LEADS',
+    status: 'ACTIVE',
+    specialAdCategories: ['NONE'],
+  }
+  const adSet = {
+    id: 'adset_1',
+    metaId: '120000000002',
+    campaignId: 'camp_1',
+    name: 'AdSet',
+    status: 'ACTIVE',
+  } as MetaAdSet
+
+  const notifications: Notification[] = []
+  const stopEvents: StopEvent[] = []
+  const manualStopTasks: ManualStopTask[] = []
+  const savedRuns: Run[] = []
+  const audits: AuditLogInput[] = []
+  const entityStatuses = new Map<string, string>()
+  const runState = createFakeRunState(run, options)
+
+  const deps: AutoStopDeps = {
+    listRunningRuns: async () => [run],
+    getRun: async () => run,
+    saveRun: async (r) => {
+      savedRuns.push(r)
+    },
+    listHourlyMetrics: async () => hourly,
+    listDailyMetrics: async () => [],
+    listMetaEntities: async () => ({ campaigns: [campaign], adSets: [adSet] }),
+    saveMetaEntityStatus: async (_tenantId, id, status) => {
+      entityStatuses.set(id, status)
+    },
+    getMetaAccessToken: async () => (options.token === undefined ? 'token' : options.token),
+    listNotificationRecipients: async () => [{ type: 'user', target: 'user_1' }],
+    saveNotification: async (n) => {
+      notifications.push(n)
+    },
+    saveStopEvent: async (e) => {
+      stopEvents.push(e)
+    },
+    saveManualStopTask: async (t) => {
+      manualStopTasks.push(t)
+    },
+    findPendingManualStopTask: async () => options.pendingTask ?? null,
+    recordAudit: async (input) => {
+      audits.push(input)
+    },
+    runState: () => runState,
+    sleep: vi.fn(async () => {}),
+  }
+
+  return { deps, notifications, stopEvents, manualStopTasks, savedRuns, audits, entityStatuses, runState }
+}
+
+describe('Auto Stop Service', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('evaluateAndEnforce', () => {
+    it('should return decision without side effects in dry-run mode', async () => {
+      const run = createRunningRun(1000)
+      const { deps, notifications, savedRuns } = createFakeDeps(run)
+      const fetchSpy = vi.spyOn(global, 'fetch')
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: true, source: 'api', now: NOW })
+
+      expect(outcome.decision?.action).toBe('pause')
+      expect(outcome.decision?.triggeredRule?.ruleType).toBe('total_budget')
+      expect(fetchSpy).not.toHaveBeenCalled()
+      expect(notifications).toHaveLength(0)
+      expect(savedRuns).toHaveLength(0)
+    })
+
+    it('should continue when no rule fires', async () => {
+      const run = createRunningRun()
+      const { deps, notifications } = createFakeDeps(run)
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: false, source: 'api', now: NOW })
+
+      expect(outcome.decision?.action).toBe('continue')
+      expect(outcome.runStatus).toBe('running')
+      expect(notifications).toHaveLength(0)
+    })
+
+    it('should pause Meta entities, pause run and notify when rule fires', async () => {
+      const run = createRunningRun(1000)
+      const { deps, notifications, stopEvents, savedRuns, audits, entityStatuses, runState } = createFakeDeps(run)
+      vi.spyOn(global, 'fetch').mockImplementation(async () =>
+        ({ ok: true, json: () => Promise.resolve({ success: true }) }) as Response
+      )
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: false, source: 'api', now: NOW })
+
+      expect(outcome.pausedEntityIds).toEqual(['camp_1', 'adset_1'])
+      expect(entityStatuses.get('camp_1')).toBe('PAUSED')
+      expect(outcome.runStatus).toBe('paused')
+      expect(savedRuns[0].history.at(-1)?.actorId).toBe(AUTO_STOP_ACTOR_ID)
+      expect(notifications[0].type).toBe('auto_stop_triggered')
+      expect(notifications[0].message).toContain('総額上限')
+      expect(runState.releaseLease).toHaveBeenCalledWith('lease_1')
+      expect(stopEvents[0]).toMatchObject({
+        id: outcome.stopEventId,
+        source: 'api',
+        ruleType: 'total_budget',
+        threshold: 1000,
+        pauseResult: 'api_paused',
+        runStatusBefore: 'running',
+        runStatusAfter: 'paused',
+      })
+      expect(stopEvents[0].affectedEntities.map((e) => e.metaId)).toEqual(['120000000001', '120000000002'])
+      expect(outcome.manualStopTaskId).toBeUndefined()
+      expect(audits).toEqual([
+        expect.objectContaining({
+          actorId: AUTO_STOP_ACTOR_ID,
+          action: 'run.auto_stop',
+          targetId: run.id,
+          before: { status: 'running' },
+          after: { status: 'paused' },
+          metadata: expect.objectContaining({
+            reason: stopEvents[0].reason,
+            stoppedAt: stopEvents[0].occurredAt,
+            stopEventId: stopEvents[0].id,
+          }),
+        }),
+      ])
+    })
+
+    it('should keep the settings changed in D1 after the run was started when pausing it', async () => {
+      const run = createRunningRun(1000)
+      const { deps, savedRuns } = createFakeDeps(run)
+      const edited = { ...run, destinationUrl: 'https://example.com/new', stopRules: [...run.stopRules].reverse() }
+      deps.getRun = async () => edited
+      vi.spyOn(global, 'fetch').mockImplementation(async () =>
+        ({ ok: true, json: () => Promise.resolve({ success: true }) }) as Response
+      )
+
+      await evaluateAndEnforce(deps, run, { dryRun: false, source: 'cron', now: NOW })
+
+      expect(savedRuns[0]).toMatchObject({ status: 'paused', destinationUrl: 'https://example.com/new' })
+      expect(savedRuns[0].stopRules).toEqual(edited.stopRules)
+      expect(savedRuns[0].history.at(-1)).toMatchObject({ from: 'running', to: 'paused' })
+    })
+
+    it('should report failed entities when Meta rejects pause', async () => {
+      const run = createRunningRun(1000)
+      const { deps, notifications, stopEvents, savedRuns } = createFakeDeps(run)
+      vi.spyOn(global, 'fetch').mockImplementation(async () =>
+        ({
+          ok: false,
+          json: () => Promise.resolve({ error: { code: 100, type: 'OAuthException', message: 'Invalid' } }),
+        }) as Response
+      )
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: false, source: 'api', now: NOW })
+
+      expect(outcome.failedEntities).toHaveLength(2)
+      expect(outcome.failedEntities[0].error.code).toBe(100)
+      expect(notifications[0].data?.failedEntityIds).toBe('camp_1,adset_1')
+      expect(stopEvents[0].pauseResult).toBe('manual_fallback_required')
+      // 配信が止まっていないので停止中として記録しない
+      expect(outcome.runStatus).toBe('running')
+      expect(stopEvents[0].runStatusAfter).toBe('running')
+      expect(savedRuns).toHaveLength(0)
+      expect(deps.sleep).not.toHaveBeenCalled()
+    })
+
+    it('should retry transient errors with backoff before pausing the run', async () => {
+      const run = createRunningRun(1000)
+      const { deps, manualStopTasks } = createFakeDeps(run)
+      let calls = 0
+      vi.spyOn(global, 'fetch').mockImplementation(async () =>
+        ++calls === 1
+          ? ({
+              ok: false,
+              json: () => Promise.resolve({ error: { code: 17, type: 'OAuthException', message: 'Rate limited' } }),
+            } as Response)
+          : ({ ok: true, json: () => Promise.resolve({ success: true }) } as Response)
+      )
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: false, source: 'cron', now: NOW })
+
+      expect(deps.sleep).toHaveBeenCalledTimes(1)
+      expect(outcome.pausedEntityIds).toEqual(['camp_1', 'adset_1'])
+      expect(outcome.runStatus).toBe('paused')
+      expect(manualStopTasks).toHaveLength(0)
+    })
+
+    it('should escalate to a manual stop only after transient retries run out', async () => {
+      const run = createRunningRun(1000)
+      const { deps, manualStopTasks, savedRuns } = createFakeDeps(run)
+      const fetchSpy = vi.spyOn(global, 'fetch').mockRejectedValue(new Error('Network down'))
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: false, source: 'cron', now: NOW })
+
+      expect(fetchSpy).toHaveBeenCalledTimes(6)
+      expect(deps.sleep).toHaveBeenCalledTimes(4)
+      expect(outcome.failedEntities[0].error).toMatchObject({ type: 'NetworkError', isTransient: true })
+      expect(outcome.runStatus).toBe('running')
+      expect(savedRuns).toHaveLength(0)
+      expect(manualStopTasks).toHaveLength(1)
+    })
+
+    it('should not stop again while a manual stop is pending', async () => {
+      const run = createRunningRun(1000)
+      const pendingTask = { id: 'mstop_1', runId: run.id } as ManualStopTask
+      const { deps, notifications } = createFakeDeps(run, { pendingTask })
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: false, source: 'cron', now: NOW })
+
+      expect(outcome.skipped).toBe('Manual stop is pending (mstop_1)')
+      expect(notifications).toHaveLength(0)
+    })
+
+    it('should open a manual stop task and send urgent requests when pause fails', async () => {
+      const run = createRunningRun(1000)
+      const { deps, notifications, stopEvents, manualStopTasks } = createFakeDeps(run)
+      vi.spyOn(global, 'fetch').mockImplementation(async () =>
+        ({
+          ok: false,
+          json: () => Promise.resolve({ error: { code: 100, type: 'OAuthException', message: 'Invalid' } }),
+        }) as Response
+      )
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: false, source: 'cron', now: NOW })
+
+      expect(manualStopTasks).toHaveLength(1)
+      expect(manualStopTasks[0]).toMatchObject({
+        id: outcome.manualStopTaskId,
+        stopEventId: stopEvents[0].id,
+        status: 'pending',
+        escalationLevel: 1,
+        nextEscalationAt: '2025-01-15T13:30:00.000Z',
+      })
+      expect(manualStopTasks[0].entities.map((e) => e.entityId)).toEqual(['camp_1', 'adset_1'])
+
+      const requests = notifications.filter((n) => n.type === 'manual_stop_required')
+      expect(requests.map((n) => n.channel)).toEqual(['in_app', 'email'])
+      expect(requests.every((n) => n.priority === 'urgent')).toBe(true)
+    })
+
+    it('should fail entities without Meta connection', async () => {
+      const run = createRunningRun(1000)
+      const { deps } = createFakeDeps(run, { token: null })
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: false, source: 'api', now: NOW })
+
+      expect(outcome.failedEntities[0].error.message).toBe('No active Meta connection')
+    })
+
+    it('should skip when run is locked', async () => {
+      const run = createRunningRun(1000)
+      const { deps } = createFakeDeps(run, { locked: true })
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: false, source: 'api', now: NOW })
+
+      expect(outcome.skipped).toBe('Run is locked by api')
+      expect(outcome.decision).toBeUndefined()
+    })
+
+    it('should not enforce on runs that are not running', async () => {
+      const run: Run = { ...createRunningRun(1000), status: 'paused' }
+      const { deps, notifications } = createFakeDeps(run)
+
+      const outcome = await evaluateAndEnforce(deps, run, { dryRun: false, source: 'api', now: NOW })
+
+      expect(outcome.skipped).toContain('not running')
+      expect(notifications).toHaveLength(0)
+    })
+  })
+
+  describe('runHourlyAutoStop', () => {
+    it('should evaluate every running run and capture errors', async () => {
+      const run = createRunningRun()
+      const { deps } = createFakeDeps(run)
+      deps.listDailyMetrics = async () => {
+        throw new Error('D1 unavailable')
+      }
+
+      const outcomes = await runHourlyAutoStop(deps, NOW)
+
+      expect(outcomes).toHaveLength(1)
+      expect(outcomes[0].error).toBe('D1 unavailable')
+    })
+  })
+
+  describe('createAutoStopNotification', () => {
+    it('should fill template variables', () => {
+      const run = createRunningRun()
+      const notification = createAutoStopNotification(
+        run,
+        {
+          runId: run.id,
+          action: 'pause',
+          reason: 'ambiguous_data',
+          triggers: [],
+          ambiguities: ['No hourly metrics available'],
+          notify: true,
+          evaluatedAt: NOW.toISOString(),
+        },
+        [],
+        []
+      )
+
+      expect(notification.subject).toBe('自動停止: Spring Campaign')
+      expect(notification.priority).toBe('urgent')
+      expect(notification.message).toContain('データ不整合')
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import type { Approval } from '../../src/domain/approval'
+import { createCreativeTemplate, type CreativeContent } from '../../src/domain/creative-variant'
+import type { LpContent } from '../../src/domain/lp-variant'
+import { createProject } from '../../src/domain/tenancy'
+import type { CopyLintReport } from '../../src/services/copy-lint'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+const DISCLAIMER = '※効果には個人差があります。必ず痩せるものではありません'
+
+function lpContent(headline: string): LpContent {
+  return {
+    title: 'Spring Sale',
+    sections: [
+      { id: 'sec_hero', type: 'hero', props: { headline } },
+      { id: 'sec_cta', type: 'cta', props: { label: '申し込む', url: 'https://example.com/apply' } },
+    ],
+  }
+}
+
+function creativeContent(headline: string): CreativeContent {
+  return {
+    copy: { headline },
+    templates: (['1:1', '4:5', '9:16'] as const).map((ratio) =>
+      createCreativeTemplate(ratio, [
+        {
+          id: `txt_${ratio}`,
+          type: 'text',
+          copyKey: 'headline',
+          fontSize: 64,
+          color: '#222222',
+          align: 'center',
+          x: 80,
+          y: 200,
+          width: 920,
+          height: 200,
+        },
+      ])
+    ),
+  }
+}
+
+async function setup() {
+  const project = createProject({
+    tenantId: 'tenant_1',
+    name: 'Spring',
+    createdBy: 'owner_1',
+    bannedExpressions: [{ pattern: 'ハヤブサ堂', isRegex: false, reason: '競合のブランド名' }],
+    disclaimerTemplates: [{ name: '効果の注意文', text: DISCLAIMER, required: true }],
+  })
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'operator_1', 'operator')
+    .member('tenant_1', 'reviewer_1', 'reviewer')
+    .run('spring', { tenantId: 'tenant_1', projectId: project.id, status: 'live' })
+    .build()
+  await fixture.repositories.projects('tenant_1').create(project)
+  const app = createApp(() => fixture.repositories)
+  const cookies = {
+    operator: await createSessionCookie(fixture.env, 'operator_1'),
+    reviewer: await createSessionCookie(fixture.env, 'reviewer_1'),
+  }
+
+  const send = (cookie: string, method: string, path: string, body?: unknown) =>
+    app.request(
+      `/tenants/tenant_1/runs/${fixture.runs.spring.id}${path}`,
+      {
+        method,
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      fixture.env
+    )
+
+  // バリアントを作成して提出
+  const submit = async (kind: 'lp' | 'creative', content: LpContent | CreativeContent) => {
+    const res = await send(cookies.operator, 'POST', `/${kind}-variants`, { name: 'Variant A', content })
+    const { variant } = await res.json<{ variant: { id: string } }>()
+    await send(cookies.operator, 'POST', `/${kind}-variants/${variant.id}/submit`)
+    return variant.id
+  }
+
+  // 承認依頼を出してチェックリストを埋め、承認する
+  const signOff = async (targetType: 'lp' | 'creative', targetId: string) => {
+    const requested = await send(cookies.operator, 'POST', '/approvals', { targetType, targetId })
+    const { approval } = await requested.json<{ approval: Approval }>()
+    for (const item of approval.checklist) {
+      await send(cookies.reviewer, 'PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+    }
+    return send(cookies.reviewer, 'POST', `/approvals/${approval.id}/approve`, {})
+  }
+
+  return { ...fixture, send, cookies, submit, signOff }
+}
+
+describe('Copy Lint Service (API)', () => {
+  it('should report built-in and project findings for the latest LP version', async () => {
+    const { send, cookies, submit } = await setup()
+    const variantId = await submit('lp', lpContent('ハヤブサ堂より安い、業界No.1の品揃え'))
+
+    const res = await send(cookies.operator, 'GET', `/lp-variants/${variantId}/lint`)
+    expect(res.status).toBe(200)
+    const report = await res.json<CopyLintReport>()
+    expect(report).toMatchObject({ variantId, version: 1, passed: false, errorCount: 2 })
+    expect(report.findings.map((finding) => [finding.ruleId, finding.path, finding.match])).toEqual([
+      ['project-banned-1', 'sections.sec_hero.headline', 'ハヤブサ堂'],
+      ['ranking-claim', 'sections.sec_hero.headline', 'No.1'],
+    ])
+
+    expect((await send(cookies.operator, 'GET', `/lp-variants/${variantId}/lint?version=x`)).status).toBe(400)
+    expect((await send(cookies.operator, 'GET', `/lp-variants/${variantId}/lint?version=5`)).status).toBe(404)
+    expect((await send(cookies.operator, 'GET', '/lp-variants/lpv_missing/lint')).status).toBe(404)
+  })
+
+  it('should skip disclaimers but catch full-width claims', async () => {
+    const { send, cookies, submit } = await setup()
+    const content = lpContent(`春の特別価格。${DISCLAIMER}`)
+    content.sections.push({ id: 'sec_note', type: 'disclaimer', props: { text: '飲むだけで痩せるわけではありません' } })
+    const passed = await submit('lp', content)
+
+    const lint = await send(cookies.operator, 'GET', `/lp-variants/${passed}/lint`)
+    expect(await lint.json<CopyLintReport>()).toMatchObject({ passed: true, findings: [] })
+
+    const blocked = await submit('lp', lpContent('業界Ｎｏ．１の品揃え'))
+    const res = await send(cookies.reviewer, 'POST', `/lp-variants/${blocked}/versions/1/approve`)
+    expect(res.status).toBe(409)
+    expect((await res.json<{ error: string }>()).error).toContain('"Ｎｏ．１"')
+  })
+
+  it('should block LP approval on errors and allow it once the copy is fixed', async () => {
+    const { send, cookies, submit, signOff } = await setup()
+    const blocked = await submit('lp', lpContent('絶対に損しない'))
+
+    const res = await send(cookies.reviewer, 'POST', `/lp-variants/${blocked}/versions/1/approve`)
+    expect(res.status).toBe(409)
+    expect((await res.json<{ error: string }>()).error).toBe(
+      'Copy lint failed: sections.sec_hero.headline: Absolute claim without evidence "絶対に"'
+    )
+
+    // warning だけなら承認できる
+    const allowed = await submit('lp', lpContent('今だけの特別価格'))
+    expect((await signOff('lp', allowed)).status).toBe(200)
+    expect((await send(cookies.reviewer, 'POST', `/lp-variants/${allowed}/versions/1/approve`)).status).toBe(200)
+  })
+
+  it('should block creative approval with the layers that show the copy', async () => {
+    const { send, cookies, submit } = await setup()
+    const variantId = await submit('creative', creativeContent('飲むだけで痩せる'))
+
+    const lint = await send(cookies.reviewer, 'GET', `/creative-variants/${variantId}/lint`)
+    const report = await lint.json<CopyLintReport>()
+    expect(report.findings[0]).toMatchObject({ ruleId: 'pharma-efficacy', path: 'copy.headline', match: '痩せる' })
+    expect(report.findings[0].layers?.map((layer) => layer.aspectRatio)).toEqual(['1:1', '4:5', '9:16'])
+
+    const res = await send(cookies.reviewer, 'POST', `/creative-variants/${variantId}/versions/1/approve`)
+    expect(res.status).toBe(409)
+    expect((await res.json<{ error: string }>()).error).toContain('Medical efficacy claim')
+  })
+
+  it('should block sign-off on approval requests for LP and creative variants', async () => {
+    const { send, cookies, submit } = await setup()
+    const lpId = await submit('lp', lpContent('必ず儲かる'))
+    const creativeId = await submit('creative', creativeContent('日本一の品揃え'))
+
+    for (const [targetType, targetId] of [
+      ['lp', lpId],
+      ['creative', creativeId],
+    ]) {
+      const requested = await send(cookies.operator, 'POST', '/approvals', { targetType, targetId })
+      const { approval } = await requested.json<{ approval: Approval }>()
+      for (const item of approval.checklist) {
+        await send(cookies.reviewer, 'PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+      }
+
+      const res = await send(cookies.reviewer, 'POST', `/approvals/${approval.id}/approve`, {})
+      expect(res.status).toBe(409)
+      expect((await res.json<{ error: string }>()).error).toMatch(/^Copy lint failed: /)
+      // 差し戻しはできる
+      const rejected = await send(cookies.reviewer, 'POST', `/approvals/${approval.id}/reject`, { comment: '表現を修正' })
+      expect(rejected.status).toBe(200)
+    }
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import { CREATIVE_IMAGE_MAX_SIZE, type CreativeImage } from '../../src/domain/creative-image'
+import { createCreativeRenderDeps } from '../../src/services/creative-renderer'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+// PNG シグネチャと IHDR（1200x800）
+const PNG_BYTES = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13,
+  0x49, 0x48, 0x44, 0x52, 0, 0, 0x04, 0xb0, 0, 0, 0x03, 0x20,
+])
+
+async function setup() {
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'operator_1', 'operator')
+    .run('spring', { tenantId: 'tenant_1', status: 'live' })
+    .build()
+  const app = createApp(() => fixture.repositories)
+  const runId = fixture.runs.spring.id
+  const cookie = await createSessionCookie(fixture.env, 'operator_1')
+
+  const request = (method: string, path: string, body?: BodyInit, contentType = 'application/json') =>
+    app.request(
+      `/tenants/tenant_1/runs/${runId}/creative-images${path}`,
+      { method, headers: { 'Content-Type': contentType, Cookie: cookie }, body },
+      fixture.env
+    )
+  const upload = (body: BodyInit) => request('POST', '', body, 'application/octet-stream')
+
+  return { ...fixture, runId, request, upload }
+}
+
+describe('Creative Image Service (API)', () => {
+  it('should store an upload in R2 with its dimensions and list it', async () => {
+    const { env, repositories, runId, request, upload } = await setup()
+
+    const res = await upload(PNG_BYTES)
+    expect(res.status).toBe(201)
+    const { image } = await res.json<{ image: CreativeImage }>()
+    expect(image).toMatchObject({ runId, contentType: 'image/png', width: 1200, height: 800, size: 24 })
+    expect(image.key).toBe(`uploads/creatives/tenant_1/${runId}/${image.id}.png`)
+
+    const object = await env.ASSETS.get(image.key)
+    expect(object?.httpMetadata).toEqual({ contentType: 'image/png' })
+    expect(object?.customMetadata).toEqual({ sha256: image.hash, width: '1200', height: '800' })
+
+    const listed = await (await request('GET', '')).json<{ images: CreativeImage[] }>()
+    expect(listed.images.map((listedImage) => listedImage.id)).toEqual([image.id])
+    expect((await request('GET', `/${image.id}`)).status).toBe(200)
+    expect((await request('GET', '/cimg_missing')).status).toBe(404)
+
+    const audit = await repositories.auditLogs('tenant_1').search({ action: 'creative_image.upload', limit: 10 })
+    expect(audit[0]).toMatchObject({ targetType: 'creative_image', targetId: image.id })
+  })
+
+  it('should reject empty, oversized and unsupported uploads', async () => {
+    const { upload } = await setup()
+
+    expect((await upload(new Uint8Array())).status).toBe(400)
+    expect((await upload(new Uint8Array(CREATIVE_IMAGE_MAX_SIZE + 1))).status).toBe(413)
+
+    const unsupported = await upload('<svg xmlns="http://www.w3.org/2000/svg"/>')
+    expect(unsupported.status).toBe(400)
+    expect((await unsupported.json<{ error: string }>()).error).toMatch(/^Unsupported image type/)
+  })
+
+  it('should let the renderer read uploaded images straight from R2', async () => {
+    const { env, upload } = await setup()
+    const { image } = await (await upload(PNG_BYTES)).json<{ image: CreativeImage }>()
+
+    const deps = createCreativeRenderDeps(env)
+    expect(new Uint8Array((await deps.fetchAsset(image.key))!)).toEqual(PNG_BYTES)
+    expect(await deps.fetchAsset(`${image.key}.missing`)).toBeNull()
+  })
+})
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import type { Approval } from '../../src/domain/approval'
+import { createCreativeTemplate, type CreativeContent, type CreativeVariant } from '../../src/domain/creative-variant'
+import { createDeployment, startDeployment } from '../../src/domain/publishing'
+import { renderPublishedCreatives, type CreativeRenderDeps } from '../../src/services/creative-renderer'
+import { snapshotDeployment } from '../../src/services/deployment-snapshot'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+const URL_CONFIG = { baseDomain: 'ads.example.com', useHttps: true }
+// PNG シグネチャと IHDR（1200x800）
+const PNG_BYTES = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13,
+  0x49, 0x48, 0x44, 0x52, 0, 0, 0x04, 0xb0, 0, 0, 0x03, 0x20,
+]).buffer
+
+function creativeContent(src: string): CreativeContent {
+  return {
+    copy: { headline: '春の特別価格' },
+    templates: (['1:1', '4:5', '9:16'] as const).map((ratio) =>
+      createCreativeTemplate(ratio, [
+        { id: `img_${ratio}`, type: 'image', src, fit: 'cover', x: 0, y: 0, width: 1080, height: 1080 },
+        {
+          id: `txt_${ratio}`,
+          type: 'text',
+          copyKey: 'headline',
+          fontSize: 72,
+          color: '#ffffff',
+          align: 'center',
+          x: 80,
+          y: 80,
+          width: 920,
+          height: 200,
+        },
+      ])
+    ),
+  }
+}
+
+// 画像レイヤーの src（省略時は Run にアップロードした画像）
+async function setup(imageSrc?: (runId: string) => string) {
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'owner_1', 'owner')
+    .run('spring', { tenantId: 'tenant_1', status: 'live' })
+    .build()
+  const app = createApp(() => fixture.repositories)
+  const runId = fixture.runs.spring.id
+  const cookie = await createSessionCookie(fixture.env, 'owner_1')
+  const imageKey = `uploads/creatives/tenant_1/${runId}/cimg_hero.png`
+  await fixture.env.ASSETS.put(imageKey, PNG_BYTES)
+
+  const send = (method: string, path: string, body?: unknown) =>
+    app.request(
+      `/tenants/tenant_1/runs/${runId}${path}`,
+      {
+        method,
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      fixture.env
+    )
+
+  const content = creativeContent(imageSrc ? imageSrc(runId) : imageKey)
+  const created = await send('POST', '/creative-variants', { name: 'Banner A', content })
+  const { variant } = await created.json<{ variant: CreativeVariant }>()
+  const deployment = startDeployment(
+    createDeployment({ runId, tenantId: 'tenant_1', environment: 'production', deployedBy: 'owner_1' })
+  )
+
+  const publish = async () => {
+    await send('POST', `/creative-variants/${variant.id}/submit`)
+    // 承認依頼を出してチェックリストを埋め、承認する
+    const requested = await send('POST', '/approvals', { targetType: 'creative', targetId: variant.id })
+    const { approval } = await requested.json<{ approval: Approval }>()
+    for (const item of approval.checklist) {
+      await send('PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+    }
+    await send('POST', `/approvals/${approval.id}/approve`, {})
+    await send('POST', `/creative-variants/${variant.id}/versions/1/approve`)
+    await send('POST', `/creative-variants/${variant.id}/versions/1/publish`)
+  }
+
+  // 変換に渡された SVG を記録し、PNG の代わりにその SVG のバイト列を返す
+  const rasterized: { svg: string; width: number }[] = []
+  const fetched: string[] = []
+  const deps: CreativeRenderDeps = {
+    bucket: fixture.env.ASSETS,
+    async fetchAsset(key) {
+      fetched.push(key)
+      const object = await fixture.env.ASSETS.get(key)
+      return object ? object.arrayBuffer() : null
+    },
+    rasterizer: {
+      async toPng(svg, width) {
+        rasterized.push({ svg, width })
+        return new TextEncoder().encode(svg).buffer
+      },
+    },
+  }
+  // 公開 API と同じく描画してからスナップショットを保存する
+  const render = (renderDeps = deps) =>
+    renderPublishedCreatives(renderDeps, fixture.repositories, deployment, URL_CONFIG)
+  const deploy = async () =>
+    snapshotDeployment({ bucket: fixture.env.ASSETS }, fixture.repositories, await render())
+  const view = (name: string) => app.request(`/creative/tenant_1/${runId}/${variant.id}/${name}`, {}, fixture.env)
+
+  return { ...fixture, runId, imageKey, variant, publish, deps, rasterized, fetched, render, deploy, view }
+}
+
+describe('Creative Render Service', () => {
+  it('should render every size of the published creatives to R2 and record their URLs', async () => {
+    const { env, runId, variant, publish, render } = await setup()
+    await publish()
+
+    const rendered = await render()
+    const base = `https://ads.example.com/creative/tenant_1/${runId}/${variant.id}`
+    expect(rendered.urls.creativeUrls).toEqual([
+      { variantId: variant.id, aspectRatio: '1:1', url: `${base}/1x1` },
+      { variantId: variant.id, aspectRatio: '4:5', url: `${base}/4x5` },
+      { variantId: variant.id, aspectRatio: '9:16', url: `${base}/9x16` },
+    ])
+
+    const png = await env.ASSETS.get(`creatives/tenant_1/${runId}/${variant.id}/v1/1x1.png`)
+    expect(png?.httpMetadata).toEqual({ contentType: 'image/png' })
+    expect(png?.customMetadata).toMatchObject({ sha256: expect.any(String), version: '1' })
+    const svg = await env.ASSETS.get(`creatives/tenant_1/${runId}/${variant.id}/v1/9x16.svg`)
+    expect(svg?.httpMetadata).toEqual({ contentType: 'image/svg+xml' })
+  })
+
+  it('should snapshot the renders as creative assets with their served paths', async () => {
+    const { env, runId, variant, publish, deploy, view } = await setup()
+    await publish()
+
+    const deployment = await deploy()
+    const creatives = deployment.assets.filter((asset) => asset.type === 'creative')
+    expect(creatives.map((asset) => asset.sourceUrl)).toEqual(
+      ['1x1', '1x1.svg', '4x5', '4x5.svg', '9x16', '9x16.svg'].map(
+        (name) => `/creative/tenant_1/${runId}/${variant.id}/${name}`
+      )
+    )
+    expect(creatives.every((asset) => asset.variantId === variant.id)).toBe(true)
+
+    // 記録したパスは実際に配信されている
+    const res = await view('1x1')
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toBe('image/png')
+    const stored = await env.ASSETS.get(creatives[0].deployedUrl)
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(new Uint8Array(await stored!.arrayBuffer()))
+    expect((await view('9x16.svg')).headers.get('Content-Type')).toBe('image/svg+xml')
+  })
+
+  it('should embed uploaded images in both the rasterized and the stored SVG', async () => {
+    const { env, runId, imageKey, variant, publish, render, rasterized, fetched } = await setup()
+    await publish()
+
+    await render()
+    expect(fetched).toEqual([imageKey])
+    expect(rasterized.map((call) => call.width)).toEqual([1080, 1080, 1080])
+    expect(rasterized[0].svg).toContain('href="data:image/png;base64,')
+
+    const svg = await (await env.ASSETS.get(`creatives/tenant_1/${runId}/${variant.id}/v1/9x16.svg`))?.text()
+    expect(svg).toContain('href="data:image/png;base64,')
+    expect(svg).not.toContain(imageKey)
+    expect(svg).toContain('春の特別価格')
+  })
+
+  it('should refuse images outside the run uploads without reading them', async () => {
+    for (const src of [
+      (runId: string) => `uploads/creatives/tenant_2/${runId}/cimg_other.png`,
+      () => 'uploads/creatives/tenant_1/run_other/cimg_other.png',
+      () => 'https://cdn.example.com/hero.png',
+    ]) {
+      const { runId, publish, render, fetched } = await setup(src)
+      await publish()
+
+      await expect(render()).rejects.toThrow(`Creative image not available: ${src(runId)}`)
+      expect(fetched).toEqual([])
+    }
+  })
+
+  it('should skip unpublished creatives and refuse missing images', async () => {
+    const { imageKey, publish, render, deps, view } = await setup()
+
+    expect((await render()).urls.creativeUrls).toEqual([])
+    expect((await view('1x1')).status).toBe(404)
+    await publish()
+    await expect(render({ ...deps, fetchAsset: async () => null })).rejects.toThrow(
+      `Creative image not available: ${imageKey}`
+    )
+    expect((await view('1x1')).status).toBe(404)
+    expect((await view('2x1')).status).toBe(404)
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import type { Approval } from '../../src/domain/approval'
+import {
+  createCreativeTemplate,
+  type CreativeAspectRatio,
+  type CreativeContent,
+  type CreativeVariant,
+  type CreativeVariantVersion,
+} from '../../src/domain/creative-variant'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+function content(ratios: CreativeAspectRatio[] = ['1:1', '4:5', '9:16']): CreativeContent {
+  return {
+    copy: { headline: '春の特別価格' },
+    templates: ratios.map((ratio) =>
+      createCreativeTemplate(ratio, [
+        {
+          id: `txt_${ratio}`,
+          type: 'text',
+          copyKey: 'headline',
+          fontSize: 64,
+          color: '#222222',
+          align: 'center',
+          x: 80,
+          y: 80,
+          width: 920,
+          height: 200,
+        },
+      ])
+    ),
+  }
+}
+
+type Change = { variant: CreativeVariant; version: CreativeVariantVersion }
+
+async function setup() {
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'operator_1', 'operator')
+    .member('tenant_1', 'reviewer_1', 'reviewer')
+    .run('spring', { tenantId: 'tenant_1', status: 'live' })
+    .build()
+  const app = createApp(() => fixture.repositories)
+  const cookies = {
+    operator: await createSessionCookie(fixture.env, 'operator_1'),
+    reviewer: await createSessionCookie(fixture.env, 'reviewer_1'),
+  }
+
+  const send = (cookie: string, method: string, path: string, body?: unknown) =>
+    app.request(
+      `/tenants/tenant_1/runs/${fixture.runs.spring.id}${path}`,
+      {
+        method,
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      fixture.env
+    )
+
+  const create = async (page = content()) => {
+    const res = await send(cookies.operator, 'POST', '/creative-variants', { name: 'Banner A', content: page })
+    return (await res.json<Change>()).variant
+  }
+
+  const requestApproval = async (targetId: string) => {
+    return send(cookies.operator, 'POST', '/approvals', { targetType: 'creative', targetId })
+  }
+
+  const approveAll = async (approval: Approval) => {
+    for (const item of approval.checklist) {
+      await send(cookies.reviewer, 'PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+    }
+    return send(cookies.reviewer, 'POST', `/approvals/${approval.id}/approve`, {})
+  }
+
+  return { ...fixture, send, cookies, create, requestApproval, approveAll }
+}
+
+describe('Creative Variant Service (API)', () => {
+  it('should take a creative through submit, approve and publish', async () => {
+    const { send, cookies, create, requestApproval, approveAll, repositories } = await setup()
+    const variant = await create()
+
+    expect((await send(cookies.operator, 'POST', `/creative-variants/${variant.id}/submit`)).status).toBe(200)
+    // 承認（Approval）が無い版は承認も公開もできない
+    const unapproved = await send(cookies.reviewer, 'POST', `/creative-variants/${variant.id}/versions/1/approve`)
+    expect(unapproved.status).toBe(409)
+    expect((await unapproved.json<{ error: string }>()).error).toBe('Version content has no approved approval')
+    expect((await send(cookies.operator, 'POST', `/creative-variants/${variant.id}/versions/1/publish`)).status).toBe(
+      409
+    )
+
+    const { approval } = await (await requestApproval(variant.id)).json<{ approval: Approval }>()
+    expect((await approveAll(approval)).status).toBe(200)
+    expect((await send(cookies.reviewer, 'POST', `/creative-variants/${variant.id}/versions/1/approve`)).status).toBe(
+      200
+    )
+    const published = await send(cookies.operator, 'POST', `/creative-variants/${variant.id}/versions/1/publish`)
+    expect((await published.json<Change>()).variant).toMatchObject({ status: 'published', publishedVersion: 1 })
+
+    const audit = await repositories.auditLogs('tenant_1').search({ action: 'creative_variant.*', limit: 10 })
+    expect(audit.map((log) => log.action).reverse()).toEqual([
+      'creative_variant.create',
+      'creative_variant.submit',
+      'creative_variant.approve',
+      'creative_variant.publish',
+    ])
+  })
+
+  it('should reword a creative and return its approval to pending review', async () => {
+    const { send, cookies, create, requestApproval, approveAll, repositories } = await setup()
+    const variant = await create()
+
+    const { approval } = await (await requestApproval(variant.id)).json<{ approval: Approval }>()
+    expect((await approveAll(approval)).status).toBe(200)
+
+    const reworded = await send(cookies.operator, 'PATCH', `/creative-variants/${variant.id}/copy`, {
+      copy: { headline: '今だけ半額' },
+    })
+    expect((await reworded.json<Change>()).variant.content.copy).toEqual({ headline: '今だけ半額' })
+    expect((await repositories.approvals('tenant_1').findById(approval.id))?.status).toBe('pending')
+  })
+
+  it('should not approve a creative until every mandatory size exists', async () => {
+    const { send, cookies, create, requestApproval, approveAll } = await setup()
+    const variant = await create(content(['1:1']))
+
+    const submitted = await send(cookies.operator, 'POST', `/creative-variants/${variant.id}/submit`)
+    expect(submitted.status).toBe(409)
+    expect((await submitted.json<{ error: string }>()).error).toBe('Missing required sizes: 4:5, 9:16')
+
+    const requested = await requestApproval(variant.id)
+    const approved = await approveAll((await requested.json<{ approval: Approval }>()).approval)
+    expect(approved.status).toBe(409)
+    expect((await approved.json<{ error: string }>()).error).toBe('Missing required sizes: 4:5, 9:16')
+  })
+
+  it('should reject unknown copy keys and unknown variants', async () => {
+    const { send, cookies, create, requestApproval } = await setup()
+    const variant = await create()
+
+    const copy = { x: 'y' }
+    expect((await send(cookies.operator, 'PATCH', `/creative-variants/${variant.id}/copy`, { copy })).status).toBe(400)
+    expect((await send(cookies.operator, 'GET', '/creative-variants/crv_missing')).status).toBe(404)
+    expect((await requestApproval('crv_missing')).status).toBe(404)
+  })
+})
@@ -0,0 +1,252 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import type { Approval } from '../../src/domain/approval'
+import { creativeRenderKey } from '../../src/domain/creative-renderer'
+import { createCreativeTemplate, type CreativeContent, type CreativeVariant } from '../../src/domain/creative-variant'
+import type { DeploymentSnapshotManifest } from '../../src/domain/deployment-snapshot'
+import type { LpContent, LpVariant } from '../../src/domain/lp-variant'
+import { createDeployment, type Deployment } from '../../src/domain/publishing'
+import { createProject } from '../../src/domain/tenancy'
+import {
+  assertDeploymentPublishable,
+  loadVerifiedSnapshot,
+  snapshotDeployment,
+} from '../../src/services/deployment-snapshot'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+const CONTENT: LpContent = {
+  title: 'Spring Sale',
+  sections: [
+    { id: 'sec_hero', type: 'hero', props: { headline: '春の特別価格' } },
+    { id: 'sec_cta', type: 'cta', props: { label: '申し込む', url: 'https://example.com/apply' } },
+  ],
+}
+
+const CREATIVE: CreativeContent = {
+  copy: { headline: '春の特別価格' },
+  templates: (['1:1', '4:5', '9:16'] as const).map((ratio) =>
+    createCreativeTemplate(ratio, [
+      {
+        id: `txt_${ratio}`,
+        type: 'text',
+        copyKey: 'headline',
+        fontSize: 64,
+        color: '#222222',
+        align: 'center',
+        x: 80,
+        y: 80,
+        width: 920,
+        height: 200,
+      },
+    ])
+  ),
+}
+
+async function setup() {
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'owner_1', 'owner')
+    .run('spring', { tenantId: 'tenant_1', status: 'live' })
+    .build()
+  const app = createApp(() => fixture.repositories)
+  const runId = fixture.runs.spring.id
+  const cookie = await createSessionCookie(fixture.env, 'owner_1')
+
+  const send = (method: string, path: string, body?: unknown) =>
+    app.request(
+      `/tenants/tenant_1/runs/${runId}${path}`,
+      {
+        method,
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      fixture.env
+    )
+
+  const created = await send('POST', '/lp-variants', { name: 'Variant A', content: CONTENT })
+  const { variant } = await created.json<{ variant: LpVariant }>()
+
+  // 承認依頼を出してチェックリストを埋め、承認する
+  const signOff = async (targetId: string, targetType = 'lp') => {
+    const requested = await send('POST', '/approvals', { targetType, targetId })
+    const { approval } = await requested.json<{ approval: Approval }>()
+    for (const item of approval.checklist) {
+      await send('PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+    }
+    await send('POST', `/approvals/${approval.id}/approve`, {})
+  }
+
+  const publishLp = async (version: number) => {
+    await send('POST', `/lp-variants/${variant.id}/submit`)
+    await signOff(variant.id)
+    await send('POST', `/lp-variants/${variant.id}/versions/${version}/approve`)
+    await send('POST', `/lp-variants/${variant.id}/versions/${version}/publish`)
+  }
+  const deploy = async () => {
+    const res = await send('POST', '/deployments', { environment: 'production' })
+    return (await res.json<{ deployment: Deployment }>()).deployment
+  }
+
+  const view = () => app.request(`/lp/tenant_1/${runId}/${variant.id}`, {}, fixture.env)
+
+  return { ...fixture, runId, send, signOff, variant, publishLp, deploy, view }
+}
+
+describe('Deployment Snapshot Service', () => {
+  it('should write the live LP, its config and a manifest when publishing', async () => {
+    const { env, variant, publishLp, deploy, view } = await setup()
+    await publishLp(1)
+
+    const deployment = await deploy()
+    expect(deployment).toMatchObject({ status: 'deployed', deployedAt: expect.any(String) })
+    const ref = deployment.metadata.snapshot as { key: string; hash: string }
+    expect(ref.key).toBe(`snapshots/tenant_1/${deployment.runId}/production/v1/manifest.json`)
+
+    const manifest = await (await env.ASSETS.get(ref.key))!.json<DeploymentSnapshotManifest>()
+    expect(manifest.hash).toBe(ref.hash)
+    expect(manifest.entries.map((entry) => entry.path)).toEqual([
+      'config.json',
+      `lp/${variant.id}.html`,
+      `lp/${variant.id}.json`,
+    ])
+    expect(deployment.assets.map((asset) => asset.deployedUrl)).toEqual(
+      manifest.entries.map((entry) => `snapshots/tenant_1/${deployment.runId}/production/v1/${entry.path}`)
+    )
+
+    const html = await env.ASSETS.get(`snapshots/tenant_1/${deployment.runId}/production/v1/lp/${variant.id}.html`)
+    expect(await html!.text()).toBe(await (await view()).text())
+  })
+
+  it('should restore the LP version captured by the target snapshot on rollback', async () => {
+    const { repositories, variant, publishLp, deploy, send } = await setup()
+    await publishLp(1)
+    await deploy()
+
+    await send('PUT', `/lp-variants/${variant.id}/content`, { content: { ...CONTENT, title: 'Summer Sale' } })
+    await publishLp(2)
+    const second = await deploy()
+
+    const res = await send('POST', `/deployments/${second.id}/rollback`, { targetVersion: 1, reason: 'Broken LP' })
+    expect(res.status).toBe(200)
+    expect((await res.json<{ restored: unknown[] }>()).restored).toEqual([{ variantId: variant.id, version: 1 }])
+    expect((await repositories.lpVariants('tenant_1').findById(variant.id))?.publishedVersion).toBe(1)
+  })
+
+  it('should refuse to roll back onto a tampered snapshot', async () => {
+    const { env, variant, publishLp, deploy, send, repositories } = await setup()
+    await publishLp(1)
+    const first = await deploy()
+    const second = await deploy()
+
+    await env.ASSETS.put(`snapshots/tenant_1/${first.runId}/production/v1/lp/${variant.id}.json`, '{}')
+    const res = await send('POST', `/deployments/${second.id}/rollback`, { targetVersion: 1, reason: 'Broken LP' })
+    expect(res.status).toBe(409)
+    expect((await res.json<{ error: string }>()).error).toBe(
+      `Snapshot file does not match its hash: lp/${variant.id}.json`
+    )
+    expect((await repositories.deployments('tenant_1').findById(second.id))?.status).toBe('deployed')
+  })
+
+  it('should store the published creative renders byte for byte and never overwrite a snapshot', async () => {
+    const { env, repositories, runId, send, signOff } = await setup()
+    const created = await send('POST', '/creative-variants', { name: 'Banner A', content: CREATIVE })
+    const { variant } = await created.json<{ variant: CreativeVariant }>()
+    await send('POST', `/creative-variants/${variant.id}/submit`)
+    await signOff(variant.id, 'creative')
+    await send('POST', `/creative-variants/${variant.id}/versions/1/approve`)
+    await send('POST', `/creative-variants/${variant.id}/versions/1/publish`)
+
+    // 描画済みのファイル（PNG は版ごとのキーで R2 にある）
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff])
+    const version = { tenantId: 'tenant_1', variantId: variant.id, version: 1 }
+    for (const { aspectRatio } of CREATIVE.templates) {
+      await env.ASSETS.put(creativeRenderKey(version, runId, aspectRatio, 'svg'), '<svg/>')
+      await env.ASSETS.put(creativeRenderKey(version, runId, aspectRatio, 'png'), png)
+    }
+
+    const deps = { bucket: env.ASSETS }
+    const deployment = createDeployment({ runId, tenantId: 'tenant_1', environment: 'staging', deployedBy: 'owner_1' })
+    const snapshotted = await snapshotDeployment(deps, repositories, deployment)
+    const manifest = await loadVerifiedSnapshot(deps, snapshotted)
+    const creatives = manifest.entries.filter((entry) => entry.type === 'creative')
+    expect(creatives.map((entry) => [entry.path, entry.sourceUrl, entry.contentType]).slice(0, 2)).toEqual([
+      [`creatives/${variant.id}/1x1.png`, `/creative/tenant_1/${runId}/${variant.id}/1x1`, 'image/png'],
+      [`creatives/${variant.id}/1x1.svg`, `/creative/tenant_1/${runId}/${variant.id}/1x1.svg`, 'image/svg+xml'],
+    ])
+    const stored = await env.ASSETS.get(`snapshots/tenant_1/${runId}/staging/v1/creatives/${variant.id}/9x16.png`)
+    expect(new Uint8Array(await stored!.arrayBuffer())).toEqual(png)
+    expect(snapshotted.assets.filter((asset) => asset.type === 'creative')).toHaveLength(6)
+
+    await expect(snapshotDeployment(deps, repositories, deployment)).rejects.toThrow('Snapshot already exists')
+    const missing = creativeRenderKey(version, runId, '4:5', 'png')
+    await env.ASSETS.delete(missing)
+    await expect(snapshotDeployment(deps, repositories, { ...deployment, version: 2 })).rejects.toThrow(
+      `Creative render not available: ${missing}`
+    )
+    // 対象外のクリエイティブは読まない
+    const third = { ...deployment, version: 3 }
+    const lpOnly = await snapshotDeployment(deps, repositories, third, { creativeVariantIds: [] })
+    expect(lpOnly.assets.some((asset) => asset.type === 'creative')).toBe(false)
+  })
+
+  it('should refuse production publishing while an LP lacks a required disclaimer, writing nothing', async () => {
+    const { env, repositories, runId, send, variant, publishLp, deploy } = await setup()
+    // 必須の注意文は LP の公開後にプロジェクトへ追加された
+    await publishLp(1)
+    const project = createProject({
+      tenantId: 'tenant_1',
+      name: 'Spring',
+      createdBy: 'owner_1',
+      disclaimerTemplates: [
+        { name: '個人差', text: '※効果には個人差があります。', required: true },
+        { name: '任意', text: '詳しくはお問い合わせください', required: false },
+      ],
+    })
+    await repositories.projects('tenant_1').create(project)
+    const run = await repositories.runs('tenant_1').findById(runId)
+    await repositories.runs('tenant_1').update({ ...run!, projectId: project.id })
+
+    const res = await send('POST', '/deployments', { environment: 'production' })
+    expect(res.status).toBe(409)
+    expect((await res.json<{ error: string }>()).error).toBe(
+      `Invalid deployment: LP ${variant.id} is missing required disclaimers: 個人差`
+    )
+    expect((await env.ASSETS.list({ prefix: `snapshots/tenant_1/${runId}/` })).objects).toHaveLength(0)
+    expect((await send('POST', '/deployments', { environment: 'staging' })).status).toBe(201)
+
+    // 正規化して一致すれば公開できる
+    const disclaimer = { id: 'sec_disclaimer', type: 'disclaimer', props: { text: '※効果には 個人差があります。' } }
+    await send('PUT', `/lp-variants/${variant.id}/content`, {
+      content: { ...CONTENT, sections: [...CONTENT.sections, disclaimer] },
+    })
+    await publishLp(2)
+    expect((await deploy()).environment).toBe('production')
+  })
+
+  it('should check a deployment before anything is rendered or written to R2', async () => {
+    const { env, repositories, runId, variant, publishLp } = await setup()
+    await publishLp(1)
+    const project = createProject({
+      tenantId: 'tenant_1',
+      name: 'Spring',
+      createdBy: 'owner_1',
+      disclaimerTemplates: [{ name: '個人差', text: '※効果には個人差があります。', required: true }],
+    })
+    await repositories.projects('tenant_1').create(project)
+    const run = await repositories.runs('tenant_1').findById(runId)
+    await repositories.runs('tenant_1').update({ ...run!, projectId: project.id })
+
+    const deps = { bucket: env.ASSETS }
+    const deployment = (environment: 'staging' | 'production') =>
+      createDeployment({ runId, tenantId: 'tenant_1', environment, deployedBy: 'owner_1' })
+    await expect(assertDeploymentPublishable(deps, repositories, deployment('production'))).rejects.toThrow(
+      `Invalid deployment: LP ${variant.id} is missing required disclaimers: 個人差`
+    )
+    // 対象外の LP は検証しない
+    await assertDeploymentPublishable(deps, repositories, deployment('production'), { lpVariantIds: [] })
+
+    const staging = deployment('staging')
+    await assertDeploymentPublishable(deps, repositories, staging)
+    await snapshotDeployment(deps, repositories, staging)
+    await expect(assertDeploymentPublishable(deps, repositories, staging)).rejects.toThrow('Snapshot already exists')
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import type { Approval } from '../../src/domain/approval'
+import { createCreativeTemplate, type CreativeContent, type CreativeVariant } from '../../src/domain/creative-variant'
+import type { LpContent, LpVariant } from '../../src/domain/lp-variant'
+import { createDeployment, startDeployment } from '../../src/domain/publishing'
+import { renderPublishedCreatives, type CreativeRenderDeps } from '../../src/services/creative-renderer'
+import { snapshotDeployment } from '../../src/services/deployment-snapshot'
+import type { LpExportOutcome } from '../../src/services/lp-export'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+const CONTENT: LpContent = {
+  title: 'Spring Sale',
+  sections: [
+    { id: 'sec_hero', type: 'hero', props: { headline: '春の特別価格' } },
+    { id: 'sec_cta', type: 'cta', props: { label: '申し込む', url: 'https://example.com/apply' } },
+  ],
+}
+
+const CREATIVE: CreativeContent = {
+  copy: { headline: '春の特別価格' },
+  templates: (['1:1', '4:5', '9:16'] as const).map((ratio) =>
+    createCreativeTemplate(ratio, [
+      {
+        id: `txt_${ratio}`,
+        type: 'text',
+        copyKey: 'headline',
+        fontSize: 64,
+        color: '#222222',
+        align: 'center',
+        x: 80,
+        y: 80,
+        width: 920,
+        height: 200,
+      },
+    ])
+  ),
+}
+
+async function setup() {
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'owner_1', 'owner')
+    .member('tenant_1', 'reviewer_1', 'reviewer')
+    .run('spring', { tenantId: 'tenant_1', status: 'live' })
+    .build()
+  const app = createApp(() => fixture.repositories)
+  const runId = fixture.runs.spring.id
+  const cookies = {
+    owner: await createSessionCookie(fixture.env, 'owner_1'),
+    reviewer: await createSessionCookie(fixture.env, 'reviewer_1'),
+  }
+
+  const send = (cookie: string, method: string, path: string, body?: unknown) =>
+    app.request(
+      `/tenants/tenant_1/runs/${runId}${path}`,
+      {
+        method,
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      fixture.env
+    )
+
+  const created = await send(cookies.owner, 'POST', '/lp-variants', { name: 'Variant A', content: CONTENT })
+  const { variant } = await created.json<{ variant: LpVariant }>()
+  const deployment = await fixture.repositories
+    .deployments('tenant_1')
+    .create(createDeployment({ runId, tenantId: 'tenant_1', environment: 'production', deployedBy: 'owner_1' }))
+
+  const publish = async () => {
+    await send(cookies.owner, 'POST', `/lp-variants/${variant.id}/submit`)
+    // 承認依頼を出してチェックリストを埋め、承認する
+    const requested = await send(cookies.owner, 'POST', '/approvals', { targetType: 'lp', targetId: variant.id })
+    const { approval } = await requested.json<{ approval: Approval }>()
+    for (const item of approval.checklist) {
+      await send(cookies.owner, 'PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+    }
+    await send(cookies.owner, 'POST', `/approvals/${approval.id}/approve`, {})
+    await send(cookies.owner, 'POST', `/lp-variants/${variant.id}/versions/1/approve`)
+    await send(cookies.owner, 'POST', `/lp-variants/${variant.id}/versions/1/publish`)
+  }
+  const exportVersion = (cookie = cookies.owner, deploymentId = deployment.id) =>
+    send(cookie, 'POST', `/lp-variants/${variant.id}/versions/1/export`, { deploymentId })
+
+  return { ...fixture, runId, cookies, send, variant, deployment, publish, exportVersion }
+}
+
+describe('LP Export Service (API)', () => {
+  it('should store the three files in R2 and record them on the deployment', async () => {
+    const { env, repositories, variant, deployment, publish, exportVersion } = await setup()
+    await publish()
+
+    const res = await exportVersion()
+    expect(res.status).toBe(201)
+    const outcome = await res.json<LpExportOutcome>()
+    expect(outcome.assets.map((asset) => [asset.type, asset.contentType])).toEqual([
+      ['lp', 'text/html; charset=utf-8'],
+      ['config', 'application/json'],
+      ['lp', 'text/html; charset=utf-8'],
+    ])
+
+    const object = await env.ASSETS.get(outcome.files[0].key)
+    expect(await object?.text()).toContain('<h1>春の特別価格</h1>')
+    expect(object?.customMetadata).toMatchObject({ sha256: outcome.files[0].hash, deploymentId: deployment.id })
+
+    const stored = await repositories.deployments('tenant_1').findById(deployment.id)
+    expect(stored?.assets.map((asset) => asset.deployedUrl)).toEqual(outcome.files.map((file) => file.key))
+    expect(stored?.assets.every((asset) => asset.variantId === variant.id)).toBe(true)
+
+    const audit = await repositories.auditLogs('tenant_1').search({ action: 'lp_variant.export', limit: 10 })
+    expect(audit).toHaveLength(1)
+  })
+
+  it('should replace earlier records when the same version is exported again', async () => {
+    const { repositories, deployment, publish, exportVersion } = await setup()
+    await publish()
+
+    await exportVersion()
+    await exportVersion()
+    const stored = await repositories.deployments('tenant_1').findById(deployment.id)
+    expect(stored?.assets).toHaveLength(3)
+  })
+
+  it('should point LP images at the creative URLs rendered for the deployment', async () => {
+    const { env, repositories, runId, cookies, send, variant, publish } = await setup()
+    const created = await send(cookies.owner, 'POST', '/creative-variants', { name: 'Banner A', content: CREATIVE })
+    const creative = (await created.json<{ variant: CreativeVariant }>()).variant
+    await send(cookies.owner, 'POST', `/creative-variants/${creative.id}/submit`)
+    const requested = await send(cookies.owner, 'POST', '/approvals', { targetType: 'creative', targetId: creative.id })
+    const { approval } = await requested.json<{ approval: Approval }>()
+    for (const item of approval.checklist) {
+      await send(cookies.owner, 'PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+    }
+    await send(cookies.owner, 'POST', `/approvals/${approval.id}/approve`, {})
+    await send(cookies.owner, 'POST', `/creative-variants/${creative.id}/versions/1/approve`)
+    await send(cookies.owner, 'POST', `/creative-variants/${creative.id}/versions/1/publish`)
+
+    // 公開と同じく、クリエイティブを描画してからスナップショットを保存する
+    const deps: CreativeRenderDeps = {
+      bucket: env.ASSETS,
+      fetchAsset: async () => null,
+      rasterizer: { toPng: async (svg) => new TextEncoder().encode(svg).buffer },
+    }
+    const started = startDeployment(
+      createDeployment({ runId, tenantId: 'tenant_1', environment: 'production', deployedBy: 'owner_1' })
+    )
+    const rendered = await renderPublishedCreatives(deps, repositories, started, {
+      baseDomain: 'ads.example.com',
+      useHttps: true,
+    })
+    const published = await snapshotDeployment({ bucket: env.ASSETS }, repositories, rendered)
+    await repositories.deployments('tenant_1').create(published)
+
+    // LP は同じホストの配信パスでクリエイティブを参照する
+    const imageUrl = `/creative/tenant_1/${runId}/${creative.id}/4x5`
+    const hero = { id: 'sec_hero', type: 'hero', props: { headline: '春の特別価格', imageUrl } }
+    await send(cookies.owner, 'PUT', `/lp-variants/${variant.id}/content`, {
+      content: { ...CONTENT, sections: [hero, CONTENT.sections[1]] },
+    })
+    await publish()
+
+    const res = await send(cookies.owner, 'POST', `/lp-variants/${variant.id}/versions/1/export`, {
+      deploymentId: published.id,
+    })
+    const outcome = await res.json<LpExportOutcome>()
+    const html = await env.ASSETS.get(outcome.files[0].key)
+    expect(await html?.text()).toContain(
+      `<img src="https://ads.example.com/creative/tenant_1/${runId}/${creative.id}/4x5"`
+    )
+  })
+
+  it('should reject unpublished versions, unknown deployments and non-publishers', async () => {
+    const { cookies, publish, exportVersion } = await setup()
+
+    const unpublished = await exportVersion()
+    expect(unpublished.status).toBe(409)
+    expect((await unpublished.json<{ error: string }>()).error).toBe('Version has not been published')
+
+    await publish()
+    expect((await exportVersion(cookies.owner, 'deploy_missing')).status).toBe(404)
+    expect((await exportVersion(cookies.reviewer)).status).toBe(403)
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import type { Approval } from '../../src/domain/approval'
+import type { LpContent, LpVariant } from '../../src/domain/lp-variant'
+import { createPixelConfig } from '../../src/domain/measurement'
+import { lpCacheKey } from '../../src/services/lp-runtime'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+const CONTENT: LpContent = {
+  title: 'Spring Sale',
+  sections: [
+    { id: 'sec_hero', type: 'hero', props: { headline: '春の特別価格' } },
+    { id: 'sec_cta', type: 'cta', props: { label: '申し込む', url: 'https://example.com/apply' } },
+  ],
+}
+
+async function setup() {
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'owner_1', 'owner')
+    .run('spring', { tenantId: 'tenant_1', status: 'live' })
+    .build()
+  const app = createApp(() => fixture.repositories)
+  const runId = fixture.runs.spring.id
+  const cookie = await createSessionCookie(fixture.env, 'owner_1')
+
+  const send = (method: string, path: string, body?: unknown) =>
+    app.request(
+      `/tenants/tenant_1/runs/${runId}${path}`,
+      {
+        method,
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      fixture.env
+    )
+
+  // 承認依頼を出してチェックリストを埋め、承認する
+  const signOff = async (targetId: string) => {
+    const requested = await send('POST', '/approvals', { targetType: 'lp', targetId })
+    const { approval } = await requested.json<{ approval: Approval }>()
+    for (const item of approval.checklist) {
+      await send('PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+    }
+    await send('POST', `/approvals/${approval.id}/approve`, {})
+  }
+
+  const publish = async (variantId: string, version: number) => {
+    await send('POST', `/lp-variants/${variantId}/submit`)
+    await signOff(variantId)
+    await send('POST', `/lp-variants/${variantId}/versions/${version}/approve`)
+    return send('POST', `/lp-variants/${variantId}/versions/${version}/publish`)
+  }
+
+  const created = await send('POST', '/lp-variants', { name: 'Variant A', content: CONTENT })
+  const { variant } = await created.json<{ variant: LpVariant }>()
+  const view = () => app.request(`/lp/tenant_1/${runId}/${variant.id}`, {}, fixture.env)
+
+  return { ...fixture, runId, send, publish, variant, view }
+}
+
+describe('LP Runtime (API)', () => {
+  it('should serve only published variants', async () => {
+    const { publish, variant, view } = await setup()
+    expect((await view()).status).toBe(404)
+
+    await publish(variant.id, 1)
+    const res = await view()
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toContain('text/html')
+    expect(await res.text()).toContain('<h1>春の特別価格</h1>')
+  })
+
+  it('should serve from the KV cache and refresh it when a new version is published', async () => {
+    const { env, runId, send, publish, variant, view } = await setup()
+    await publish(variant.id, 1)
+    await view()
+    expect(await env.CACHE.get(lpCacheKey('tenant_1', runId, variant.id))).not.toBeNull()
+
+    await send('PUT', `/lp-variants/${variant.id}/content`, { content: { ...CONTENT, title: 'Version 2' } })
+    expect(await (await view()).text()).toContain('<title>Spring Sale</title>')
+
+    await publish(variant.id, 2)
+    expect(await (await view()).text()).toContain('<title>Version 2</title>')
+  })
+
+  it('should inject the run pixels without authentication', async () => {
+    const { send, publish, variant, view } = await setup()
+    await publish(variant.id, 1)
+    await view()
+
+    const patched = await send('PATCH', '', { pixels: [createPixelConfig('run', 'meta', '1234567890')] })
+    expect(patched.status).toBe(200)
+    expect(await (await view()).text()).toContain("fbq('init', '1234567890');")
+
+    const invalid = await send('PATCH', '', { pixels: [createPixelConfig('run', 'meta', '<script>')] })
+    expect(invalid.status).toBe(400)
+  })
+
+  it('should stop serving archived runs', async () => {
+    const { store, runId, publish, variant, view } = await setup()
+    await publish(variant.id, 1)
+    const run = store.runs.get(runId)!
+    store.runs.set(runId, { ...run, status: 'archived' })
+
+    expect((await view()).status).toBe(404)
+  })
+})
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import type { Approval } from '../../src/domain/approval'
+import type { LpContent, LpContentDiff, LpVariant, LpVariantVersion } from '../../src/domain/lp-variant'
+import { createProject, type Project } from '../../src/domain/tenancy'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+const CONTENT: LpContent = {
+  title: 'Spring Sale',
+  sections: [
+    { id: 'sec_hero', type: 'hero', props: { headline: '春の特別価格' } },
+    { id: 'sec_cta', type: 'cta', props: { label: '申し込む', url: 'https://example.com/apply' } },
+  ],
+}
+
+type Change = { variant: LpVariant; version: LpVariantVersion }
+
+async function setup(project?: Project) {
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'operator_1', 'operator')
+    .member('tenant_1', 'reviewer_1', 'reviewer')
+    .run('spring', { tenantId: 'tenant_1', projectId: project?.id, status: 'live' })
+    .build()
+  if (project) await fixture.repositories.projects('tenant_1').create(project)
+  const app = createApp(() => fixture.repositories)
+  const base = `/tenants/tenant_1/runs/${fixture.runs.spring.id}`
+  const cookies = {
+    operator: await createSessionCookie(fixture.env, 'operator_1'),
+    reviewer: await createSessionCookie(fixture.env, 'reviewer_1'),
+  }
+
+  const send = (cookie: string, method: string, path: string, body?: unknown) =>
+    app.request(
+      `${base}${path}`,
+      {
+        method,
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      fixture.env
+    )
+
+  const create = async () => {
+    const res = await send(cookies.operator, 'POST', '/lp-variants', { name: 'Variant A', content: CONTENT })
+    return (await res.json<Change>()).variant
+  }
+
+  // バリアントの承認依頼を出してチェックリストを埋め、承認する
+  const signOff = async (targetId: string) => {
+    const requested = await send(cookies.operator, 'POST', '/approvals', { targetType: 'lp', targetId })
+    const { approval } = await requested.json<{ approval: Approval }>()
+    for (const item of approval.checklist) {
+      await send(cookies.reviewer, 'PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+    }
+    return send(cookies.reviewer, 'POST', `/approvals/${approval.id}/approve`, {})
+  }
+
+  return { ...fixture, send, cookies, create, signOff }
+}
+
+describe('LP Variant Service (API)', () => {
+  it('should take a variant through submit, approve and publish', async () => {
+    const { send, cookies, create, signOff, repositories } = await setup()
+    const variant = await create()
+
+    expect((await send(cookies.operator, 'POST', `/lp-variants/${variant.id}/submit`)).status).toBe(200)
+    expect((await send(cookies.operator, 'POST', `/lp-variants/${variant.id}/versions/1/approve`)).status).toBe(403)
+    // 承認（Approval）が無い版は承認も公開もできない
+    const unapproved = await send(cookies.reviewer, 'POST', `/lp-variants/${variant.id}/versions/1/approve`)
+    expect(unapproved.status).toBe(409)
+    expect((await unapproved.json<{ error: string }>()).error).toBe('Version content has no approved approval')
+    expect((await send(cookies.operator, 'POST', `/lp-variants/${variant.id}/versions/1/publish`)).status).toBe(409)
+
+    expect((await signOff(variant.id)).status).toBe(200)
+    expect((await send(cookies.reviewer, 'POST', `/lp-variants/${variant.id}/versions/1/approve`)).status).toBe(200)
+
+    const published = await send(cookies.operator, 'POST', `/lp-variants/${variant.id}/versions/1/publish`)
+    expect((await published.json<Change>()).variant).toMatchObject({ status: 'published', publishedVersion: 1 })
+
+    const audit = await repositories.auditLogs('tenant_1').search({ action: 'lp_variant.*', limit: 10 })
+    expect(audit.map((log) => log.action).reverse()).toEqual([
+      'lp_variant.create',
+      'lp_variant.submit',
+      'lp_variant.approve',
+      'lp_variant.publish',
+    ])
+  })
+
+  it('should refuse to publish an LP without the required disclaimers of the project', async () => {
+    const project = createProject({
+      tenantId: 'tenant_1',
+      name: 'Spring',
+      createdBy: 'operator_1',
+      disclaimerTemplates: [{ name: '個人差', text: '※効果には個人差があります', required: true }],
+    })
+    const { send, cookies, create, signOff } = await setup(project)
+    const publish = async (variantId: string, version: number) => {
+      await send(cookies.operator, 'POST', `/lp-variants/${variantId}/submit`)
+      await signOff(variantId)
+      await send(cookies.reviewer, 'POST', `/lp-variants/${variantId}/versions/${version}/approve`)
+      return send(cookies.operator, 'POST', `/lp-variants/${variantId}/versions/${version}/publish`)
+    }
+    const variant = await create()
+
+    const missing = await publish(variant.id, 1)
+    expect(missing.status).toBe(409)
+    expect((await missing.json<{ error: string }>()).error).toBe('LP is missing required disclaimers: 個人差')
+
+    const note = { id: 'sec_note', type: 'disclaimer', props: { text: '※効果には 個人差があります' } }
+    await send(cookies.operator, 'PUT', `/lp-variants/${variant.id}/content`, {
+      content: { ...CONTENT, sections: [...CONTENT.sections, note] },
+    })
+    expect((await publish(variant.id, 2)).status).toBe(200)
+  })
+
+  it('should keep every version, diff them and roll back to an earlier one', async () => {
+    const { send, cookies, create } = await setup()
+    const variant = await create()
+    await send(cookies.operator, 'POST', `/lp-variants/${variant.id}/submit`)
+
+    const edited = { ...CONTENT, title: 'Spring Sale 2' }
+    const saved = await send(cookies.operator, 'PUT', `/lp-variants/${variant.id}/content`, { content: edited })
+    expect((await saved.json<Change>()).version).toMatchObject({ version: 2, status: 'draft' })
+
+    const diff = await send(cookies.reviewer, 'GET', `/lp-variants/${variant.id}/diff?from=1`)
+    expect(await diff.json<{ to: number; diff: LpContentDiff }>()).toMatchObject({
+      to: 2,
+      diff: { changed: true, meta: [{ path: 'title', before: 'Spring Sale', after: 'Spring Sale 2' }] },
+    })
+
+    const rolledBack = await send(cookies.operator, 'POST', `/lp-variants/${variant.id}/rollback`, { version: 1 })
+    expect(rolledBack.status).toBe(201)
+    expect((await rolledBack.json<Change>()).version).toMatchObject({ version: 3, restoredFrom: 1 })
+
+    const detail = await send(cookies.reviewer, 'GET', `/lp-variants/${variant.id}`)
+    const body = await detail.json<{ variant: LpVariant; versions: LpVariantVersion[] }>()
+    expect(body.versions.map((v) => [v.version, v.status])).toEqual([
+      [1, 'submitted'],
+      [2, 'draft'],
+      [3, 'draft'],
+    ])
+    expect(body.variant.content).toEqual(CONTENT)
+  })
+
+  it('should return an approved LP to pending review when its content changes', async () => {
+    const { send, cookies, create, repositories } = await setup()
+    const variant = await create()
+
+    const requested = await send(cookies.operator, 'POST', '/approvals', { targetType: 'lp', targetId: variant.id })
+    const { approval } = await requested.json<{ approval: Approval }>()
+    expect(approval.contentHash).toMatch(/^[0-9a-f]{64}$/)
+    for (const item of approval.checklist) {
+      await send(cookies.reviewer, 'PATCH', `/approvals/${approval.id}/checklist/${item.id}`, { checked: true })
+    }
+    await send(cookies.reviewer, 'POST', `/approvals/${approval.id}/approve`, {})
+
+    await send(cookies.operator, 'PUT', `/lp-variants/${variant.id}/content`, { content: CONTENT })
+    expect((await repositories.approvals('tenant_1').findById(approval.id))?.status).toBe('approved')
+
+    await send(cookies.operator, 'PUT', `/lp-variants/${variant.id}/content`, {
+      content: { ...CONTENT, title: 'Changed' },
+    })
+    expect((await repositories.approvals('tenant_1').findById(approval.id))?.status).toBe('pending')
+  })
+
+  it('should reject invalid submissions and unknown variants', async () => {
+    const { send, cookies } = await setup()
+    const res = await send(cookies.operator, 'POST', '/lp-variants', { name: 'Empty' })
+    const { variant } = await res.json<Change>()
+
+    const submitted = await send(cookies.operator, 'POST', `/lp-variants/${variant.id}/submit`)
+    expect(submitted.status).toBe(409)
+    expect((await submitted.json<{ error: string }>()).error).toContain('Section hero is required')
+
+    expect((await send(cookies.operator, 'GET', '/lp-variants/lpv_missing')).status).toBe(404)
+    expect((await send(cookies.operator, 'POST', '/approvals', { targetType: 'lp', targetId: 'lpv_x' })).status).toBe(
+      404
+    )
+  })
+})
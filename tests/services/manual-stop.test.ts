@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  escalateManualStops,
+  confirmManualStopTask,
+  type ManualStopDeps,
+} from '../../src/services/manual-stop'
+import {
+  createManualStopTask,
+  escalateManualStopTask,
+  type ManualStopTask,
+} from '../../src/domain/manual-stop'
+import { createRun, transitionRun, type Run } from '../../src/domain/run'
+import type { Notification } from '../../src/domain/notification'
+import type { StopEvent } from '../../src/domain/stop-event'
+import type { AuditLogInput } from '../../src/domain/audit'
+import type { RunStateClient } from '../../src/durable-objects/run-state'
+
+const CREATED_AT = new Date('2025-01-15T12:00:00.000Z')
+
+const run = createRun({ tenantId: 'tenant_1', projectId: 'proj_1', name: 'Spring Campaign', createdBy: 'user_1' })
+
+const stopEvent: StopEvent = {
+  id: 'stop_1',
+  tenantId: 'tenant_1',
+  runId: run.id,
+  source: 'cron',
+  reason: 'rule_triggered',
+  condition: '総額上限（閾値: 1000 / 実績: 1200）',
+  ambiguities: [],
+  affectedEntities: [
+    {
+      entityId: 'camp_1',
+      entityType: 'campaign',
+      metaId: '1201',
+      paused: false,
+      errorCode: 100,
+      errorMessage: 'Invalid parameter',
+      isTransient: false,
+    },
+  ],
+  pauseResult: 'manual_fallback_required',
+  runStatusBefore: 'running',
+  runStatusAfter: 'paused',
+  occurredAt: CREATED_AT.toISOString(),
+}
+
+function createFakeDeps(initial: ManualStopTask, initialRun: Run = run) {
+  const tasks = new Map([[initial.id, initial]])
+  const notifications: Notification[] = []
+  const entityStatuses = new Map<string, string>()
+  const audits: AuditLogInput[] = []
+  const savedRuns: Run[] = []
+  let current = initialRun
+  const runState = {
+    getRun: async () => ({ ok: true, status: 200, data: current }),
+    initRun: async () => ({ ok: true, status: 200, data: current }),
+    transition: async (request) => {
+      current = transitionRun(current, request)
+      return { ok: true, status: 200, data: current }
+    },
+  } as RunStateClient
+
+  const deps: ManualStopDeps = {
+    getRun: async () => current,
+    saveRun: async (r) => {
+      savedRuns.push(r)
+    },
+    runState: () => runState,
+    saveMetaEntityStatus: async (_tenantId, id, status) => {
+      entityStatuses.set(id, status)
+    },
+    listNotificationRecipients: async () => [{ type: 'user', target: 'user_1' }],
+    saveNotification: async (n) => {
+      notifications.push(n)
+    },
+    listDueTasks: async () => [...tasks.values()],
+    getTask: async (tenantId, taskId) => {
+      const task = tasks.get(taskId)
+      return task && task.tenantId === tenantId ? task : null
+    },
+    updateTask: async (task) => {
+      tasks.set(task.id, task)
+    },
+    recordAudit: async (input) => {
+      audits.push(input)
+    },
+  }
+
+  return { deps, tasks, notifications, entityStatuses, audits, savedRuns }
+}
+
+describe('Manual Stop Service', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe('escalateManualStops', () => {
+    it('should re-notify pending tasks until confirmed', async () => {
+      const task = escalateManualStopTask(createManualStopTask(stopEvent, CREATED_AT), CREATED_AT)
+      const { deps, tasks, notifications } = createFakeDeps(task)
+
+      const outcomes = await escalateManualStops(deps, new Date('2025-01-15T13:00:00.000Z'))
+
+      expect(outcomes).toEqual([
+        expect.objectContaining({ taskId: task.id, escalationLevel: 2 }),
+      ])
+      expect(tasks.get(task.id)?.nextEscalationAt).toBe('2025-01-15T14:00:00.000Z')
+      expect(notifications.every((n) => n.type === 'manual_stop_required')).toBe(true)
+      expect(notifications[0].message).toContain('2回目')
+    })
+
+    it('should skip tasks that are not yet due', async () => {
+      const task = escalateManualStopTask(createManualStopTask(stopEvent, CREATED_AT), CREATED_AT)
+      const { deps, notifications } = createFakeDeps(task)
+
+      const outcomes = await escalateManualStops(deps, new Date('2025-01-15T12:30:00.000Z'))
+
+      expect(outcomes).toHaveLength(0)
+      expect(notifications).toHaveLength(0)
+    })
+
+    it('should capture errors per task', async () => {
+      const task = createManualStopTask(stopEvent, CREATED_AT)
+      const { deps } = createFakeDeps(task)
+      deps.saveNotification = async () => {
+        throw new Error('D1 unavailable')
+      }
+
+      const outcomes = await escalateManualStops(deps, CREATED_AT)
+
+      expect(outcomes[0].error).toBe('D1 unavailable')
+    })
+  })
+
+  describe('confirmManualStopTask', () => {
+    it('should record confirmer and mark entities paused', async () => {
+      const task = createManualStopTask(stopEvent, CREATED_AT)
+      const { deps, tasks, entityStatuses, audits } = createFakeDeps(task)
+
+      const confirmed = await confirmManualStopTask(deps, 'tenant_1', task.id, 'user_2', 'Stopped in Ads Manager')
+
+      expect(confirmed?.status).toBe('confirmed')
+      expect(tasks.get(task.id)?.confirmedBy).toBe('user_2')
+      expect(entityStatuses.get('camp_1')).toBe('PAUSED')
+      expect(audits[0]).toMatchObject({ actorId: 'user_2', action: 'manual_stop_task.confirm', targetId: task.id })
+    })
+
+    it('should pause the run once the manual stop is confirmed', async () => {
+      const task = createManualStopTask(stopEvent, CREATED_AT)
+      const { deps, savedRuns } = createFakeDeps(task, { ...run, status: 'running' })
+
+      await confirmManualStopTask(deps, 'tenant_1', task.id, 'user_2')
+
+      expect(savedRuns[0].status).toBe('paused')
+      expect(savedRuns[0].history.at(-1)?.reason).toBe('Manual stop confirmed by user_2')
+    })
+
+    it('should return null for tasks of another tenant', async () => {
+      const task = createManualStopTask(stopEvent, CREATED_AT)
+      const { deps } = createFakeDeps(task)
+
+      expect(await confirmManualStopTask(deps, 'tenant_2', task.id, 'user_2')).toBeNull()
+    })
+  })
+})
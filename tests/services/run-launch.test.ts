@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest'
+import { createApp } from '../../src/app'
+import type { Run } from '../../src/domain/run'
+import { archiveProject, createProject } from '../../src/domain/tenancy'
+import { createRunStateClient } from '../../src/durable-objects/run-state'
+import { createSessionCookie, FixtureBuilder } from '../fixtures/builder'
+
+async function setup() {
+  const fixture = new FixtureBuilder()
+    .member('tenant_1', 'owner_1', 'owner')
+    .member('tenant_1', 'operator_1', 'operator')
+    .member('tenant_1', 'reviewer_1', 'reviewer')
+    .member('tenant_1', 'viewer_1', 'viewer')
+    .build()
+  const project = createProject({ tenantId: 'tenant_1', name: 'Spring', createdBy: 'owner_1' })
+  await fixture.repositories.projects('tenant_1').create(project)
+  const app = createApp(() => fixture.repositories)
+  const cookies = {
+    operator: await createSessionCookie(fixture.env, 'operator_1'),
+    reviewer: await createSessionCookie(fixture.env, 'reviewer_1'),
+    viewer: await createSessionCookie(fixture.env, 'viewer_1'),
+  }
+
+  const send = (cookie: string, method: string, path: string, body?: unknown) =>
+    app.request(
+      `/tenants/tenant_1/runs${path}`,
+      {
+        method,
+        headers: { 'Content-Type': 'application/json', Cookie: cookie },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      fixture.env
+    )
+
+  const create = async () => {
+    const res = await send(cookies.operator, 'POST', '', { projectId: project.id, name: 'Spring Sale' })
+    return (await res.json<{ run: Run }>()).run
+  }
+
+  // 設計→生成→レビュー待ちまで進める
+  const toReview = async (runId: string) => {
+    for (const to of ['designing', 'generating', 'ready_for_review']) {
+      expect((await send(cookies.operator, 'POST', `/${runId}/transitions`, { to })).status).toBe(200)
+    }
+  }
+
+  return { ...fixture, project, send, cookies, create, toReview }
+}
+
+describe('Run Lifecycle (API)', () => {
+  it('should create a draft run in a project and audit it', async () => {
+    const { send, cookies, project, repositories } = await setup()
+
+    const res = await send(cookies.operator, 'POST', '', { projectId: project.id, name: ' Spring Sale ' })
+    expect(res.status).toBe(201)
+    const { run } = await res.json<{ run: Run }>()
+    expect(run).toMatchObject({ projectId: project.id, name: 'Spring Sale', status: 'draft', createdBy: 'operator_1' })
+    expect((await send(cookies.viewer, 'GET', `/${run.id}`)).status).toBe(200)
+
+    const audit = await repositories.auditLogs('tenant_1').search({ action: 'run.create', limit: 1 })
+    expect(audit[0]).toMatchObject({ actorId: 'operator_1', targetId: run.id })
+  })
+
+  it('should validate the project and the run request', async () => {
+    const { send, cookies, project, repositories } = await setup()
+
+    expect((await send(cookies.operator, 'POST', '', { projectId: 'proj_missing', name: 'x' })).status).toBe(404)
+    const invalid = await send(cookies.operator, 'POST', '', {
+      projectId: project.id,
+      name: '',
+      destinationUrl: 'http://example.com',
+    })
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json<{ error: string }>()).error).toBe(
+      'Run name is required, Destination URL must be an https URL'
+    )
+
+    await repositories.projects('tenant_1').update(archiveProject(project))
+    expect((await send(cookies.operator, 'POST', '', { projectId: project.id, name: 'x' })).status).toBe(409)
+    expect((await send(cookies.viewer, 'POST', '', { projectId: project.id, name: 'x' })).status).toBe(403)
+  })
+
+  it('should let only reviewers and owners approve a run ready for review', async () => {
+    const { send, cookies, create, toReview, repositories } = await setup()
+    const run = await create()
+    await toReview(run.id)
+
+    const bypass = await send(cookies.operator, 'POST', `/${run.id}/transitions`, { to: 'approved' })
+    expect(bypass.status).toBe(403)
+    expect((await send(cookies.operator, 'POST', `/${run.id}/approve`, {})).status).toBe(403)
+
+    const approved = await send(cookies.reviewer, 'POST', `/${run.id}/approve`, {})
+    expect(approved.status).toBe(200)
+    expect((await approved.json<{ run: Run }>()).run).toMatchObject({ status: 'approved', approvedBy: 'reviewer_1' })
+
+    for (const to of ['publishing', 'live']) {
+      expect((await send(cookies.operator, 'POST', `/${run.id}/transitions`, { to })).status).toBe(200)
+    }
+    const stored = await repositories.runs('tenant_1').findById(run.id)
+    expect(stored?.history.map((entry) => [entry.to, entry.actorRole])).toEqual([
+      ['designing', 'operator'],
+      ['generating', 'operator'],
+      ['ready_for_review', 'operator'],
+      ['approved', 'reviewer'],
+      ['publishing', 'operator'],
+      ['live', 'operator'],
+    ])
+
+    const audit = await repositories.auditLogs('tenant_1').search({ action: 'run.transition', limit: 10 })
+    expect(audit).toHaveLength(6)
+  })
+
+  it('should transition the Durable Object run without dropping its lease or the run settings', async () => {
+    const { send, cookies, create, env, repositories } = await setup()
+    const run = await create()
+    expect((await send(cookies.operator, 'POST', `/${run.id}/transitions`, { to: 'designing' })).status).toBe(200)
+
+    const patched = await send(cookies.operator, 'PATCH', `/${run.id}`, { destinationUrl: 'https://example.com/b' })
+    expect(patched.status).toBe(200)
+    const runState = createRunStateClient(env.RUN_STATE, run.id)
+    expect((await runState.getRun()).data).toMatchObject({
+      status: 'designing',
+      destinationUrl: 'https://example.com/b',
+    })
+
+    // 停止判定のリースを保持している間は遷移できず、リースも残る
+    const lease = await runState.acquireLease('system:auto-stop', 'auto_stop_evaluation')
+    expect((await send(cookies.operator, 'POST', `/${run.id}/transitions`, { to: 'generating' })).status).toBe(409)
+    expect((await runState.acquireLease('api', 'transition')).data).toMatchObject({ acquired: false })
+
+    await runState.releaseLease(lease.data.lease!.id)
+    expect((await send(cookies.operator, 'POST', `/${run.id}/transitions`, { to: 'generating' })).status).toBe(200)
+    const stored = await repositories.runs('tenant_1').findById(run.id)
+    expect(stored).toMatchObject({ status: 'generating', destinationUrl: 'https://example.com/b' })
+  })
+
+  it('should send a run back to design with a reason', async () => {
+    const { send, cookies, create, toReview } = await setup()
+    const run = await create()
+
+    expect((await send(cookies.reviewer, 'POST', `/${run.id}/send-back`, { reason: 'Fix copy' })).status).toBe(409)
+    await toReview(run.id)
+    expect((await send(cookies.reviewer, 'POST', `/${run.id}/send-back`, {})).status).toBe(400)
+
+    const sentBack = await send(cookies.reviewer, 'POST', `/${run.id}/send-back`, { reason: 'Fix copy' })
+    expect(sentBack.status).toBe(200)
+    expect((await sentBack.json<{ run: Run }>()).run.status).toBe('designing')
+  })
+
+  it('should refuse invalid and delivery transitions', async () => {
+    const { send, cookies, create } = await setup()
+    const run = await create()
+
+    const skipped = await send(cookies.operator, 'POST', `/${run.id}/transitions`, { to: 'live' })
+    expect(skipped.status).toBe(422)
+    expect((await skipped.json<{ error: string }>()).error).toBe('Invalid transition: draft -> live')
+    expect((await send(cookies.operator, 'POST', `/${run.id}/transitions`, { to: 'running' })).status).toBe(422)
+    expect((await send(cookies.operator, 'POST', `/${run.id}/transitions`, {})).status).toBe(400)
+    expect((await send(cookies.operator, 'POST', '/run_missing/transitions', { to: 'designing' })).status).toBe(404)
+  })
+})
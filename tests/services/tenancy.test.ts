@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import {
+  acceptInvitationToken,
+  createTenantWithOwner,
+  issueInvitation,
+  removeMember,
+  revokeTenantInvitation,
+  updateMemberRole,
+} from '../../src/services/tenancy'
+import { createInMemoryRepositories } from '../../src/repositories/in-memory'
+
+const NOW = new Date('2025-01-15T12:00:00.000Z')
+
+async function setup() {
+  const repositories = createInMemoryRepositories()
+  const { tenant, ownerMembership } = await createTenantWithOwner(
+    repositories,
+    { name: 'Acme', slug: 'acme', ownerId: 'owner_1' },
+    NOW
+  )
+  return { repositories, tenant, ownerMembership }
+}
+
+describe('Tenancy Service', () => {
+  it('should create a tenant with its owner and reject duplicate slugs', async () => {
+    const { repositories, tenant } = await setup()
+
+    expect((await repositories.tenants().findBySlug('acme'))?.id).toBe(tenant.id)
+    expect(await repositories.memberships(tenant.id).listUserIdsByRoles(['owner'])).toEqual(['owner_1'])
+    await expect(
+      createTenantWithOwner(repositories, { name: 'Other', slug: 'acme', ownerId: 'owner_2' })
+    ).rejects.toThrow('Slug is already taken')
+  })
+
+  it('should store only the token hash and accept by token', async () => {
+    const { repositories, tenant } = await setup()
+    const { invitation, token } = await issueInvitation(
+      repositories,
+      { tenantId: tenant.id, email: 'new@example.com', role: 'operator', invitedBy: 'owner_1' },
+      NOW
+    )
+
+    const stored = await repositories.invitations(tenant.id).findById(invitation.id)
+    expect(stored?.tokenHash).not.toBe(token)
+    // 招待されたメールはマジックリンクでログインできる
+    expect(await repositories.users().findByEmail('new@example.com')).not.toBeNull()
+
+    const accepted = await acceptInvitationToken(repositories, tenant.id, token, 'user_2', NOW)
+    expect(accepted?.membership.role).toBe('operator')
+    expect((await repositories.invitations(tenant.id).findById(invitation.id))?.status).toBe('accepted')
+    expect(await repositories.memberships(tenant.id).findByUserId('user_2')).not.toBeNull()
+  })
+
+  it('should not accept tokens from another tenant or unknown tokens', async () => {
+    const { repositories, tenant } = await setup()
+    const { token } = await issueInvitation(
+      repositories,
+      { tenantId: tenant.id, email: 'new@example.com', role: 'viewer', invitedBy: 'owner_1' },
+      NOW
+    )
+
+    expect(await acceptInvitationToken(repositories, 'tenant_other', token, 'user_2', NOW)).toBeNull()
+    expect(await acceptInvitationToken(repositories, tenant.id, 'bogus', 'user_2', NOW)).toBeNull()
+  })
+
+  it('should refuse invitations for existing members and revoked invitations', async () => {
+    const { repositories, tenant } = await setup()
+    const request = { tenantId: tenant.id, email: 'new@example.com', role: 'viewer' as const, invitedBy: 'owner_1' }
+    const first = await issueInvitation(repositories, request, NOW)
+    const second = await issueInvitation(repositories, request, NOW)
+
+    await expect(acceptInvitationToken(repositories, tenant.id, first.token, 'owner_1', NOW)).rejects.toThrow(
+      'already a member'
+    )
+
+    await revokeTenantInvitation(repositories, tenant.id, second.invitation.id, 'owner_1')
+    await expect(acceptInvitationToken(repositories, tenant.id, second.token, 'user_3', NOW)).rejects.toThrow(
+      'Invitation is revoked'
+    )
+  })
+
+  it('should keep the last owner when changing roles or removing members', async () => {
+    const { repositories, tenant, ownerMembership } = await setup()
+
+    await expect(updateMemberRole(repositories, tenant.id, ownerMembership.id, 'viewer', 'owner_1')).rejects.toThrow(
+      'at least one owner'
+    )
+    await expect(removeMember(repositories, tenant.id, ownerMembership.id, 'owner_1')).rejects.toThrow(
+      'at least one owner'
+    )
+    expect(await removeMember(repositories, tenant.id, 'mem_missing', 'owner_1')).toBe(false)
+  })
+})